@@ -66,3 +66,17 @@ Object.defineProperty(global, 'performance', {
     },
   },
 })
+
+// Mock structuredClone (missing from jsdom, required by fake-indexeddb)
+if (typeof global.structuredClone !== 'function') {
+  global.structuredClone = function structuredClone(value) {
+    if (value instanceof Date) return new Date(value.getTime())
+    if (Array.isArray(value)) return value.map(structuredClone)
+    if (value && typeof value === 'object') {
+      const copy = {}
+      for (const key of Object.keys(value)) copy[key] = structuredClone(value[key])
+      return copy
+    }
+    return value
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Local WebSocket relay for collaborative editing
+ * Forwards every message to the other sockets in the same `?room=`. It keeps no plan
+ * state: clients merge edits themselves (see src/lib/collab.ts).
+ *
+ * Usage: npm run collab:relay -- --port 4455
+ */
+
+import { WebSocketServer } from 'ws';
+
+const portArg = process.argv.indexOf('--port');
+const port = Number(portArg > -1 ? process.argv[portArg + 1] : process.env.PORT) || 4455;
+
+const rooms = new Map();
+const server = new WebSocketServer({ port });
+
+function broadcast(room, sender, data) {
+  for (const peer of rooms.get(room) ?? []) {
+    if (peer !== sender && peer.readyState === peer.OPEN) peer.send(data);
+  }
+}
+
+server.on('connection', (socket, request) => {
+  const room = new URL(request.url ?? '/', 'http://relay').searchParams.get('room') || 'default';
+  const members = rooms.get(room) ?? new Set();
+  rooms.set(room, members);
+  members.add(socket);
+  let member = null;
+
+  socket.on('message', (raw) => {
+    const data = raw.toString();
+    try {
+      member = JSON.parse(data).from ?? member;
+    } catch {
+      return;
+    }
+    broadcast(room, socket, data);
+  });
+
+  socket.on('close', () => {
+    members.delete(socket);
+    if (members.size === 0) rooms.delete(room);
+    // Tell the room a member dropped, even if they never said goodbye
+    if (member) broadcast(room, socket, JSON.stringify({ kind: 'presence', from: member, presence: null }));
+  });
+});
+
+server.on('listening', () => {
+  console.log(`Collaboration relay listening on ws://localhost:${port}`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
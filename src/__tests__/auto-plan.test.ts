@@ -0,0 +1,107 @@
+/**
+ * Auto-plan tests
+ * Constraint search over the tray: fixed times, bounds, meals, rest gaps and energy
+ */
+
+import { autoPlan, guessMeal, type PlanItem } from '../lib/auto-plan';
+import type { WeekendActivity } from '../lib/persistence';
+import { dayHours, toMinutes } from '../lib/time';
+import { DEFAULT_DAY_RANGE, weekendDays } from '../lib/weekends';
+import { conflictFree } from './helpers/activities';
+
+const days = weekendDays(DEFAULT_DAY_RANGE);
+const hours = dayHours('08:00', '22:00');
+
+function item(id: string, durationMins: number, extra: Partial<PlanItem> = {}): PlanItem {
+  return { id, title: id, category: 'other', durationMins, ...extra };
+}
+
+function find(plan: { placed: WeekendActivity[] }, title: string) {
+  return plan.placed.find(a => a.title === title)!;
+}
+
+describe('autoPlan', () => {
+  const scheduled: WeekendActivity[] = [
+    { id: 's1', title: 'Soccer', category: 'fitness', day: 'saturday', start: '09:00', durationMins: 120 },
+  ];
+
+  it('places every item around what is already scheduled', () => {
+    const items = [item('hike', 150), item('museum', 120), item('movie', 120), item('cafe', 90)];
+    const plans = autoPlan(items, scheduled, { days, hours });
+    expect(plans.length).toBeGreaterThan(0);
+    for (const plan of plans) {
+      expect(plan.unplaced).toEqual([]);
+      expect(plan.placed).toHaveLength(4);
+      expect(plan.activities).toContainEqual(scheduled[0]);
+      expect(conflictFree(plan.activities)).toBe(true);
+    }
+  });
+
+  it('offers distinct alternatives, best first', () => {
+    const plans = autoPlan([item('hike', 150), item('cafe', 90), item('brunch', 90, { meal: 'brunch' })], [], { days, hours });
+    expect(plans.map(p => p.label)).toEqual(expect.arrayContaining(['Balanced']));
+    expect(new Set(plans.map(p => p.placed.map(a => `${a.day}${a.start}`).join()))).toHaveProperty('size', plans.length);
+    expect(plans.map(p => p.score)).toEqual([...plans.map(p => p.score)].sort((a, b) => a - b));
+  });
+
+  it('keeps fixed times and bounds', () => {
+    const [plan] = autoPlan(
+      [item('dinner', 90, { fixed: { day: 'sunday', start: '19:00' } }), item('walk', 60, { earliestMins: 16 * 60, latestMins: 18 * 60, days: ['saturday'] })],
+      scheduled,
+      { days, hours }
+    );
+    expect(find(plan, 'dinner')).toMatchObject({ day: 'sunday', start: '19:00' });
+    const walk = find(plan, 'walk');
+    expect(walk.day).toBe('saturday');
+    expect(toMinutes(walk.start)).toBeGreaterThanOrEqual(16 * 60);
+    expect(toMinutes(walk.start) + 60).toBeLessThanOrEqual(18 * 60);
+  });
+
+  it('fits meals in their windows', () => {
+    for (const plan of autoPlan([item('lunch', 60, { meal: 'lunch' }), item('long', 300)], [], { days, hours })) {
+      const lunch = find(plan, 'lunch');
+      expect(toMinutes(lunch.start)).toBeGreaterThanOrEqual(11 * 60 + 30);
+      expect(toMinutes(lunch.start) + 60).toBeLessThanOrEqual(14 * 60 + 30);
+    }
+  });
+
+  it('leaves a rest gap after hard activities', () => {
+    const saturdayOnly: PlanItem['days'] = ['saturday'];
+    const plans = autoPlan(
+      [item('climb', 120, { difficulty: 'hard', fixed: { day: 'saturday', start: '10:00' } }), item('cafe', 60, { days: saturdayOnly, latestMins: 14 * 60 })],
+      [],
+      { days, hours, restAfterHardMins: 60 }
+    );
+    for (const plan of plans) {
+      const cafe = find(plan, 'cafe');
+      const start = toMinutes(cafe.start);
+      expect(start + 60 <= 10 * 60 || start >= 13 * 60).toBe(true);
+    }
+  });
+
+  it('keeps the rest gap after hard activities that are already scheduled', () => {
+    const climb: WeekendActivity = { id: 's2', title: 'Climb', category: 'fitness', day: 'saturday', start: '10:00', durationMins: 120, difficulty: 'hard' };
+    const [plan] = autoPlan([item('cafe', 60, { days: ['saturday'], earliestMins: 12 * 60, latestMins: 14 * 60 })], [climb], { days, hours });
+    expect(find(plan, 'cafe').start).toBe('13:00');
+  });
+
+  it('caps energetic minutes per day', () => {
+    const items = [item('a', 120, { mood: 'energetic' }), item('b', 120, { mood: 'energetic' }), item('c', 120, { mood: 'energetic' })];
+    const [plan] = autoPlan(items, [], { days, hours, maxEnergeticMinsPerDay: 150 });
+    expect(plan.placed.filter(a => a.day === 'saturday')).toHaveLength(1);
+    expect(plan.placed.filter(a => a.day === 'sunday')).toHaveLength(1);
+    expect(plan.unplaced.map(i => i.id)).toHaveLength(1);
+  });
+
+  it('reports items that fit nowhere', () => {
+    const [plan] = autoPlan([item('marathon', 20 * 60), item('nap', 60)], [], { days, hours });
+    expect(plan.unplaced.map(i => i.id)).toEqual(['marathon']);
+    expect(plan.placed.map(a => a.title)).toEqual(['nap']);
+  });
+
+  it('guesses meals from titles', () => {
+    expect(guessMeal('Family Brunch')).toBe('brunch');
+    expect(guessMeal('Picnic in the Meadow')).toBe('lunch');
+    expect(guessMeal('Trail Hike')).toBeUndefined();
+  });
+});
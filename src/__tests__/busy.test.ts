@@ -0,0 +1,121 @@
+/**
+ * Busy time tests
+ * Importing .ics calendars, expanding their events into a weekend, and planning around them
+ */
+
+import { autoPlan } from '../lib/auto-plan';
+import { busyAt, busyBlocks, describeBusy, importBusyCalendar, type BusyCalendar } from '../lib/busy';
+import { IcsParseError } from '../lib/ical';
+import type { WeekendActivity } from '../lib/persistence';
+import { expandRoutines } from '../lib/recurrence';
+import { placeTemplate } from '../lib/templates';
+import { DEFAULT_DAY_RANGE, weekendDays } from '../lib/weekends';
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 12, 0));
+const ZONE = 'America/New_York';
+const DAYS: WeekendActivity['day'][] = ['saturday', 'sunday'];
+
+function ics(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'X-WR-CALNAME:Family', ...events.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+}
+
+function calendar(...events: string[][]): BusyCalendar[] {
+  return importBusyCalendar([], ics(...events), 'family.ics', NOW).calendars;
+}
+
+const dentist = ['UID:dentist', 'DTSTART:20261024T190000Z', 'DTEND:20261024T203000Z', 'SUMMARY:Dentist'];
+
+describe('importBusyCalendar', () => {
+  it('names calendars and replaces earlier imports of the same one', () => {
+    const first = importBusyCalendar([], ics(dentist), 'family.ics', NOW);
+    expect(first.calendar).toMatchObject({ name: 'Family', importedAt: NOW.toISOString(), events: [expect.objectContaining({ summary: 'Dentist' })] });
+    const again = importBusyCalendar(first.calendars, ics(), 'family.ics', NOW);
+    expect(again).toMatchObject({ replaced: true, calendars: [{ id: first.calendar.id, events: [] }] });
+
+    const unnamed = importBusyCalendar([], 'BEGIN:VCALENDAR\r\nEND:VCALENDAR', 'Work.ics', NOW);
+    expect(unnamed.calendar.name).toBe('Work');
+  });
+
+  it('refuses files that are not calendars', () => {
+    expect(() => importBusyCalendar([], 'not a calendar', 'notes.ics')).toThrow(IcsParseError);
+  });
+});
+
+describe('busyBlocks', () => {
+  it('puts events at local times on the weekend', () => {
+    expect(busyBlocks(calendar(dentist), '2026-10-24', DAYS, ZONE)).toEqual([
+      expect.objectContaining({ title: 'Dentist', day: 'saturday', start: '15:00', durationMins: 90, allDay: false }),
+    ]);
+    expect(busyBlocks(calendar(dentist), '2026-10-31', DAYS, ZONE)).toEqual([]);
+  });
+
+  it('expands recurring events, leaving out exceptions', () => {
+    const soccer = [
+      'UID:soccer',
+      'DTSTART;TZID=America/New_York:20260905T090000',
+      'DTEND;TZID=America/New_York:20260905T103000',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=SA,SU',
+      'EXDATE;TZID=America/New_York:20261018T090000',
+      'SUMMARY:Soccer',
+    ];
+    const blocks = (weekend: string) => busyBlocks(calendar(soccer), weekend, DAYS, ZONE).map(b => `${b.day} ${b.start}`);
+    expect(blocks('2026-10-17')).toEqual(['saturday 09:00']);
+    expect(blocks('2026-10-24')).toEqual([]);
+    expect(blocks('2026-10-31')).toEqual(['saturday 09:00', 'sunday 09:00']);
+  });
+
+  it('stops recurring events at COUNT and UNTIL, and follows monthly BYDAY', () => {
+    const brunch = ['UID:brunch', 'DTSTART;TZID=America/New_York:20260905T110000', 'DURATION:PT2H', 'RRULE:FREQ=MONTHLY;BYDAY=1SA;COUNT=3', 'SUMMARY:Brunch'];
+    const yoga = ['UID:yoga', 'DTSTART:20261003T130000Z', 'DURATION:PT1H', 'RRULE:FREQ=DAILY;UNTIL=20261024T130000Z', 'SUMMARY:Yoga'];
+    expect(busyBlocks(calendar(brunch), '2026-11-07', DAYS, ZONE)).toHaveLength(1);
+    expect(busyBlocks(calendar(brunch), '2026-12-05', DAYS, ZONE)).toEqual([]);
+    expect(busyBlocks(calendar(yoga), '2026-10-24', DAYS, ZONE).map(b => `${b.day} ${b.start}`)).toEqual(['saturday 09:00']);
+  });
+
+  it('moves changed occurrences of a series', () => {
+    const series = ['UID:piano', 'DTSTART;TZID=America/New_York:20261003T100000', 'DURATION:PT1H', 'RRULE:FREQ=WEEKLY', 'SUMMARY:Piano'];
+    const moved = ['UID:piano', 'RECURRENCE-ID;TZID=America/New_York:20261024T100000', 'DTSTART;TZID=America/New_York:20261025T160000', 'DURATION:PT1H', 'SUMMARY:Piano'];
+    expect(busyBlocks(calendar(series, moved), '2026-10-24', DAYS, ZONE).map(b => `${b.day} ${b.start}`)).toEqual(['sunday 16:00']);
+  });
+
+  it('blocks whole days for all-day and multi-day events', () => {
+    const trip = ['UID:trip', 'DTSTART;VALUE=DATE:20261024', 'DTEND;VALUE=DATE:20261026', 'SUMMARY:Cabin trip'];
+    const party = ['UID:party', 'DTSTART;TZID=America/New_York:20261023T200000', 'DTEND;TZID=America/New_York:20261024T020000', 'SUMMARY:Party'];
+    expect(busyBlocks(calendar(trip), '2026-10-24', DAYS, ZONE)).toEqual([
+      expect.objectContaining({ day: 'saturday', start: '00:00', durationMins: 1440, allDay: true }),
+      expect.objectContaining({ day: 'sunday', start: '00:00', durationMins: 1440, allDay: true }),
+    ]);
+    expect(busyBlocks(calendar(party), '2026-10-24', ['friday', 'saturday'], ZONE).map(b => [b.day, b.start, b.durationMins])).toEqual([
+      ['friday', '20:00', 240],
+      ['saturday', '00:00', 120],
+    ]);
+    // The day the clocks go back is still one day long
+    const berlin = busyBlocks(calendar(trip), '2026-10-24', DAYS, 'Europe/Berlin');
+    expect(berlin[1]).toMatchObject({ day: 'sunday', durationMins: 1440 });
+  });
+});
+
+describe('planning around busy time', () => {
+  const [block] = busyBlocks(calendar(dentist), '2026-10-24', DAYS, ZONE);
+  const ride: WeekendActivity = { id: 'x', title: 'Bike ride', category: 'outdoor', day: 'saturday', start: '15:30', durationMins: 60 };
+
+  it('finds and describes what a placement overlaps', () => {
+    expect(busyAt([block], ride)).toBe(block);
+    expect(busyAt([block], { ...ride, start: '16:30' })).toBeUndefined();
+    expect(describeBusy(block, '24h')).toBe('Dentist, 15:00–16:30');
+  });
+
+  it('keeps templates, auto-plans and routines out of it', () => {
+    const { added } = placeTemplate([], [ride], { strategy: 'replace', busy: [block] });
+    expect(added[0].start).toBe('16:30');
+
+    const [plan] = autoPlan([{ id: 'ride', title: 'Bike ride', category: 'outdoor', durationMins: 60, fixed: { day: 'saturday', start: '15:00' } }], [], {
+      days: weekendDays(DEFAULT_DAY_RANGE),
+      busy: [block],
+    });
+    expect(plan.unplaced).toHaveLength(1);
+
+    const routine = { ...ride, id: 'series', recurrence: { frequency: 'weekly' as const, since: '2026-10-03' } };
+    expect(expandRoutines([routine], '2026-10-24', [], [block]).skipped).toEqual([routine]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * CalDAV sync tests
+ * Publishing plans to a collection and pulling back edits and deletions,
+ * against an in-process CalDAV server
+ */
+
+import { HttpCalDavClient, linkCalendar, syncCalendar, type CalendarLink } from '../lib/caldav';
+import type { WeekendActivity } from '../lib/persistence';
+
+const COLLECTION = 'https://dav.example.com/calendars/sam/weekend/';
+const WEEKEND = '2026-10-24';
+const NOW = new Date(Date.UTC(2026, 9, 19, 12, 0));
+
+const walk: WeekendActivity = { id: 'walk', title: 'Morning Walk', category: 'outdoor', day: 'saturday', start: '09:00', durationMins: 60, mood: 'chill' };
+const brunch: WeekendActivity = { id: 'brunch', title: 'Brunch', category: 'food', day: 'sunday', start: '11:00', durationMins: 90 };
+
+interface FakeRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+}
+
+// Enough of a CalDAV server for the client: calendar-multiget, and conditional PUT and DELETE
+class FakeCalDavServer {
+  resources = new Map<string, { etag: string; data: string }>(); // by decoded path
+  requests: FakeRequest[] = [];
+  private version = 0;
+
+  fetch = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const method = init.method ?? 'GET';
+    const headers = init.headers as Record<string, string>;
+    const path = decodeURIComponent(url.pathname);
+    this.requests.push({ method, path, headers });
+    const existing = this.resources.get(path);
+
+    if (method === 'REPORT') {
+      const hrefs = Array.from(String(init.body).matchAll(/<d:href>([^<]*)<\/d:href>/g), m => decodeURIComponent(m[1]));
+      const body = hrefs.map(href => {
+        const resource = this.resources.get(href);
+        // Answer with hrefs escaped differently from the request
+        if (!resource) return `<d:response><d:href>${encodeURI(href)}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`;
+        return [
+          `<d:response><d:href>${encodeURI(href)}</d:href><d:propstat><d:prop>`,
+          `<d:getetag>${resource.etag}</d:getetag>`,
+          `<c:calendar-data>${resource.data.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</c:calendar-data>`,
+          '</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>',
+        ].join('');
+      });
+      return reply(207, `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">${body.join('')}</d:multistatus>`);
+    }
+    if (headers['If-Match'] && headers['If-Match'] !== existing?.etag) return reply(existing ? 412 : 404);
+    if (headers['If-None-Match'] === '*' && existing) return reply(412);
+    if (method === 'PUT') {
+      const etag = this.write(path, String(init.body));
+      return reply(existing ? 204 : 201, '', etag);
+    }
+    if (method === 'DELETE') {
+      if (!existing) return reply(404);
+      this.resources.delete(path);
+      return reply(204);
+    }
+    return reply(405);
+  }) as typeof fetch;
+
+  // Another calendar app changing an event
+  edit(uid: string, change: (data: string) => string): void {
+    const path = this.pathOf(uid);
+    this.write(path, change(this.resources.get(path)!.data));
+  }
+
+  delete(uid: string): void {
+    this.resources.delete(this.pathOf(uid));
+  }
+
+  pathOf(uid: string): string {
+    return `${new URL(COLLECTION).pathname}${uid}.ics`;
+  }
+
+  private write(path: string, data: string): string {
+    const etag = `"${++this.version}"`;
+    this.resources.set(path, { etag, data });
+    return etag;
+  }
+}
+
+function reply(status: number, body = '', etag?: string): Response {
+  return {
+    status,
+    ok: status >= 200 && status < 300,
+    headers: { get: (name: string) => (name.toLowerCase() === 'etag' ? etag ?? null : null) },
+    text: async () => body,
+  } as unknown as Response;
+}
+
+describe('CalDAV sync', () => {
+  let server: FakeCalDavServer;
+  let client: HttpCalDavClient;
+  let link: CalendarLink;
+
+  beforeEach(() => {
+    server = new FakeCalDavServer();
+    client = new HttpCalDavClient(COLLECTION, { username: 'sam', password: 'app-pässword' }, server.fetch);
+    link = linkCalendar('plan_1', COLLECTION.slice(0, -1), {}, 'Europe/Berlin');
+  });
+
+  const sync = async (activities: WeekendActivity[]) => {
+    const result = await syncCalendar(client, activities, WEEKEND, link, { now: NOW });
+    link = result.link;
+    return result;
+  };
+
+  it('publishes activities as events named by their ids', async () => {
+    const { report } = await sync([walk, brunch]);
+
+    expect(report).toMatchObject({ published: 2, deleted: 0, conflicts: 0 });
+    expect(link.collectionUrl).toBe(COLLECTION);
+    expect(Object.keys(link.events)).toEqual(['walk', 'brunch']);
+    const stored = server.resources.get(server.pathOf('walk-2026-10-24@weekendly'))!;
+    expect(link.events.walk.etag).toBe(stored.etag);
+    expect(stored.data).toContain('UID:walk-2026-10-24@weekendly');
+    expect(stored.data).toContain('DTSTART;TZID=Europe/Berlin:20261024T090000');
+
+    const put = server.requests.find(r => r.method === 'PUT')!;
+    expect(put.headers['If-None-Match']).toBe('*');
+    expect(put.headers.Authorization).toBe(`Basic ${Buffer.from('sam:app-pässword').toString('base64')}`);
+  });
+
+  it('only writes what changed', async () => {
+    await sync([walk, brunch]);
+    server.requests = [];
+
+    expect((await sync([walk, brunch])).report).toMatchObject({ published: 0, pulled: [], removed: [] });
+    expect(server.requests.map(r => r.method)).toEqual(['REPORT']);
+
+    const { report } = await sync([{ ...walk, start: '10:00' }]);
+    expect(report).toMatchObject({ published: 1, deleted: 1 });
+    expect(server.requests.find(r => r.method === 'PUT')?.headers['If-Match']).toBeDefined();
+    expect(server.resources.size).toBe(1);
+    expect(server.resources.get(server.pathOf('walk-2026-10-24@weekendly'))!.data).toContain('T100000');
+  });
+
+  it('pulls edits and deletions made in the calendar', async () => {
+    await sync([walk, brunch]);
+    server.edit('walk-2026-10-24@weekendly', data =>
+      data.replace('T090000', 'T143000').replace('T100000', 'T160000').replace('SUMMARY:Morning Walk', 'SUMMARY:Afternoon Walk\r\nDESCRIPTION:Bring water')
+    );
+    server.delete('brunch-2026-10-24@weekendly');
+
+    const { activities, report } = await sync([walk, brunch]);
+    expect(report).toMatchObject({ pulled: ['walk'], removed: ['brunch'], published: 0 });
+    expect(activities).toEqual([
+      { ...walk, title: 'Afternoon Walk', start: '14:30', durationMins: 90, notes: 'Bring water' },
+    ]);
+    expect(Object.keys(link.events)).toEqual(['walk']);
+  });
+
+  it('drops activities whose events moved off the weekend', async () => {
+    await sync([walk]);
+    server.edit('walk-2026-10-24@weekendly', data => data.replace(/20261024T/g, '20261031T'));
+
+    const { activities, report } = await sync([walk]);
+    expect(activities).toEqual([]);
+    expect(report.removed).toEqual(['walk']);
+  });
+
+  it('lets the calendar win edits on both sides, and edits beat deletions', async () => {
+    await sync([walk, brunch]);
+    server.edit('walk-2026-10-24@weekendly', data => data.replace('SUMMARY:Morning Walk', 'SUMMARY:Park Walk'));
+    server.delete('brunch-2026-10-24@weekendly');
+
+    const { activities, report } = await sync([{ ...walk, title: 'Dog Walk' }, { ...brunch, start: '12:00' }]);
+    expect(report).toMatchObject({ conflicts: 1, pulled: ['walk'], published: 1 });
+    expect(activities.map(a => a.title)).toEqual(['Brunch', 'Park Walk']);
+    expect(server.resources.get(server.pathOf('brunch-2026-10-24@weekendly'))!.data).toContain('20261025T120000');
+
+    // Deleted here but edited there: the edit comes back
+    server.edit('brunch-2026-10-24@weekendly', data => data.replace('20261025T120000', '20261025T123000'));
+    const restored = await sync(activities.filter(a => a.id !== 'brunch'));
+    expect(restored.activities.find(a => a.id === 'brunch')).toMatchObject({ category: 'food', start: '12:30' });
+  });
+
+  it('keeps locked activities as they are', async () => {
+    const locked = { ...walk, locked: true };
+    await sync([locked]);
+    server.edit('walk-2026-10-24@weekendly', data => data.replace('T090000', 'T070000'));
+
+    const { activities, report } = await sync([locked]);
+    expect(activities).toEqual([locked]);
+    expect(report.published).toBe(1);
+    expect(server.resources.get(server.pathOf('walk-2026-10-24@weekendly'))!.data).toContain('T090000');
+  });
+
+  it('adopts events another device already published', async () => {
+    const other = linkCalendar('plan_1', COLLECTION, {}, 'Europe/Berlin');
+    await syncCalendar(client, [{ ...walk, title: 'Walk (laptop)' }], WEEKEND, other, { now: NOW });
+
+    const { activities, report } = await sync([walk]);
+    expect(report).toMatchObject({ conflicts: 1, pulled: ['walk'] });
+    expect(activities[0].title).toBe('Walk (laptop)');
+    expect(link.events.walk.etag).toBe(server.resources.get(server.pathOf('walk-2026-10-24@weekendly'))!.etag);
+  });
+
+  it('keeps the password out of the stored link and reports failed sign-ins', async () => {
+    const linked = linkCalendar('plan_1', COLLECTION, { username: 'sam', password: 'app-pässword' }, 'Europe/Berlin');
+    expect(linked.username).toBe('sam');
+    expect(JSON.stringify(linked)).not.toContain('app-pässword');
+
+    const refused = new HttpCalDavClient(COLLECTION, { username: 'sam', password: 'wrong' }, (async () => reply(401)) as typeof fetch);
+    await expect(syncCalendar(refused, [walk], WEEKEND, linked, { now: NOW })).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Collaborative editing tests
+ * CRDT merge rules, sessions over an in-memory hub, and the WebSocket relay
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import path from 'node:path';
+import { CollabSession, PlanDoc, type CollabOp } from '../lib/collab';
+import { MemoryCollabHub, WebSocketTransport } from '../lib/collab-transport';
+import type { WeekendActivity } from '../lib/persistence';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+const brunch: WeekendActivity = {
+  id: 'a2',
+  title: 'Brunch',
+  category: 'food',
+  day: 'saturday',
+  start: '11:00',
+  durationMins: 90,
+};
+
+// Two replicas that start from the same shared plan
+function pair(): [PlanDoc, PlanDoc] {
+  const a = new PlanDoc('alice');
+  const b = new PlanDoc('bob');
+  b.applyAll(a.update([walk, brunch]));
+  return [a, b];
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 3000) {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('PlanDoc', () => {
+  it('merges a concurrent move and edit of the same activity', () => {
+    const [a, b] = pair();
+    const move = a.update([{ ...walk, day: 'sunday', start: '10:00' }, brunch]);
+    const edit = b.update([{ ...walk, title: 'Park Walk' }, brunch]);
+
+    a.applyAll(edit);
+    b.applyAll(move);
+
+    const expected = [{ ...walk, title: 'Park Walk', day: 'sunday', start: '10:00' }, brunch];
+    expect(a.toActivities()).toEqual(expected);
+    expect(b.toActivities()).toEqual(expected);
+  });
+
+  it('converges whatever order ops arrive in', () => {
+    const [a, b] = pair();
+    const c = new PlanDoc('carol');
+    c.applyAll(a.snapshot());
+
+    const ops: CollabOp[] = [
+      ...a.update([{ ...walk, start: '08:00' }, brunch]),
+      ...b.update([{ ...walk, start: '07:00' }, { ...brunch, notes: 'Book a table' }]),
+      ...c.update([walk]),
+    ];
+
+    const replicas = [ops, [...ops].reverse(), [...ops.slice(2), ...ops.slice(0, 2)]].map(order => {
+      const doc = new PlanDoc('observer');
+      doc.applyAll(a.snapshot());
+      doc.applyAll(order);
+      return doc.toActivities();
+    });
+
+    expect(replicas[1]).toEqual(replicas[0]);
+    expect(replicas[2]).toEqual(replicas[0]);
+    // Carol's removal of brunch wins over Bob's concurrent note
+    expect(replicas[0].map(x => x.id)).toEqual(['a1']);
+  });
+
+  it('brings back an activity added again after it was removed', () => {
+    const [a, b] = pair();
+    b.applyAll(a.update([brunch]));
+    // Undoing the delete, with a note the first copy didn't have
+    b.applyAll(a.update([{ ...walk, notes: 'Take the dog' }, brunch]));
+    expect(a.toActivities()).toEqual(b.toActivities());
+    expect(b.toActivities().map(x => x.id)).toEqual(['a2', 'a1']);
+
+    // Fields from before the removal don't come back with it
+    b.applyAll(a.update([brunch]));
+    b.applyAll(a.update([walk, brunch]));
+    expect(b.toActivities()).toEqual([brunch, walk]);
+
+    // A late joiner rebuilds the same plan from the snapshot
+    const c = new PlanDoc('carol');
+    c.applyAll(b.snapshot());
+    expect(c.toActivities()).toEqual([brunch, walk]);
+  });
+
+  it('settles concurrent edits of one field on the same value', () => {
+    const [a, b] = pair();
+    const fromA = a.update([{ ...walk, durationMins: 30 }, brunch]);
+    const fromB = b.update([{ ...walk, durationMins: 120 }, brunch]);
+    a.applyAll(fromB);
+    b.applyAll(fromA);
+
+    expect(a.toActivities()[0].durationMins).toBe(b.toActivities()[0].durationMins);
+  });
+
+  it('ignores ops it has already seen', () => {
+    const [a, b] = pair();
+    const ops = a.update([walk]);
+    expect(b.applyAll(ops)).toBe(true);
+    expect(b.applyAll(ops)).toBe(false);
+    expect(b.toActivities()).toEqual([walk]);
+  });
+});
+
+describe('CollabSession', () => {
+  it('shares the host plan and merges edits from both sides', async () => {
+    const hub = new MemoryCollabHub();
+    const host = new CollabSession({ transport: hub.connect('room'), name: 'Alice', initial: [walk] });
+    const guest = new CollabSession({ transport: hub.connect('room'), name: 'Bob', initial: null });
+
+    await waitFor(() => guest.isReady);
+    expect(guest.getActivities()).toEqual([walk]);
+
+    const seen: WeekendActivity[][] = [];
+    host.onChange(list => seen.push(list));
+    guest.update([walk, brunch]);
+    host.update([{ ...walk, start: '10:00' }]);
+
+    await waitFor(() => host.getActivities().length === 2 && guest.getActivities()[0].start === '10:00');
+    expect(host.getActivities()).toEqual(guest.getActivities());
+    expect(seen.length).toBeGreaterThan(0);
+
+    host.leave();
+    guest.leave();
+  });
+
+  it('tracks collaborator presence until they leave', async () => {
+    const hub = new MemoryCollabHub();
+    const host = new CollabSession({ transport: hub.connect('room'), name: 'Alice', initial: [] });
+    const guest = new CollabSession({ transport: hub.connect('room'), name: 'Bob', initial: null });
+
+    guest.setPresence({ day: 'sunday', minutes: 600, dragging: { activityId: 'a1', title: 'Morning Walk', durationMins: 60 } });
+    await waitFor(() => host.getPeers()[0]?.minutes === 600);
+    expect(host.getPeers()[0]).toEqual(expect.objectContaining({ name: 'Bob', day: 'sunday', color: guest.color }));
+    expect(guest.getPeers().map(p => p.name)).toEqual(['Alice']);
+
+    guest.leave();
+    await waitFor(() => host.getPeers().length === 0);
+    host.leave();
+  });
+
+  it('falls back to the local plan when joining an empty room', async () => {
+    const hub = new MemoryCollabHub();
+    const guest = new CollabSession({
+      transport: hub.connect('empty'),
+      name: 'Bob',
+      initial: null,
+      fallback: () => [brunch],
+      joinTimeoutMs: 20,
+    });
+
+    const changes: WeekendActivity[][] = [];
+    guest.onChange(list => changes.push(list));
+    await waitFor(() => guest.isReady);
+    expect(changes).toEqual([[brunch]]);
+    guest.leave();
+  });
+});
+
+describe('WebSocket relay', () => {
+  const port = 40000 + Math.floor(Math.random() * 20000);
+  const url = `ws://localhost:${port}`;
+  let relay: ChildProcess;
+
+  beforeAll(async () => {
+    relay = spawn(process.execPath, [path.join(process.cwd(), 'scripts', 'collab-relay.mjs'), '--port', String(port)]);
+    await new Promise<void>((resolve, reject) => {
+      relay.stdout!.on('data', (chunk: Buffer) => {
+        if (chunk.toString().includes('listening')) resolve();
+      });
+      relay.on('error', reject);
+      relay.on('exit', code => reject(new Error(`Relay exited with code ${code}`)));
+    });
+  });
+
+  afterAll(() => {
+    relay.kill();
+  });
+
+  it('relays edits and presence between sessions in a room', async () => {
+    const host = new CollabSession({ transport: new WebSocketTransport('trip', url), name: 'Alice', initial: [walk] });
+    const guest = new CollabSession({ transport: new WebSocketTransport('trip', url), name: 'Bob', initial: null, joinTimeoutMs: 2000 });
+    const outsider = new CollabSession({ transport: new WebSocketTransport('other', url), name: 'Eve', initial: [] });
+
+    await waitFor(() => guest.isReady && guest.getActivities().length === 1);
+    expect(guest.getActivities()).toEqual([walk]);
+
+    guest.update([{ ...walk, day: 'sunday' }]);
+    await waitFor(() => host.getActivities()[0].day === 'sunday');
+    await waitFor(() => host.getPeers().length === 1);
+    expect(host.getPeers()[0].name).toBe('Bob');
+    expect(outsider.getPeers()).toEqual([]);
+
+    guest.leave();
+    await waitFor(() => host.getPeers().length === 0);
+    host.leave();
+    outsider.leave();
+  });
+});
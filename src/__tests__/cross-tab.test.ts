@@ -0,0 +1,118 @@
+/**
+ * Cross-tab synchronization tests
+ * Change notifications between tabs and version-based conflict detection
+ */
+
+import 'fake-indexeddb/auto';
+import { PersistenceManager, PlanConflictError, WeekendActivity } from '../lib/persistence';
+import type { PlanChange } from '../lib/cross-tab';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+// jsdom has no BroadcastChannel, and never delivers `storage` events to the
+// tab that wrote the key, so replay the write as another tab would see it.
+function deliverToOtherTabs(dbName: string) {
+  const key = `weekendly.broadcast.weekendly.plans.${dbName}`;
+  window.dispatchEvent(new StorageEvent('storage', { key, newValue: window.localStorage.getItem(key) }));
+}
+
+describe('Cross-tab sync', () => {
+  let dbCounter = 0;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('notifies other tabs when a plan is saved', async () => {
+    const dbName = `cross-tab-${dbCounter++}`;
+    const tabA = new PersistenceManager(dbName);
+    const tabB = new PersistenceManager(dbName);
+    await tabA.init();
+    await tabB.init();
+
+    const seenByA: PlanChange[] = [];
+    const seenByB: PlanChange[] = [];
+    tabA.onRemoteChange(change => seenByA.push(change));
+    const unsubscribe = tabB.onRemoteChange(change => seenByB.push(change));
+
+    await tabA.saveThemePlan('lazy', [walk]);
+    deliverToOtherTabs(dbName);
+
+    expect(seenByA).toHaveLength(0);
+    expect(seenByB).toEqual([expect.objectContaining({ type: 'saved', theme: 'lazy', version: 1 })]);
+
+    unsubscribe();
+    await tabA.saveThemePlan('lazy', [{ ...walk, start: '10:00' }]);
+    deliverToOtherTabs(dbName);
+    expect(seenByB).toHaveLength(1);
+  });
+
+  it('rejects a save based on an outdated version', async () => {
+    const dbName = `cross-tab-${dbCounter++}`;
+    const tabA = new PersistenceManager(dbName);
+    const tabB = new PersistenceManager(dbName);
+    await tabA.init();
+    await tabB.init();
+
+    const loaded = await tabA.saveThemePlan('family', [walk]);
+    // Tab B edits first
+    await tabB.saveThemePlan('family', [{ ...walk, title: 'Park Walk' }], { baseVersion: loaded });
+
+    const error = await tabA.saveThemePlan('family', [{ ...walk, durationMins: 90 }], { baseVersion: loaded }).catch(e => e);
+    expect(error).toBeInstanceOf(PlanConflictError);
+    expect(error.code).toBe('CONFLICT');
+    expect(error.current.version).toBe(2);
+    expect(error.current.activities[0].title).toBe('Park Walk');
+  });
+
+  it('lets only one of two concurrent saves from the same version through', async () => {
+    const dbName = `cross-tab-${dbCounter++}`;
+    const tabA = new PersistenceManager(dbName);
+    const tabB = new PersistenceManager(dbName);
+    await tabA.init();
+    await tabB.init();
+
+    const loaded = await tabA.saveThemePlan('family', [walk]);
+    const { id } = (await tabA.getThemePlan('family'))!;
+    const results = await Promise.allSettled([
+      tabA.savePlanActivities(id, [{ ...walk, title: 'Dog Walk' }], { baseVersion: loaded }),
+      tabB.savePlanActivities(id, [{ ...walk, title: 'Park Walk' }], { baseVersion: loaded }),
+    ]);
+
+    const saved = results.filter((r): r is PromiseFulfilledResult<number> => r.status === 'fulfilled');
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(saved).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(PlanConflictError);
+
+    // The version handed back is the one stored
+    const stored = (await tabB.getPlan(id))!;
+    expect(saved[0].value).toBe(stored.version);
+    expect(stored.version).toBe(2);
+    expect(await tabA.savePlanActivities(id, [walk], { baseVersion: saved[0].value })).toBe(3);
+  });
+
+  it('saves when the base version is current', async () => {
+    const manager = new PersistenceManager(`cross-tab-${dbCounter++}`);
+    await manager.init();
+
+    const v1 = await manager.saveThemePlan('lazy', [walk]);
+    const v2 = await manager.saveThemePlan('lazy', [{ ...walk, start: '11:00' }], { baseVersion: v1 });
+
+    expect(v2).toBe(2);
+    // Identical activities are a no-op even with a stale base
+    expect(await manager.saveThemePlan('lazy', [{ ...walk, start: '11:00' }], { baseVersion: v1 })).toBe(2);
+  });
+});
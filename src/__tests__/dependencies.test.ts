@@ -0,0 +1,114 @@
+/**
+ * Dependency tests
+ * Ordering rules between activities, the moves that break them, and timeline links
+ */
+
+import {
+  canDependOn,
+  dependencyConflicts,
+  dependencyLinks,
+  dependencyViolations,
+  removeWithDependencies,
+} from '../lib/dependencies';
+import { analyzeEnergy } from '../lib/energy';
+import { parseImport } from '../lib/plan-import';
+import { placeTemplate } from '../lib/templates';
+import { DEFAULT_DAY_RANGE, weekendDays } from '../lib/weekends';
+import { act } from './helpers/activities';
+
+const pack = act('pack', 'saturday', '08:00', 30);
+const beach = act('beach', 'saturday', '10:00', 180, { dependsOn: [{ activityId: 'pack' }] });
+
+describe('dependencyViolations', () => {
+  it('accepts activities in order, across days too', () => {
+    expect(dependencyViolations([pack, beach])).toEqual([]);
+    const groceries = act('groceries', 'saturday', '18:00', 60);
+    const brunch = act('brunch', 'sunday', '10:00', 90, { dependsOn: [{ activityId: 'groceries' }] });
+    expect(dependencyViolations([groceries, brunch])).toEqual([]);
+  });
+
+  it('explains each broken rule', () => {
+    const [early] = dependencyViolations([pack, { ...beach, start: '08:15' }]);
+    expect(early).toMatchObject({ rule: 'precede', first: pack });
+    expect(early.message).toBe('pack has to finish before beach starts.');
+
+    const sameDay = { ...beach, day: 'sunday' as const, dependsOn: [{ activityId: 'pack', sameDay: true }] };
+    expect(dependencyViolations([pack, sameDay])[0]).toMatchObject({ rule: 'same-day', message: 'beach has to be on the same day as pack.' });
+
+    const gap = { ...beach, start: '08:45', dependsOn: [{ activityId: 'pack', minGapMins: 30 }] };
+    expect(dependencyViolations([pack, gap])[0]).toMatchObject({
+      rule: 'min-gap',
+      message: 'beach has to start at least 30 min after pack ends, but there are only 15 min.',
+    });
+  });
+
+  it('ignores rules on activities that are gone', () => {
+    expect(dependencyViolations([beach])).toEqual([]);
+  });
+});
+
+describe('dependencyConflicts', () => {
+  it('reports moves that break a rule in either direction', () => {
+    expect(dependencyConflicts([pack, beach], { ...beach, start: '08:00' }).map(v => v.rule)).toEqual(['precede']);
+    expect(dependencyConflicts([pack, beach], { ...pack, day: 'sunday' }).map(v => v.rule)).toEqual(['precede']);
+    expect(dependencyConflicts([pack, beach], { ...pack, start: '09:00' })).toEqual([]);
+  });
+
+  it('does not hold rules that were already broken against other moves', () => {
+    const late = { ...pack, start: '14:00' };
+    expect(dependencyConflicts([late, beach], { ...beach, durationMins: 120 })).toEqual([]);
+  });
+});
+
+describe('dependencyLinks', () => {
+  it('links same-day activities and marks ones from other days', () => {
+    const brunch = act('brunch', 'sunday', '10:00', 90, { dependsOn: [{ activityId: 'pack', minGapMins: 60 }] });
+    expect(dependencyLinks([pack, beach, brunch], 'saturday')).toEqual([
+      { id: 'pack->beach', firstId: 'pack', thenId: 'beach', day: 'saturday', fromMins: 8 * 60 + 30, toMins: 10 * 60, broken: false, label: 'After pack' },
+    ]);
+    expect(dependencyLinks([pack, beach, brunch], 'sunday')[0]).toMatchObject({ fromMins: null, label: 'After pack on Saturday, 60 min gap' });
+    expect(dependencyLinks([pack, { ...beach, start: '08:00' }], 'saturday')[0].broken).toBe(true);
+  });
+});
+
+describe('canDependOn', () => {
+  it('refuses loops', () => {
+    const swim = act('swim', 'saturday', '14:00', 60, { dependsOn: [{ activityId: 'beach' }] });
+    expect(canDependOn([pack, beach, swim], 'swim', 'pack')).toBe(true);
+    expect(canDependOn([pack, beach, swim], 'pack', 'swim')).toBe(false);
+    expect(canDependOn([pack, beach, swim], 'pack', 'pack')).toBe(false);
+  });
+});
+
+describe('removeWithDependencies', () => {
+  it('drops rules that pointed at the removed activity', () => {
+    expect(removeWithDependencies([pack, beach], 'pack')).toEqual([{ ...beach, dependsOn: undefined }]);
+  });
+});
+
+describe('dependencies elsewhere', () => {
+  it('carries rules over to a template’s fresh ids', () => {
+    const { added } = placeTemplate([], [pack, beach]);
+    const [newPack, newBeach] = added;
+    expect(newBeach.dependsOn).toEqual([{ activityId: newPack.id }]);
+  });
+
+  it('keeps energy swaps from breaking an order', () => {
+    const activities = [
+      act('climb', 'saturday', '09:00', 60, { mood: 'energetic' }),
+      act('bike', 'saturday', '10:00', 60, { mood: 'energetic' }),
+      act('swim', 'saturday', '11:00', 60, { mood: 'energetic' }),
+      act('tea', 'saturday', '15:00', 60, { mood: 'chill', dependsOn: [{ activityId: 'swim' }] }),
+    ];
+    const run = analyzeEnergy(activities, weekendDays(DEFAULT_DAY_RANGE)).find(i => i.kind === 'back-to-back')!;
+    expect(run.suggestion).toMatchObject({ kind: 'rest' });
+  });
+
+  it('rejects imports with rules on unknown activities', () => {
+    const plan = { theme: 'lazy', activities: [{ ...beach, dependsOn: [{ activityId: 'nowhere' }] }] };
+    expect(parseImport(plan)).toEqual({
+      ok: false,
+      issues: [{ path: 'activities[0].dependsOn[0].activityId', message: 'Unknown activity "nowhere" in dependency' }],
+    });
+  });
+});
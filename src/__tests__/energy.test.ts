@@ -0,0 +1,179 @@
+/**
+ * Energy balance tests
+ * Activity energy levels, the per-day curve, and the issues and fixes the analysis suggests
+ */
+
+import { activityEnergy, analyzeEnergy, applySuggestion, energyCurve, insertRest, swapActivities } from '../lib/energy';
+import { dayHours } from '../lib/time';
+import { DEFAULT_DAY_RANGE, weekendDays } from '../lib/weekends';
+import { act, conflictFree } from './helpers/activities';
+
+const days = weekendDays(DEFAULT_DAY_RANGE);
+const hours = dayHours('08:00', '22:00');
+
+describe('activityEnergy', () => {
+  it('rates moods and adds difficulty on top', () => {
+    expect(activityEnergy({ mood: 'chill' })).toBe(1);
+    expect(activityEnergy({ mood: 'energetic' })).toBe(3);
+    expect(activityEnergy({ mood: 'energetic', difficulty: 'hard' })).toBe(4);
+    expect(activityEnergy({ mood: 'social', difficulty: 'medium' })).toBe(2.5);
+    expect(activityEnergy({})).toBe(1.5);
+  });
+});
+
+describe('energyCurve', () => {
+  it('follows the most demanding activity and drops to zero in free time', () => {
+    const activities = [
+      act('run', 'saturday', '09:00', 60, { mood: 'energetic' }),
+      act('read', 'saturday', '11:00', 60, { mood: 'chill' }),
+      act('other-day', 'sunday', '09:00', 60, { mood: 'energetic' }),
+    ];
+    const curve = energyCurve(activities, 'saturday', { hours });
+    const at = (mins: number) => curve.find(p => p.mins === mins)!.energy;
+    expect(curve[0].mins).toBe(8 * 60);
+    expect(curve[curve.length - 1].mins).toBe(22 * 60);
+    expect(at(9 * 60)).toBe(3);
+    expect(at(10 * 60)).toBe(0);
+    expect(at(11 * 60 + 30)).toBe(1);
+  });
+});
+
+describe('analyzeEnergy', () => {
+  it('flags three demanding activities back to back and swaps a calmer one in', () => {
+    const activities = [
+      act('climb', 'saturday', '09:00', 60, { mood: 'energetic' }),
+      act('bike', 'saturday', '10:00', 60, { mood: 'energetic' }),
+      act('swim', 'saturday', '11:15', 60, { mood: 'energetic' }),
+      act('tea', 'saturday', '15:00', 60, { mood: 'chill' }),
+    ];
+    const issue = analyzeEnergy(activities, days, { hours }).find(i => i.kind === 'back-to-back')!;
+    expect(issue.message).toBe('Three demanding activities back to back on Saturday');
+    expect(issue.activityIds).toEqual(['climb', 'bike', 'swim']);
+    expect(issue.suggestion).toMatchObject({ kind: 'swap', a: 'bike', b: 'tea' });
+
+    const fixed = applySuggestion(activities, issue.suggestion!);
+    expect(conflictFree(fixed)).toBe(true);
+    expect(analyzeEnergy(fixed, days, { hours }).some(i => i.kind === 'back-to-back')).toBe(false);
+  });
+
+  it('does not count a long enough gap as back to back', () => {
+    const activities = [
+      act('climb', 'saturday', '09:00', 60, { mood: 'energetic' }),
+      act('bike', 'saturday', '10:30', 60, { mood: 'energetic' }),
+      act('swim', 'saturday', '11:30', 60, { mood: 'energetic' }),
+    ];
+    expect(analyzeEnergy(activities, days, { hours }).some(i => i.kind === 'back-to-back')).toBe(false);
+  });
+
+  it('suggests a rest block when there is nothing calmer to swap in', () => {
+    const activities = [
+      act('a', 'sunday', '09:00', 60, { mood: 'energetic' }),
+      act('b', 'sunday', '10:00', 60, { mood: 'energetic' }),
+      act('c', 'sunday', '11:00', 60, { mood: 'energetic' }),
+      act('d', 'saturday', '11:00', 60, { mood: 'energetic' }),
+      act('e', 'saturday', '13:00', 60, { mood: 'energetic' }),
+      act('f', 'saturday', '15:00', 60, { mood: 'energetic' }),
+    ];
+    const issues = analyzeEnergy(activities, days, { hours });
+    const run = issues.find(i => i.kind === 'back-to-back')!;
+    expect(run.suggestion).toMatchObject({ kind: 'rest', day: 'sunday', start: '10:00', durationMins: 30 });
+
+    const fixed = applySuggestion(activities, run.suggestion!);
+    expect(conflictFree(fixed)).toBe(true);
+    expect(fixed.find(a => a.id === 'b')!.start).toBe('10:30');
+    expect(fixed.find(a => a.id === 'c')!.start).toBe('11:30');
+    expect(analyzeEnergy(fixed, days, { hours }).some(i => i.kind === 'back-to-back')).toBe(false);
+  });
+
+  it('leaves locked activities where they are', () => {
+    const activities = [
+      act('climb', 'saturday', '09:00', 60, { mood: 'energetic' }),
+      act('bike', 'saturday', '10:00', 60, { mood: 'energetic' }),
+      act('swim', 'saturday', '11:00', 60, { mood: 'energetic' }),
+      act('tea', 'saturday', '15:00', 60, { mood: 'chill', locked: true }),
+    ];
+    const run = analyzeEnergy(activities, days, { hours }).find(i => i.kind === 'back-to-back')!;
+    // Tea can't be swapped in, so rest instead
+    expect(run.suggestion).toMatchObject({ kind: 'rest', start: '10:00' });
+
+    const pinned = activities.map(a => (a.id === 'swim' ? { ...a, locked: true } : a));
+    expect(analyzeEnergy(pinned, days, { hours }).find(i => i.kind === 'back-to-back')!.suggestion).toBeUndefined();
+  });
+
+  it('flags a day with no downtime', () => {
+    const activities = [
+      act('brunch', 'sunday', '10:00', 60, { mood: 'social' }),
+      act('museum', 'sunday', '11:15', 90, { mood: 'focus' }),
+      act('party', 'sunday', '13:00', 120, { mood: 'social' }),
+    ];
+    const issue = analyzeEnergy(activities, days, { hours }).find(i => i.kind === 'no-downtime')!;
+    expect(issue.message).toBe('No downtime on Sunday');
+    expect(issue.suggestion).toMatchObject({ kind: 'rest', start: '11:00' });
+
+    const rested = applySuggestion(activities, issue.suggestion!);
+    expect(analyzeEnergy(rested, days, { hours }).some(i => i.kind === 'no-downtime')).toBe(false);
+  });
+
+  it('accepts a day with a chill activity or a long free stretch', () => {
+    const withGap = [
+      act('a', 'sunday', '09:00', 60, { mood: 'social' }),
+      act('b', 'sunday', '11:00', 60, { mood: 'focus' }),
+      act('c', 'sunday', '12:00', 60, { mood: 'social' }),
+    ];
+    const withChill = withGap.map(a => (a.id === 'c' ? { ...a, mood: 'chill' as const } : a));
+    expect(analyzeEnergy(withGap, days, { hours }).some(i => i.kind === 'no-downtime')).toBe(false);
+    expect(analyzeEnergy(withChill, days, { hours }).some(i => i.kind === 'no-downtime')).toBe(false);
+  });
+
+  it('rebalances a lopsided weekend with a swap across days', () => {
+    const activities = [
+      act('hike', 'saturday', '09:00', 180, { mood: 'energetic', difficulty: 'hard' }),
+      act('climb', 'saturday', '14:00', 120, { mood: 'energetic' }),
+      act('nap', 'sunday', '14:00', 120, { mood: 'chill' }),
+    ];
+    const issue = analyzeEnergy(activities, days, { hours }).find(i => i.kind === 'unbalanced')!;
+    expect(issue.message).toBe('Saturday is much more tiring than Sunday');
+    // Trading the longest, hardest activity evens the days out most
+    expect(issue.suggestion).toMatchObject({ kind: 'swap', a: 'hike', b: 'nap' });
+
+    const swapped = applySuggestion(activities, issue.suggestion!);
+    expect(swapped.find(a => a.id === 'hike')).toMatchObject({ day: 'sunday', start: '14:00' });
+    expect(swapped.find(a => a.id === 'nap')).toMatchObject({ day: 'saturday', start: '09:00' });
+    expect(conflictFree(swapped)).toBe(true);
+  });
+
+  it('finds nothing wrong with an even, relaxed weekend', () => {
+    const activities = [
+      act('walk', 'saturday', '10:00', 60, { mood: 'energetic' }),
+      act('read', 'saturday', '14:00', 60, { mood: 'chill' }),
+      act('swim', 'sunday', '10:00', 60, { mood: 'energetic' }),
+      act('film', 'sunday', '19:00', 120, { mood: 'chill' }),
+    ];
+    expect(analyzeEnergy(activities, days, { hours })).toEqual([]);
+  });
+});
+
+describe('swapActivities', () => {
+  it('reorders same-day activities and keeps the stretch between them', () => {
+    const activities = [
+      act('long', 'saturday', '09:00', 120),
+      act('mid', 'saturday', '11:30', 30),
+      act('short', 'saturday', '12:30', 60),
+    ];
+    const swapped = swapActivities(activities, 'long', 'short');
+    expect(swapped.find(a => a.id === 'short')!.start).toBe('09:00');
+    expect(swapped.find(a => a.id === 'mid')!.start).toBe('10:30');
+    expect(swapped.find(a => a.id === 'long')!.start).toBe('11:30');
+    expect(conflictFree(swapped)).toBe(true);
+  });
+});
+
+describe('insertRest', () => {
+  it('only moves later activities as far as the rest needs', () => {
+    const activities = [act('a', 'saturday', '09:00', 60), act('b', 'saturday', '10:15', 60), act('c', 'sunday', '10:00', 60)];
+    const rested = insertRest(activities, 'saturday', 10 * 60, 30);
+    expect(rested.find(a => a.id === 'b')!.start).toBe('10:30');
+    expect(rested.find(a => a.id === 'c')!.start).toBe('10:00');
+    expect(rested.find(a => a.title === 'Rest')).toMatchObject({ day: 'saturday', start: '10:00', durationMins: 30, mood: 'chill' });
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * Shared test fixtures
+ * A terse activity factory and checks used across the scheduling tests
+ */
+
+import type { WeekendActivity } from '../../lib/persistence';
+import { activitiesOverlap } from '../../lib/overlap';
+
+export function act(id: string, day: WeekendActivity['day'], start: string, durationMins: number, extra: Partial<WeekendActivity> = {}): WeekendActivity {
+  return { id, title: id, category: 'other', day, start, durationMins, ...extra };
+}
+
+export function conflictFree(activities: WeekendActivity[]): boolean {
+  return activities.every((a, i) => activities.every((b, j) => i === j || !activitiesOverlap(a, b)));
+}
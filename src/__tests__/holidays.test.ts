@@ -0,0 +1,39 @@
+/**
+ * Public holiday tests
+ * Observed holiday dates per region, including weekend substitutes
+ */
+
+import { holidayOn, publicHolidays } from '../lib/holidays';
+
+describe('Public holidays', () => {
+  it('finds US Monday holidays', () => {
+    expect(holidayOn(new Date(2026, 4, 25), 'us')?.name).toBe('Memorial Day');
+    expect(holidayOn(new Date(2026, 8, 7), 'us')?.name).toBe('Labor Day');
+    expect(holidayOn(new Date(2026, 9, 12), 'us')?.name).toBe('Columbus Day');
+    expect(holidayOn(new Date(2026, 9, 19), 'us')).toBeNull();
+  });
+
+  it('observes US holidays that fall on a Sunday on the Monday', () => {
+    // 4 July 2027 is a Sunday
+    expect(holidayOn(new Date(2027, 6, 5), 'us')?.name).toBe('Independence Day');
+    // 4 July 2026 is a Saturday
+    expect(holidayOn(new Date(2026, 6, 3), 'us')?.name).toBe('Independence Day');
+  });
+
+  it('follows Easter for bank holidays in England and Wales', () => {
+    expect(holidayOn(new Date(2026, 3, 6), 'gb')?.name).toBe('Easter Monday');
+    expect(holidayOn(new Date(2027, 2, 29), 'gb')?.name).toBe('Easter Monday');
+    expect(holidayOn(new Date(2026, 7, 31), 'gb')?.name).toBe('Summer bank holiday');
+  });
+
+  it('gives Christmas and Boxing Day on a weekend their own substitute days', () => {
+    // 25 December 2027 is a Saturday
+    const christmas = publicHolidays(2027, 'gb').filter(h => h.date >= '2027-12-01');
+    expect(christmas.map(h => h.date)).toEqual(['2027-12-27', '2027-12-28']);
+  });
+
+  it('has no holidays without a region', () => {
+    expect(publicHolidays(2026, 'none')).toEqual([]);
+    expect(holidayOn(new Date(2026, 4, 25), 'none')).toBeNull();
+  });
+});
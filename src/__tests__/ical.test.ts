@@ -0,0 +1,198 @@
+/**
+ * iCalendar tests
+ * Plans as events, round trips through the serializer and parser, zones, folding and escaping
+ */
+
+import {
+  IcsParseError,
+  parseCalendar,
+  parseIcs,
+  planToCalendar,
+  serializeCalendar,
+  zoneOffsetMins,
+} from '../lib/ical';
+import type { WeekendActivity } from '../lib/persistence';
+import type { Routine } from '../lib/recurrence';
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 12, 0));
+
+const hike: WeekendActivity = {
+  id: 'hike',
+  title: 'Hike, then picnic; bring snacks',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '08:00',
+  durationMins: 180,
+  mood: 'energetic',
+  notes: 'Trailhead parking fills up\nLeave by 7:30',
+  location: { name: 'Lake Trail', lat: 47.5, lng: 11.25 },
+};
+
+const swim: WeekendActivity = {
+  id: 'swim_1',
+  title: 'Swim lessons',
+  category: 'fitness',
+  day: 'sunday',
+  start: '23:00',
+  durationMins: 120,
+  seriesId: 'series_swim',
+  recurrence: { frequency: 'weekly', interval: 2, since: '2026-10-10' },
+};
+
+const routine: Routine = { ...swim, id: 'series_swim', seriesId: undefined, recurrence: { ...swim.recurrence!, exceptions: ['2026-11-07'] } };
+
+function lines(text: string): string[] {
+  return text.split('\r\n');
+}
+
+describe('planToCalendar', () => {
+  it('turns activities into events at their wall-clock times', () => {
+    const { events } = planToCalendar([hike, swim], '2026-10-24', { timeZone: 'Europe/Berlin', reminderMins: 30, routines: [routine] });
+    expect(events[0]).toEqual({
+      uid: 'hike-2026-10-24@weekendly',
+      summary: hike.title,
+      start: { date: '2026-10-24', time: '08:00', timeZone: 'Europe/Berlin' },
+      end: { date: '2026-10-24', time: '11:00', timeZone: 'Europe/Berlin' },
+      description: hike.notes,
+      location: 'Lake Trail',
+      geo: { lat: 47.5, lng: 11.25 },
+      categories: ['Outdoor', 'Energetic'],
+      alarmMins: 30,
+    });
+    // The series starts where the routine does, not on this weekend
+    expect(events).toHaveLength(2);
+    expect(events[1]).toMatchObject({
+      uid: 'series_swim@weekendly',
+      start: { date: '2026-10-11', time: '23:00' },
+      end: { date: '2026-10-12', time: '01:00' },
+      rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=SU',
+      exdates: [{ date: '2026-11-08', time: '23:00', timeZone: 'Europe/Berlin' }],
+    });
+  });
+
+  it('exports an occurrence changed this weekend as an override of the series', () => {
+    const moved = { ...swim, start: '21:00', notes: 'Pool closes early' };
+    const { events } = planToCalendar([moved], '2026-10-24', { timeZone: 'Europe/Berlin', routines: [routine] });
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ uid: 'series_swim@weekendly', start: { date: '2026-10-11', time: '23:00' }, rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=SU' });
+    expect(events[0].description).toBeUndefined();
+    expect(events[1]).toEqual(expect.objectContaining({
+      uid: 'series_swim@weekendly',
+      recurrenceId: { date: '2026-10-25', time: '23:00', timeZone: 'Europe/Berlin' },
+      start: { date: '2026-10-25', time: '21:00', timeZone: 'Europe/Berlin' },
+      description: 'Pool closes early',
+    }));
+    expect(events[1].rrule).toBeUndefined();
+
+    const text = lines(serializeCalendar({ events }, NOW));
+    expect(text).toContain('RECURRENCE-ID;TZID=Europe/Berlin:20261025T230000');
+  });
+
+  it('keeps UIDs stable between exports', () => {
+    const first = serializeCalendar(planToCalendar([hike, swim], '2026-10-24', { timeZone: 'UTC' }), NOW);
+    const again = serializeCalendar(planToCalendar([hike, swim], '2026-10-24', { timeZone: 'UTC' }), new Date());
+    const uids = (text: string) => lines(text).filter(l => l.startsWith('UID:'));
+    expect(uids(again)).toEqual(uids(first));
+  });
+});
+
+describe('serializeCalendar', () => {
+  const text = serializeCalendar(planToCalendar([hike, swim], '2026-10-24', { timeZone: 'Europe/Berlin', reminderMins: 60, routines: [routine] }), NOW);
+
+  it('writes zoned times, a UTC stamp, reminders and escaped text', () => {
+    const all = lines(text);
+    expect(all).toContain('DTSTART;TZID=Europe/Berlin:20261024T080000');
+    expect(all).toContain('DTSTAMP:20261019T120000Z');
+    expect(all).toContain('EXDATE;TZID=Europe/Berlin:20261108T230000');
+    expect(all).toContain('TRIGGER:-PT1H');
+    expect(all).toContain('SUMMARY:Hike\\, then picnic\\; bring snacks');
+    expect(all).toContain('CATEGORIES:Outdoor,Energetic');
+    expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('describes the zone with its offset changes', () => {
+    const zone = text.slice(text.indexOf('BEGIN:VTIMEZONE'), text.indexOf('END:VTIMEZONE'));
+    expect(zone).toContain('TZID:Europe/Berlin');
+    expect(zone).toContain('BEGIN:DAYLIGHT\r\nDTSTART:20260329T020000\r\nTZOFFSETFROM:+0100\r\nTZOFFSETTO:+0200');
+    expect(zone).toContain('BEGIN:STANDARD\r\nDTSTART:20261025T030000\r\nTZOFFSETFROM:+0200\r\nTZOFFSETTO:+0100');
+    // The recurring event reaches into the next year, and its changes repeat from there on
+    expect(zone).toContain('BEGIN:DAYLIGHT\r\nDTSTART:20270328T020000\r\nRRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU\r\n');
+    expect(zone).toContain('BEGIN:STANDARD\r\nDTSTART:20271031T030000\r\nRRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU\r\n');
+    expect(zone.match(/RRULE/g)).toHaveLength(2);
+  });
+
+  it('repeats zone changes by weekday of the month, and only for recurring events', () => {
+    const newYork = serializeCalendar(planToCalendar([hike, swim], '2026-10-24', { timeZone: 'America/New_York', routines: [routine] }), NOW);
+    expect(newYork).toContain('DTSTART:20270314T020000\r\nRRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+    expect(newYork).toContain('DTSTART:20271107T020000\r\nRRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+
+    const oneOff = serializeCalendar(planToCalendar([hike], '2026-10-24', { timeZone: 'Europe/Berlin' }), NOW);
+    expect(oneOff).not.toContain('RRULE');
+  });
+
+  it('writes one standard observance for zones without DST', () => {
+    const tokyo = serializeCalendar(planToCalendar([hike], '2026-10-24', { timeZone: 'Asia/Tokyo' }), NOW);
+    expect(tokyo).toContain('BEGIN:STANDARD\r\nDTSTART:20260101T000000\r\nTZOFFSETFROM:+0900\r\nTZOFFSETTO:+0900\r\nEND:STANDARD');
+    expect(tokyo).not.toContain('DAYLIGHT');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const notes = `${'Sunrise over the ridge 🌄 '.repeat(12)}ends here`;
+    const folded = serializeCalendar(planToCalendar([{ ...hike, notes }], '2026-10-24', { timeZone: 'UTC' }), NOW);
+    const all = lines(folded);
+    expect(all.every(l => Buffer.byteLength(l, 'utf8') <= 75)).toBe(true);
+    expect(all.some(l => l.startsWith(' '))).toBe(true);
+    expect(folded).not.toContain('�');
+    expect(parseCalendar(folded).events[0].description).toBe(notes);
+  });
+});
+
+describe('parseCalendar', () => {
+  it('reads back what was written', () => {
+    const calendar = planToCalendar([hike, swim], '2026-10-24', {
+      timeZone: 'America/New_York',
+      reminderMins: 1440,
+      routines: [routine],
+      name: 'Weekendly, Oct 24',
+    });
+    expect(parseCalendar(serializeCalendar(calendar, NOW))).toEqual(calendar);
+  });
+
+  it('reads other calendars’ UTC, all-day and duration events', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:a@example.com',
+      'DTSTART:20261024T150000Z',
+      'DURATION:PT1H30M',
+      'SUMMARY:Dentist',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:b@example.com',
+      'DTSTART;VALUE=DATE:20261025',
+      'SUMMARY:Family',
+      '\t day',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\n');
+    expect(parseCalendar(text).events).toEqual([
+      { uid: 'a@example.com', summary: 'Dentist', start: { date: '2026-10-24', time: '15:00', timeZone: 'UTC' }, end: { date: '2026-10-24', time: '16:30', timeZone: 'UTC' } },
+      { uid: 'b@example.com', summary: 'Family day', start: { date: '2026-10-25' }, end: { date: '2026-10-26' } },
+    ]);
+  });
+
+  it('rejects documents that are not calendars', () => {
+    expect(() => parseIcs('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nEND:VCALENDAR')).toThrow(IcsParseError);
+    expect(() => parseIcs('hello')).toThrow('Not a property: "hello" (line 1)');
+    expect(() => parseIcs('BEGIN:VCARD\r\nEND:VCARD')).toThrow('No VCALENDAR found');
+  });
+});
+
+describe('zoneOffsetMins', () => {
+  it('follows daylight saving time', () => {
+    expect(zoneOffsetMins('America/New_York', new Date(Date.UTC(2026, 6, 1)))).toBe(-240);
+    expect(zoneOffsetMins('America/New_York', new Date(Date.UTC(2026, 11, 1)))).toBe(-300);
+  });
+});
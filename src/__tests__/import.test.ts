@@ -0,0 +1,105 @@
+/**
+ * Import tests
+ * Schema validation, merge/replace/new modes and dry runs
+ */
+
+import 'fake-indexeddb/auto';
+import { ImportValidationError, PersistenceManager, WeekendActivity } from '../lib/persistence';
+import { parseImport } from '../lib/plan-import';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+const brunch: WeekendActivity = {
+  id: 'a2',
+  title: 'Brunch',
+  category: 'food',
+  day: 'sunday',
+  start: '11:00',
+  durationMins: 90,
+};
+
+describe('Plan import', () => {
+  let manager: PersistenceManager;
+  let dbCounter = 0;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    manager = new PersistenceManager(`import-${dbCounter++}`);
+    await manager.init();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports field-level errors', () => {
+    const result = parseImport({
+      plans: [{ theme: 'lazy', activities: [{ ...walk, start: '9am' }, { ...walk, durationMins: 'long' }] }],
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    const paths = result.issues.map(i => i.path);
+    expect(paths).toContain('plans[0].activities[0].start');
+    expect(paths).toContain('plans[0].activities[1].durationMins');
+  });
+
+  it('flags duplicate activity ids', () => {
+    const result = parseImport({ theme: 'lazy', activities: [walk, { ...brunch, id: 'a1' }] });
+
+    expect(result).toEqual({ ok: false, issues: [{ path: 'activities[1].id', message: 'Duplicate activity id "a1"' }] });
+  });
+
+  it('rejects invalid data without writing anything', async () => {
+    const error = await manager.importData({ theme: 'party', activities: [] }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ImportValidationError);
+    expect(error.issues[0].path).toBe('theme');
+    expect(await manager.getAllPlans()).toHaveLength(0);
+  });
+
+  it('previews a dry run without saving', async () => {
+    await manager.saveThemePlan('lazy', [walk]);
+
+    const preview = await manager.importData({ theme: 'lazy', activities: [walk, brunch] }, { dryRun: true });
+    expect(preview.steps[0].action).toBe('update');
+    expect(preview.steps[0].diff.added.map(a => a.id)).toEqual(['a2']);
+    expect((await manager.getThemePlan('lazy'))!.activities).toEqual([walk]);
+  });
+
+  it('merges into the matching plan and keeps conflicting local edits', async () => {
+    await manager.saveThemePlan('lazy', [walk]);
+
+    const result = await manager.importData({ theme: 'lazy', activities: [{ ...walk, start: '10:00' }, brunch] });
+    expect(result.steps[0].conflicts).toHaveLength(1);
+
+    const plans = await manager.getAllPlans();
+    expect(plans).toHaveLength(1);
+    expect(plans[0].activities).toEqual([walk, brunch]);
+  });
+
+  it('replaces the matching plan', async () => {
+    await manager.saveThemePlan('lazy', [walk]);
+
+    await manager.importData({ theme: 'lazy', activities: [brunch] }, { mode: 'replace' });
+    expect((await manager.getThemePlan('lazy'))!.activities).toEqual([brunch]);
+  });
+
+  it('imports a backup as new plans with fresh ids', async () => {
+    const id = await manager.savePlan({ theme: 'family', activities: [walk] });
+    const backup = JSON.parse(JSON.stringify(await manager.exportAllData()));
+
+    const result = await manager.importData(backup, { mode: 'new' });
+    expect(result.planIds).toHaveLength(1);
+    expect(result.planIds[0]).not.toBe(id);
+    expect(await manager.getAllPlans()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Schema migration tests
+ * Seeds version 1 data into fake-indexeddb and localStorage, then checks the upgrade
+ */
+
+import 'fake-indexeddb/auto';
+import { PersistenceManager } from '../lib/persistence';
+import { CURRENT_SCHEMA_VERSION, migratePlanRecord, pendingMigrations } from '../lib/migrations';
+
+const legacyPlan = {
+  id: 'plan_1700000000000_abc123',
+  theme: 'family',
+  activities: [
+    { id: 'a1', title: 'Brunch', category: 'food', day: 'sunday', start: '10:00', durationMins: '90' },
+    { id: 'a2', title: 'Walk', category: 'outdoor', day: 'saturday', start: '09:00', durationMins: 0 },
+  ],
+  createdAt: '2024-03-02T09:00:00.000Z',
+  updatedAt: '2024-03-02T10:00:00.000Z',
+};
+
+// Recreates the store layout shipped before migrations existed
+function seedVersion1Database(dbName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const plans = db.createObjectStore('plans', { keyPath: 'id' });
+      plans.createIndex('theme', 'theme', { unique: false });
+      plans.createIndex('createdAt', 'createdAt', { unique: false });
+      plans.createIndex('updatedAt', 'updatedAt', { unique: false });
+      const activities = db.createObjectStore('activities', { keyPath: 'id' });
+      activities.createIndex('category', 'category', { unique: false });
+      activities.createIndex('day', 'day', { unique: false });
+      activities.createIndex('planId', 'planId', { unique: false });
+      db.createObjectStore('settings', { keyPath: 'key' });
+      db.createObjectStore('sync', { keyPath: 'key' });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      const tx = db.transaction(['plans'], 'readwrite');
+      tx.objectStore('plans').add(legacyPlan);
+      tx.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      tx.onerror = () => reject(tx.error);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe('Schema migrations', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('orders pending migrations by version', () => {
+    const versions = pendingMigrations(0).map(m => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions[versions.length - 1]).toBe(CURRENT_SCHEMA_VERSION);
+    expect(pendingMigrations(CURRENT_SCHEMA_VERSION)).toHaveLength(0);
+  });
+
+  it('normalizes an old-shape plan record', () => {
+    const migrated = migratePlanRecord(legacyPlan);
+
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.createdAt).toBeInstanceOf(Date);
+    expect(migrated.version).toBe(1);
+    expect(migrated.metadata).toEqual({ isTemplate: false });
+    expect(migrated.activities[0].durationMins).toBe(90);
+    expect(migrated.activities[1].durationMins).toBe(60);
+  });
+
+  it('upgrades a version 1 IndexedDB database in place', async () => {
+    await seedVersion1Database('migrations-idb');
+
+    const manager = new PersistenceManager('migrations-idb');
+    await manager.init();
+
+    const plan = await manager.getPlan(legacyPlan.id);
+    expect(plan).not.toBeNull();
+    expect(plan!.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(plan!.metadata?.isTemplate).toBe(false);
+    expect(plan!.updatedAt).toBeInstanceOf(Date);
+
+    const stats = await manager.getStats();
+    expect(stats.totalActivities).toBe(2);
+  });
+
+  it('creates every store on a fresh database', async () => {
+    const manager = new PersistenceManager('migrations-fresh');
+    await manager.init();
+
+    const id = await manager.savePlan({ theme: 'lazy', activities: [] });
+    const plan = await manager.getPlan(id);
+    expect(plan!.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('migrates localStorage plans and adopts legacy theme snapshots', async () => {
+    window.localStorage.setItem(`weekendly.plan.${legacyPlan.id}`, JSON.stringify(legacyPlan));
+    window.localStorage.setItem('weekendly.plan.lazy', JSON.stringify([
+      { id: 'b1', title: 'Nap', category: 'home', day: 'saturday', start: '14:00', durationMins: 45 },
+    ]));
+    // The family snapshot is superseded by the existing family plan
+    window.localStorage.setItem('weekendly.plan.family', JSON.stringify([]));
+
+    const manager = new PersistenceManager('migrations-local');
+    await manager.init();
+
+    expect(window.localStorage.getItem('weekendly.schemaVersion')).toBe(String(CURRENT_SCHEMA_VERSION));
+    const stored = JSON.parse(window.localStorage.getItem(`weekendly.plan.${legacyPlan.id}`)!);
+    expect(stored.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+
+    const adopted = Object.keys(window.localStorage)
+      .filter(k => k.startsWith('weekendly.plan.plan_'))
+      .map(k => JSON.parse(window.localStorage.getItem(k)!));
+    expect(adopted.map(p => p.theme).sort()).toEqual(['family', 'lazy']);
+    expect(adopted.find(p => p.theme === 'lazy').activities[0].title).toBe('Nap');
+  });
+
+  it('moves adopted legacy snapshots into IndexedDB', async () => {
+    window.localStorage.setItem('weekendly.plan.adventurous', JSON.stringify([
+      { id: 'c1', title: 'Climbing', category: 'outdoor', day: 'saturday', start: '10:00', durationMins: 120 },
+    ]));
+
+    const manager = new PersistenceManager('migrations-legacy-idb');
+    await manager.init();
+
+    const plans = await manager.getAllPlans();
+    expect(plans).toHaveLength(1);
+    expect(plans[0]).toMatchObject({ theme: 'adventurous', schemaVersion: CURRENT_SCHEMA_VERSION });
+    expect(plans[0].activities.map(a => a.title)).toEqual(['Climbing']);
+    expect(await manager.getRevisions(plans[0].id)).toHaveLength(1);
+  });
+});
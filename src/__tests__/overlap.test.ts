@@ -0,0 +1,59 @@
+/**
+ * Overlap tests
+ * Which overlaps are allowed, warned about or blocked, and side-by-side lanes
+ */
+
+import type { WeekendActivity } from '../lib/persistence';
+import { checkOverlaps, layoutLanes, overlapVerdict } from '../lib/overlap';
+
+function activity(id: string, start: string, durationMins: number, overlap?: WeekendActivity['overlap']): WeekendActivity {
+  return { id, title: id, category: 'other', day: 'saturday', start, durationMins, ...(overlap ? { overlap } : {}) };
+}
+
+describe('Overlap rules', () => {
+  const soccer = activity('soccer', '10:00', 90);
+  const groceries = activity('groceries', '10:30', 60);
+
+  it('blocks overlaps unless overlap lanes are on', () => {
+    expect(checkOverlaps([soccer], groceries).blocking).toEqual([soccer]);
+    expect(checkOverlaps([soccer], groceries, { allowOverlaps: true })).toEqual({ blocking: [], warnings: [soccer] });
+  });
+
+  it('lets two "can overlap" activities share time without a warning', () => {
+    expect(overlapVerdict({ ...soccer, overlap: 'allow' }, { ...groceries, overlap: 'allow' }, false)).toBe('ok');
+    expect(overlapVerdict({ ...soccer, overlap: 'allow' }, groceries, false)).toBe('block');
+    expect(overlapVerdict({ ...soccer, overlap: 'allow' }, groceries, true)).toBe('warn');
+  });
+
+  it('never lets an exclusive activity share time', () => {
+    expect(overlapVerdict({ ...soccer, overlap: 'exclusive' }, groceries, true)).toBe('block');
+    expect(overlapVerdict(soccer, { ...groceries, overlap: 'exclusive' }, true)).toBe('block');
+  });
+
+  it('ignores the activity being moved and other days', () => {
+    expect(checkOverlaps([soccer], { ...soccer, start: '10:30' }).blocking).toEqual([]);
+    expect(checkOverlaps([soccer], { ...groceries, day: 'sunday' }).blocking).toEqual([]);
+    expect(checkOverlaps([soccer], activity('lunch', '11:30', 60)).blocking).toEqual([]);
+  });
+});
+
+describe('layoutLanes', () => {
+  it('puts overlapping activities side by side', () => {
+    const lanes = layoutLanes([
+      activity('a', '09:00', 180),
+      activity('b', '10:00', 60),
+      activity('c', '11:00', 60), // fits in b's lane once b is over
+      activity('d', '14:00', 60), // a new group on its own
+    ]);
+    expect(lanes.get('a')).toEqual({ lane: 0, lanes: 2 });
+    expect(lanes.get('b')).toEqual({ lane: 1, lanes: 2 });
+    expect(lanes.get('c')).toEqual({ lane: 1, lanes: 2 });
+    expect(lanes.get('d')).toEqual({ lane: 0, lanes: 1 });
+  });
+
+  it('adds a lane for each activity running at once', () => {
+    const lanes = layoutLanes([activity('a', '10:00', 60), activity('b', '10:00', 60), activity('c', '10:15', 30)]);
+    expect([...lanes.values()].map(p => p.lanes)).toEqual([3, 3, 3]);
+    expect(new Set([...lanes.values()].map(p => p.lane))).toEqual(new Set([0, 1, 2]));
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Plan library tests
+ * Several named plans per theme: create, rename, duplicate, archive and save by id
+ */
+
+import 'fake-indexeddb/auto';
+import { getPlanName, PersistenceManager, PlanConflictError, PlanNotFoundError, WeekendActivity } from '../lib/persistence';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+describe('Plan library', () => {
+  let dbCounter = 0;
+  let manager: PersistenceManager;
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    manager = new PersistenceManager(`library-${dbCounter++}`);
+    await manager.init();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps several named plans for one theme', async () => {
+    const visit = await manager.createPlan('family', { name: 'Mom visiting', activities: [walk] });
+    const rainy = await manager.createPlan('family', { name: 'Rainy weekend' });
+
+    // Edited last, so it sorts first
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await manager.savePlanActivities(rainy.id, [{ ...walk, title: 'Museum' }]);
+
+    expect((await manager.getPlan(visit.id))!.activities).toEqual([walk]);
+    expect((await manager.listPlans()).map(getPlanName)).toEqual(['Rainy weekend', 'Mom visiting']);
+    expect((await manager.getThemePlan('family'))!.id).toBe(rainy.id);
+  });
+
+  it('names unnamed plans after their theme', async () => {
+    await manager.saveThemePlan('adventurous', [walk]);
+    expect(getPlanName((await manager.getThemePlan('adventurous'))!)).toBe('Adventurous weekend');
+  });
+
+  it('renames and duplicates plans', async () => {
+    const plan = await manager.createPlan('lazy', { name: 'Slow Sunday', activities: [walk] });
+
+    const renamed = await manager.renamePlan(plan.id, '  Very slow Sunday ');
+    expect(renamed.metadata?.name).toBe('Very slow Sunday');
+    expect(renamed.version).toBe(plan.version + 1);
+
+    const copy = await manager.duplicatePlan(plan.id);
+    expect(copy.id).not.toBe(plan.id);
+    expect(getPlanName(copy)).toBe('Very slow Sunday (copy)');
+    expect(copy.activities).toEqual([walk]);
+    await expect(manager.duplicatePlan('plan_missing')).rejects.toBeInstanceOf(PlanNotFoundError);
+  });
+
+  it('hides archived plans until they are restored', async () => {
+    const keep = await manager.createPlan('lazy', { name: 'Keep' });
+    const old = await manager.createPlan('lazy', { name: 'Old' });
+
+    await manager.archivePlan(old.id);
+    expect((await manager.listPlans()).map(p => p.id)).toEqual([keep.id]);
+    expect(await manager.listPlans({ includeArchived: true })).toHaveLength(2);
+    expect((await manager.getThemePlan('lazy'))!.id).toBe(keep.id);
+
+    const restored = await manager.archivePlan(old.id, false);
+    expect(restored.metadata?.archived).toBeUndefined();
+    expect(await manager.listPlans()).toHaveLength(2);
+  });
+
+  it('rejects stale saves to a plan by id', async () => {
+    const plan = await manager.createPlan('lazy', { name: 'Shared' });
+    const version = await manager.savePlanActivities(plan.id, [walk], { baseVersion: plan.version });
+
+    const error = await manager
+      .savePlanActivities(plan.id, [{ ...walk, start: '10:00' }], { baseVersion: plan.version })
+      .catch(e => e);
+    expect(error).toBeInstanceOf(PlanConflictError);
+    expect(error.current.version).toBe(version);
+  });
+
+  it('imports named plans into the plan of the same name', async () => {
+    const plan = await manager.createPlan('family', { name: 'Mom visiting' });
+    await manager.createPlan('family', { name: 'Rainy weekend' });
+
+    const result = await manager.importData({
+      plans: [{ theme: 'family', activities: [walk], metadata: { name: 'Mom visiting' } }],
+    });
+    expect(result.planIds).toEqual([plan.id]);
+    expect((await manager.getPlan(plan.id))!.activities).toEqual([walk]);
+  });
+});
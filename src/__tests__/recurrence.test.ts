@@ -0,0 +1,144 @@
+/**
+ * Recurrence tests
+ * Which weekends routines fall on, expanding them into plans, series edits and RRULEs
+ */
+
+import type { WeekendActivity } from '../lib/persistence';
+import {
+  applySeriesChange,
+  describeRecurrence,
+  expandRoutines,
+  occursOn,
+  presetRule,
+  retargetSeries,
+  rulePreset,
+  toRRule,
+  type Routine,
+} from '../lib/recurrence';
+
+const swim: Routine = {
+  id: 'series_swim',
+  title: 'Swim lessons',
+  category: 'fitness',
+  day: 'saturday',
+  start: '08:00',
+  durationMins: 60,
+  recurrence: { frequency: 'weekly', since: '2026-10-03' },
+};
+
+const call: Routine = {
+  id: 'series_call',
+  title: 'Call grandparents',
+  category: 'home',
+  day: 'sunday',
+  start: '17:00',
+  durationMins: 30,
+  recurrence: { frequency: 'monthly', weekOfMonth: 1, since: '2026-10-03' },
+};
+
+describe('occursOn', () => {
+  it('repeats weekly from the first weekend, every other one with an interval', () => {
+    expect(occursOn(swim.recurrence, 'saturday', '2026-10-24')).toBe(true);
+    expect(occursOn(swim.recurrence, 'saturday', '2026-09-26')).toBe(false);
+    const biweekly = presetRule('biweekly', '2026-10-03');
+    expect(['2026-10-03', '2026-10-10', '2026-10-17', '2026-10-24'].map(w => occursOn(biweekly, 'saturday', w))).toEqual([true, false, true, false]);
+  });
+
+  it('finds the first and last of a day in the month', () => {
+    // Sunday Oct 4 is October's first; Sunday Nov 1 is November's
+    expect(occursOn(call.recurrence, 'sunday', '2026-10-03')).toBe(true);
+    expect(occursOn(call.recurrence, 'sunday', '2026-10-10')).toBe(false);
+    expect(occursOn(call.recurrence, 'sunday', '2026-10-31')).toBe(true);
+    const last = presetRule('monthly-last', '2026-10-03');
+    expect(occursOn(last, 'saturday', '2026-10-31')).toBe(true);
+    expect(occursOn(last, 'saturday', '2026-10-24')).toBe(false);
+  });
+
+  it('skips exceptions and stops after the last weekend', () => {
+    const rule = { ...swim.recurrence, exceptions: ['2026-10-17'], until: '2026-10-24' };
+    expect(occursOn(rule, 'saturday', '2026-10-17')).toBe(false);
+    expect(occursOn(rule, 'saturday', '2026-10-24')).toBe(true);
+    expect(occursOn(rule, 'saturday', '2026-10-31')).toBe(false);
+  });
+});
+
+describe('presets', () => {
+  it('round-trips presets and describes any rule', () => {
+    expect(rulePreset(presetRule('monthly-last', '2026-10-03'))).toBe('monthly-last');
+    expect(rulePreset({ frequency: 'weekly', interval: 3, since: '2026-10-03' })).toBeNull();
+    expect(describeRecurrence(call.recurrence, 'sunday')).toBe('First Sunday of the month');
+    expect(describeRecurrence({ frequency: 'weekly', interval: 3, since: '2026-10-03' }, 'saturday')).toBe('Every 3 weekends');
+  });
+});
+
+describe('expandRoutines', () => {
+  it('adds due routines once, as occurrences of their series', () => {
+    const { added } = expandRoutines([swim, call], '2026-10-24', []);
+    expect(added).toHaveLength(1);
+    expect(added[0]).toMatchObject({ title: 'Swim lessons', start: '08:00', seriesId: 'series_swim' });
+    expect(added[0].id).not.toBe(swim.id);
+    expect(expandRoutines([swim], '2026-10-24', added).added).toEqual([]);
+  });
+
+  it('skips routines whose time is taken', () => {
+    const breakfast: WeekendActivity = { id: 'b', title: 'Breakfast', category: 'food', day: 'saturday', start: '08:30', durationMins: 60 };
+    expect(expandRoutines([swim], '2026-10-24', [breakfast])).toEqual({ added: [], skipped: [swim] });
+  });
+});
+
+describe('applySeriesChange', () => {
+  it('starts a routine from an activity', () => {
+    const activity: WeekendActivity = { ...swim, id: 'act_1', seriesId: 'series_new', dependsOn: [{ activityId: 'x' }] };
+    const [routine] = applySeriesChange([], { kind: 'start', activity }, '2026-10-24');
+    expect(routine).toEqual({ ...swim, id: 'series_new', recurrence: { ...swim.recurrence, since: '2026-10-24' } });
+  });
+
+  it('records a skipped weekend', () => {
+    const [routine] = applySeriesChange([swim], { kind: 'skip', seriesId: swim.id }, '2026-10-24');
+    expect(routine.recurrence.exceptions).toEqual(['2026-10-24']);
+  });
+
+  it('keeps cleared occurrences gone when the weekend loads again', () => {
+    const weekend = '2026-10-31';
+    const { added } = expandRoutines([swim, call], weekend, []);
+    expect(added).toHaveLength(2);
+
+    // Clearing the schedule skips each occurrence it removes
+    const routines = added.reduce(
+      (rs, a) => applySeriesChange(rs, { kind: 'skip', seriesId: a.seriesId! }, weekend),
+      [swim, call]
+    );
+    expect(expandRoutines(routines, weekend, []).added).toEqual([]);
+    expect(expandRoutines(routines, '2026-11-07', []).added.map(a => a.seriesId)).toEqual(['series_swim']);
+  });
+
+  it('splits the series for changes from this weekend on', () => {
+    const later = { ...swim, id: 'act_2', start: '09:00', seriesId: 'series_later' };
+    const [ended, next] = applySeriesChange([swim], { kind: 'future', seriesId: swim.id, activity: later }, '2026-10-24');
+    expect(ended.recurrence.until).toBe('2026-10-17');
+    expect(next).toMatchObject({ id: 'series_later', start: '09:00', recurrence: { since: '2026-10-24' } });
+
+    const stopped = applySeriesChange([swim], { kind: 'future', seriesId: swim.id, activity: { ...later, recurrence: undefined, seriesId: undefined } }, '2026-10-24');
+    expect(stopped).toEqual([{ ...swim, recurrence: { ...swim.recurrence, until: '2026-10-17', exceptions: undefined } }]);
+  });
+});
+
+describe('retargetSeries', () => {
+  it('replaces a later weekend’s occurrence with the new routine’s', () => {
+    const [occurrence] = expandRoutines([swim], '2026-10-31', []).added;
+    const moved: Routine = { ...swim, id: 'series_later', start: '09:00', recurrence: { ...swim.recurrence, since: '2026-10-24' } };
+    expect(retargetSeries([occurrence], '2026-10-31', swim.id, moved)).toEqual([
+      expect.objectContaining({ id: occurrence.id, start: '09:00', seriesId: 'series_later' }),
+    ]);
+    expect(retargetSeries([occurrence], '2026-10-31', swim.id)).toEqual([]);
+  });
+});
+
+describe('RRULE export', () => {
+  it('writes weekly, monthly and ending rules', () => {
+    expect(toRRule(swim.recurrence, 'saturday')).toBe('FREQ=WEEKLY;BYDAY=SA');
+    expect(toRRule(presetRule('biweekly', '2026-10-03'), 'sunday')).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU');
+    expect(toRRule({ ...call.recurrence, weekOfMonth: -1 }, 'sunday')).toBe('FREQ=MONTHLY;BYDAY=-1SU');
+    expect(toRRule({ ...swim.recurrence, until: '2026-12-19' }, 'saturday')).toMatch(/^FREQ=WEEKLY;BYDAY=SA;UNTIL=202612(19|20)T\d{6}Z$/);
+  });
+});
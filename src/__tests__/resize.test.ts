@@ -0,0 +1,39 @@
+/**
+ * Activity resize tests
+ * Snapping, minimum length and planning-hour bounds when an edge is dragged or nudged
+ */
+
+import { nudgeActivity, resizeActivity } from '../lib/resize';
+
+const walk = { id: 'a1', start: '10:00', durationMins: 60 };
+const bounds = { earliestMins: 9 * 60, latestMins: 22 * 60 };
+
+describe('resizeActivity', () => {
+  it('moves the end edge, snapped to the slot size', () => {
+    expect(resizeActivity(walk, 'end', 11 * 60 + 38, bounds)).toEqual({ ...walk, durationMins: 105 });
+  });
+
+  it('moves the start edge and keeps the end', () => {
+    expect(resizeActivity(walk, 'start', 9 * 60 + 20, bounds)).toEqual({ ...walk, start: '09:15', durationMins: 105 });
+  });
+
+  it('never goes below one slot', () => {
+    expect(resizeActivity(walk, 'end', 9 * 60, bounds).durationMins).toBe(15);
+    expect(resizeActivity(walk, 'start', 12 * 60, bounds)).toEqual({ ...walk, start: '10:45', durationMins: 15 });
+  });
+
+  it('stops at the planning hours', () => {
+    expect(resizeActivity(walk, 'start', 6 * 60, bounds).start).toBe('09:00');
+    expect(resizeActivity(walk, 'end', 23 * 60 + 30, bounds).durationMins).toBe(12 * 60);
+    // Already outside the hours: the edge can stay where it is
+    expect(resizeActivity({ ...walk, start: '07:00' }, 'start', 6 * 60, bounds).start).toBe('07:00');
+  });
+});
+
+describe('nudgeActivity', () => {
+  it('moves an edge by whole slots', () => {
+    expect(nudgeActivity(walk, 'end', 1, bounds).durationMins).toBe(75);
+    expect(nudgeActivity(walk, 'start', -2, bounds)).toEqual({ ...walk, start: '09:30', durationMins: 90 });
+    expect(nudgeActivity(walk, 'end', -1, { ...bounds, stepMins: 30 }).durationMins).toBe(30);
+  });
+});
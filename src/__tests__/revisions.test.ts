@@ -0,0 +1,99 @@
+/**
+ * Revision history tests
+ * Covers diffing and list/restore through both storage backends
+ */
+
+import 'fake-indexeddb/auto';
+import { PersistenceManager, WeekendActivity } from '../lib/persistence';
+import { diffActivities, summarizeDiff } from '../lib/revisions';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+const brunch: WeekendActivity = {
+  id: 'a2',
+  title: 'Brunch',
+  category: 'food',
+  day: 'sunday',
+  start: '11:00',
+  durationMins: 90,
+};
+
+describe('Revision history', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('diffs activity lists by id', () => {
+    const moved = { ...walk, start: '10:00' };
+    const diff = diffActivities([walk, brunch], [moved]);
+
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed.map(a => a.id)).toEqual(['a2']);
+    expect(diff.changed).toEqual([{ before: walk, after: moved, fields: ['start'] }]);
+    expect(summarizeDiff(diff)).toBe('−1 removed • ~1 changed');
+  });
+
+  it('keeps every IndexedDB save and restores an earlier version', async () => {
+    const manager = new PersistenceManager('revisions-idb');
+    await manager.init();
+
+    await manager.saveThemePlan('lazy', [walk]);
+    await manager.saveThemePlan('lazy', [walk, brunch]);
+    await manager.saveThemePlan('lazy', []);
+
+    const plan = (await manager.getThemePlan('lazy'))!;
+    const revisions = await manager.getRevisions(plan.id);
+    expect(revisions.map(r => r.version)).toEqual([3, 2, 1]);
+
+    const diff = await manager.diffRevisions(plan.id, 2);
+    expect(diff.removed.map(a => a.id)).toEqual(['a1', 'a2']);
+
+    await manager.renamePlan(plan.id, 'Slow Sunday');
+    const restored = await manager.restoreRevision(plan.id, 2);
+    expect(restored.version).toBe(5);
+    expect(restored.activities.map(a => a.id)).toEqual(['a1', 'a2']);
+    // Only activities come back; the rename sticks
+    expect(restored.metadata?.name).toBe('Slow Sunday');
+    expect((await manager.getRevisions(plan.id))[0].version).toBe(5);
+  });
+
+  it('skips saves that do not change the activities', async () => {
+    const manager = new PersistenceManager('revisions-noop');
+    await manager.init();
+
+    await manager.saveThemePlan('family', [walk]);
+    await manager.saveThemePlan('family', [walk]);
+
+    const plan = (await manager.getThemePlan('family'))!;
+    expect(await manager.getRevisions(plan.id)).toHaveLength(1);
+  });
+
+  it('records revisions in the localStorage fallback', async () => {
+    const manager = new PersistenceManager('revisions-local', { localStorageOnly: true });
+    await manager.init();
+
+    await manager.saveThemePlan('adventurous', [walk]);
+    await manager.saveThemePlan('adventurous', [brunch]);
+
+    const plan = (await manager.getThemePlan('adventurous'))!;
+    const revisions = await manager.getRevisions(plan.id);
+    expect(revisions.map(r => r.version)).toEqual([2, 1]);
+    expect(revisions[1].savedAt).toBeInstanceOf(Date);
+
+    const restored = await manager.restoreRevision(plan.id, 1);
+    expect(restored.activities).toEqual([walk]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Share link tests
+ * Round trips through the binary codec, Unicode, size, expiry, signatures and older links
+ */
+
+import { webcrypto } from 'node:crypto';
+import { CompressionStream, DecompressionStream } from 'node:stream/web';
+import { TextDecoder, TextEncoder } from 'node:util';
+import type { WeekendActivity } from '../lib/persistence';
+import { decodeShareLink, encodeShareLink, ShareLinkError, type SharedPlan } from '../lib/share-link';
+
+// Browsers have these; jsdom doesn't
+Object.assign(globalThis, { CompressionStream, DecompressionStream, TextEncoder, TextDecoder });
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 12, 0));
+
+const hike: WeekendActivity = {
+  id: 'hike',
+  title: 'Sunrise hike 🌄',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '06:30',
+  durationMins: 180,
+  mood: 'energetic',
+  notes: 'Café au lait at the top ☕',
+  location: { name: 'Zugspitze', lat: 47.42, lng: 10.98 },
+  locked: true,
+};
+
+const picnic: WeekendActivity = {
+  id: 'picnic',
+  title: '家族でピクニック',
+  category: 'food',
+  day: 'sunday',
+  start: '12:00',
+  durationMins: 90,
+  dependsOn: [{ activityId: 'hike' }],
+  recurrence: { frequency: 'monthly', weekOfMonth: -1, since: '2026-10-24' },
+};
+
+const plan: SharedPlan = { theme: 'family', activities: [hike, picnic], weekendOf: '2026-10-24', name: 'Alps weekend' };
+
+async function expectError(promise: Promise<unknown>, code: ShareLinkError['code']) {
+  await expect(promise).rejects.toThrow(ShareLinkError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe('share links', () => {
+  it('round-trip plans, emoji and all', async () => {
+    const token = await encodeShareLink(plan);
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    await expect(decodeShareLink(token)).resolves.toEqual({ plan, version: 1, signature: 'none', expiresAt: undefined });
+  });
+
+  it('are much shorter than base64 JSON', async () => {
+    const activities = Array.from({ length: 30 }, (_, i): WeekendActivity => ({
+      id: `ext_1760875200000_${i.toString(36).padStart(6, '0')}`,
+      title: ['Coffee', 'Farmers market', 'Bike ride', 'Board games'][i % 4],
+      category: 'other',
+      day: i % 2 ? 'sunday' : 'saturday',
+      start: `${String(8 + (i % 12)).padStart(2, '0')}:00`,
+      durationMins: 60,
+      notes: '',
+    }));
+    const token = await encodeShareLink({ theme: 'lazy', activities });
+    const legacy = Buffer.from(JSON.stringify({ theme: 'lazy', activities })).toString('base64');
+    expect(token.length).toBeLessThan(legacy.length / 3);
+  });
+
+  it('stop working once they expire', async () => {
+    const token = await encodeShareLink(plan, { expiresAt: new Date(NOW.getTime() + 60 * 60 * 1000) });
+    await expect(decodeShareLink(token, { now: NOW })).resolves.toMatchObject({ expiresAt: new Date(NOW.getTime() + 60 * 60 * 1000) });
+    await expectError(decodeShareLink(token, { now: new Date(NOW.getTime() + 2 * 60 * 60 * 1000) }), 'EXPIRED');
+  });
+
+  it('detect tampering when signed', async () => {
+    const token = await encodeShareLink(plan, { secret: 'hiking club', expiresAt: new Date(NOW.getTime() + 60 * 60 * 1000) });
+    await expect(decodeShareLink(token, { secret: 'hiking club', now: NOW })).resolves.toMatchObject({ plan, signature: 'valid' });
+    await expect(decodeShareLink(token, { now: NOW })).resolves.toMatchObject({ signature: 'unchecked' });
+    await expectError(decodeShareLink(token, { secret: 'book club', now: NOW }), 'BAD_SIGNATURE');
+
+    // Pushing the expiry back breaks the signature
+    const bytes = Buffer.from(token, 'base64url');
+    bytes[5] += 1;
+    await expectError(decodeShareLink(bytes.toString('base64url'), { secret: 'hiking club', now: NOW }), 'BAD_SIGNATURE');
+  });
+
+  it('reject damaged links and newer formats', async () => {
+    const token = await encodeShareLink(plan);
+    await expectError(decodeShareLink(token.slice(0, -6)), 'MALFORMED');
+    await expectError(decodeShareLink('not base64!'), 'MALFORMED');
+    await expectError(decodeShareLink(Buffer.from([2, 0, 1, 2, 3]).toString('base64url')), 'UNSUPPORTED_VERSION');
+  });
+
+  it('reject activities the import schema would, and drop fields it does not know', async () => {
+    await expectError(decodeShareLink(await encodeShareLink({ ...plan, activities: [{ ...hike, start: '24:30' }] })), 'MALFORMED');
+    await expectError(decodeShareLink(await encodeShareLink({ ...plan, activities: [{ ...hike, travelMins: -5 }] })), 'MALFORMED');
+
+    const extra = { ...hike, onclick: 'alert(1)' } as WeekendActivity;
+    const { plan: decoded } = await decodeShareLink(await encodeShareLink({ theme: 'lazy', activities: [extra] }));
+    expect(decoded.activities).toEqual([hike]);
+  });
+
+  it('still read links from before the binary format', async () => {
+    const oldPicnic = { ...picnic, title: 'Picnic', dependsOn: undefined };
+    const old = encodeURIComponent(btoa(JSON.stringify({ theme: 'adventurous', activities: [oldPicnic], weekendOf: '2026-10-24' })));
+    await expect(decodeShareLink(decodeURIComponent(old))).resolves.toEqual({
+      plan: { theme: 'adventurous', activities: [oldPicnic], weekendOf: '2026-10-24' },
+      version: 0,
+      signature: 'none',
+    });
+  });
+});
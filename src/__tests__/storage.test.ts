@@ -0,0 +1,139 @@
+/**
+ * Storage accounting tests
+ * Byte usage per plan, browser estimates, pruning and quota errors
+ */
+
+import 'fake-indexeddb/auto';
+import { formatBytes, PersistenceError, PersistenceManager, WeekendActivity } from '../lib/persistence';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+function setNavigatorStorage(storage: Partial<StorageManager> | undefined) {
+  Object.defineProperty(window.navigator, 'storage', { value: storage, configurable: true });
+}
+
+describe('Storage usage', () => {
+  let dbCounter = 0;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    setNavigatorStorage(undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('formats byte counts', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(50 * 1024 * 1024)).toBe('50 MB');
+  });
+
+  it('reports per-plan sizes and totals them in the stats', async () => {
+    const manager = new PersistenceManager(`storage-${dbCounter++}`);
+    await manager.init();
+
+    await manager.saveThemePlan('lazy', [walk]);
+    await manager.saveThemePlan('lazy', [walk, { ...walk, id: 'a2', title: 'Café ☕' }]);
+
+    const [usage] = await manager.getStorageUsage();
+    expect(usage.revisionCount).toBe(2);
+    expect(usage.planBytes).toBeGreaterThan(0);
+    expect(usage.revisionBytes).toBeGreaterThan(usage.planBytes);
+
+    const stats = await manager.getStats();
+    expect(stats.storageUsed).toBe(usage.planBytes + usage.revisionBytes);
+  });
+
+  it('merges the browser estimate and requests persistent storage', async () => {
+    const persist = jest.fn().mockResolvedValue(true);
+    setNavigatorStorage({
+      estimate: jest.fn().mockResolvedValue({ usage: 2048, quota: 1024 * 1024 }),
+      persisted: jest.fn().mockResolvedValue(false),
+      persist,
+    });
+    const manager = new PersistenceManager(`storage-${dbCounter++}`);
+    await manager.init();
+
+    const stats = await manager.getStats();
+    expect(stats).toEqual(expect.objectContaining({ storageEstimate: 2048, storageQuota: 1024 * 1024, persisted: false }));
+    expect(await manager.requestPersistentStorage()).toBe(true);
+    expect(persist).toHaveBeenCalled();
+  });
+
+  it('prunes old revisions but keeps the current version', async () => {
+    const manager = new PersistenceManager(`storage-${dbCounter++}`);
+    await manager.init();
+
+    for (let i = 0; i < 5; i++) {
+      await manager.saveThemePlan('family', [{ ...walk, durationMins: 60 + i * 15 }]);
+    }
+    const plan = (await manager.getThemePlan('family'))!;
+
+    const freed = await manager.pruneRevisions(2);
+    expect(freed).toBeGreaterThan(0);
+    expect((await manager.getRevisions(plan.id)).map(r => r.version)).toEqual([5, 4]);
+  });
+
+  it('removes template plans', async () => {
+    const manager = new PersistenceManager(`storage-${dbCounter++}`);
+    await manager.init();
+
+    await manager.savePlan({ theme: 'lazy', activities: [walk], metadata: { isTemplate: true } });
+    await manager.savePlan({ theme: 'family', activities: [walk] });
+
+    await manager.pruneTemplates();
+    expect((await manager.getAllPlans()).map(p => p.theme)).toEqual(['family']);
+  });
+
+  it('surfaces a full localStorage as QUOTA_EXCEEDED', async () => {
+    const manager = new PersistenceManager(`storage-${dbCounter++}`, { localStorageOnly: true });
+    await manager.init();
+
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+
+    const error = await manager.savePlan({ theme: 'lazy', activities: [walk] }).catch(e => e);
+    expect(error).toBeInstanceOf(PersistenceError);
+    expect(error.code).toBe('QUOTA_EXCEEDED');
+  });
+
+  it('surfaces a full localStorage as QUOTA_EXCEEDED when updating a plan', async () => {
+    const manager = new PersistenceManager(`storage-${dbCounter++}`, { localStorageOnly: true });
+    await manager.init();
+    const id = await manager.savePlan({ theme: 'lazy', activities: [walk] });
+
+    jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('full', 'QuotaExceededError');
+    });
+
+    const error = await manager.savePlanActivities(id, []).catch(e => e);
+    expect(error).toBeInstanceOf(PersistenceError);
+    expect(error.code).toBe('QUOTA_EXCEEDED');
+  });
+
+  it('caps the localStorage history', async () => {
+    const manager = new PersistenceManager(`storage-${dbCounter++}`, { localStorageOnly: true });
+    await manager.init();
+    const id = await manager.savePlan({ theme: 'lazy', activities: [] });
+
+    for (let i = 0; i < 30; i++) {
+      await manager.savePlanActivities(id, [{ ...walk, durationMins: 30 + i }]);
+    }
+
+    const revisions = await manager.getRevisions(id);
+    expect(revisions).toHaveLength(20);
+    expect(revisions[0].version).toBe(31);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Remote sync tests
+ * Reference backend rules, file store, and the outbox-driven sync engine
+ */
+
+import 'fake-indexeddb/auto';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { PersistenceManager, WeekendActivity } from '../lib/persistence';
+import { SyncAdapter, SyncEngine } from '../lib/sync';
+import { applyPush, changesSince, emptySyncState, FileSyncStore, SyncBackendState, syncSpaceOf } from '../lib/sync-server';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+// In-memory backend; JSON round trips stand in for the network
+class MemoryAdapter implements SyncAdapter {
+  state: SyncBackendState = emptySyncState();
+
+  async push(mutations: Parameters<SyncAdapter['push']>[0]) {
+    return JSON.parse(JSON.stringify(applyPush(this.state, JSON.parse(JSON.stringify(mutations)))));
+  }
+
+  async pull(since: number) {
+    return JSON.parse(JSON.stringify(changesSince(this.state, since)));
+  }
+}
+
+describe('Sync backend', () => {
+  it('accepts newer versions and reports ties as conflicts', () => {
+    const state = emptySyncState();
+    const plan = { id: 'p1', version: 1, theme: 'lazy', activities: [] };
+
+    expect(applyPush(state, [{ type: 'upsert', plan }]).accepted).toEqual(['p1']);
+    const tie = applyPush(state, [{ type: 'upsert', plan: { ...plan, activities: [walk] } }]);
+    expect(tie.accepted).toEqual([]);
+    expect(tie.conflicts[0]).toEqual(expect.objectContaining({ planId: 'p1', version: 1 }));
+
+    applyPush(state, [{ type: 'upsert', plan: { ...plan, version: 2 } }]);
+    expect(changesSince(state, 1).changes.map(c => c.version)).toEqual([2]);
+  });
+
+  it('keeps tombstones for deleted plans', () => {
+    const state = emptySyncState();
+    applyPush(state, [{ type: 'upsert', plan: { id: 'p1', version: 3 } }]);
+    applyPush(state, [{ type: 'delete', planId: 'p1', version: 3 }]);
+
+    expect(changesSince(state, 0).changes).toEqual([expect.objectContaining({ planId: 'p1', deleted: true })]);
+  });
+
+  it('puts each sync key in its own space', () => {
+    const key = 'k2Fq0hWm8xPzR4tYbN6vLcJd';
+    expect(syncSpaceOf(`Bearer ${key}`)).toBe(syncSpaceOf(`bearer ${key}`));
+    expect(syncSpaceOf(`Bearer ${key}`)).not.toBe(syncSpaceOf('Bearer aDifferentKeyOfTheSameSize'));
+    expect(syncSpaceOf(`Bearer ${key}`)).not.toContain(key);
+    // No key, or one too short to be hard to guess
+    expect(syncSpaceOf(null)).toBeNull();
+    expect(syncSpaceOf('Bearer hunter2')).toBeNull();
+  });
+
+  it('persists to a JSON file', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'weekendly-sync-'));
+    try {
+      const file = path.join(dir, 'nested', 'sync.json');
+      await new FileSyncStore(file).push([{ type: 'upsert', plan: { id: 'p1', version: 1 } }]);
+
+      const { changes, cursor } = await new FileSyncStore(file).pull(0);
+      expect(cursor).toBe(1);
+      expect(changes[0].planId).toBe('p1');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Sync engine', () => {
+  let dbCounter = 0;
+  let stops: Array<() => void> = [];
+
+  async function device(adapter: SyncAdapter) {
+    const manager = new PersistenceManager(`sync-${dbCounter++}`);
+    await manager.init();
+    const engine = new SyncEngine(manager, adapter, { debounceMs: 60_000 });
+    stops.push(engine.start());
+    return { manager, engine };
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    stops.forEach(stop => stop());
+    stops = [];
+    jest.restoreAllMocks();
+  });
+
+  it('pushes local plans and pulls them on another device', async () => {
+    const adapter = new MemoryAdapter();
+    const a = await device(adapter);
+    const b = await device(adapter);
+
+    await a.manager.saveThemePlan('lazy', [walk]);
+    expect((await a.engine.sync()).pushed).toBe(1);
+
+    const report = await b.engine.sync();
+    expect(report.pulled.map(p => p.theme)).toEqual(['lazy']);
+    expect((await b.manager.getThemePlan('lazy'))!.activities).toEqual([walk]);
+    // Applying a pulled plan is not queued as a local change
+    expect(await b.engine.pendingCount()).toBe(0);
+    expect((await b.manager.getStats()).lastSync).toBeInstanceOf(Date);
+  });
+
+  it('queues changes while offline and sends them once back online', async () => {
+    const adapter = new MemoryAdapter();
+    const a = await device(adapter);
+    const online = jest.spyOn(window.navigator, 'onLine', 'get').mockReturnValue(false);
+
+    await a.manager.saveThemePlan('family', [walk]);
+    await a.manager.saveThemePlan('family', [{ ...walk, start: '10:00' }]);
+    const offline = await a.engine.sync();
+    expect(offline).toEqual(expect.objectContaining({ pushed: 0, pending: 1 }));
+
+    online.mockReturnValue(true);
+    const report = await a.engine.sync();
+    expect(report).toEqual(expect.objectContaining({ pushed: 1, pending: 0 }));
+    expect(adapter.state.records[Object.keys(adapter.state.records)[0]].version).toBe(2);
+  });
+
+  it('resolves concurrent edits in favour of the server version', async () => {
+    const adapter = new MemoryAdapter();
+    const a = await device(adapter);
+    const b = await device(adapter);
+
+    await a.manager.saveThemePlan('lazy', [walk]);
+    await a.engine.sync();
+    await b.engine.sync();
+
+    await a.manager.saveThemePlan('lazy', [{ ...walk, title: 'Edited on A' }]);
+    await b.manager.saveThemePlan('lazy', [{ ...walk, title: 'Edited on B' }]);
+    await a.engine.sync();
+
+    const report = await b.engine.sync();
+    expect(report.conflicts).toBe(1);
+    const plan = (await b.manager.getThemePlan('lazy'))!;
+    expect(plan.activities[0].title).toBe('Edited on A');
+
+    // B's edit lost the tie but is still in its history, under the version it was saved as
+    const revisions = await b.manager.getRevisions(plan.id);
+    expect(revisions.map(r => r.version)).toEqual([3, 2, 1]);
+    expect(revisions[1].activities[0].title).toBe('Edited on B');
+
+    // The winner went out again at the new version, so both devices agree on it
+    expect(await b.engine.pendingCount()).toBe(1);
+    expect((await b.engine.sync()).pushed).toBe(1);
+    expect(adapter.state.records[plan.id].version).toBe(3);
+    await a.engine.sync();
+    expect((await a.manager.getPlan(plan.id))!.version).toBe(3);
+  });
+
+  it('sends every plan when joining a space, and starts over on another one', async () => {
+    const manager = new PersistenceManager(`sync-${dbCounter++}`);
+    await manager.init();
+    // Plans from before sync was turned on
+    await manager.saveThemePlan('lazy', [walk]);
+    await manager.saveThemePlan('family', [walk]);
+
+    const join = (adapter: SyncAdapter, space: string) => {
+      const engine = new SyncEngine(manager, adapter, { space, debounceMs: 60_000 });
+      stops.push(engine.start());
+      return engine;
+    };
+
+    const home = new MemoryAdapter();
+    expect((await join(home, 'home').sync()).pushed).toBe(2);
+    expect(await join(home, 'home').sync()).toEqual(expect.objectContaining({ pushed: 0, pulled: [] }));
+
+    const work = new MemoryAdapter();
+    expect((await join(work, 'work').sync()).pushed).toBe(2);
+  });
+
+  it('propagates deletions', async () => {
+    const adapter = new MemoryAdapter();
+    const a = await device(adapter);
+    const b = await device(adapter);
+
+    const id = await a.manager.savePlan({ theme: 'adventurous', activities: [walk] });
+    await a.engine.sync();
+    await b.engine.sync();
+
+    await a.manager.deletePlan(id);
+    await a.engine.sync();
+    expect((await b.engine.sync()).deleted).toEqual([id]);
+    expect(await b.manager.getPlan(id)).toBeNull();
+  });
+});
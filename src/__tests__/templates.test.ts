@@ -0,0 +1,145 @@
+/**
+ * Template tests
+ * Placing templates around scheduled activities, and template packs
+ */
+
+import 'fake-indexeddb/auto';
+import { ImportValidationError, PersistenceManager, WeekendActivity } from '../lib/persistence';
+import { placeTemplate } from '../lib/templates';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+const brunch: WeekendActivity = {
+  id: 'a2',
+  title: 'Brunch',
+  category: 'food',
+  day: 'saturday',
+  start: '10:00',
+  durationMins: 90,
+};
+
+const yoga: WeekendActivity = {
+  id: 't1',
+  title: 'Yoga',
+  category: 'fitness',
+  day: 'saturday',
+  start: '09:30',
+  durationMins: 60,
+};
+
+describe('placeTemplate', () => {
+  it('adds non-clashing activities with fresh ids', () => {
+    const result = placeTemplate([walk], [{ ...yoga, day: 'sunday' }]);
+    expect(result.added).toHaveLength(1);
+    expect(result.added[0].id).not.toBe(yoga.id);
+    expect(result.activities.map(a => a.title)).toEqual(['Morning Walk', 'Yoga']);
+  });
+
+  it('places routine occurrences as one-off activities', () => {
+    const routine = { ...yoga, seriesId: 'routine_yoga', recurrence: { frequency: 'weekly' as const, since: '2026-10-24' } };
+    const [placed] = placeTemplate([], [routine]).added;
+    expect(placed).toEqual(expect.objectContaining({ title: 'Yoga', start: '09:30' }));
+    expect(placed.seriesId).toBeUndefined();
+    expect(placed.recurrence).toBeUndefined();
+  });
+
+  it('moves clashes to the nearest free time', () => {
+    const result = placeTemplate([walk, brunch], [yoga], { strategy: 'shift' });
+    expect(result.shifted).toHaveLength(1);
+    // 08:00 is closer to 09:30 than 11:30 is
+    expect(result.shifted[0].start).toBe('08:00');
+    expect(result.activities).toHaveLength(3);
+  });
+
+  it('skips clashes', () => {
+    const result = placeTemplate([walk], [yoga, { ...yoga, id: 't2', start: '12:00' }], { strategy: 'skip' });
+    expect(result.skipped).toEqual([yoga]);
+    expect(result.added.map(a => a.start)).toEqual(['12:00']);
+  });
+
+  it('replaces what is in the way', () => {
+    const result = placeTemplate([walk, brunch], [yoga], { strategy: 'replace' });
+    expect(result.replaced).toEqual([walk, brunch]);
+    expect(result.activities.map(a => a.title)).toEqual(['Yoga']);
+  });
+
+  it('moves rather than replaces for neighbours that are only short on travel time', () => {
+    const result = placeTemplate([walk], [{ ...yoga, start: '10:05' }], { strategy: 'replace', travel: { bufferMins: 15 } });
+    expect(result.replaced).toEqual([]);
+    expect(result.activities).toContainEqual(walk);
+    expect(result.shifted.map(a => a.start)).toEqual(['10:20']);
+  });
+
+  it('never replaces locked activities and fits around them instead', () => {
+    const locked = { ...walk, locked: true };
+    const result = placeTemplate([locked, brunch], [yoga], { strategy: 'replace' });
+    expect(result.replaced).toEqual([]);
+    expect(result.shifted[0].start).toBe('08:00');
+    expect(result.activities).toContainEqual(locked);
+  });
+
+  it('keeps shifted Friday activities in the evening', () => {
+    const dinner = { ...walk, id: 'f1', day: 'friday' as const, start: '18:00', durationMins: 120 };
+    const result = placeTemplate([dinner], [{ ...dinner, id: 't3', start: '17:30' }], { strategy: 'shift' });
+    expect(result.shifted[0].start).toBe('20:00');
+  });
+
+  it('skips activities that fit nowhere in the day', () => {
+    const result = placeTemplate([walk], [yoga], { strategy: 'shift', dayStartMins: 9 * 60, dayEndMins: 10 * 60 + 30 });
+    expect(result.skipped).toEqual([yoga]);
+  });
+});
+
+describe('Template storage', () => {
+  let dbCounter = 0;
+  let manager: PersistenceManager;
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    manager = new PersistenceManager(`templates-${dbCounter++}`);
+    await manager.init();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('saves a plan as a template kept out of the plan list', async () => {
+    const plan = await manager.createPlan('family', { name: 'Mom visiting', activities: [walk, brunch] });
+    const template = await manager.saveAsTemplate(plan.id, 'Family Saturday', 'Walk then brunch');
+
+    expect(template.metadata).toEqual(expect.objectContaining({ isTemplate: true, name: 'Family Saturday', notes: 'Walk then brunch' }));
+    expect((await manager.listTemplates()).map(t => t.id)).toEqual([template.id]);
+    expect((await manager.listPlans()).map(p => p.id)).toEqual([plan.id]);
+  });
+
+  it('round-trips templates through a pack', async () => {
+    await manager.createTemplate('lazy', { name: 'Slow Sunday', activities: [{ ...walk, day: 'sunday' }] });
+    await manager.createTemplate('adventurous', { name: 'Active Saturday', activities: [walk, yoga] });
+    const pack = JSON.parse(JSON.stringify(await manager.exportTemplatePack()));
+
+    const other = new PersistenceManager(`templates-${dbCounter++}`);
+    await other.init();
+    await other.importTemplatePack(pack);
+
+    const templates = await other.listTemplates();
+    expect(templates.map(t => t.metadata?.name)).toEqual(['Active Saturday', 'Slow Sunday']);
+    expect(templates[0].activities).toEqual([walk, yoga]);
+  });
+
+  it('rejects invalid packs without writing anything', async () => {
+    const pack = { format: 'weekendly.template-pack', version: 1, templates: [{ name: 'Broken', theme: 'lazy', activities: [{ ...walk, start: '9am' }] }] };
+    await expect(manager.importTemplatePack(pack)).rejects.toBeInstanceOf(ImportValidationError);
+    await expect(manager.importTemplatePack({ plans: [] })).rejects.toBeInstanceOf(ImportValidationError);
+    expect(await manager.listTemplates()).toEqual([]);
+  });
+});
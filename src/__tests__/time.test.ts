@@ -0,0 +1,69 @@
+/**
+ * Time of day tests
+ * Planning hours from settings, 12h/24h labels and next start times
+ */
+
+import { dayHours, DEFAULT_DAY_HOURS, formatHour, formatTime, formatTimeRange, pickNextStartTime, timelineHours, timeSlots } from '../lib/time';
+
+describe('Planning hours', () => {
+  it('reads the start and end time settings', () => {
+    expect(dayHours('08:30', '21:00')).toEqual({ startMins: 8 * 60 + 30, endMins: 21 * 60 });
+    expect(dayHours('18:00', '00:00')).toEqual({ startMins: 18 * 60, endMins: 24 * 60 });
+  });
+
+  it('falls back to the default for windows it cannot use', () => {
+    expect(dayHours('22:00', '09:00')).toEqual(DEFAULT_DAY_HOURS);
+    expect(dayHours('10:00', '10:30')).toEqual(DEFAULT_DAY_HOURS);
+    expect(dayHours('', '22:00')).toEqual(DEFAULT_DAY_HOURS);
+  });
+
+  it('widens the timeline for activities outside the hours', () => {
+    const hours = dayHours('09:30', '21:15');
+    expect(timelineHours(hours)).toEqual({ startHour: 9, endHour: 22 });
+    expect(timelineHours(hours, [{ start: '07:00', durationMins: 60 }, { start: '22:00', durationMins: 90 }])).toEqual({ startHour: 7, endHour: 24 });
+  });
+
+  it('offers start times within the hours', () => {
+    const slots = timeSlots(dayHours('09:00', '22:00'), { earliestMins: 17 * 60 + 10, stepMins: 30 });
+    expect(slots[0]).toBe('17:30');
+    expect(slots[slots.length - 1]).toBe('21:30');
+  });
+});
+
+describe('Clock labels', () => {
+  it('formats 12h and 24h times', () => {
+    expect(formatTime('09:05', '12h')).toBe('9:05 AM');
+    expect(formatTime('00:30', '12h')).toBe('12:30 AM');
+    expect(formatTime(12 * 60, '12h')).toBe('12:00 PM');
+    expect(formatTime(24 * 60, '12h')).toBe('12:00 AM');
+    expect(formatTime(18 * 60 + 45, '24h')).toBe('18:45');
+  });
+
+  it('formats hour marks and ranges', () => {
+    expect(formatHour(7, '12h')).toBe('7 AM');
+    expect(formatHour(13, '12h')).toBe('1 PM');
+    expect(formatHour(7, '24h')).toBe('07:00');
+    expect(formatTimeRange('09:30', 90, '12h')).toBe('9:30 – 11:00 AM');
+    expect(formatTimeRange('11:30', 60, '12h')).toBe('11:30 AM – 12:30 PM');
+    expect(formatTimeRange('09:30', 90, '24h')).toBe('09:30–11:00');
+  });
+});
+
+describe('pickNextStartTime', () => {
+  const hours = dayHours('08:00', '20:00');
+
+  it('follows the last activity of the day', () => {
+    const existing = [
+      { day: 'saturday' as const, start: '09:00', durationMins: 100 },
+      { day: 'sunday' as const, start: '15:00', durationMins: 60 },
+    ];
+    expect(pickNextStartTime(existing, { hours })).toBe('11:00');
+    expect(pickNextStartTime(existing, { day: 'sunday', hours })).toBe('16:00');
+  });
+
+  it('stays within the planning hours', () => {
+    expect(pickNextStartTime([], { hours: dayHours('11:00', '20:00') })).toBe('11:00');
+    expect(pickNextStartTime([{ day: 'saturday', start: '18:00', durationMins: 180 }], { hours })).toBe('19:30');
+    expect(pickNextStartTime([], { day: 'friday', hours, earliestMins: 17 * 60 })).toBe('17:00');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Transactional write tests
+ * Plans, their activities index and revisions must commit or fail together
+ */
+
+import 'fake-indexeddb/auto';
+import { PersistenceError, PersistenceManager, PlanNotFoundError, WeekendActivity } from '../lib/persistence';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+// Write behind the manager's back, through a second connection to its database
+function putRaw(dbName: string, storeName: string, value: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const transaction = db.transaction([storeName], 'readwrite');
+      transaction.objectStore(storeName).put(value);
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+  });
+}
+
+describe('Transactional plan writes', () => {
+  let manager: PersistenceManager;
+  let dbName: string;
+  let dbCounter = 0;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    dbName = `transactions-${dbCounter++}`;
+    manager = new PersistenceManager(dbName);
+    await manager.init();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('has the activities indexed by the time savePlan resolves', async () => {
+    await manager.savePlan({ theme: 'lazy', activities: [walk] });
+
+    const stats = await manager.getStats();
+    expect(stats.totalActivities).toBe(1);
+  });
+
+  it('lets two plans share activity ids', async () => {
+    await manager.savePlan({ theme: 'lazy', activities: [walk] });
+    await manager.savePlan({ theme: 'family', activities: [walk] });
+
+    const stats = await manager.getStats();
+    expect(stats.totalPlans).toBe(2);
+    expect(stats.totalActivities).toBe(2);
+  });
+
+  it('rolls the plan back when an activity write fails', async () => {
+    const broken = { ...walk, id: undefined } as unknown as WeekendActivity;
+
+    await expect(manager.savePlan({ theme: 'lazy', activities: [broken] })).rejects.toBeInstanceOf(PersistenceError);
+    expect(await manager.getAllPlans()).toHaveLength(0);
+  });
+
+  it('rejects updates to a missing plan with a typed error', async () => {
+    const error = await manager.updatePlan('plan_missing', { activities: [] }).catch(e => e);
+
+    expect(error).toBeInstanceOf(PlanNotFoundError);
+    expect(error.code).toBe('NOT_FOUND');
+  });
+
+  it('replaces the indexed activities on update', async () => {
+    const id = await manager.savePlan({ theme: 'lazy', activities: [walk] });
+    await manager.updatePlan(id, { activities: [{ ...walk, id: 'a2' }, { ...walk, id: 'a3' }] });
+
+    const report = await manager.checkActivitiesIndex();
+    expect(report.consistent).toBe(true);
+    expect((await manager.getStats()).totalActivities).toBe(2);
+  });
+
+  it('detects and repairs drift between plans and activities', async () => {
+    const id = await manager.savePlan({ theme: 'lazy', activities: [walk, { ...walk, id: 'a2' }] });
+    await putRaw(dbName, 'activities', { ...walk, id: 'ghost', planId: 'plan_gone' });
+    await putRaw(dbName, 'activities', { ...walk, title: 'Edited elsewhere', planId: id });
+
+    const report = await manager.checkActivitiesIndex({ repair: true });
+    expect(report).toEqual(expect.objectContaining({ orphaned: 1, stale: 1, missing: 0, consistent: false, repaired: true }));
+
+    const after = await manager.checkActivitiesIndex();
+    expect(after.consistent).toBe(true);
+    expect((await manager.getStats()).totalActivities).toBe(2);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Travel tests
+ * Distance estimates, transit blocks between activities, and placement that leaves time to travel
+ */
+
+import { autoPlan } from '../lib/auto-plan';
+import { placeTemplate } from '../lib/templates';
+import { dayHours } from '../lib/time';
+import {
+  describeShortfall,
+  DistanceEstimator,
+  distanceKm,
+  parseCoordinates,
+  transitBlocks,
+  travelShortfalls,
+  type TravelEstimator,
+} from '../lib/travel';
+import { DEFAULT_DAY_RANGE, weekendDays } from '../lib/weekends';
+import { act } from './helpers/activities';
+
+const park = { name: 'City Park', lat: 48.8566, lng: 2.3522 };
+const museum = { name: 'Museum', lat: 48.9566, lng: 2.3522 }; // about 11 km north
+
+describe('DistanceEstimator', () => {
+  it('estimates from straight-line distance, rounded up to 5 minutes', () => {
+    expect(distanceKm(park, museum)).toBeCloseTo(11.1, 1);
+    // 5 min overhead + 11.1 km at 25 km/h ≈ 31.7 min
+    expect(new DistanceEstimator().estimateMins(park, museum)).toBe(35);
+    expect(new DistanceEstimator({ speedKmh: 50, overheadMins: 0 }).estimateMins(park, museum)).toBe(15);
+  });
+
+  it('treats same-named places as one and falls back without coordinates', () => {
+    const estimator = new DistanceEstimator({ fallbackMins: 20 });
+    expect(estimator.estimateMins({ name: 'Home' }, { name: ' home ' })).toBe(0);
+    expect(estimator.estimateMins({ name: 'Home' }, { name: 'Cafe' })).toBe(20);
+    expect(estimator.estimateMins(park, { ...park, name: 'Park gate' })).toBe(0);
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('reads "lat, lng" pairs and rejects anything else', () => {
+    expect(parseCoordinates('48.8584, 2.2945')).toEqual({ lat: 48.8584, lng: 2.2945 });
+    expect(parseCoordinates('-33.9 151.2')).toEqual({ lat: -33.9, lng: 151.2 });
+    expect(parseCoordinates('91, 0')).toBeNull();
+    expect(parseCoordinates('City Park')).toBeNull();
+  });
+});
+
+describe('transitBlocks', () => {
+  it('places travel and buffer right before the activity it leads to', () => {
+    const activities = [
+      act('walk', 'saturday', '09:00', 60, { location: park }),
+      act('art', 'saturday', '11:00', 60, { location: museum }),
+      act('lunch', 'saturday', '12:00', 60, { location: museum }),
+    ];
+    const blocks = transitBlocks(activities, 'saturday', { bufferMins: 10 });
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatchObject({ fromId: 'walk', toId: 'art', start: 11 * 60 - 45, travelMins: 35, bufferMins: 10, gapMins: 60 });
+    expect(blocks[0].label).toBe('35 min travel to Museum + 10 min buffer');
+    expect(blocks[1]).toMatchObject({ fromId: 'art', toId: 'lunch', travelMins: 0, neededMins: 10, gapMins: 0, label: '10 min buffer' });
+  });
+
+  it('uses an activity’s own travel time over the estimate and skips overlapping pairs', () => {
+    const activities = [
+      act('walk', 'saturday', '09:00', 60, { location: park }),
+      act('art', 'saturday', '11:00', 60, { location: museum, travelMins: 15 }),
+      act('audio-guide', 'saturday', '11:30', 60, { location: museum }),
+    ];
+    const [block] = transitBlocks(activities, 'saturday');
+    expect(block).toMatchObject({ toId: 'art', travelMins: 15 });
+    expect(transitBlocks(activities, 'saturday')).toHaveLength(1);
+  });
+
+  it('asks a custom estimator', () => {
+    const estimator: TravelEstimator = { estimateMins: () => 40 };
+    const activities = [act('a', 'saturday', '09:00', 60, { location: { name: 'A' } }), act('b', 'saturday', '11:00', 60, { location: { name: 'B' } })];
+    expect(transitBlocks(activities, 'saturday', { estimator })[0].travelMins).toBe(40);
+  });
+});
+
+describe('travelShortfalls', () => {
+  const walk = act('walk', 'saturday', '09:00', 60, { location: park });
+  const lunch = act('lunch', 'saturday', '13:00', 60, { location: park });
+
+  it('checks the neighbours just before and after the candidate', () => {
+    const art = act('art', 'saturday', '10:15', 120, { location: museum });
+    const shortfalls = travelShortfalls([walk, lunch], art);
+    // Lunch is 45 minutes after, enough to get back to the park
+    expect(shortfalls).toEqual([{ other: walk, position: 'before', neededMins: 35, gapMins: 15 }]);
+    expect(describeShortfall(art, shortfalls[0])).toBe('It takes 35 min to get from City Park to Museum, but there are only 15 min between them.');
+  });
+
+  it('is satisfied once there is time to get there', () => {
+    expect(travelShortfalls([walk, lunch], act('art', 'saturday', '10:45', 90, { location: museum }))).toEqual([]);
+    // The activity being moved doesn't count as its own neighbour
+    expect(travelShortfalls([walk], { ...walk, start: '09:30' }, { excludeId: 'walk' })).toEqual([]);
+  });
+});
+
+describe('placement with travel', () => {
+  const days = weekendDays(DEFAULT_DAY_RANGE);
+  const hours = dayHours('08:00', '22:00');
+
+  it('shifts template activities until there is time to travel', () => {
+    const walk = act('walk', 'saturday', '09:00', 60, { location: park });
+    const art = act('art', 'saturday', '10:00', 60, { location: museum });
+    expect(placeTemplate([walk], [art]).added[0].start).toBe('10:00');
+    const result = placeTemplate([walk], [art], { travel: { bufferMins: 0 } });
+    expect(result.shifted).toHaveLength(1);
+    expect(result.added[0].start).toBe('10:45');
+  });
+
+  it('keeps buffer time between auto-planned activities', () => {
+    const scheduled = [act('walk', 'saturday', '09:00', 60)];
+    const [plan] = autoPlan(
+      [{ id: 'cafe', title: 'Cafe', category: 'food', durationMins: 60, days: ['saturday'], latestMins: 11 * 60 + 30 }],
+      scheduled,
+      { days, hours, travel: { bufferMins: 30 } }
+    );
+    expect(plan.placed[0].start).toBe('10:30');
+  });
+});
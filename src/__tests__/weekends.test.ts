@@ -0,0 +1,170 @@
+/**
+ * Calendar weekend tests
+ * Weekend dates, day ranges, the multi-weekend overview and plans bound to a weekend
+ */
+
+import 'fake-indexeddb/auto';
+import { PersistenceManager, WeekendActivity, WeekendPlan } from '../lib/persistence';
+import { addWeekends, DEFAULT_DAY_RANGE, FRIDAY_EVENING_MINS, groupPlansByWeekend, isPastWeekend, weekendDayDate, weekendDays, weekendOf } from '../lib/weekends';
+
+const walk: WeekendActivity = {
+  id: 'a1',
+  title: 'Morning Walk',
+  category: 'outdoor',
+  day: 'saturday',
+  start: '09:00',
+  durationMins: 60,
+};
+
+function plan(id: string, weekend?: string): WeekendPlan {
+  return {
+    id,
+    theme: 'lazy',
+    activities: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: 1,
+    metadata: weekend ? { weekendOf: weekend } : {},
+  };
+}
+
+describe('Weekend dates', () => {
+  // Wednesday 21 October 2026
+  const wednesday = new Date(2026, 9, 21, 15, 30);
+
+  it('maps any day to the Saturday of its weekend', () => {
+    expect(weekendOf(wednesday)).toBe('2026-10-24');
+    expect(weekendOf(new Date(2026, 9, 24, 23, 0))).toBe('2026-10-24');
+    expect(weekendOf(new Date(2026, 9, 25, 8, 0))).toBe('2026-10-24');
+    expect(weekendOf(new Date(2026, 9, 26))).toBe('2026-10-31');
+  });
+
+  it('steps across months and years', () => {
+    expect(addWeekends('2026-10-31', 1)).toBe('2026-11-07');
+    expect(addWeekends('2026-12-26', 1)).toBe('2027-01-02');
+    expect(addWeekends('2026-10-24', -2)).toBe('2026-10-10');
+  });
+
+  it('dates each day of a weekend', () => {
+    const sunday = weekendDayDate('2026-10-31', 'sunday');
+    expect([sunday.getFullYear(), sunday.getMonth(), sunday.getDate()]).toEqual([2026, 10, 1]);
+    expect(weekendDayDate('2026-10-31', 'friday').getDate()).toBe(30);
+    expect(weekendDayDate('2026-10-31', 'monday').getDate()).toBe(2);
+  });
+
+  it('treats a weekend as past once its Sunday is over', () => {
+    expect(isPastWeekend('2026-10-17', wednesday)).toBe(true);
+    expect(isPastWeekend('2026-10-24', new Date(2026, 9, 25, 22, 0))).toBe(false);
+    expect(isPastWeekend('2026-10-24', new Date(2026, 9, 26))).toBe(true);
+  });
+});
+
+describe('weekendDays', () => {
+  it('spans Saturday and Sunday by default', () => {
+    expect(weekendDays(DEFAULT_DAY_RANGE).map(d => d.day)).toEqual(['saturday', 'sunday']);
+  });
+
+  it('adds Friday evening and a Monday for long weekends', () => {
+    const days = weekendDays({ ...DEFAULT_DAY_RANGE, weekendStart: 'friday', weekendEnd: 'monday' });
+    expect(days.map(d => d.day)).toEqual(['friday', 'saturday', 'sunday', 'monday']);
+    expect(days[0].earliestMins).toBe(FRIDAY_EVENING_MINS);
+  });
+
+  it('adds the Monday of a dated weekend when it is a public holiday', () => {
+    const range = { ...DEFAULT_DAY_RANGE, holidayRegion: 'us' as const };
+    // Memorial Day weekend
+    expect(weekendDays(range, { weekend: '2026-05-23' }).map(d => d.holiday ?? d.day)).toEqual(['saturday', 'sunday', 'Memorial Day']);
+    expect(weekendDays(range, { weekend: '2026-05-30' }).map(d => d.day)).toEqual(['saturday', 'sunday']);
+    expect(weekendDays(range).map(d => d.day)).toEqual(['saturday', 'sunday']);
+  });
+
+  it('keeps days outside the range that still have activities', () => {
+    const days = weekendDays(DEFAULT_DAY_RANGE, { activities: [{ day: 'monday' }] });
+    expect(days.map(d => d.day)).toEqual(['saturday', 'sunday', 'monday']);
+  });
+});
+
+describe('groupPlansByWeekend', () => {
+  const now = new Date(2026, 9, 21);
+
+  it('keeps past, upcoming and undated plans apart', () => {
+    const overview = groupPlansByWeekend(
+      [plan('p1', '2026-10-03'), plan('p2', '2026-10-31'), plan('p3'), plan('p4', '2026-10-24'), plan('p5', '2026-10-17'), plan('p6', '2026-10-31')],
+      { now }
+    );
+    expect(overview.upcoming.map(g => [g.weekend, g.plans.map(p => p.id)])).toEqual([
+      ['2026-10-24', ['p4']],
+      ['2026-10-31', ['p2', 'p6']],
+    ]);
+    expect(overview.past.map(g => g.weekend)).toEqual(['2026-10-17', '2026-10-03']);
+    expect(overview.undated.map(p => p.id)).toEqual(['p3']);
+  });
+
+  it('lists the coming weekends even when nothing is planned', () => {
+    const overview = groupPlansByWeekend([plan('p1', '2026-11-28')], { now, ahead: 3 });
+    expect(overview.upcoming.map(g => [g.weekend, g.plans.length])).toEqual([
+      ['2026-10-24', 0],
+      ['2026-10-31', 0],
+      ['2026-11-07', 0],
+      ['2026-11-28', 1],
+    ]);
+  });
+});
+
+describe('Weekend plans', () => {
+  let dbCounter = 0;
+  let manager: PersistenceManager;
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    manager = new PersistenceManager(`weekends-${dbCounter++}`);
+    await manager.init();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps a separate plan for each weekend', async () => {
+    const first = await manager.createPlan('lazy', { weekendOf: '2026-10-24', activities: [walk] });
+    const second = await manager.createPlan('lazy', { weekendOf: '2026-10-31' });
+    await manager.savePlanActivities(second.id, [{ ...walk, title: 'Pumpkin picking' }]);
+
+    expect((await manager.findWeekendPlan('2026-10-24'))!.activities).toEqual([walk]);
+    expect((await manager.findWeekendPlan('2026-10-31'))!.id).toBe(second.id);
+    expect(await manager.findWeekendPlan('2026-11-07')).toBeNull();
+    expect((await manager.getPlan(first.id))!.activities).toEqual([walk]);
+  });
+
+  it('prefers the theme asked for', async () => {
+    const family = await manager.createPlan('family', { weekendOf: '2026-10-24' });
+    await manager.createPlan('lazy', { weekendOf: '2026-10-24' });
+    expect((await manager.findWeekendPlan('2026-10-24', 'family'))!.id).toBe(family.id);
+  });
+
+  it('moves a plan to another weekend', async () => {
+    const undated = await manager.createPlan('lazy', { activities: [walk] });
+    const moved = await manager.setPlanWeekend(undated.id, '2026-11-07');
+    expect(moved.metadata?.weekendOf).toBe('2026-11-07');
+    expect(moved.version).toBe(undated.version + 1);
+    expect((await manager.duplicatePlan(moved.id)).metadata?.weekendOf).toBe('2026-11-07');
+
+    const cleared = await manager.setPlanWeekend(undated.id, null);
+    expect(cleared.metadata?.weekendOf).toBeUndefined();
+  });
+
+  it('imports dated plans into the plan for the same weekend', async () => {
+    await manager.createPlan('lazy', { weekendOf: '2026-10-24' });
+    const later = await manager.createPlan('lazy', { weekendOf: '2026-10-31' });
+
+    const result = await manager.importData({
+      plans: [{ theme: 'lazy', activities: [walk], metadata: { weekendOf: '2026-10-31' } }],
+    });
+    expect(result.planIds).toEqual([later.id]);
+    await expect(
+      manager.importData({ plans: [{ theme: 'lazy', activities: [], metadata: { weekendOf: 'next week' } }] })
+    ).rejects.toThrow();
+  });
+});
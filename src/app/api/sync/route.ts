@@ -0,0 +1,52 @@
+import path from "node:path";
+import { NextResponse } from "next/server";
+import { FileSyncStore, isSyncMutation, syncSpaceOf } from "@/lib/sync-server";
+
+// Reference sync backend: each sync space's plans live in a JSON file next to the app.
+// Point WEEKENDLY_SYNC_DIR elsewhere to share the files between checkouts.
+const directory = process.env.WEEKENDLY_SYNC_DIR || path.join(process.cwd(), ".data", "sync");
+const stores = new Map<string, FileSyncStore>();
+
+export const dynamic = "force-dynamic";
+
+// One store per space, kept so its requests stay serialized
+function storeFor(request: Request): FileSyncStore | null {
+  const space = syncSpaceOf(request.headers.get("authorization"));
+  if (!space) return null;
+  let store = stores.get(space);
+  if (!store) {
+    store = new FileSyncStore(path.join(directory, `${space}.json`));
+    stores.set(space, store);
+  }
+  return store;
+}
+
+function unauthorized() {
+  return NextResponse.json({ error: "A sync key is required" }, { status: 401 });
+}
+
+export async function GET(request: Request) {
+  const store = storeFor(request);
+  if (!store) return unauthorized();
+  const since = Number(new URL(request.url).searchParams.get("since")) || 0;
+  return NextResponse.json(await store.pull(since));
+}
+
+export async function POST(request: Request) {
+  const store = storeFor(request);
+  if (!store) return unauthorized();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  const mutations = (body as { mutations?: unknown } | null)?.mutations;
+  if (!Array.isArray(mutations) || !mutations.every(isSyncMutation)) {
+    return NextResponse.json({ error: "Expected { mutations: SyncMutation[] }" }, { status: 400 });
+  }
+
+  return NextResponse.json(await store.push(mutations));
+}
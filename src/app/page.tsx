@@ -5,17 +5,66 @@ import WeekendHeader from "@/components/WeekendHeader";
 import ActivityBrowser, { type Activity } from "@/components/ActivityBrowser";
 import WeekendSchedule, { type WeekendActivity } from "@/components/WeekendSchedule";
 import SettingsModal, { type SettingsData } from "@/components/SettingsModal";
+import PlanHistoryPanel from "@/components/PlanHistoryPanel";
+import ImportDialog, { type ImportNotice } from "@/components/ImportDialog";
+import CollabDialog from "@/components/CollabDialog";
+import PlanNameDialog from "@/components/PlanNameDialog";
+import TemplateGallery from "@/components/TemplateGallery";
+import AutoPlanDialog from "@/components/AutoPlanDialog";
+import EnergyDialog from "@/components/EnergyDialog";
+import WeekendsOverview from "@/components/WeekendsOverview";
+import BusyCalendarsDialog from "@/components/BusyCalendarsDialog";
+import CalendarSyncDialog from "@/components/CalendarSyncDialog";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import { Button } from "@/components/ui/button";
-import { persistenceManager, type WeekendPlan } from "@/lib/persistence";
+import { formatBytes, getPlanName, PersistenceError, PlanConflictError, persistenceManager, persistenceReady, type ImportResult, type PersistenceStats, type WeekendPlan } from "@/lib/persistence";
+import { HttpSyncAdapter, leaveSync, SyncEngine, type SyncReport } from "@/lib/sync";
+import { CollabSession, createRoomId, type CollabPresence } from "@/lib/collab";
+import { WebSocketTransport } from "@/lib/collab-transport";
+import { guessMeal, type AutoPlan, type PlanItem } from "@/lib/auto-plan";
+import { CALENDAR_LINK_PREFIX, HttpCalDavClient, linkCalendar, syncCalendar, withoutPassword, type CalDavCredentials, type CalendarLink } from "@/lib/caldav";
+import { busyAt, busyBlocks, describeBusy, importBusyCalendar, type BusyCalendar } from "@/lib/busy";
+import { IcsParseError, localTimeZone, planToCalendar, serializeCalendar } from "@/lib/ical";
+import { applySeriesChange, expandRoutines, retargetSeries, type SeriesChange } from "@/lib/recurrence";
+import { placeTemplate, type PlacementStrategy } from "@/lib/templates";
+import { decodeShareLink, encodeShareLink, ShareLinkError } from "@/lib/share-link";
+import { dayHours, pickNextStartTime } from "@/lib/time";
+import { DistanceEstimator, type TravelOptions } from "@/lib/travel";
+import { formatWeekend, WEEKEND_DATE_PATTERN, WEEKEND_DAYS, weekendDays, weekendOf, type DayRange } from "@/lib/weekends";
 import { useVirtualization } from "@/lib/virtualization";
 import { PerformanceOptimizer } from "@/lib/virtualization";
 
 type WeekendTheme = "lazy" | "adventurous" | "family";
 
+// Map ActivityBrowser items into WeekendSchedule format
+function categoryMap(cat: string): WeekendActivity["category"] {
+  switch (cat) {
+    case "Adventure":
+      return "outdoor";
+    case "Family":
+      return "other";
+    case "Relax":
+    default:
+      return "home";
+  }
+}
+
+function moodMap(moods: string[]): WeekendActivity["mood"] | undefined {
+  const lower = moods.map((m) => m.toLowerCase());
+  if (lower.some((m) => ["energetic", "playful"].includes(m))) return "energetic";
+  if (lower.some((m) => ["social"].includes(m))) return "social";
+  if (lower.some((m) => ["calm", "cozy"].includes(m))) return "chill";
+  if (lower.some((m) => ["curious", "creative"].includes(m))) return "focus";
+  return undefined;
+}
+
+function toDurationMins(durationMin: number): number {
+  return Math.max(15, durationMin - (durationMin % 15));
+}
+
 export default function Page() {
   const [theme, setTheme] = useState<WeekendTheme>("lazy");
   const [settingsOpen, setSettingsOpen] = useState(false);
@@ -28,7 +77,16 @@ export default function Page() {
     notifications: true,
     startTime: "09:00",
     endTime: "22:00",
+    allowOverlaps: false,
+    bufferMins: 0,
+    defaultTravelMins: 15,
+    calendarReminderMins: 0,
+    shareLinkExpiryDays: 0,
+    shareSecret: "",
+    syncKey: "",
     weekendStart: "saturday",
+    weekendEnd: "sunday",
+    holidayRegion: "none",
     showTutorial: true,
     compactMode: false,
   });
@@ -79,22 +137,24 @@ export default function Page() {
   useEffect(() => {
     const t = localStorage.getItem("weekendly.theme") as WeekendTheme | null;
     if (t === "lazy" || t === "adventurous" || t === "family") setTheme(t);
+    setPlanId(localStorage.getItem("weekendly.currentPlan"));
+    persistenceReady.then(() => setLibraryReady(true));
 
-    // Auto-import from URL hash share link
+    // Share link in the URL hash: previewed once the library and settings are ready
     try {
       const hash = window.location.hash;
       if (hash.startsWith("#plan=")) {
-        const encoded = hash.slice(6);
-        const json = atob(decodeURIComponent(encoded));
-        const data = JSON.parse(json) as { theme?: WeekendTheme; activities?: WeekendActivity[] };
-        if (data.theme === "lazy" || data.theme === "adventurous" || data.theme === "family") setTheme(data.theme);
-        if (Array.isArray(data.activities)) {
-          setActivities(data.activities);
-          setScheduleKey((k) => k + 1);
-          toast.success("Plan imported from link");
-        }
+        setSharedLink(decodeURIComponent(hash.slice(6)));
         // Clean hash to avoid re-import on refresh
         history.replaceState(null, "", window.location.pathname + window.location.search);
+      } else if (hash.startsWith("#collab=")) {
+        // Invite to a live session: switch to its theme and ask for a name before joining
+        const params = new URLSearchParams(hash.slice(1));
+        const invited = params.get("theme");
+        if (invited === "lazy" || invited === "adventurous" || invited === "family") setTheme(invited);
+        setCollabInvite(params.get("collab"));
+        setCollabOpen(true);
+        history.replaceState(null, "", window.location.pathname + window.location.search);
       }
     } catch {}
   }, []);
@@ -105,6 +165,52 @@ export default function Page() {
   // Source of truth for the schedule; WeekendSchedule manages its own state,
   // but we mirror changes here so we can augment (e.g., add from ActivityBrowser)
   const [activities, setActivities] = useState<WeekendActivity[]>([]);
+  // The open plan; the theme follows it
+  const [planId, setPlanId] = useState<string | null>(null);
+  const [plans, setPlans] = useState<WeekendPlan[]>([]);
+  const [libraryReady, setLibraryReady] = useState(false);
+  const [planNameDialog, setPlanNameDialog] = useState<"create" | "rename" | "template" | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  // Activities set aside for the auto-planner
+  const [tray, setTray] = useState<Activity[]>([]);
+  const [autoPlanOpen, setAutoPlanOpen] = useState(false);
+  const [energyOpen, setEnergyOpen] = useState(false);
+  const [weekendsOpen, setWeekendsOpen] = useState(false);
+  // Calendars imported from .ics files, shown as busy time
+  const [busyCalendars, setBusyCalendars] = useState<BusyCalendar[]>([]);
+  const [calendarsOpen, setCalendarsOpen] = useState(false);
+  // Two-way sync of the open plan with a CalDAV calendar
+  const [calendarLink, setCalendarLink] = useState<CalendarLink | null>(null);
+  // CalDAV passwords by link key, for this session only; they're never stored
+  const [calendarPasswords, setCalendarPasswords] = useState<Record<string, string>>({});
+  const [calendarSyncOpen, setCalendarSyncOpen] = useState(false);
+  const [calendarSyncing, setCalendarSyncing] = useState(false);
+  // Days the weekend spans, from settings
+  const dayRange = useMemo<DayRange>(
+    () => ({ weekendStart: settings.weekendStart, weekendEnd: settings.weekendEnd, holidayRegion: settings.holidayRegion }),
+    [settings.weekendStart, settings.weekendEnd, settings.holidayRegion]
+  );
+  // Planning hours, from settings
+  const hours = useMemo(() => dayHours(settings.startTime, settings.endTime), [settings.startTime, settings.endTime]);
+  // Travel and buffer time between activities, from settings
+  const travel = useMemo<TravelOptions>(
+    () => ({ estimator: new DistanceEstimator({ fallbackMins: settings.defaultTravelMins }), bufferMins: settings.bufferMins }),
+    [settings.defaultTravelMins, settings.bufferMins]
+  );
+  // Calendar weekend of the open plan; null for plans made before plans had dates
+  const currentWeekend = useMemo(
+    () => plans.find((p) => p.id === planId)?.metadata?.weekendOf ?? null,
+    [plans, planId]
+  );
+  const scheduleDays = useMemo(
+    () => weekendDays(dayRange, { weekend: currentWeekend, activities }),
+    [dayRange, currentWeekend, activities]
+  );
+  // What's already committed on the open weekend
+  const busy = useMemo(
+    () => (currentWeekend ? busyBlocks(busyCalendars, currentWeekend, scheduleDays.map((d) => d.day)) : []),
+    [busyCalendars, currentWeekend, scheduleDays]
+  );
   // History for undo/redo
   const [past, setPast] = useState<WeekendActivity[][]>([]);
   const [future, setFuture] = useState<WeekendActivity[][]>([]);
@@ -114,6 +220,12 @@ export default function Page() {
   const [helpOpen, setHelpOpen] = useState(false);
   // Clear confirm dialog
   const [confirmOpen, setConfirmOpen] = useState(false);
+  // Revision history panel
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyPlanId, setHistoryPlanId] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importFile, setImportFile] = useState<{ data: unknown; name: string; shared?: boolean; notice?: ImportNotice } | null>(null);
+  const [sharedLink, setSharedLink] = useState<string | null>(null);
   // Tutorial state
   const [tutorialOpen, setTutorialOpen] = useState(false);
   const [tutorialStep, setTutorialStep] = useState(0);
@@ -121,13 +233,33 @@ export default function Page() {
   // Performance and offline state
   const [isOnline, setIsOnline] = useState(true);
   const [performanceMode, setPerformanceMode] = useState(false);
-  const [stats, setStats] = useState({ totalPlans: 0, totalActivities: 0, storageUsed: 0 });
+  const [stats, setStats] = useState<PersistenceStats>({ totalPlans: 0, totalActivities: 0, storageUsed: 0 });
+  const [storageFullOpen, setStorageFullOpen] = useState(false);
+  const [syncReport, setSyncReport] = useState<SyncReport | null>(null);
+  const [pendingSync, setPendingSync] = useState(0);
+  // Live collaboration
+  const [collab, setCollab] = useState<{ session: CollabSession; room: string; planId: string | null } | null>(null);
+  const [collabOpen, setCollabOpen] = useState(false);
+  const [collabInvite, setCollabInvite] = useState<string | null>(null);
+  const [collaborators, setCollaborators] = useState<CollabPresence[]>([]);
+  // Merged plan from the session, handed to WeekendSchedule without a remount
+  const [syncedActivities, setSyncedActivities] = useState<WeekendActivity[] | undefined>(undefined);
 
   // Spotlight refs
   const headerRef = useRef<HTMLDivElement | null>(null);
   const browserRef = useRef<HTMLDivElement | null>(null);
   const scheduleRef = useRef<HTMLDivElement | null>(null);
 
+  // Plan version each plan's activities are based on, for detecting edits made in other tabs
+  const planVersionsRef = useRef<Record<string, number>>({});
+  // Plan whose activities are on screen; lags planId while a switch is loading
+  const loadedPlanRef = useRef<string | null>(null);
+  const conflictRef = useRef(false);
+  const saveQueueRef = useRef<Record<string, Promise<unknown>>>({});
+  const syncEngineRef = useRef<SyncEngine | null>(null);
+  const syncKeyRef = useRef(""); // the key sync last ran with
+  const collabRef = useRef<CollabSession | null>(null);
+
   // Recompute spotlight target rect on step/resize/scroll
   const [spotRect, setSpotRect] = useState<{ x: number; y: number; w: number; h: number } | null>(null);
   const steps = useMemo(
@@ -169,34 +301,129 @@ export default function Page() {
     };
   }, [tutorialOpen, tutorialStep, steps]);
 
+  // Saves of one plan run one at a time, so each starts from the version the last one stored.
+  // `force` skips the check against the loaded version.
+  const queueSave = useCallback((id: string, list: WeekendActivity[], { force = false } = {}) => {
+    const save = async () => {
+      const version = await persistenceManager.savePlanActivities(id, list, force ? {} : { baseVersion: planVersionsRef.current[id] });
+      planVersionsRef.current[id] = version;
+      return version;
+    };
+    const queued = (saveQueueRef.current[id] ?? Promise.resolve()).catch(() => undefined).then(save);
+    saveQueueRef.current[id] = queued;
+    return queued;
+  }, []);
+
+  // Another tab saved this plan since we loaded it: let the user pick a side.
+  // Whichever version loses is still in the plan's history.
+  const handleConflict = useCallback((conflict: PlanConflictError, mine: WeekendActivity[]) => {
+    const theirs = conflict.current;
+    conflictRef.current = true;
+    toast.warning("This plan was changed in another tab", {
+      id: "plan-conflict",
+      description: "Keep your version or switch to theirs. The other one stays in History.",
+      duration: Infinity,
+      action: {
+        label: "Keep mine",
+        onClick: async () => {
+          conflictRef.current = false;
+          planVersionsRef.current[theirs.id] = theirs.version;
+          try {
+            await queueSave(theirs.id, mine);
+          } catch (error) {
+            console.warn('Failed to save plan:', error);
+            toast.error("Save failed");
+          }
+        },
+      },
+      cancel: {
+        label: "Use theirs",
+        onClick: () => {
+          conflictRef.current = false;
+          planVersionsRef.current[theirs.id] = theirs.version;
+          setPast((p) => [...p, mine]);
+          setFuture([]);
+          setActivities(theirs.activities);
+          setScheduleKey((k) => k + 1);
+        },
+      },
+    });
+  }, [queueSave]);
+
   // Enhanced persistence with IndexedDB
   useEffect(() => {
+    // Until the open plan has loaded, `activities` still belong to the previous one
+    if (!planId || loadedPlanRef.current !== planId) return;
     const savePlan = async () => {
       try {
-        await persistenceManager.saveThemePlan(theme, activities);
+        await queueSave(planId, activities);
         const newStats = await persistenceManager.getStats();
         setStats(newStats);
+        if (syncEngineRef.current) setPendingSync(await syncEngineRef.current.pendingCount());
       } catch (error) {
         console.warn('Failed to save plan:', error);
+        if (error instanceof PlanConflictError) {
+          handleConflict(error, activities);
+          return;
+        }
+        if (isQuotaExceeded(error)) {
+          setStorageFullOpen(true);
+          return;
+        }
         // Fallback to localStorage
         try { localStorage.setItem(storageKey(theme), JSON.stringify(activities)); } catch {}
       }
     };
     
     savePlan();
-  }, [activities, theme]);
+  }, [activities, planId, theme, handleConflict, queueSave]);
 
-  // Load plan from enhanced persistence
+  // Open the selected plan. Picking a plan brings its theme along; picking a theme
+  // opens that theme's most recent plan, creating one if it has none yet.
   useEffect(() => {
+    if (!libraryReady) return;
+    // A slow load must not land on a plan the user has since moved away from
+    let cancelled = false;
     const loadPlan = async () => {
+      // A live session owns the plan it was started on
+      if (collabRef.current && loadedPlanRef.current === planId) return;
       try {
-        const plan = await persistenceManager.getThemePlan(theme);
-        if (plan) {
-          setActivities(plan.activities);
-          setScheduleKey(k => k + 1);
+        let plan = planId ? await persistenceManager.getPlan(planId) : null;
+        if (!plan || plan.theme !== theme || plan.metadata?.archived || plan.metadata?.isTemplate) {
+          plan = (await persistenceManager.getThemePlan(theme)) ?? (await persistenceManager.createPlan(theme, { weekendOf: weekendOf() }));
+        }
+        if (cancelled) return;
+        if (plan.id !== planId) {
+          setPlanId(plan.id);
+          return;
+        }
+        // Routines due this weekend join a dated plan the first time it's opened after they start
+        const weekend = plan.metadata?.weekendOf;
+        const { added, skipped } = weekend
+          ? expandRoutines(
+              await persistenceManager.getRoutines(),
+              weekend,
+              plan.activities,
+              busyBlocks(await persistenceManager.getBusyCalendars(), weekend, WEEKEND_DAYS)
+            )
+          : { added: [], skipped: [] };
+        if (cancelled) return;
+        loadedPlanRef.current = plan.id;
+        planVersionsRef.current[plan.id] = plan.version;
+        // Undo history belongs to the plan it was made in
+        setPast([]);
+        setFuture([]);
+        setActivities([...plan.activities, ...added]);
+        setScheduleKey(k => k + 1);
+        if (added.length > 0) {
+          toast.message(`Added ${added.length} recurring ${added.length === 1 ? "activity" : "activities"}`, { description: added.map((a) => a.title).join(", ") });
+        }
+        if (skipped.length > 0) {
+          toast.warning("Some routines didn't fit", { description: `${skipped.map((r) => r.title).join(", ")} clash with what's planned this weekend.` });
         }
       } catch (error) {
         console.warn('Failed to load plan:', error);
+        if (cancelled) return;
         // Fallback to localStorage
         try {
           const saved = localStorage.getItem(storageKey(theme));
@@ -210,7 +437,153 @@ export default function Page() {
     };
     
     loadPlan();
-  }, [theme]);
+    return () => { cancelled = true; };
+  }, [libraryReady, planId, theme]);
+
+  useEffect(() => {
+    if (!planId) return;
+    try { localStorage.setItem("weekendly.currentPlan", planId); } catch {}
+  }, [planId]);
+
+  // Keep the plan switcher current, including saves from other tabs and sync
+  useEffect(() => {
+    if (!libraryReady) return;
+    const refresh = () => {
+      persistenceManager.listPlans({ includeArchived: true })
+        .then(setPlans)
+        .catch((error) => console.warn('Failed to list plans:', error));
+    };
+    refresh();
+    const offLocal = persistenceManager.onLocalChange(refresh);
+    const offRemote = persistenceManager.onRemoteChange(refresh);
+    return () => {
+      offLocal();
+      offRemote();
+    };
+  }, [libraryReady]);
+
+  // Open a shared plan in the import preview instead of saving it straight away
+  useEffect(() => {
+    if (!libraryReady || !sharedLink) return;
+    setSharedLink(null);
+    decodeShareLink(sharedLink, { secret: settings.shareSecret || undefined })
+      .then(({ plan, signature, expiresAt }) => {
+        const weekendOf = plan.weekendOf && WEEKEND_DATE_PATTERN.test(plan.weekendOf) ? plan.weekendOf : undefined;
+        const expiry = expiresAt ? ` It works until ${expiresAt.toLocaleString()}.` : "";
+        const notice: ImportNotice =
+          signature === "valid"
+            ? { verified: true, text: `Signed with your passphrase and unchanged since it was shared.${expiry}` }
+            : signature === "unchecked"
+              ? { verified: false, text: `This link is signed, but you have no share link passphrase in settings to check it.${expiry}` }
+              : { verified: false, text: `This link isn't signed, so it can't be checked for changes.${expiry}` };
+        setImportFile({
+          data: { plans: [{ theme: plan.theme, activities: plan.activities, metadata: { name: plan.name, weekendOf } }] },
+          name: "the shared plan",
+          shared: true,
+          notice,
+        });
+        setImportOpen(true);
+      })
+      .catch((error) => {
+        console.warn("Failed to open shared plan:", error);
+        toast.error("Couldn't open shared plan", { description: error instanceof ShareLinkError ? error.message : undefined });
+      });
+  }, [libraryReady, sharedLink, settings.shareSecret]);
+
+  useEffect(() => {
+    if (!libraryReady || !planId) return;
+    let cancelled = false;
+    persistenceManager.getSyncRecord<CalendarLink & { password?: string }>(`${CALENDAR_LINK_PREFIX}${planId}`)
+      .then(async (stored) => {
+        let link: CalendarLink | null = stored;
+        // Older versions stored the password with the link; keep it for this session only
+        if (stored && stored.password !== undefined) {
+          const password = stored.password;
+          setCalendarPasswords((p) => ({ ...p, [stored.key]: password }));
+          link = withoutPassword(stored);
+          await persistenceManager.saveSyncRecord(link);
+        }
+        if (!cancelled) setCalendarLink(link);
+      })
+      .catch((error) => console.warn('Failed to load calendar link:', error));
+    return () => { cancelled = true; };
+  }, [libraryReady, planId]);
+
+  useEffect(() => {
+    if (!libraryReady) return;
+    persistenceManager.getBusyCalendars()
+      .then(setBusyCalendars)
+      .catch((error) => console.warn('Failed to load busy calendars:', error));
+  }, [libraryReady]);
+
+  // Live-update when another tab saves the plan we're showing
+  useEffect(() => persistenceManager.onRemoteChange(async (change) => {
+    if (change.planId !== planId) return;
+    // Deleted elsewhere: fall back to another plan of this theme
+    if (change.type === "deleted") {
+      setPlanId(null);
+      return;
+    }
+    // An unresolved conflict is settled by the user, not by whichever tab saves next
+    if (conflictRef.current) return;
+    const known = planVersionsRef.current[change.planId];
+    if (known !== undefined && change.version <= known) return;
+    try {
+      const plan = await persistenceManager.getPlan(change.planId);
+      if (!plan) return;
+      planVersionsRef.current[plan.id] = plan.version;
+      setActivities(plan.activities);
+      setScheduleKey((k) => k + 1);
+      toast.message("Plan updated from another tab", { id: "plan-remote-update" });
+    } catch (error) {
+      console.warn('Failed to load plan from another tab:', error);
+    }
+  }), [planId]);
+
+  // Every change to the plan, whichever control made it, goes out to the session.
+  // Changes that came from the session produce no ops.
+  useEffect(() => {
+    collab?.session.update(activities);
+  }, [activities, collab]);
+
+  const leaveCollab = useCallback(() => {
+    collabRef.current?.leave();
+    collabRef.current = null;
+    setCollab(null);
+    setCollaborators([]);
+    setSyncedActivities(undefined);
+  }, []);
+
+  const joinCollab = useCallback((name: string, room?: string) => {
+    collabRef.current?.leave();
+    const id = room ?? createRoomId();
+    const session = new CollabSession({
+      transport: new WebSocketTransport(id),
+      name,
+      // Starting a session shares this plan; joining adopts the room's
+      initial: room ? null : activities,
+      fallback: () => activities,
+    });
+    session.onChange((list) => {
+      setSyncedActivities(list);
+      setActivities(list);
+    });
+    session.onPeersChange(setCollaborators);
+    collabRef.current = session;
+    setCollab({ session, room: id, planId });
+    setCollabInvite(null);
+    toast.success(room ? "Joined live session" : "Live session started", { description: "Share the invite link to plan together." });
+  }, [activities, planId]);
+
+  // Sessions are per plan: switching plans leaves
+  useEffect(() => {
+    if (collab && collab.planId !== planId) {
+      leaveCollab();
+      toast.message("Left live session");
+    }
+  }, [planId, collab, leaveCollab]);
+
+  useEffect(() => () => collabRef.current?.leave(), []);
 
   // Performance optimization for large datasets
   useEffect(() => {
@@ -231,6 +604,61 @@ export default function Page() {
     };
   }, []);
 
+  // Remote sync, once the user sets a sync key: local changes queue in an outbox
+  // and go out whenever we're online
+  useEffect(() => {
+    const syncKey = settings.syncKey;
+    if (!syncKey) {
+      // Turned off: forget the outbox, so turning it back on sends everything again
+      if (syncKeyRef.current) {
+        persistenceReady.then(() => leaveSync(persistenceManager)).catch((error) => console.warn('Failed to leave sync:', error));
+        setPendingSync(0);
+      }
+      syncKeyRef.current = "";
+      return;
+    }
+    syncKeyRef.current = syncKey;
+    const engine = new SyncEngine(persistenceManager, new HttpSyncAdapter(syncKey), {
+      space: syncKey,
+      onSync: (report) => setSyncReport(report),
+    });
+    syncEngineRef.current = engine;
+    const stop = engine.start();
+    if (navigator.onLine) {
+      persistenceReady.then(() => engine.sync()).catch((error) => console.warn('Sync failed:', error));
+    }
+    return () => {
+      stop();
+      syncEngineRef.current = null;
+    };
+  }, [settings.syncKey]);
+
+  useEffect(() => {
+    if (!isOnline) return;
+    syncEngineRef.current?.sync().catch((error) => console.warn('Sync failed:', error));
+  }, [isOnline]);
+
+  // Show what the last sync brought in
+  useEffect(() => {
+    if (!syncReport) return;
+    setSyncReport(null);
+    setPendingSync(syncReport.pending);
+    persistenceManager.getStats().then(setStats).catch(() => {});
+
+    if (planId && syncReport.deleted.includes(planId)) {
+      setPlanId(null);
+      toast.message("This plan was deleted on another device");
+      return;
+    }
+    const current = syncReport.pulled.find((p) => p.id === planId);
+    if (current && (planVersionsRef.current[current.id] ?? 0) < current.version) {
+      planVersionsRef.current[current.id] = current.version;
+      setActivities(current.activities);
+      setScheduleKey((k) => k + 1);
+      toast.message(syncReport.conflicts > 0 ? "Plan replaced by a newer synced version" : "Plan updated from sync");
+    }
+  }, [syncReport, planId]);
+
   // Service Worker registration
   useEffect(() => {
     if ('serviceWorker' in navigator) {
@@ -309,7 +737,16 @@ export default function Page() {
       notifications: true,
       startTime: "09:00",
       endTime: "22:00",
+      allowOverlaps: false,
+      bufferMins: 0,
+      defaultTravelMins: 15,
+      calendarReminderMins: 0,
+      shareLinkExpiryDays: 0,
+      shareSecret: "",
+      syncKey: "",
       weekendStart: "saturday",
+      weekendEnd: "sunday",
+      holidayRegion: "none",
       showTutorial: true,
       compactMode: false,
     };
@@ -323,45 +760,32 @@ export default function Page() {
   }, []);
 
   const handleScheduleChange = useCallback((list: WeekendActivity[]) => {
+    // The schedule echoing back a merge from collaborators isn't a local edit
+    if (list === syncedActivities) return;
     setPast((p) => [...p, activities]);
     setFuture([]);
     setActivities(list);
-  }, [activities]);
+  }, [activities, syncedActivities]);
 
   const addFromBrowser = useCallback(
     (a: Activity) => {
-      // Map ActivityBrowser item into WeekendSchedule format
-      const categoryMap = (cat: string): WeekendActivity["category"] => {
-        switch (cat) {
-          case "Adventure":
-            return "outdoor";
-          case "Family":
-            return "other";
-          case "Relax":
-          default:
-            return "home";
-        }
-      };
-
-      const moodMap = (moods: string[]): WeekendActivity["mood"] | undefined => {
-        const lower = moods.map((m) => m.toLowerCase());
-        if (lower.some((m) => ["energetic", "playful"].includes(m))) return "energetic";
-        if (lower.some((m) => ["social"].includes(m))) return "social";
-        if (lower.some((m) => ["calm", "cozy"].includes(m))) return "chill";
-        if (lower.some((m) => ["curious", "creative"].includes(m))) return "focus";
-        return undefined;
-      };
-
+      const day = a.day || "saturday";
       const newItem: WeekendActivity = {
         id: `ext_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
         title: a.title,
         category: categoryMap(a.category),
-        day: a.day || "saturday",
-        start: a.start || pickNextStartTime(activities),
-        durationMins: Math.max(15, a.durationMin - (a.durationMin % 15)),
+        day,
+        start: a.start || pickNextStartTime([...activities, ...busy], { day, hours, earliestMins: scheduleDays.find((d) => d.day === day)?.earliestMins }),
+        durationMins: toDurationMins(a.durationMin),
         mood: moodMap(a.moods),
         notes: a.description || "",
+        difficulty: a.difficulty,
       };
+      const clash = busyAt(busy, newItem);
+      if (clash) {
+        toast.error("Scheduling conflict", { description: `You're busy then: ${describeBusy(clash, settings.timeFormat)}.` });
+        return;
+      }
 
       setPast((p) => [...p, activities]);
       setFuture([]);
@@ -372,6 +796,53 @@ export default function Page() {
         return merged;
       });
     },
+    [activities, busy, hours, scheduleDays, settings.timeFormat]
+  );
+
+  const toggleTray = useCallback((a: Activity) => {
+    setTray((list) => (list.some((t) => t.id === a.id) ? list.filter((t) => t.id !== a.id) : [...list, a]));
+  }, []);
+
+  const planItems = useMemo<PlanItem[]>(
+    () =>
+      tray.map((a) => ({
+        id: a.id,
+        title: a.title,
+        category: categoryMap(a.category),
+        durationMins: toDurationMins(a.durationMin),
+        mood: moodMap(a.moods),
+        notes: a.description || "",
+        difficulty: a.difficulty,
+        meal: guessMeal(a.title),
+      })),
+    [tray]
+  );
+
+  const applyAutoPlan = useCallback(
+    (plan: AutoPlan) => {
+      setPast((p) => [...p, activities]);
+      setFuture([]);
+      setActivities(plan.activities);
+      setScheduleKey((k) => k + 1);
+      // Whatever didn't fit stays in the tray for another go
+      setTray((list) => list.filter((a) => plan.unplaced.some((u) => u.id === a.id)));
+      setAutoPlanOpen(false);
+      toast.success(
+        `Planned ${plan.placed.length} ${plan.placed.length === 1 ? "activity" : "activities"}`,
+        plan.unplaced.length ? { description: `${plan.unplaced.length} didn't fit and stayed in the tray` } : undefined
+      );
+    },
+    [activities]
+  );
+
+  const applyEnergyFix = useCallback(
+    (list: WeekendActivity[], description: string) => {
+      setPast((p) => [...p, activities]);
+      setFuture([]);
+      setActivities(list);
+      setScheduleKey((k) => k + 1);
+      toast.success("Weekend rebalanced", { description });
+    },
     [activities]
   );
 
@@ -399,22 +870,25 @@ export default function Page() {
     });
   }, [activities]);
 
-  const clearSchedule = useCallback(() => {
-    setPast((p) => [...p, activities]);
-    setFuture([]);
-    setActivities([]);
-    setScheduleKey((k) => k + 1);
-    toast.message("Schedule cleared");
-  }, [activities]);
+  const lockedCount = useMemo(() => activities.filter((a) => a.locked).length, [activities]);
 
   const savePlan = useCallback(async () => {
+    if (!planId) return;
     try {
-      await persistenceManager.saveThemePlan(theme, activities);
+      await queueSave(planId, activities);
       const newStats = await persistenceManager.getStats();
       setStats(newStats);
       toast.success("Plan saved");
     } catch (error) {
       console.warn('Failed to save plan:', error);
+      if (error instanceof PlanConflictError) {
+        handleConflict(error, activities);
+        return;
+      }
+      if (isQuotaExceeded(error)) {
+        setStorageFullOpen(true);
+        return;
+      }
       // Fallback to localStorage
       try {
         localStorage.setItem(storageKey(theme), JSON.stringify(activities));
@@ -423,15 +897,39 @@ export default function Page() {
         toast.error("Save failed");
       }
     }
-  }, [activities, theme]);
+  }, [activities, planId, theme, handleConflict, queueSave]);
+
+  // Free space after a quota error, then retry the save that failed
+  const freeStorage = useCallback(async (what: "revisions" | "templates") => {
+    if (!planId) return;
+    try {
+      const freed = what === "revisions"
+        ? await persistenceManager.pruneRevisions()
+        : await persistenceManager.pruneTemplates();
+      await queueSave(planId, activities, { force: true });
+      setStats(await persistenceManager.getStats());
+      toast.success(`Freed ${formatBytes(freed)} — plan saved`);
+    } catch (error) {
+      console.warn('Failed to free storage:', error);
+      toast.error(isQuotaExceeded(error) ? "Still out of space — try removing more" : "Couldn't free storage");
+    }
+  }, [activities, planId, queueSave]);
+
+  const keepDataOnDevice = useCallback(async () => {
+    const granted = await persistenceManager.requestPersistentStorage();
+    setStats(await persistenceManager.getStats());
+    if (granted) toast.success("Your plans will be kept on this device");
+    else toast.message("The browser may still clear data when space runs low");
+  }, []);
 
   const loadPlan = useCallback(async () => {
     try {
-      const plan = await persistenceManager.getThemePlan(theme);
+      const plan = planId ? await persistenceManager.getPlan(planId) : null;
       if (!plan) { 
         toast.message("No saved plan for theme"); 
         return; 
       }
+      planVersionsRef.current[plan.id] = plan.version;
       setPast((p) => [...p, activities]);
       setFuture([]);
       setActivities(plan.activities);
@@ -454,7 +952,20 @@ export default function Page() {
         toast.error("Load failed");
       }
     }
-  }, [theme, activities]);
+  }, [planId, theme, activities]);
+
+  const openHistory = useCallback(() => {
+    setHistoryPlanId(planId);
+    setHistoryOpen(true);
+  }, [planId]);
+
+  const restoreFromHistory = useCallback((plan: WeekendPlan) => {
+    planVersionsRef.current[plan.id] = plan.version;
+    setPast((p) => [...p, activities]);
+    setFuture([]);
+    setActivities(plan.activities);
+    setScheduleKey((k) => k + 1);
+  }, [activities]);
 
   const exportPlan = useCallback(() => {
     const text = JSON.stringify({ theme, activities }, null, 2);
@@ -475,34 +986,16 @@ export default function Page() {
     }
   }, [activities, theme]);
 
-  const exportIcs = useCallback(() => {
+  const exportIcs = useCallback(async () => {
     try {
-      const { sat, sun } = getUpcomingWeekend();
-      const lines = [
-        "BEGIN:VCALENDAR",
-        "VERSION:2.0",
-        "PRODID:-//Weekendly//Planner//EN",
-      ];
-      const toDate = (d: Date) => `${d.getUTCFullYear()}${String(d.getUTCMonth()+1).padStart(2,'0')}${String(d.getUTCDate()).padStart(2,'0')}T${String(d.getUTCHours()).padStart(2,'0')}${String(d.getUTCMinutes()).padStart(2,'0')}00Z`;
-      const parseTime = (t: string) => { const [h,m] = t.split(":").map(Number); return { h, m }; };
-      activities.forEach((a, idx) => {
-        const base = a.day === "saturday" ? new Date(sat) : new Date(sun);
-        const { h, m } = parseTime(a.start);
-        const start = new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), base.getUTCDate(), h, m));
-        const end = new Date(start.getTime() + a.durationMins * 60000);
-        lines.push(
-          "BEGIN:VEVENT",
-          `UID:${Date.now()}-${idx}@weekendly`,
-          `DTSTAMP:${toDate(new Date())}`,
-          `DTSTART:${toDate(start)}`,
-          `DTEND:${toDate(end)}`,
-          `SUMMARY:${escapeIcs(a.title)}`,
-          `DESCRIPTION:${escapeIcs(a.notes || "")}`,
-          "END:VEVENT"
-        );
+      const weekend = currentWeekend ?? weekendOf();
+      const calendar = planToCalendar(activities, weekend, {
+        timeZone: localTimeZone(),
+        reminderMins: settings.calendarReminderMins,
+        routines: await persistenceManager.getRoutines(),
+        name: `Weekendly – ${formatWeekend(weekend)}`,
       });
-      lines.push("END:VCALENDAR");
-      const blob = new Blob([lines.join("\n")], { type: "text/calendar" });
+      const blob = new Blob([serializeCalendar(calendar)], { type: "text/calendar;charset=utf-8" });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
@@ -513,7 +1006,42 @@ export default function Page() {
       URL.revokeObjectURL(url);
       toast.success("Calendar (.ics) downloaded");
     } catch { toast.error("Calendar export failed"); }
-  }, [activities, theme]);
+  }, [activities, theme, currentWeekend, settings.calendarReminderMins]);
+
+  // Edits that reach a routine: update it, then the later weekends' plans it was already added to
+  const changeSeries = useCallback(async (change: SeriesChange) => {
+    if (!currentWeekend) return;
+    try {
+      const routines = applySeriesChange(await persistenceManager.getRoutines(), change, currentWeekend);
+      await persistenceManager.saveRoutines(routines);
+      if (change.kind !== "future") return;
+      const routine = routines.find((r) => r.id === change.activity.seriesId);
+      const later = (await persistenceManager.listPlans()).filter(
+        (p) => (p.metadata?.weekendOf ?? "") > currentWeekend && p.activities.some((a) => a.seriesId === change.seriesId)
+      );
+      for (const plan of later) {
+        await persistenceManager.savePlanActivities(plan.id, retargetSeries(plan.activities, plan.metadata!.weekendOf!, change.seriesId, routine));
+      }
+      if (later.length > 0) toast.message(`Updated ${later.length} later ${later.length === 1 ? "weekend" : "weekends"}`);
+    } catch (error) {
+      console.warn("Failed to update routine:", error);
+      toast.error("Couldn't update the routine");
+    }
+  }, [currentWeekend]);
+
+  // Locked activities survive a clear unless the user asks to clear everything.
+  // Cleared routine occurrences are skipped like removed ones, so they don't come back on reload.
+  const clearSchedule = useCallback(async (keepLocked: boolean) => {
+    const kept = keepLocked ? activities.filter((a) => a.locked) : [];
+    setPast((p) => [...p, activities]);
+    setFuture([]);
+    setActivities(kept);
+    setScheduleKey((k) => k + 1);
+    toast.message(kept.length ? `Schedule cleared, ${kept.length} locked ${kept.length === 1 ? "activity" : "activities"} kept` : "Schedule cleared");
+    for (const activity of activities) {
+      if (activity.seriesId && !kept.includes(activity)) await changeSeries({ kind: "skip", seriesId: activity.seriesId });
+    }
+  }, [activities, changeSeries]);
 
   const importPlan = useCallback(() => {
     const input = document.createElement("input");
@@ -524,29 +1052,259 @@ export default function Page() {
       if (!file) return;
       try {
         const text = await file.text();
-        const data = JSON.parse(text) as { theme?: WeekendTheme; activities?: WeekendActivity[] };
-        if (data.theme) setTheme(data.theme);
-        if (Array.isArray(data.activities)) {
-          setPast((p) => [...p, activities]);
-          setFuture([]);
-          setActivities(data.activities);
-          setScheduleKey((k) => k + 1);
-          toast.success("Plan imported");
+        // Validation and the merge/replace choice happen in the import dialog
+        setImportFile({ data: JSON.parse(text), name: file.name });
+        setImportOpen(true);
+      } catch { toast.error("Import failed: not a JSON file"); }
+    };
+    input.click();
+  }, []);
+
+  const importCalendar = useCallback(() => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".ics,text/calendar";
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      try {
+        const result = importBusyCalendar(busyCalendars, await file.text(), file.name);
+        await persistenceManager.saveBusyCalendars(result.calendars);
+        setBusyCalendars(result.calendars);
+        toast.success(`${result.replaced ? "Updated" : "Imported"} “${result.calendar.name}”`, {
+          description: `${result.calendar.events.length} ${result.calendar.events.length === 1 ? "event" : "events"}`,
+        });
+      } catch (error) {
+        if (error instanceof IcsParseError) toast.error("Import failed: not a calendar file", { description: error.message });
+        else {
+          console.warn("Failed to import calendar:", error);
+          toast.error("Couldn't import the calendar");
         }
-      } catch { toast.error("Import failed"); }
+      }
     };
     input.click();
-  }, [activities]);
+  }, [busyCalendars]);
 
-  const sharePlan = useCallback(() => {
+  const removeCalendar = useCallback(async (id: string) => {
+    const calendars = busyCalendars.filter((c) => c.id !== id);
     try {
-      const payload = JSON.stringify({ theme, activities });
-      const encoded = encodeURIComponent(btoa(payload));
-      const url = `${window.location.origin}${window.location.pathname}#plan=${encoded}`;
-      navigator.clipboard.writeText(url);
-      toast.success("Share link copied");
-    } catch { toast.error("Share failed"); }
-  }, [theme, activities]);
+      await persistenceManager.saveBusyCalendars(calendars);
+      setBusyCalendars(calendars);
+    } catch (error) {
+      console.warn("Failed to remove calendar:", error);
+      toast.error("Couldn't remove the calendar");
+    }
+  }, [busyCalendars]);
+
+  const syncWithCalendar = useCallback(async (link: CalendarLink, password: string | undefined = calendarPasswords[link.key]) => {
+    if (!currentWeekend) return;
+    if (password !== undefined) setCalendarPasswords((p) => ({ ...p, [link.key]: password }));
+    setCalendarSyncing(true);
+    try {
+      const client = new HttpCalDavClient(link.collectionUrl, { username: link.username, password });
+      const { activities: synced, link: next, report } = await syncCalendar(client, activities, currentWeekend, link, {
+        reminderMins: settings.calendarReminderMins,
+      });
+      await persistenceManager.saveSyncRecord(next);
+      setCalendarLink(next);
+      if (report.pulled.length > 0 || report.removed.length > 0) {
+        setPast((p) => [...p, activities]);
+        setFuture([]);
+        setActivities(synced);
+        setScheduleKey((k) => k + 1);
+      }
+      const changes = [
+        report.published > 0 && `${report.published} published`,
+        report.deleted > 0 && `${report.deleted} deleted from the calendar`,
+        report.pulled.length > 0 && `${report.pulled.length} updated from the calendar`,
+        report.removed.length > 0 && `${report.removed.length} removed in the calendar`,
+      ].filter(Boolean);
+      toast.success("Calendar synced", { description: changes.length > 0 ? changes.join(", ") : "Everything was up to date" });
+      if (report.conflicts > 0) {
+        toast.warning(`${report.conflicts} ${report.conflicts === 1 ? "activity was" : "activities were"} changed on both sides`, { description: "The calendar's version was kept." });
+      }
+    } catch (error) {
+      console.warn("Calendar sync failed:", error);
+      if (error instanceof PersistenceError && error.code === "UNAUTHORIZED") {
+        // Ask for the password again rather than retrying a wrong one
+        setCalendarPasswords((p) => {
+          const rest = { ...p };
+          delete rest[link.key];
+          return rest;
+        });
+        toast.error("Calendar sign-in failed", { description: "Check the username and app password, then try again." });
+        return;
+      }
+      toast.error("Calendar sync failed", { description: error instanceof PersistenceError ? error.message : undefined });
+    } finally {
+      setCalendarSyncing(false);
+    }
+  }, [activities, currentWeekend, settings.calendarReminderMins, calendarPasswords]);
+
+  const connectCalendar = useCallback((collectionUrl: string, credentials: CalDavCredentials) => {
+    if (!planId) return;
+    let link: CalendarLink;
+    try {
+      link = linkCalendar(planId, collectionUrl, credentials);
+    } catch {
+      toast.error("That isn't a calendar URL");
+      return;
+    }
+    syncWithCalendar(link, credentials.password ?? "");
+  }, [planId, syncWithCalendar]);
+
+  const disconnectCalendar = useCallback(async () => {
+    if (!calendarLink) return;
+    try {
+      // Events already in the calendar stay there
+      await persistenceManager.deleteSyncRecord(calendarLink.key);
+      setCalendarLink(null);
+    } catch (error) {
+      console.warn("Failed to disconnect calendar:", error);
+      toast.error("Couldn't disconnect the calendar");
+    }
+  }, [calendarLink]);
+
+  const applyImport = useCallback(async (result: ImportResult) => {
+    const imported = (await Promise.all(result.planIds.map((id) => persistenceManager.getPlan(id))))
+      .filter((p): p is WeekendPlan => !!p && !p.metadata?.isTemplate);
+    // Importing a single plan opens it
+    if (imported.length === 1 && imported[0].id !== planId) {
+      setTheme(imported[0].theme);
+      setPlanId(imported[0].id);
+      return;
+    }
+    const plan = planId ? await persistenceManager.getPlan(planId) : null;
+    if (plan) {
+      planVersionsRef.current[plan.id] = plan.version;
+      setPast((p) => [...p, activities]);
+      setFuture([]);
+      setActivities(plan.activities);
+      setScheduleKey((k) => k + 1);
+    }
+    setStats(await persistenceManager.getStats());
+  }, [activities, planId]);
+
+  // Open the picked weekend's plan, creating one if it has none. An undated plan is
+  // given the weekend instead, as is the open plan when `move` is set.
+  const selectWeekend = useCallback(async (weekend: string, move = false) => {
+    const current = plans.find((p) => p.id === planId);
+    try {
+      const existing = move ? null : await persistenceManager.findWeekendPlan(weekend, theme);
+      if (current && !existing && (move || !current.metadata?.weekendOf)) {
+        const plan = await persistenceManager.setPlanWeekend(current.id, weekend);
+        planVersionsRef.current[plan.id] = plan.version;
+        toast.success(`“${getPlanName(plan)}” is now for ${formatWeekend(weekend)}`);
+        return;
+      }
+      const plan = existing ?? (await persistenceManager.createPlan(theme, { weekendOf: weekend }));
+      setTheme(plan.theme);
+      setPlanId(plan.id);
+      toast.message(existing ? `Opened “${getPlanName(plan)}”` : `New plan for ${formatWeekend(weekend)}`);
+    } catch (error) {
+      console.warn('Failed to open weekend:', error);
+      toast.error("Couldn't open that weekend");
+    }
+  }, [plans, planId, theme]);
+
+  const selectPlan = useCallback((id: string) => {
+    const plan = plans.find((p) => p.id === id);
+    if (!plan || id === planId) return;
+    setTheme(plan.theme);
+    setPlanId(plan.id);
+  }, [plans, planId]);
+
+  const submitPlanName = useCallback(async (name: string, planTheme: WeekendTheme) => {
+    try {
+      if (planNameDialog === "rename" && planId) {
+        const plan = await persistenceManager.renamePlan(planId, name);
+        planVersionsRef.current[plan.id] = plan.version;
+        toast.success("Plan renamed");
+      } else if (planNameDialog === "template") {
+        // Take what is on screen, which autosave may not have written yet
+        await persistenceManager.createTemplate(theme, { name, activities });
+        toast.success(`Saved template “${name}”`);
+      } else {
+        // New plans are alternatives for the weekend being looked at
+        const plan = await persistenceManager.createPlan(planTheme, { name, weekendOf: currentWeekend ?? weekendOf() });
+        setTheme(plan.theme);
+        setPlanId(plan.id);
+        toast.success(`Created “${getPlanName(plan)}”`);
+      }
+    } catch (error) {
+      console.warn('Failed to save plan name:', error);
+      toast.error(planNameDialog === "rename" ? "Rename failed" : planNameDialog === "template" ? "Couldn't save template" : "Couldn't create plan");
+    }
+  }, [planNameDialog, planId, theme, activities, currentWeekend]);
+
+  const duplicatePlan = useCallback(async () => {
+    if (!planId) return;
+    try {
+      const copy = await persistenceManager.duplicatePlan(planId);
+      setPlanId(copy.id);
+      toast.success(`Opened “${getPlanName(copy)}”`);
+    } catch (error) {
+      console.warn('Failed to duplicate plan:', error);
+      toast.error("Duplicate failed");
+    }
+  }, [planId]);
+
+  const archivePlan = useCallback(async (id: string, archived: boolean) => {
+    try {
+      const plan = await persistenceManager.archivePlan(id, archived);
+      if (archived) {
+        // The open plan is replaced by the theme's next most recent one
+        if (id === planId) setPlanId(null);
+        toast.message(`Archived “${getPlanName(plan)}”`);
+      } else {
+        setTheme(plan.theme);
+        setPlanId(plan.id);
+        toast.success(`Restored “${getPlanName(plan)}”`);
+      }
+    } catch (error) {
+      console.warn('Failed to archive plan:', error);
+      toast.error(archived ? "Archive failed" : "Restore failed");
+    }
+  }, [planId]);
+
+  const applyTemplate = useCallback((template: WeekendPlan, strategy: PlacementStrategy) => {
+    const result = placeTemplate(activities, template.activities, { strategy, dayStartMins: hours.startMins, dayEndMins: hours.endMins, travel, busy });
+    setTemplatesOpen(false);
+    if (result.added.length === 0) {
+      toast.message(`Nothing from “${getPlanName(template)}” fits this weekend`, {
+        description: `${result.skipped.length} skipped`,
+      });
+      return;
+    }
+    setPast((p) => [...p, activities]);
+    setFuture([]);
+    setActivities(result.activities);
+    setScheduleKey((k) => k + 1);
+    const notes = [
+      result.shifted.length && `${result.shifted.length} moved`,
+      result.skipped.length && `${result.skipped.length} skipped`,
+      result.replaced.length && `${result.replaced.length} replaced`,
+    ].filter(Boolean);
+    toast.success(`Added ${result.added.length} from “${getPlanName(template)}”`, {
+      description: notes.length ? notes.join(", ") : undefined,
+    });
+  }, [activities, busy, hours, travel]);
+
+  const sharePlan = useCallback(async () => {
+    try {
+      const expiresAt = settings.shareLinkExpiryDays ? new Date(Date.now() + settings.shareLinkExpiryDays * 24 * 60 * 60 * 1000) : undefined;
+      const token = await encodeShareLink(
+        { theme, activities, weekendOf: currentWeekend ?? undefined, name: plans.find((p) => p.id === planId)?.metadata?.name },
+        { secret: settings.shareSecret || undefined, expiresAt }
+      );
+      await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}#plan=${token}`);
+      const details = [settings.shareSecret && "Signed", expiresAt && `works until ${expiresAt.toLocaleDateString()}`].filter(Boolean);
+      toast.success("Share link copied", { description: details.length > 0 ? details.join(", ") : undefined });
+    } catch (error) {
+      console.warn("Share failed:", error);
+      toast.error("Share failed");
+    }
+  }, [theme, activities, currentWeekend, plans, planId, settings.shareSecret, settings.shareLinkExpiryDays]);
 
   // Keyboard shortcuts (placed after callbacks to avoid TDZ)
   useEffect(() => {
@@ -600,6 +1358,23 @@ export default function Page() {
           onUndo={undo}
           onRedo={redo}
           onExportIcs={exportIcs}
+          onOpenCalendars={() => setCalendarsOpen(true)}
+          onOpenCalendarSync={() => setCalendarSyncOpen(true)}
+          onHistory={openHistory}
+          onOpenEnergy={() => setEnergyOpen(true)}
+          onCollaborate={() => setCollabOpen(true)}
+          plans={libraryReady ? plans : undefined}
+          currentPlanId={planId}
+          onSelectPlan={selectPlan}
+          onNewPlan={() => setPlanNameDialog("create")}
+          onRenamePlan={() => setPlanNameDialog("rename")}
+          onDuplicatePlan={duplicatePlan}
+          onArchivePlan={archivePlan}
+          onSaveTemplate={() => setPlanNameDialog("template")}
+          onOpenTemplates={() => setTemplatesOpen(true)}
+          weekendOf={currentWeekend}
+          onSelectWeekend={selectWeekend}
+          onOpenWeekends={() => setWeekendsOpen(true)}
           title="Weekendly"
         />
       </div>
@@ -624,7 +1399,16 @@ export default function Page() {
             <h2 className="mb-3 text-base font-heading font-semibold">Activity Browser</h2>
             <ActivityBrowser
               onAddActivity={addFromBrowser}
+              tray={tray}
+              onToggleTray={toggleTray}
+              onClearTray={() => setTray([])}
+              onAutoPlan={() => setAutoPlanOpen(true)}
               onThemeSelect={(t) => setTheme(t)}
+              days={scheduleDays}
+              hours={hours}
+              timeFormat={settings.timeFormat}
+              busy={busy}
+              onOpenCalendars={() => setCalendarsOpen(true)}
               className=""
             />
           </section>
@@ -634,6 +1418,18 @@ export default function Page() {
               key={scheduleKey}
               initialActivities={activities}
               onChange={handleScheduleChange}
+              syncedActivities={syncedActivities}
+              collaborators={collaborators}
+              onPresenceChange={collab ? (presence) => collab.session.setPresence(presence) : undefined}
+              weekendOf={currentWeekend ?? undefined}
+              dayRange={dayRange}
+              onSeriesChange={changeSeries}
+              hours={hours}
+              timeFormat={settings.timeFormat}
+              dense={settings.compactMode}
+              allowOverlaps={settings.allowOverlaps}
+              travel={travel}
+              busy={busy}
               className="w-full"
             />
           </section>
@@ -653,7 +1449,16 @@ export default function Page() {
                     <h2 className="mb-3 text-lg font-heading font-semibold">Activity Browser</h2>
                     <ActivityBrowser
                       onAddActivity={addFromBrowser}
+                      tray={tray}
+                      onToggleTray={toggleTray}
+                      onClearTray={() => setTray([])}
+                      onAutoPlan={() => setAutoPlanOpen(true)}
                       onThemeSelect={(t) => setTheme(t)}
+                      days={scheduleDays}
+                      hours={hours}
+                      timeFormat={settings.timeFormat}
+                      busy={busy}
+                      onOpenCalendars={() => setCalendarsOpen(true)}
                       className=""
                     />
                   </div>
@@ -670,6 +1475,18 @@ export default function Page() {
                       key={scheduleKey}
                       initialActivities={activities}
                       onChange={handleScheduleChange}
+                      syncedActivities={syncedActivities}
+                      collaborators={collaborators}
+                      onPresenceChange={collab ? (presence) => collab.session.setPresence(presence) : undefined}
+                      weekendOf={currentWeekend ?? undefined}
+                      dayRange={dayRange}
+                      onSeriesChange={changeSeries}
+                      hours={hours}
+                      timeFormat={settings.timeFormat}
+                      dense={settings.compactMode}
+                      allowOverlaps={settings.allowOverlaps}
+                      travel={travel}
+                      busy={busy}
                       className="w-full"
                     />
                   </div>
@@ -693,7 +1510,15 @@ export default function Page() {
           </div>
         )}
         <div className="mt-1 text-xs opacity-60">
-          {stats.totalPlans} plans • {stats.totalActivities} activities
+          {stats.totalPlans} plans • {stats.totalActivities} activities • {formatBytes(stats.storageUsed)} used
+          {stats.storageQuota ? ` of ${formatBytes(stats.storageQuota)}` : ""}
+          {pendingSync > 0 ? ` • ${pendingSync} ${pendingSync === 1 ? "change" : "changes"} waiting to sync` : ""}
+          {stats.lastSync && pendingSync === 0 ? ` • synced ${stats.lastSync.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}` : ""}
+          {stats.persisted === false && (
+            <button type="button" onClick={keepDataOnDevice} className="ml-2 underline underline-offset-2 hover:text-foreground">
+              Keep data on this device
+            </button>
+          )}
         </div>
       </footer>
 
@@ -729,8 +1554,9 @@ export default function Page() {
               <h4 className="mb-1 font-medium text-foreground">Tips</h4>
               <ul className="list-disc pl-5 space-y-1">
                 <li>Drag cards into the schedule; we auto-pick the next time slot.</li>
-                <li>Plans save per theme and persist locally.</li>
-                <li>Share links encode your plan; opening them imports automatically.</li>
+                <li>Keep as many named plans as you like; the plan switcher next to the title creates, renames, duplicates and archives them. Plans save in this browser.</li>
+                <li>Plans → History lists every saved version; restore any of them, even after a reload.</li>
+                <li>Share links encode your plan; opening one shows a preview so you can choose how to import it.</li>
               </ul>
             </section>
             <div className="pt-2 flex justify-end">
@@ -795,22 +1621,150 @@ export default function Page() {
         </div>
       )}
 
+      {/* Storage full */}
+      <AlertDialog open={storageFullOpen} onOpenChange={setStorageFullOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Storage is full</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your latest changes couldn&apos;t be saved. Free up space by trimming older plan history or removing saved templates, and we&apos;ll try again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Not now</AlertDialogCancel>
+            <AlertDialogAction onClick={() => freeStorage("templates")}>Remove templates</AlertDialogAction>
+            <AlertDialogAction onClick={() => freeStorage("revisions")}>Prune old history</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Clear confirmation */}
       <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Clear schedule?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will remove all activities from your current theme plan. This action cannot be undone.
+              {lockedCount > 0
+                ? `This will remove the activities from your current theme plan. ${lockedCount} ${lockedCount === 1 ? "is" : "are"} locked and can stay in place.`
+                : "This will remove all activities from your current theme plan. This action cannot be undone."}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={clearSchedule}>Clear</AlertDialogAction>
+            {lockedCount > 0 ? (
+              <>
+                <AlertDialogAction className="bg-secondary text-secondary-foreground hover:bg-secondary/80" onClick={() => clearSchedule(false)}>Clear all</AlertDialogAction>
+                <AlertDialogAction onClick={() => clearSchedule(true)}>Keep locked</AlertDialogAction>
+              </>
+            ) : (
+              <AlertDialogAction onClick={() => clearSchedule(false)}>Clear</AlertDialogAction>
+            )}
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Revision history */}
+      <PlanHistoryPanel
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        planId={historyPlanId}
+        onRestore={restoreFromHistory}
+      />
+
+      {/* Import preview */}
+      <ImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        data={importFile?.data}
+        fileName={importFile?.name}
+        defaultMode={importFile?.shared ? "new" : "merge"}
+        notice={importFile?.notice}
+        onImported={applyImport}
+      />
+
+      <PlanNameDialog
+        open={planNameDialog !== null}
+        onOpenChange={(open) => { if (!open) setPlanNameDialog(null); }}
+        mode={planNameDialog ?? "create"}
+        initialName={planNameDialog === "rename" || planNameDialog === "template" ? getPlanName(plans.find((p) => p.id === planId) ?? { theme }) : ""}
+        initialTheme={theme}
+        onSubmit={submitPlanName}
+      />
+
+      <WeekendsOverview
+        open={weekendsOpen}
+        onOpenChange={setWeekendsOpen}
+        plans={plans}
+        currentPlanId={planId}
+        onSelectPlan={selectPlan}
+        onPlanWeekend={(weekend) => selectWeekend(weekend)}
+      />
+
+      <TemplateGallery
+        open={templatesOpen}
+        onOpenChange={setTemplatesOpen}
+        onApply={applyTemplate}
+      />
+
+      <AutoPlanDialog
+        open={autoPlanOpen}
+        onOpenChange={setAutoPlanOpen}
+        items={planItems}
+        scheduled={activities}
+        days={scheduleDays}
+        hours={hours}
+        travel={travel}
+        busy={busy}
+        timeFormat={settings.timeFormat}
+        onApply={applyAutoPlan}
+      />
+
+      <BusyCalendarsDialog
+        open={calendarsOpen}
+        onOpenChange={setCalendarsOpen}
+        calendars={busyCalendars}
+        busy={busy}
+        dated={!!currentWeekend}
+        onImport={importCalendar}
+        onRemove={removeCalendar}
+      />
+
+      <CalendarSyncDialog
+        open={calendarSyncOpen}
+        onOpenChange={setCalendarSyncOpen}
+        link={calendarLink}
+        dated={!!currentWeekend}
+        syncing={calendarSyncing}
+        needsPassword={!!calendarLink?.username && calendarPasswords[calendarLink.key] === undefined}
+        onConnect={connectCalendar}
+        onSync={(password) => calendarLink && syncWithCalendar(calendarLink, password)}
+        onDisconnect={disconnectCalendar}
+      />
+
+      <EnergyDialog
+        open={energyOpen}
+        onOpenChange={setEnergyOpen}
+        activities={activities}
+        days={scheduleDays}
+        hours={hours}
+        timeFormat={settings.timeFormat}
+        onApply={applyEnergyFix}
+      />
+
+      <CollabDialog
+        open={collabOpen}
+        onOpenChange={setCollabOpen}
+        theme={theme}
+        room={collab?.room ?? null}
+        inviteRoom={collabInvite}
+        peers={collaborators}
+        onJoin={joinCollab}
+        onLeave={() => {
+          leaveCollab();
+          setCollabOpen(false);
+        }}
+      />
+
       {/* Settings Modal */}
       <SettingsModal
         open={settingsOpen}
@@ -823,40 +1777,10 @@ export default function Page() {
   );
 }
 
-function storageKey(theme: WeekendTheme) {
-  return `weekendly.plan.${theme}`;
-}
-
-function pickNextStartTime(existing: WeekendActivity[]): string {
-  // Find the next 30-minute slot on Saturday after the latest existing Saturday event, else 10:00
-  const satActs = existing.filter((a) => a.day === "saturday");
-  if (satActs.length === 0) return "10:00";
-  const toMinutes = (t: string) => {
-    const [h, m] = t.split(":").map(Number);
-    return h * 60 + m;
-  };
-  const maxEnd = satActs.reduce((max, a) => Math.max(max, toMinutes(a.start) + a.durationMins), 7 * 60);
-  const rounded = Math.ceil(maxEnd / 30) * 30;
-  const clamped = Math.min(rounded, 22 * 60 + 30);
-  const h = String(Math.floor(clamped / 60)).padStart(2, "0");
-  const m = String(clamped % 60).padStart(2, "0");
-  return `${h}:${m}`;
+function isQuotaExceeded(error: unknown) {
+  return error instanceof PersistenceError && error.code === "QUOTA_EXCEEDED";
 }
 
-function getUpcomingWeekend() {
-  const now = new Date();
-  const day = now.getDay(); // 0 Sun .. 6 Sat
-  const diffToSat = (6 - day + 7) % 7;
-  const diffToSun = (7 - day + 7) % 7;
-  const sat = new Date(now);
-  sat.setDate(now.getDate() + diffToSat);
-  sat.setHours(0, 0, 0, 0);
-  const sun = new Date(now);
-  sun.setDate(now.getDate() + diffToSun);
-  sun.setHours(0, 0, 0, 0);
-  return { sat, sun };
-}
-
-function escapeIcs(text: string) {
-  return text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/,/g, "\\,").replace(/;/g, "\\;");
+function storageKey(theme: WeekendTheme) {
+  return `weekendly.plan.${theme}`;
 }
\ No newline at end of file
@@ -1,12 +1,16 @@
 "use client"
 
 import React, { useEffect, useMemo, useState } from "react"
-import { RollerCoaster, Sunset, CalendarSearch, CalendarPlus, LayoutGrid, Play, TimerReset, Grid2x2Check, Spade, SquareMenu, SquareActivity } from "lucide-react"
+import { RollerCoaster, Sunset, CalendarClock, CalendarSearch, CalendarPlus, LayoutGrid, Play, TimerReset, Grid2x2Check, Spade, SquareMenu, SquareActivity, ListPlus, ListCheck, Sparkles, X } from "lucide-react"
+import { describeBusy, type BusyBlock } from "@/lib/busy"
 import { cn } from "@/lib/utils"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DEFAULT_DAY_HOURS, formatTime, timeSlots, toMinutes, toTimeString, type DayHours, type TimeFormat } from "@/lib/time"
+import { DEFAULT_DAY_RANGE, weekendDays, type ScheduleDay, type WeekendDay } from "@/lib/weekends"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog"
 
 type ThemeKey = "lazy" | "adventurous" | "family"
@@ -21,7 +25,7 @@ export type Activity = {
   difficulty: Difficulty
   moods: string[]
   icon?: "RollerCoaster" | "Sunset" | "CalendarPlus" | "CalendarSearch" | "LayoutGrid" | "Play" | "TimerReset" | "Grid2x2Check" | "Spade" | "SquareMenu" | "SquareActivity"
-  day?: 'saturday' | 'sunday'
+  day?: WeekendDay
   start?: string
 }
 
@@ -29,10 +33,23 @@ export interface ActivityBrowserProps {
   activities?: Activity[]
   onAddActivity?: (activity: Activity) => void
   onThemeSelect?: (theme: ThemeKey) => void
+  days?: ScheduleDay[] // days the add dialog offers; defaults to Saturday and Sunday
+  hours?: DayHours // planning hours the add dialog's start times come from
+  timeFormat?: TimeFormat
+  // Activities set aside for auto-planning
+  tray?: Activity[]
+  onToggleTray?: (activity: Activity) => void
+  onClearTray?: () => void
+  onAutoPlan?: () => void
+  // Time already taken by imported calendars on this weekend
+  busy?: BusyBlock[]
+  onOpenCalendars?: () => void
   className?: string
   style?: React.CSSProperties
 }
 
+const DEFAULT_DAYS = weekendDays(DEFAULT_DAY_RANGE)
+
 const defaultActivities: Activity[] = [
   {
     id: "walk-park",
@@ -188,6 +205,15 @@ export default function ActivityBrowser({
   activities = defaultActivities,
   onAddActivity,
   onThemeSelect,
+  days = DEFAULT_DAYS,
+  hours = DEFAULT_DAY_HOURS,
+  timeFormat = "24h",
+  tray = [],
+  onToggleTray,
+  onClearTray,
+  onAutoPlan,
+  busy = [],
+  onOpenCalendars,
   className,
   style,
 }: ActivityBrowserProps) {
@@ -351,10 +377,20 @@ export default function ActivityBrowser({
 
   const [addDialogOpen, setAddDialogOpen] = useState(false)
   const [selectedActivity, setSelectedActivity] = useState<Activity | null>(null)
-  const [selectedDay, setSelectedDay] = useState<'saturday' | 'sunday'>('saturday')
+  const [selectedDay, setSelectedDay] = useState<WeekendDay>('saturday')
   const [selectedTime, setSelectedTime] = useState('09:00')
   const [resetDialogOpen, setResetDialogOpen] = useState(false)
 
+  // Start times for the chosen day; Friday only offers the evening
+  const slots = useMemo(
+    () => timeSlots(hours, { earliestMins: days.find((d) => d.day === selectedDay)?.earliestMins }),
+    [days, hours, selectedDay]
+  )
+  // A time the chosen day doesn't offer moves to the next one it does
+  const startTime = slots.includes(selectedTime)
+    ? selectedTime
+    : slots.find((slot) => slot > selectedTime) ?? slots[slots.length - 1] ?? selectedTime
+
   function handleAddClick(a: Activity) {
     setSelectedActivity(a)
     setSelectedDay('saturday')
@@ -371,17 +407,22 @@ export default function ActivityBrowser({
       suggestedTime = '12:00'
     }
     
-    setSelectedTime(suggestedTime)
+    // Keep the suggestion within the planning hours, on a slot the picker offers
+    const suggestedMins = Math.min(Math.max(toMinutes(suggestedTime), hours.startMins), hours.endMins - 15)
+    setSelectedTime(toTimeString(Math.ceil(suggestedMins / 15) * 15))
     setAddDialogOpen(true)
   }
 
   function handleConfirmAdd() {
     if (selectedActivity && onAddActivity) {
-      // Create a modified activity with the selected day and time
+      // Create a modified activity with the selected day and time, within the hours the day allows
+      const earliest = Math.max(hours.startMins, days.find((d) => d.day === selectedDay)?.earliestMins ?? 0)
+      const latest = Math.max(earliest, hours.endMins - selectedActivity.durationMin)
+      const start = toTimeString(Math.min(Math.max(toMinutes(startTime), earliest), latest))
       const modifiedActivity = {
         ...selectedActivity,
         day: selectedDay,
-        start: selectedTime
+        start
       }
       onAddActivity(modifiedActivity)
       setAddDialogOpen(false)
@@ -505,8 +546,66 @@ export default function ActivityBrowser({
         Drag activities into your schedule. You can also drop here to add quickly.
       </div>
 
+      {busy.length > 0 && (
+        <div className="mb-4 rounded-xl border border-border bg-muted/40 p-3" role="region" aria-label="Already committed">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <span className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+              <CalendarClock className="size-4 text-muted-foreground" aria-hidden="true" />
+              Already committed · {busy.length}
+            </span>
+            {onOpenCalendars && (
+              <Button type="button" variant="ghost" size="sm" className="h-8" onClick={onOpenCalendars}>
+                Calendars
+              </Button>
+            )}
+          </div>
+          <ul className="space-y-1 text-xs text-muted-foreground">
+            {busy.map((b) => (
+              <li key={b.id} className="flex gap-2">
+                <span className="w-8 shrink-0 font-medium text-foreground">{b.day.slice(0, 3).replace(/^./, (c) => c.toUpperCase())}</span>
+                <span className="truncate">{describeBusy(b, timeFormat)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {tray.length > 0 && (
+        <div className="mb-4 rounded-xl border border-primary/30 bg-primary/5 p-3" role="region" aria-label="Auto-plan tray">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <span className="text-sm font-medium text-foreground">
+              Tray · {tray.length} {tray.length === 1 ? "activity" : "activities"}
+            </span>
+            <div className="flex items-center gap-1.5">
+              <Button type="button" variant="ghost" size="sm" className="h-8" onClick={onClearTray}>
+                Clear
+              </Button>
+              <Button type="button" size="sm" className="h-8 gap-1.5" onClick={onAutoPlan}>
+                <Sparkles className="size-4" aria-hidden="true" />
+                Auto-plan
+              </Button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {tray.map((a) => (
+              <button
+                key={a.id}
+                type="button"
+                onClick={() => onToggleTray?.(a)}
+                className="inline-flex items-center gap-1 rounded-full bg-background border border-border px-2.5 py-0.5 text-xs font-medium hover:border-destructive/50"
+                aria-label={`Remove ${a.title} from the tray`}
+              >
+                {a.title}
+                <X className="size-3 text-muted-foreground" aria-hidden="true" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
         {filtered.map((a) => {
+          const inTray = tray.some((t) => t.id === a.id)
           const Icon = (a.icon && iconFromName(a.icon)) || LayoutGrid
           const meta = categoryMeta[a.category] ?? {
             icon: LayoutGrid,
@@ -585,16 +684,32 @@ export default function ActivityBrowser({
                     <div className="text-xs text-muted-foreground font-medium">
                       Drag to schedule
                     </div>
-                    <Button
-                      type="button"
-                      size="sm"
-                      className="h-8 gap-1.5 rounded-full bg-primary text-primary-foreground hover:opacity-90"
-                      onClick={() => handleAddClick(a)}
-                      aria-label={`Add ${a.title} to schedule`}
-                    >
-                      <CalendarPlus className="size-4" aria-hidden="true" />
-                      Add
-                    </Button>
+                    <div className="flex items-center gap-1.5">
+                      {onToggleTray && (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={inTray ? "secondary" : "outline"}
+                          className="h-8 gap-1.5 rounded-full"
+                          onClick={() => onToggleTray(a)}
+                          aria-pressed={inTray}
+                          aria-label={inTray ? `Remove ${a.title} from the tray` : `Put ${a.title} in the tray to auto-plan`}
+                        >
+                          {inTray ? <ListCheck className="size-4" aria-hidden="true" /> : <ListPlus className="size-4" aria-hidden="true" />}
+                          Tray
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        size="sm"
+                        className="h-8 gap-1.5 rounded-full bg-primary text-primary-foreground hover:opacity-90"
+                        onClick={() => handleAddClick(a)}
+                        aria-label={`Add ${a.title} to schedule`}
+                      >
+                        <CalendarPlus className="size-4" aria-hidden="true" />
+                        Add
+                      </Button>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -725,34 +840,36 @@ export default function ActivityBrowser({
             <div className="space-y-2">
               <label className="text-sm font-medium">Select Day</label>
               <div className="flex gap-2">
-                <Button
-                  variant={selectedDay === 'saturday' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setSelectedDay('saturday')}
-                  className="flex-1"
-                >
-                  Saturday
-                </Button>
-                <Button
-                  variant={selectedDay === 'sunday' ? 'default' : 'outline'}
-                  size="sm"
-                  onClick={() => setSelectedDay('sunday')}
-                  className="flex-1"
-                >
-                  Sunday
-                </Button>
+                {days.map(({ day, holiday }) => (
+                  <Button
+                    key={day}
+                    variant={selectedDay === day ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setSelectedDay(day)}
+                    className="flex-1 capitalize"
+                    title={holiday}
+                  >
+                    {day === 'friday' ? 'Fri eve' : day}
+                  </Button>
+                ))}
               </div>
             </div>
 
             {/* Time Selection */}
             <div className="space-y-2">
               <label className="text-sm font-medium">Start Time</label>
-              <Input
-                type="time"
-                value={selectedTime}
-                onChange={(e) => setSelectedTime(e.target.value)}
-                className="w-full"
-              />
+              <Select value={startTime} onValueChange={setSelectedTime}>
+                <SelectTrigger className="w-full" aria-label="Start time">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-64">
+                  {slots.map((slot) => (
+                    <SelectItem key={slot} value={slot}>
+                      {formatTime(slot, timeFormat)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
             {/* Activity Preview */}
@@ -787,7 +904,7 @@ export default function ActivityBrowser({
                 onClick={handleConfirmAdd}
                 className="flex-1"
               >
-                Add to {selectedDay === 'saturday' ? 'Saturday' : 'Sunday'}
+                Add to {selectedDay.charAt(0).toUpperCase() + selectedDay.slice(1)}
               </Button>
             </div>
           </div>
@@ -0,0 +1,277 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { autoPlan, type AutoPlan, type Meal, type PlanItem } from "@/lib/auto-plan";
+import type { BusyBlock } from "@/lib/busy";
+import type { WeekendActivity } from "@/lib/persistence";
+import { formatTime, formatTimeRange, timeSlots, type DayHours, type TimeFormat } from "@/lib/time";
+import type { TravelOptions } from "@/lib/travel";
+import type { ScheduleDay, WeekendDay } from "@/lib/weekends";
+
+export interface AutoPlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: PlanItem[]; // the tray
+  scheduled: WeekendActivity[]; // stays where it is
+  days: ScheduleDay[];
+  hours: DayHours;
+  travel?: TravelOptions;
+  busy?: BusyBlock[]; // imported calendar events, never planned over
+  timeFormat: TimeFormat;
+  onApply: (plan: AutoPlan) => void;
+}
+
+// Earliest/latest bounds offered per activity
+const WINDOWS: Record<string, { label: string; earliestMins?: number; latestMins?: number }> = {
+  any: { label: "Any time" },
+  morning: { label: "Morning", latestMins: 12 * 60 },
+  afternoon: { label: "Afternoon", earliestMins: 12 * 60, latestMins: 17 * 60 },
+  evening: { label: "Evening", earliestMins: 17 * 60 },
+};
+
+const MEALS: { value: Meal; label: string }[] = [
+  { value: "breakfast", label: "Breakfast" },
+  { value: "brunch", label: "Brunch" },
+  { value: "lunch", label: "Lunch" },
+  { value: "dinner", label: "Dinner" },
+];
+
+const REST_OPTIONS = [0, 30, 60, 120];
+const ENERGY_OPTIONS = [0, 120, 180, 240, 360]; // 0 is no limit
+
+export default function AutoPlanDialog({ open, onOpenChange, items, scheduled, days, hours, travel, busy, timeFormat, onApply }: AutoPlanDialogProps) {
+  const [drafts, setDrafts] = useState<PlanItem[]>(items);
+  const [restAfterHardMins, setRestAfterHardMins] = useState(60);
+  const [maxEnergeticMins, setMaxEnergeticMins] = useState(240);
+  const [selected, setSelected] = useState(0);
+
+  // Start from the tray each time the dialog opens
+  useEffect(() => {
+    if (open) setDrafts(items);
+  }, [open, items]);
+
+  const plans = useMemo(
+    () =>
+      open && drafts.length > 0
+        ? autoPlan(drafts, scheduled, {
+            days,
+            hours,
+            travel,
+            busy,
+            restAfterHardMins,
+            maxEnergeticMinsPerDay: maxEnergeticMins || Infinity,
+          })
+        : [],
+    [open, drafts, scheduled, days, hours, travel, busy, restAfterHardMins, maxEnergeticMins]
+  );
+
+  useEffect(() => setSelected(0), [plans]);
+
+  const slots = useMemo(() => timeSlots(hours, { stepMins: 30 }), [hours]);
+
+  const update = (id: string, patch: Partial<PlanItem>) =>
+    setDrafts((list) => list.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  const windowOf = (item: PlanItem) =>
+    Object.keys(WINDOWS).find((key) => WINDOWS[key].earliestMins === item.earliestMins && WINDOWS[key].latestMins === item.latestMins) ?? "any";
+
+  const chosen = plans[selected];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="size-4" aria-hidden="true" />
+            Auto-plan
+          </DialogTitle>
+          <DialogDescription>
+            Fits the {drafts.length} {drafts.length === 1 ? "activity" : "activities"} in your tray around what&apos;s already planned.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[65vh] overflow-y-auto space-y-5 pr-1">
+          <section>
+            <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Activities</h3>
+            <ul className="space-y-2">
+              {drafts.map((item) => (
+                <li key={item.id} className="rounded-lg border p-3">
+                  <div className="flex items-baseline justify-between gap-2 mb-2">
+                    <span className="font-medium truncate">{item.title}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {item.durationMins}m{item.difficulty === "hard" ? " · hard" : ""}{item.mood === "energetic" ? " · energetic" : ""}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <Select
+                      value={item.fixed?.day ?? item.days?.[0] ?? "any"}
+                      onValueChange={(v) =>
+                        update(item.id, {
+                          days: v === "any" ? undefined : [v as WeekendDay],
+                          fixed: item.fixed && v !== "any" ? { ...item.fixed, day: v as WeekendDay } : undefined,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="h-8" aria-label={`Day for ${item.title}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Any day</SelectItem>
+                        {days.map((d) => (
+                          <SelectItem key={d.day} value={d.day} className="capitalize">{d.day}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={item.fixed?.start ?? "flexible"}
+                      disabled={!item.days && !item.fixed}
+                      onValueChange={(v) =>
+                        update(item.id, { fixed: v === "flexible" ? undefined : { day: item.fixed?.day ?? item.days![0], start: v } })
+                      }
+                    >
+                      <SelectTrigger className="h-8" aria-label={`Fixed time for ${item.title}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="max-h-64">
+                        <SelectItem value="flexible">Flexible time</SelectItem>
+                        {slots.map((slot) => (
+                          <SelectItem key={slot} value={slot}>At {formatTime(slot, timeFormat)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={windowOf(item)}
+                      disabled={!!item.fixed}
+                      onValueChange={(v) => update(item.id, { earliestMins: WINDOWS[v].earliestMins, latestMins: WINDOWS[v].latestMins })}
+                    >
+                      <SelectTrigger className="h-8" aria-label={`Time of day for ${item.title}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(WINDOWS).map(([key, w]) => (
+                          <SelectItem key={key} value={key}>{w.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={item.meal ?? "none"}
+                      disabled={!!item.fixed}
+                      onValueChange={(v) => update(item.id, { meal: v === "none" ? undefined : (v as Meal) })}
+                    >
+                      <SelectTrigger className="h-8" aria-label={`Meal for ${item.title}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not a meal</SelectItem>
+                        {MEALS.map((m) => (
+                          <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="auto-plan-rest">Rest after hard activities</Label>
+              <Select value={String(restAfterHardMins)} onValueChange={(v) => setRestAfterHardMins(Number(v))}>
+                <SelectTrigger id="auto-plan-rest" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REST_OPTIONS.map((mins) => (
+                    <SelectItem key={mins} value={String(mins)}>{mins === 0 ? "No rest" : `${mins} minutes`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="auto-plan-energy">Energetic time per day</Label>
+              <Select value={String(maxEnergeticMins)} onValueChange={(v) => setMaxEnergeticMins(Number(v))}>
+                <SelectTrigger id="auto-plan-energy" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENERGY_OPTIONS.map((mins) => (
+                    <SelectItem key={mins} value={String(mins)}>{mins === 0 ? "No limit" : `Up to ${mins / 60} hours`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Plans</h3>
+            <RadioGroup value={String(selected)} onValueChange={(v) => setSelected(Number(v))} className="grid sm:grid-cols-3 gap-2">
+              {plans.map((plan, index) => (
+                <Label
+                  key={plan.strategy}
+                  htmlFor={`auto-plan-${plan.strategy}`}
+                  className={cn(
+                    "flex flex-col items-start gap-1 rounded-lg border p-3 font-normal cursor-pointer",
+                    index === selected ? "border-primary ring-1 ring-primary" : "hover:bg-muted/50"
+                  )}
+                >
+                  <span className="flex w-full items-center gap-2">
+                    <RadioGroupItem value={String(index)} id={`auto-plan-${plan.strategy}`} />
+                    <span className="text-sm font-medium">{plan.label}</span>
+                    {index === 0 && <span className="ml-auto rounded-full bg-primary/10 px-2 py-0.5 text-[10px] font-medium text-primary">Best</span>}
+                  </span>
+                  <span className={cn("text-xs", plan.unplaced.length ? "text-amber-700 dark:text-amber-400" : "text-muted-foreground")}>
+                    {plan.unplaced.length
+                      ? `${plan.unplaced.length} didn't fit: ${plan.unplaced.map((i) => i.title).join(", ")}`
+                      : `All ${plan.placed.length} placed`}
+                  </span>
+                </Label>
+              ))}
+            </RadioGroup>
+
+            {chosen && (
+              <div className="mt-3 grid gap-2" style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}>
+                {days.map(({ day }) => (
+                  <div key={day} className="rounded-lg bg-muted/40 p-2">
+                    <div className="mb-1 text-xs font-semibold capitalize">{day}</div>
+                    <ul className="space-y-1">
+                      {chosen.activities
+                        .filter((a) => a.day === day)
+                        .sort((a, b) => a.start.localeCompare(b.start))
+                        .map((a) => (
+                          <li
+                            key={a.id}
+                            className={cn(
+                              "rounded px-1.5 py-1 text-[11px] leading-tight",
+                              chosen.placed.includes(a) ? "bg-primary/10 text-foreground" : "text-muted-foreground"
+                            )}
+                          >
+                            <div className="font-mono">{formatTimeRange(a.start, a.durationMins, timeFormat)}</div>
+                            <div className="truncate">{a.title}</div>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => chosen && onApply(chosen)} disabled={!chosen || chosen.placed.length === 0}>
+            Apply {chosen ? chosen.label.toLowerCase() : ""} plan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import React from "react";
+import { CalendarClock, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { BusyBlock, BusyCalendar } from "@/lib/busy";
+
+export interface BusyCalendarsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calendars: BusyCalendar[];
+  busy: BusyBlock[]; // on the open weekend
+  dated: boolean; // busy time only shows on plans for a calendar weekend
+  onImport: () => void;
+  onRemove: (id: string) => void;
+}
+
+export default function BusyCalendarsDialog({ open, onOpenChange, calendars, busy, dated, onImport, onRemove }: BusyCalendarsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="size-4" aria-hidden="true" />
+            Busy calendars
+          </DialogTitle>
+          <DialogDescription>
+            Events from imported .ics files show as busy time on each weekend, and nothing can be planned over them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {calendars.length === 0 ? (
+          <p className="rounded-lg border border-dashed p-4 text-center text-sm text-muted-foreground">
+            No calendars yet. Export one from your calendar app as .ics and import it here.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {calendars.map((c) => {
+              const here = busy.filter((b) => b.calendarId === c.id).length;
+              return (
+                <li key={c.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{c.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {c.events.length} {c.events.length === 1 ? "event" : "events"} · imported {new Date(c.importedAt).toLocaleDateString()}
+                      {dated && ` · ${here} on this weekend`}
+                    </p>
+                  </div>
+                  <Button type="button" variant="ghost" size="icon" className="shrink-0 text-destructive" onClick={() => onRemove(c.id)} aria-label={`Remove ${c.name}`}>
+                    <Trash2 className="size-4" aria-hidden="true" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {!dated && calendars.length > 0 && (
+          <p className="text-xs text-muted-foreground">Pick a weekend for this plan to see its busy time.</p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button type="button" className="gap-1.5" onClick={onImport}>
+            <Upload className="size-4" aria-hidden="true" />
+            Import .ics
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
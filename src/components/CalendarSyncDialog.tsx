@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { CalendarSync, Loader2, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CalDavCredentials, CalendarLink } from "@/lib/caldav";
+
+export interface CalendarSyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  link: CalendarLink | null; // the open plan's calendar, if connected
+  dated: boolean; // only plans for a calendar weekend can sync
+  syncing: boolean;
+  needsPassword: boolean; // the link has a username but no password yet this session
+  onConnect: (collectionUrl: string, credentials: CalDavCredentials) => void;
+  onSync: (password?: string) => void;
+  onDisconnect: () => void;
+}
+
+export default function CalendarSyncDialog({ open, onOpenChange, link, dated, syncing, needsPassword, onConnect, onSync, onDisconnect }: CalendarSyncDialogProps) {
+  const [url, setUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Start from the last connection's details, minus the password
+  useEffect(() => {
+    if (!open) return;
+    setUrl(link?.collectionUrl ?? "");
+    setUsername(link?.username ?? "");
+    setPassword("");
+  }, [open, link]);
+
+  const connect = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    onConnect(url.trim(), { username: username.trim() || undefined, password: password || undefined });
+  };
+
+  const unlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSync(password);
+  };
+
+  const synced = link ? Object.keys(link.events).length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarSync className="size-4" aria-hidden="true" />
+            Calendar sync
+          </DialogTitle>
+          <DialogDescription>
+            Publish this weekend to a CalDAV calendar your team shares. Edits and deletions made there come back on the next sync.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!dated ? (
+          <p className="rounded-lg border border-dashed p-4 text-center text-sm text-muted-foreground">
+            Pick a weekend for this plan to sync it with a calendar.
+          </p>
+        ) : link ? (
+          <div className="space-y-2 rounded-lg border p-3 text-sm">
+            <p className="truncate font-medium" title={link.collectionUrl}>{link.collectionUrl}</p>
+            <p className="text-xs text-muted-foreground">
+              {link.lastSync
+                ? `${synced} ${synced === 1 ? "activity" : "activities"} synced · last synced ${new Date(link.lastSync).toLocaleString()}`
+                : "Not synced yet"}
+            </p>
+            {needsPassword && (
+              <form id="caldav-unlock" onSubmit={unlock} className="space-y-1.5 pt-1">
+                <Label htmlFor="caldav-session-password">App password for {link.username}</Label>
+                <Input id="caldav-session-password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                <p className="text-xs text-muted-foreground">The password isn&apos;t saved, so enter it each time you open Weekendly.</p>
+              </form>
+            )}
+          </div>
+        ) : (
+          <form id="caldav-connect" onSubmit={connect} className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="caldav-url">Calendar URL</Label>
+              <Input
+                id="caldav-url"
+                type="url"
+                required
+                placeholder="https://dav.example.com/calendars/you/weekend/"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="caldav-username">Username</Label>
+                <Input id="caldav-username" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="caldav-password">App password</Label>
+                <Input id="caldav-password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The server has to allow requests from this site. The calendar URL and username are stored in this browser; the password is only kept until you close Weekendly.
+            </p>
+          </form>
+        )}
+
+        <DialogFooter>
+          {dated && link && (
+            <Button type="button" variant="ghost" className="gap-1.5 text-destructive sm:mr-auto" onClick={onDisconnect} disabled={syncing}>
+              <Unlink className="size-4" aria-hidden="true" />
+              Disconnect
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          {dated && (link ? (
+            <Button
+              type={needsPassword ? "submit" : "button"}
+              form={needsPassword ? "caldav-unlock" : undefined}
+              className="gap-1.5"
+              onClick={needsPassword ? undefined : () => onSync()}
+              disabled={syncing}
+            >
+              {syncing ? <Loader2 className="size-4 animate-spin" aria-hidden="true" /> : <CalendarSync className="size-4" aria-hidden="true" />}
+              Sync now
+            </Button>
+          ) : (
+            <Button type="submit" form="caldav-connect" className="gap-1.5" disabled={syncing || !url.trim()}>
+              {syncing && <Loader2 className="size-4 animate-spin" aria-hidden="true" />}
+              Connect and sync
+            </Button>
+          ))}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
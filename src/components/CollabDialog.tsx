@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Copy, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CollabPresence } from "@/lib/collab";
+
+export interface CollabDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  theme: string;
+  room: string | null; // the room we're in, if collaborating
+  inviteRoom?: string | null; // a room from a shared link, waiting to be joined
+  peers: CollabPresence[];
+  onJoin: (name: string, room?: string) => void; // no room: start a new one with the current plan
+  onLeave: () => void;
+}
+
+const NAME_KEY = "weekendly.collab.name";
+
+export function collabLink(room: string, theme: string): string {
+  return `${window.location.origin}${window.location.pathname}#collab=${encodeURIComponent(room)}&theme=${theme}`;
+}
+
+export default function CollabDialog({ open, onOpenChange, theme, room, inviteRoom, peers, onJoin, onLeave }: CollabDialogProps) {
+  const [name, setName] = useState("");
+
+  useEffect(() => {
+    if (!open || name) return;
+    try { setName(localStorage.getItem(NAME_KEY) || ""); } catch {}
+  }, [open]);
+
+  const join = (target?: string) => {
+    const trimmed = name.trim() || "Guest";
+    try { localStorage.setItem(NAME_KEY, trimmed); } catch {}
+    onJoin(trimmed, target);
+  };
+
+  const copyLink = async () => {
+    if (!room) return;
+    try {
+      await navigator.clipboard.writeText(collabLink(room, theme));
+      toast.success("Invite link copied");
+    } catch {
+      toast.error("Couldn't copy link");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="size-4" aria-hidden="true" />
+            Plan together
+          </DialogTitle>
+          <DialogDescription>
+            {room
+              ? "Everyone in this session edits the same plan. Changes merge as you go."
+              : `Invite others to edit your ${theme} plan live.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {room ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={collabLink(room, theme)} aria-label="Invite link" className="text-xs" />
+              <Button variant="outline" size="icon" onClick={copyLink} aria-label="Copy invite link">
+                <Copy className="size-4" />
+              </Button>
+            </div>
+            <div>
+              <p className="text-sm font-medium mb-2">In this session</p>
+              {peers.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Nobody else yet. Share the link to invite someone.</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {peers.map((p) => (
+                    <li key={p.replica} className="flex items-center gap-2">
+                      <span className="inline-block size-2.5 rounded-full" style={{ backgroundColor: p.color }} aria-hidden="true" />
+                      {p.name}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="collab-name">Your name</Label>
+            <Input
+              id="collab-name"
+              value={name}
+              placeholder="Shown next to your cursor"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          {room ? (
+            <Button variant="outline" onClick={onLeave}>Leave session</Button>
+          ) : inviteRoom ? (
+            <Button onClick={() => join(inviteRoom)}>Join session</Button>
+          ) : (
+            <Button onClick={() => join()}>Start session</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
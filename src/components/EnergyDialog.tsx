@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BatteryMedium, Check, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { analyzeEnergy, applySuggestion, dayLoad, energyCurve, MAX_ENERGY, type EnergySuggestion } from "@/lib/energy";
+import type { WeekendActivity } from "@/lib/persistence";
+import { formatHour, formatTime, type DayHours, type TimeFormat } from "@/lib/time";
+import { capitalize } from "@/lib/utils";
+import type { ScheduleDay, WeekendDay } from "@/lib/weekends";
+
+export interface EnergyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activities: WeekendActivity[];
+  days: ScheduleDay[];
+  hours: DayHours;
+  timeFormat: TimeFormat;
+  onApply: (activities: WeekendActivity[], description: string) => void;
+}
+
+const DAY_COLORS: Record<WeekendDay, string> = {
+  friday: "var(--chart-4)",
+  saturday: "var(--chart-1)",
+  sunday: "var(--chart-2)",
+  monday: "var(--chart-3)",
+};
+
+const LEVEL_LABELS = ["Free", "Easy", "Moderate", "High", "Peak"];
+
+export default function EnergyDialog({ open, onOpenChange, activities, days, hours, timeFormat, onApply }: EnergyDialogProps) {
+  const config = useMemo<ChartConfig>(
+    () => Object.fromEntries(days.map(({ day }) => [day, { label: capitalize(day), color: DAY_COLORS[day] }])),
+    [days]
+  );
+
+  // One row per time step with a column per day; days share the clock, not the date
+  const data = useMemo(() => {
+    const rows = new Map<number, Record<string, number>>();
+    for (const { day } of days) {
+      for (const point of energyCurve(activities, day, { hours })) {
+        const row = rows.get(point.mins) ?? { mins: point.mins };
+        row[day] = point.energy;
+        rows.set(point.mins, row);
+      }
+    }
+    return [...rows.values()].sort((a, b) => a.mins - b.mins);
+  }, [activities, days, hours]);
+
+  const issues = useMemo(() => (open ? analyzeEnergy(activities, days, { hours }) : []), [open, activities, days, hours]);
+
+  const apply = (suggestion: EnergySuggestion) => onApply(applySuggestion(activities, suggestion), suggestion.description);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BatteryMedium className="size-4" aria-hidden="true" />
+            Energy balance
+          </DialogTitle>
+          <DialogDescription>How demanding each part of the weekend is, from activity moods and difficulty.</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[65vh] overflow-y-auto space-y-4 pr-1">
+          <ChartContainer config={config} className="aspect-auto h-56 w-full">
+            <AreaChart data={data} margin={{ left: 0, right: 8, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="mins"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                ticks={data.filter((row) => row.mins % 180 === 0).map((row) => row.mins)}
+                tickFormatter={(mins: number) => formatHour(mins / 60, timeFormat)}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis
+                domain={[0, MAX_ENERGY]}
+                ticks={[0, 1, 2, 3, 4]}
+                tickFormatter={(level: number) => LEVEL_LABELS[level]}
+                tickLine={false}
+                axisLine={false}
+                width={64}
+              />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload?.[0]?.payload?.mins ?? 0, timeFormat)} />}
+              />
+              {days.map(({ day }) => (
+                <Area
+                  key={day}
+                  dataKey={day}
+                  type="stepAfter"
+                  stroke={`var(--color-${day})`}
+                  fill={`var(--color-${day})`}
+                  fillOpacity={0.15}
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+              ))}
+              <ChartLegend content={<ChartLegendContent />} />
+            </AreaChart>
+          </ChartContainer>
+
+          <dl className="grid gap-2" style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}>
+            {days.map(({ day }) => (
+              <div key={day} className="rounded-lg bg-muted/40 p-2 text-center">
+                <dt className="text-xs font-semibold capitalize">{day}</dt>
+                <dd className="text-sm tabular-nums">{dayLoad(activities, day).toFixed(1)} <span className="text-xs text-muted-foreground">load</span></dd>
+              </div>
+            ))}
+          </dl>
+
+          <section aria-label="Energy issues">
+            {issues.length === 0 ? (
+              <p className="flex items-center gap-2 rounded-lg border p-3 text-sm text-muted-foreground">
+                <Check className="size-4 text-primary" aria-hidden="true" />
+                The weekend&apos;s energy looks well balanced.
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {issues.map((issue) => (
+                  <li key={`${issue.kind}-${issue.day}`} className="flex items-start gap-3 rounded-lg border p-3">
+                    <TriangleAlert className="mt-0.5 size-4 shrink-0 text-amber-600 dark:text-amber-400" aria-hidden="true" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm font-medium">{issue.message}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {issue.suggestion ? issue.suggestion.description : "No swap or rest block fits without a clash; try moving something by hand."}
+                      </p>
+                    </div>
+                    {issue.suggestion && (
+                      <Button size="sm" variant="secondary" className="h-8 shrink-0" onClick={() => apply(issue.suggestion!)}>
+                        Apply
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { AlertTriangle, FileUp, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { getPlanName, ImportValidationError, persistenceManager, type ImportResult } from "@/lib/persistence";
+import type { ImportIssue, ImportMode } from "@/lib/plan-import";
+import { summarizeDiff } from "@/lib/revisions";
+
+export interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  data: unknown; // parsed JSON from the chosen file
+  fileName?: string;
+  defaultMode?: ImportMode;
+  notice?: ImportNotice; // how far the source can be trusted, e.g. a share link's signature
+  onImported?: (result: ImportResult) => void;
+}
+
+export interface ImportNotice {
+  text: string;
+  verified: boolean;
+}
+
+const MODES: { value: ImportMode; label: string; hint: string }[] = [
+  { value: "merge", label: "Merge", hint: "Add new activities and take imported edits; your conflicting edits are kept." },
+  { value: "replace", label: "Replace", hint: "Overwrite matching plans with the imported activities." },
+  { value: "new", label: "Import as new plan", hint: "Keep everything you have and save the import alongside it." },
+];
+
+export default function ImportDialog({ open, onOpenChange, data, fileName, defaultMode = "merge", notice, onImported }: ImportDialogProps) {
+  const [mode, setMode] = useState<ImportMode>(defaultMode);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [issues, setIssues] = useState<ImportIssue[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) setMode(defaultMode);
+  }, [open, defaultMode]);
+
+  // Dry run whenever the file or mode changes
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    persistenceManager
+      .importData(data, { mode, dryRun: true })
+      .then((result) => {
+        if (cancelled) return;
+        setPreview(result);
+        setIssues([]);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setPreview(null);
+        setIssues(error instanceof ImportValidationError ? error.issues : [{ path: "(file)", message: String(error?.message || error) }]);
+      });
+    return () => { cancelled = true; };
+  }, [open, data, mode]);
+
+  const runImport = async () => {
+    setImporting(true);
+    try {
+      const result = await persistenceManager.importData(data, { mode });
+      onImported?.(result);
+      toast.success(result.planIds.length === 1 ? "Plan imported" : `${result.planIds.length} plans imported`);
+      onOpenChange(false);
+    } catch (error) {
+      console.warn("Import failed:", error);
+      toast.error("Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const hasChanges = !!preview && (preview.steps.some((s) => s.action !== "unchanged") || preview.settings.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="size-4" aria-hidden="true" />
+            Import plan
+          </DialogTitle>
+          <DialogDescription>
+            {fileName ? `Review ${fileName} before anything is saved.` : "Review the import before anything is saved."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {notice && (
+          <p className={`flex items-start gap-2 rounded-md border p-2 text-xs ${notice.verified ? "text-emerald-700 dark:text-emerald-400" : "text-amber-700 dark:text-amber-400"}`}>
+            {notice.verified
+              ? <ShieldCheck className="size-4 shrink-0" aria-hidden="true" />
+              : <ShieldAlert className="size-4 shrink-0" aria-hidden="true" />}
+            <span>{notice.text}</span>
+          </p>
+        )}
+
+        {issues.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-destructive">This file can&apos;t be imported:</p>
+            <ul className="max-h-56 overflow-y-auto space-y-1 text-xs">
+              {issues.map((issue, idx) => (
+                <li key={`${issue.path}-${idx}`}>
+                  <code className="rounded bg-muted px-1">{issue.path}</code> {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup value={mode} onValueChange={(v) => setMode(v as ImportMode)} className="gap-2">
+              {MODES.map((m) => (
+                <div key={m.value} className="flex items-start gap-2">
+                  <RadioGroupItem value={m.value} id={`import-${m.value}`} className="mt-0.5" />
+                  <Label htmlFor={`import-${m.value}`} className="flex flex-col items-start gap-0.5">
+                    <span className="text-sm font-medium">{m.label}</span>
+                    <span className="text-xs font-normal text-muted-foreground">{m.hint}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            {preview && (
+              <ul className="max-h-56 overflow-y-auto space-y-2 text-xs">
+                {preview.steps.map((step, idx) => (
+                  <li key={`${step.theme}-${idx}`} className="rounded-md border p-2">
+                    <div className="font-medium">
+                      {getPlanName(step)} — {step.action === "create" ? "new plan" : step.action === "update" ? "update" : "no changes"}
+                    </div>
+                    {step.action !== "unchanged" && <div className="text-muted-foreground">{summarizeDiff(step.diff)}</div>}
+                    {step.conflicts.length > 0 && (
+                      <div className="mt-1 flex items-start gap-1 text-amber-700 dark:text-amber-400">
+                        <AlertTriangle className="size-3 mt-0.5 shrink-0" aria-hidden="true" />
+                        <span>
+                          {step.conflicts.length} conflicting {step.conflicts.length === 1 ? "edit" : "edits"}:{" "}
+                          {step.conflicts.map((c) => c.before.title).join(", ")}
+                          {mode === "replace" ? " — imported version wins" : " — your version is kept"}
+                        </span>
+                      </div>
+                    )}
+                  </li>
+                ))}
+                {preview.settings.length > 0 && (
+                  <li className="text-muted-foreground">Settings: {preview.settings.join(", ")}</li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={runImport} disabled={!hasChanges || importing}>
+            {importing ? "Importing…" : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
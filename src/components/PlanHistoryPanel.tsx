@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { History, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { persistenceManager, type WeekendActivity, type WeekendPlan } from "@/lib/persistence";
+import { describeRecurrence } from "@/lib/recurrence";
+import { diffActivities, isEmptyDiff, summarizeDiff, type PlanRevision } from "@/lib/revisions";
+
+export interface PlanHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  planId: string | null;
+  onRestore?: (plan: WeekendPlan) => void;
+}
+
+export default function PlanHistoryPanel({ open, onOpenChange, planId, onRestore }: PlanHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<PlanRevision[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    if (!planId) {
+      setRevisions([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const list = await persistenceManager.getRevisions(planId);
+      setRevisions(list);
+      setSelectedVersion(list[1]?.version ?? null);
+    } catch (error) {
+      console.warn("Failed to load plan history:", error);
+      toast.error("Couldn't load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [planId]);
+
+  useEffect(() => {
+    if (open) loadRevisions();
+  }, [open, loadRevisions]);
+
+  const current = revisions[0];
+  const selected = revisions.find((r) => r.version === selectedVersion) || null;
+
+  // What restoring the selected version would change relative to the current plan
+  const preview = useMemo(
+    () => (current && selected ? diffActivities(current.activities, selected.activities) : null),
+    [current, selected]
+  );
+
+  const restore = async (revision: PlanRevision) => {
+    if (!planId) return;
+    try {
+      const plan = await persistenceManager.restoreRevision(planId, revision.version);
+      onRestore?.(plan);
+      toast.success(`Restored version ${revision.version}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.warn("Failed to restore revision:", error);
+      toast.error("Restore failed");
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2 font-heading">
+            <History className="size-4" aria-hidden="true" />
+            Plan history
+          </SheetTitle>
+          <SheetDescription>Every save is kept. Pick a version to compare it with the current plan, then restore it.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4 space-y-2">
+          {loading && <p className="text-sm text-muted-foreground">Loading history…</p>}
+          {!loading && revisions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No saved versions yet. Changes are recorded as you edit.</p>
+          )}
+
+          {revisions.map((r, idx) => {
+            const previous = revisions[idx + 1];
+            const summary = previous ? summarizeDiff(diffActivities(previous.activities, r.activities)) : "First version";
+            const isCurrent = idx === 0;
+            const isSelected = r.version === selectedVersion;
+            return (
+              <button
+                key={r.id}
+                type="button"
+                onClick={() => setSelectedVersion(isCurrent ? null : r.version)}
+                className={cn(
+                  "w-full text-left rounded-lg border p-3 transition-colors",
+                  isSelected ? "border-primary bg-primary/5" : "border-border hover:bg-muted/50"
+                )}
+                aria-pressed={isSelected}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold">
+                    Version {r.version}
+                    {isCurrent && (
+                      <span className="ml-2 rounded-full bg-muted px-1.5 py-0.5 text-[10px] font-medium text-muted-foreground">Current</span>
+                    )}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{r.savedAt.toLocaleString()}</span>
+                </div>
+                <div className="mt-1 text-xs text-muted-foreground">
+                  {r.activities.length} activities • {summary}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {selected && preview && (
+          <div className="border-t p-4 space-y-3">
+            <p className="text-sm font-medium">Restoring version {selected.version} will:</p>
+            {isEmptyDiff(preview) ? (
+              <p className="text-xs text-muted-foreground">Make no changes to the activities.</p>
+            ) : (
+              <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+                {preview.added.map((a) => (
+                  <li key={`add-${a.id}`} className="text-emerald-700 dark:text-emerald-400">+ Bring back {a.title} ({a.day} {a.start})</li>
+                ))}
+                {preview.removed.map((a) => (
+                  <li key={`rm-${a.id}`} className="text-destructive">− Remove {a.title} ({a.day} {a.start})</li>
+                ))}
+                {preview.changed.map((c) => (
+                  <li key={`ch-${c.after.id}`} className="text-amber-700 dark:text-amber-400">
+                    ~ {c.after.title}: {c.fields.map((f) => `${f} ${fieldText(c.before, f)} → ${fieldText(c.after, f)}`).join(", ")}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Button className="w-full" onClick={() => restore(selected)}>
+              <RotateCcw className="mr-2 size-4" aria-hidden="true" />
+              Restore version {selected.version}
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function fieldText(activity: WeekendActivity, field: keyof WeekendActivity): string {
+  if (field === "location") return activity.location?.name ?? "—";
+  if (field === "recurrence") return activity.recurrence ? describeRecurrence(activity.recurrence, activity.day) : "—";
+  if (field === "dependsOn") return activity.dependsOn?.length ? `${activity.dependsOn.length} ${activity.dependsOn.length === 1 ? "dependency" : "dependencies"}` : "—";
+  return String(activity[field] ?? "—");
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { WeekendPlan } from "@/lib/persistence";
+
+type WeekendTheme = WeekendPlan["theme"];
+
+export interface PlanNameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: "create" | "rename" | "template";
+  initialName?: string;
+  initialTheme: WeekendTheme;
+  onSubmit: (name: string, theme: WeekendTheme) => void;
+}
+
+const COPY = {
+  create: { title: "New plan", description: "Start an empty plan, e.g. “Rainy weekend”.", submit: "Create" },
+  rename: { title: "Rename plan", description: "Give this plan a name you'll recognise.", submit: "Rename" },
+  template: { title: "Save as template", description: "Reuse this weekend's activities on any plan later.", submit: "Save" },
+};
+
+const THEME_OPTIONS: { value: WeekendTheme; label: string }[] = [
+  { value: "lazy", label: "Lazy" },
+  { value: "adventurous", label: "Adventurous" },
+  { value: "family", label: "Family" },
+];
+
+export default function PlanNameDialog({ open, onOpenChange, mode, initialName = "", initialTheme, onSubmit }: PlanNameDialogProps) {
+  const [name, setName] = useState(initialName);
+  const [theme, setTheme] = useState<WeekendTheme>(initialTheme);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initialName);
+    setTheme(initialTheme);
+  }, [open]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSubmit(name.trim(), theme);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <form onSubmit={submit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{COPY[mode].title}</DialogTitle>
+            <DialogDescription>{COPY[mode].description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-name">Name</Label>
+            <Input id="plan-name" value={name} autoFocus onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          {mode === "create" && (
+            <div className="space-y-2">
+              <Label htmlFor="plan-theme">Theme</Label>
+              <Select value={theme} onValueChange={(v) => setTheme(v as WeekendTheme)}>
+                <SelectTrigger id="plan-theme">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {THEME_OPTIONS.map((t) => (
+                    <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={!name.trim()}>{COPY[mode].submit}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,6 +17,9 @@ import {
   Calendar
 } from "lucide-react"
 import { toast } from "sonner"
+import { HOLIDAY_REGION_NAMES, type HolidayRegion } from "@/lib/holidays"
+import { createSyncKey } from "@/lib/sync"
+import { MIN_DAY_HOURS_MINS, toMinutes } from "@/lib/time"
 
 export interface SettingsData {
   theme: "lazy" | "adventurous" | "family"
@@ -27,7 +30,16 @@ export interface SettingsData {
   notifications: boolean
   startTime: string
   endTime: string
+  allowOverlaps: boolean
+  bufferMins: number // kept free between consecutive activities
+  defaultTravelMins: number // between different places without coordinates
+  calendarReminderMins: number // reminder before each exported calendar event; 0 for none
+  shareLinkExpiryDays: number // share links stop working after this many days; 0 for never
+  shareSecret: string // passphrase that signs share links; empty for unsigned
+  syncKey: string // devices with the same key sync their plans; empty keeps sync off
   weekendStart: "friday" | "saturday"
+  weekendEnd: "sunday" | "monday"
+  holidayRegion: HolidayRegion
   showTutorial: boolean
   compactMode: boolean
 }
@@ -49,7 +61,16 @@ const defaultSettings: SettingsData = {
   notifications: true,
   startTime: "09:00",
   endTime: "22:00",
+  allowOverlaps: false,
+  bufferMins: 0,
+  defaultTravelMins: 15,
+  calendarReminderMins: 0,
+  shareLinkExpiryDays: 0,
+  shareSecret: "",
+  syncKey: "",
   weekendStart: "saturday",
+  weekendEnd: "sunday",
+  holidayRegion: "none",
   showTutorial: true,
   compactMode: false,
 }
@@ -78,6 +99,11 @@ export default function SettingsModal({
   }
 
   const handleSave = () => {
+    // An end of 00:00 is midnight
+    if ((toMinutes(settings.endTime) || 24 * 60) - toMinutes(settings.startTime) < MIN_DAY_HOURS_MINS) {
+      toast.error("Check your hours", { description: "The end time must be at least an hour after the start time." })
+      return
+    }
     onSettingsChange(settings)
     setHasChanges(false)
     toast.success("Settings saved")
@@ -189,6 +215,18 @@ export default function SettingsModal({
                   onCheckedChange={(checked) => handleSettingChange("compactMode", checked)}
                 />
               </div>
+
+              <div className="flex items-center justify-between p-2 rounded-lg border-2 border-border/30 bg-gradient-to-r from-muted/20 to-muted/10 hover:border-primary/30 transition-all duration-200">
+                <div className="space-y-1">
+                  <Label htmlFor="allow-overlaps" className="text-sm font-medium">Overlap Lanes</Label>
+                  <p className="text-xs text-muted-foreground">Let activities share time side by side, with a warning</p>
+                </div>
+                <Switch
+                  id="allow-overlaps"
+                  checked={settings.allowOverlaps}
+                  onCheckedChange={(checked) => handleSettingChange("allowOverlaps", checked)}
+                />
+              </div>
             </div>
 
             {/* Time & Schedule Settings */}
@@ -228,6 +266,110 @@ export default function SettingsModal({
                   <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">min</span>
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="buffer-mins" className="text-sm font-medium">Buffer Between Activities</Label>
+                <div className="relative">
+                  <Input
+                    id="buffer-mins"
+                    type="number"
+                    min={0}
+                    step={5}
+                    value={settings.bufferMins}
+                    onChange={(e) => handleSettingChange("bufferMins", Math.max(0, parseInt(e.target.value) || 0))}
+                    className="h-8 text-sm pr-12"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">min</span>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="default-travel" className="text-sm font-medium">Travel Between Places</Label>
+                <div className="relative">
+                  <Input
+                    id="default-travel"
+                    type="number"
+                    min={0}
+                    step={5}
+                    value={settings.defaultTravelMins}
+                    onChange={(e) => handleSettingChange("defaultTravelMins", Math.max(0, parseInt(e.target.value) || 0))}
+                    className="h-8 text-sm pr-12"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">min</span>
+                </div>
+                <p className="text-xs text-muted-foreground">Used when two locations have no coordinates to measure between</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="calendar-reminder" className="text-sm font-medium">Calendar Reminders</Label>
+                <Select
+                  value={String(settings.calendarReminderMins)}
+                  onValueChange={(value) => handleSettingChange("calendarReminderMins", parseInt(value) || 0)}
+                >
+                  <SelectTrigger id="calendar-reminder" className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">No reminder</SelectItem>
+                    <SelectItem value="10">10 min before</SelectItem>
+                    <SelectItem value="30">30 min before</SelectItem>
+                    <SelectItem value="60">1 hour before</SelectItem>
+                    <SelectItem value="1440">1 day before</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Added to each event in the exported .ics file</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="share-expiry" className="text-sm font-medium">Share Links Expire</Label>
+                <Select
+                  value={String(settings.shareLinkExpiryDays)}
+                  onValueChange={(value) => handleSettingChange("shareLinkExpiryDays", parseInt(value) || 0)}
+                >
+                  <SelectTrigger id="share-expiry" className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Never</SelectItem>
+                    <SelectItem value="1">After 1 day</SelectItem>
+                    <SelectItem value="7">After 7 days</SelectItem>
+                    <SelectItem value="30">After 30 days</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="share-secret" className="text-sm font-medium">Share Link Passphrase</Label>
+                <Input
+                  id="share-secret"
+                  type="password"
+                  autoComplete="off"
+                  placeholder="Not signed"
+                  value={settings.shareSecret}
+                  onChange={(e) => handleSettingChange("shareSecret", e.target.value)}
+                  className="h-8 text-sm"
+                />
+                <p className="text-xs text-muted-foreground">Signs your links; people with the same passphrase can tell if one was changed</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sync-key" className="text-sm font-medium">Device Sync Key</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="sync-key"
+                    autoComplete="off"
+                    spellCheck={false}
+                    placeholder="Sync is off"
+                    value={settings.syncKey}
+                    onChange={(e) => handleSettingChange("syncKey", e.target.value.trim())}
+                    className="h-8 text-sm font-mono"
+                  />
+                  {settings.syncKey ? (
+                    <Button type="button" variant="outline" size="sm" className="h-8" onClick={() => handleSettingChange("syncKey", "")}>
+                      Turn off
+                    </Button>
+                  ) : (
+                    <Button type="button" variant="outline" size="sm" className="h-8" onClick={() => handleSettingChange("syncKey", createSyncKey())}>
+                      New key
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">Paste the same key on your other devices to sync plans between them. Anyone with the key can see your plans.</p>
+              </div>
               <div className="space-y-2">
                 <Label htmlFor="time-format" className="text-sm font-medium">Time Format</Label>
                 <Select value={settings.timeFormat} onValueChange={(value: any) => handleSettingChange("timeFormat", value)}>
@@ -270,6 +412,44 @@ export default function SettingsModal({
                   </SelectContent>
                 </Select>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="weekend-end" className="text-sm font-medium">Weekend Ends On</Label>
+                <Select value={settings.weekendEnd} onValueChange={(value: any) => handleSettingChange("weekendEnd", value)}>
+                  <SelectTrigger id="weekend-end" className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sunday" className="py-2">
+                      <div className="flex items-center gap-3">
+                        <Calendar className="h-4 w-4" />
+                        <span className="font-medium">Sunday</span>
+                      </div>
+                    </SelectItem>
+                    <SelectItem value="monday" className="py-2">
+                      <div className="flex items-center gap-3">
+                        <Calendar className="h-4 w-4" />
+                        <span className="font-medium">Monday (long weekend)</span>
+                      </div>
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="holiday-region" className="text-sm font-medium">Holiday Mondays</Label>
+                <Select value={settings.holidayRegion} onValueChange={(value: any) => handleSettingChange("holidayRegion", value)}>
+                  <SelectTrigger id="holiday-region" className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(HOLIDAY_REGION_NAMES) as HolidayRegion[]).map((region) => (
+                      <SelectItem key={region} value={region} className="py-2">
+                        <span className="font-medium">{HOLIDAY_REGION_NAMES[region]}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Adds the Monday when it's a public holiday</p>
+              </div>
             </div>
 
             {/* Behavior Settings */}
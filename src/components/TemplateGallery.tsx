@@ -0,0 +1,217 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Download, LayoutTemplate, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { getPlanName, ImportValidationError, persistenceManager, type WeekendActivity, type WeekendPlan } from "@/lib/persistence";
+import type { PlacementStrategy } from "@/lib/templates";
+import { toMinutes } from "@/lib/time";
+import { WEEKEND_DAYS } from "@/lib/weekends";
+
+export interface TemplateGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApply: (template: WeekendPlan, strategy: PlacementStrategy) => void;
+}
+
+const STRATEGIES: { value: PlacementStrategy; label: string; hint: string }[] = [
+  { value: "shift", label: "Fit around", hint: "Move clashing activities to the nearest free time." },
+  { value: "skip", label: "Skip clashes", hint: "Leave out activities that overlap your plan." },
+  { value: "replace", label: "Replace", hint: "Remove what's scheduled where the template needs room." },
+];
+
+const categoryFill: Record<WeekendActivity["category"], string> = {
+  outdoor: "bg-emerald-500",
+  food: "bg-amber-500",
+  fitness: "bg-blue-500",
+  culture: "bg-purple-500",
+  home: "bg-slate-500",
+  other: "bg-gray-400",
+};
+
+export default function TemplateGallery({ open, onOpenChange, onApply }: TemplateGalleryProps) {
+  const [templates, setTemplates] = useState<WeekendPlan[]>([]);
+  const [strategy, setStrategy] = useState<PlacementStrategy>("shift");
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await persistenceManager.listTemplates());
+    } catch (error) {
+      console.warn("Failed to load templates:", error);
+      toast.error("Couldn't load templates");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadTemplates();
+  }, [open, loadTemplates]);
+
+  const removeTemplate = async (template: WeekendPlan) => {
+    try {
+      await persistenceManager.deletePlan(template.id);
+      setTemplates((list) => list.filter((t) => t.id !== template.id));
+      toast.message(`Deleted “${getPlanName(template)}”`);
+    } catch (error) {
+      console.warn("Failed to delete template:", error);
+      toast.error("Delete failed");
+    }
+  };
+
+  const exportPack = async () => {
+    try {
+      const pack = await persistenceManager.exportTemplatePack();
+      const blob = new Blob([JSON.stringify(pack, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "weekendly-templates.json";
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${pack.templates.length} ${pack.templates.length === 1 ? "template" : "templates"}`);
+    } catch (error) {
+      console.warn("Failed to export templates:", error);
+      toast.error("Export failed");
+    }
+  };
+
+  const importPack = async (file: File) => {
+    try {
+      const created = await persistenceManager.importTemplatePack(JSON.parse(await file.text()));
+      await loadTemplates();
+      toast.success(`Added ${created.length} ${created.length === 1 ? "template" : "templates"}`);
+    } catch (error) {
+      console.warn("Failed to import templates:", error);
+      const detail = error instanceof ImportValidationError
+        ? error.issues.slice(0, 3).map((i) => `${i.path}: ${i.message}`).join("; ")
+        : "Not a template pack";
+      toast.error("Import failed", { description: detail });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="size-4" aria-hidden="true" />
+            Templates
+          </DialogTitle>
+          <DialogDescription>Add a ready-made weekend to the plan you have open.</DialogDescription>
+        </DialogHeader>
+
+        {templates.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No templates yet. Use “Save as template” on a plan, or import a pack.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup value={strategy} onValueChange={(v) => setStrategy(v as PlacementStrategy)} className="grid sm:grid-cols-3 gap-2">
+              {STRATEGIES.map((s) => (
+                <div key={s.value} className="flex items-start gap-2">
+                  <RadioGroupItem value={s.value} id={`placement-${s.value}`} className="mt-0.5" />
+                  <Label htmlFor={`placement-${s.value}`} className="flex flex-col items-start gap-0.5">
+                    <span className="text-sm font-medium">{s.label}</span>
+                    <span className="text-xs font-normal text-muted-foreground">{s.hint}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <ul className="grid sm:grid-cols-2 gap-3 max-h-[50vh] overflow-y-auto">
+              {templates.map((template) => (
+                <li key={template.id} className="rounded-lg border p-3 flex gap-3">
+                  <TemplateThumbnail activities={template.activities} />
+                  <div className="min-w-0 flex-1 flex flex-col">
+                    <div className="font-medium truncate">{getPlanName(template)}</div>
+                    <div className="text-xs text-muted-foreground capitalize">
+                      {template.theme} • {template.activities.length} activities
+                    </div>
+                    {template.metadata?.notes && (
+                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">{template.metadata.notes}</p>
+                    )}
+                    <div className="mt-auto pt-2 flex gap-2">
+                      <Button size="sm" onClick={() => onApply(template, strategy)}>Use</Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => removeTemplate(template)}
+                        aria-label={`Delete ${getPlanName(template)}`}
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between gap-2">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => fileRef.current?.click()}>
+              <Upload className="size-4 mr-2" />
+              Import pack
+            </Button>
+            <Button variant="outline" onClick={exportPack} disabled={templates.length === 0}>
+              <Download className="size-4 mr-2" />
+              Export pack
+            </Button>
+          </div>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importPack(file);
+            e.target.value = "";
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Miniature timeline of Saturday, Sunday and any other day the template uses, 5:00–23:00
+function TemplateThumbnail({ activities }: { activities: WeekendActivity[] }) {
+  const dayStart = 5 * 60;
+  const span = 18 * 60;
+  const days = WEEKEND_DAYS.filter((d) => d === "saturday" || d === "sunday" || activities.some((a) => a.day === d));
+  return (
+    <div
+      className="grid gap-1 w-20 h-24 shrink-0 rounded-md bg-muted/50 p-1"
+      style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}
+      aria-hidden="true"
+    >
+      {days.map((day) => (
+        <div key={day} className="relative rounded-sm bg-background">
+          {activities
+            .filter((a) => a.day === day)
+            .map((a) => {
+              const top = Math.max(0, ((toMinutes(a.start) - dayStart) / span) * 100);
+              const height = Math.max(3, (a.durationMins / span) * 100);
+              return (
+                <div
+                  key={a.id}
+                  className={`absolute inset-x-0.5 rounded-[2px] ${categoryFill[a.category]}`}
+                  style={{ top: `${top}%`, height: `${Math.min(height, 100 - top)}%` }}
+                />
+              );
+            })}
+        </div>
+      ))}
+    </div>
+  );
+}
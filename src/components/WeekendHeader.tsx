@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { Menu, Palette, Settings2, LayoutTemplate, PanelRight, PanelBottom, PanelTop, House, Share2, Calendar, Undo2, Redo2 } from "lucide-react";
+import { Menu, Palette, Settings2, LayoutTemplate, PanelRight, PanelBottom, PanelTop, House, Share2, Calendar, Undo2, Redo2, History, Users, FolderOpen, ChevronDown, Check, FilePlus2, Pencil, Copy, Archive, ArchiveRestore, BookmarkPlus, Shapes, CalendarRange, BatteryMedium, CalendarClock, CalendarSync } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -15,7 +15,13 @@ import {
   DropdownMenuGroup,
   DropdownMenuSeparator,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubTrigger,
+  DropdownMenuSubContent,
 } from "@/components/ui/dropdown-menu";
+import { getPlanName, type WeekendPlan } from "@/lib/persistence";
+import { formatWeekendShort } from "@/lib/weekends";
+import WeekendPicker from "@/components/WeekendPicker";
 
 type WeekendTheme = "lazy" | "adventurous" | "family";
 
@@ -30,10 +36,29 @@ export interface WeekendHeaderProps {
   onExport?: () => void;
   onHelp?: () => void;
   onOpenSettings?: () => void;
-  onShare?: () => void;
+  onShare?: () => void; // copies the link and reports how it went
   onUndo?: () => void;
   onRedo?: () => void;
   onExportIcs?: () => void;
+  onOpenCalendars?: () => void; // calendars imported as busy time
+  onOpenCalendarSync?: () => void; // two-way sync with a CalDAV calendar
+  onHistory?: () => void;
+  onOpenEnergy?: () => void;
+  onCollaborate?: () => void;
+  // Plan library; the switcher is shown once plans are passed in
+  plans?: WeekendPlan[]; // archived plans included
+  currentPlanId?: string | null;
+  onSelectPlan?: (id: string) => void;
+  onNewPlan?: () => void;
+  onRenamePlan?: () => void;
+  onDuplicatePlan?: () => void;
+  onArchivePlan?: (id: string, archived: boolean) => void;
+  onSaveTemplate?: () => void;
+  onOpenTemplates?: () => void;
+  // Calendar weekends; the picker is shown alongside the plan switcher
+  weekendOf?: string | null;
+  onSelectWeekend?: (weekend: string, move: boolean) => void;
+  onOpenWeekends?: () => void;
   title?: string;
 }
 
@@ -58,6 +83,23 @@ export default function WeekendHeader({
   onUndo,
   onRedo,
   onExportIcs,
+  onOpenCalendars,
+  onOpenCalendarSync,
+  onHistory,
+  onOpenEnergy,
+  onCollaborate,
+  plans,
+  currentPlanId,
+  onSelectPlan,
+  onNewPlan,
+  onRenamePlan,
+  onDuplicatePlan,
+  onArchivePlan,
+  onSaveTemplate,
+  onOpenTemplates,
+  weekendOf = null,
+  onSelectWeekend,
+  onOpenWeekends,
   title = "Weekendly",
 }: WeekendHeaderProps) {
   // Internal helpers to provide subtle feedback even if handlers are not wired yet.
@@ -116,6 +158,29 @@ export default function WeekendHeader({
               </div>
               <span className="sr-only">Weekend planning application</span>
             </div>
+            {plans && (
+              <PlanSwitcher
+                plans={plans}
+                currentPlanId={currentPlanId ?? null}
+                onSelectPlan={onSelectPlan}
+                onNewPlan={onNewPlan}
+                onRenamePlan={onRenamePlan}
+                onDuplicatePlan={onDuplicatePlan}
+                onArchivePlan={onArchivePlan}
+                onSaveTemplate={onSaveTemplate}
+                onOpenTemplates={onOpenTemplates}
+              />
+            )}
+            {plans && (
+              <div className="hidden sm:block">
+                <WeekendPicker
+                  weekend={weekendOf}
+                  plans={plans}
+                  onSelectWeekend={onSelectWeekend}
+                  onOpenOverview={onOpenWeekends}
+                />
+              </div>
+            )}
           </div>
 
           {/* Theme Tabs (Desktop) */}
@@ -187,6 +252,14 @@ export default function WeekendHeader({
                     <LayoutTemplate className="h-4 w-4 mr-2" />
                     Load a plan
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onOpenTemplates?.()}>
+                    <Shapes className="h-4 w-4 mr-2" />
+                    Templates…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onOpenWeekends?.()}>
+                    <CalendarRange className="h-4 w-4 mr-2" />
+                    Weekends…
+                  </DropdownMenuItem>
                 </DropdownMenuGroup>
                 <DropdownMenuSeparator />
                 <DropdownMenuGroup>
@@ -198,6 +271,18 @@ export default function WeekendHeader({
                     <Redo2 className="h-4 w-4 mr-2" />
                     Redo
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onHistory?.()}>
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onOpenEnergy?.()}>
+                    <BatteryMedium className="h-4 w-4 mr-2" />
+                    Energy balance…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onCollaborate?.()}>
+                    <Users className="h-4 w-4 mr-2" />
+                    Collaborate
+                  </DropdownMenuItem>
                 </DropdownMenuGroup>
                 <DropdownMenuSeparator />
                 <DropdownMenuGroup>
@@ -205,7 +290,7 @@ export default function WeekendHeader({
                     <PanelRight className="h-4 w-4 mr-2" />
                     Import
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={safeAction("Share link copied", onShare)}>
+                  <DropdownMenuItem onClick={() => onShare?.()}>
                     <Share2 className="h-4 w-4 mr-2" />
                     Share link
                   </DropdownMenuItem>
@@ -213,6 +298,14 @@ export default function WeekendHeader({
                     <Calendar className="h-4 w-4 mr-2" />
                     Export .ics
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onOpenCalendars?.()}>
+                    <CalendarClock className="h-4 w-4 mr-2" />
+                    Busy calendars…
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => onOpenCalendarSync?.()}>
+                    <CalendarSync className="h-4 w-4 mr-2" />
+                    Calendar sync…
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={safeAction("Exported successfully", onExport)}>
                     <PanelTop className="h-4 w-4 mr-2" />
                     Export JSON
@@ -321,6 +414,14 @@ export default function WeekendHeader({
                   <LayoutTemplate className="h-4 w-4 mr-2" />
                   Load a plan
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onOpenTemplates?.()}>
+                  <Shapes className="h-4 w-4 mr-2" />
+                  Templates…
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onOpenWeekends?.()}>
+                  <CalendarRange className="h-4 w-4 mr-2" />
+                  Weekends…
+                </DropdownMenuItem>
 
                 <DropdownMenuSeparator />
                 <DropdownMenuLabel>Quick actions</DropdownMenuLabel>
@@ -332,11 +433,23 @@ export default function WeekendHeader({
                   <Redo2 className="h-4 w-4 mr-2" />
                   Redo
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onHistory?.()}>
+                  <History className="h-4 w-4 mr-2" />
+                  History
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onOpenEnergy?.()}>
+                  <BatteryMedium className="h-4 w-4 mr-2" />
+                  Energy balance…
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onCollaborate?.()}>
+                  <Users className="h-4 w-4 mr-2" />
+                  Collaborate
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={safeAction("Imported successfully", onImport)}>
                   <PanelRight className="h-4 w-4 mr-2" />
                   Import
                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={safeAction("Share link copied", onShare)}>
+                <DropdownMenuItem onClick={() => onShare?.()}>
                   <Share2 className="h-4 w-4 mr-2" />
                   Share link
                 </DropdownMenuItem>
@@ -344,6 +457,14 @@ export default function WeekendHeader({
                   <Calendar className="h-4 w-4 mr-2" />
                   Export .ics
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onOpenCalendars?.()}>
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  Busy calendars…
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onOpenCalendarSync?.()}>
+                  <CalendarSync className="h-4 w-4 mr-2" />
+                  Calendar sync…
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={safeAction("Exported successfully", onExport)}>
                   <PanelTop className="h-4 w-4 mr-2" />
                   Export JSON
@@ -374,6 +495,105 @@ export default function WeekendHeader({
   );
 }
 
+function PlanSwitcher({
+  plans,
+  currentPlanId,
+  onSelectPlan,
+  onNewPlan,
+  onRenamePlan,
+  onDuplicatePlan,
+  onArchivePlan,
+  onSaveTemplate,
+  onOpenTemplates,
+}: {
+  plans: WeekendPlan[];
+  currentPlanId: string | null;
+  onSelectPlan?: (id: string) => void;
+  onNewPlan?: () => void;
+  onRenamePlan?: () => void;
+  onDuplicatePlan?: () => void;
+  onArchivePlan?: (id: string, archived: boolean) => void;
+  onSaveTemplate?: () => void;
+  onOpenTemplates?: () => void;
+}) {
+  const current = plans.find((p) => p.id === currentPlanId);
+  const active = plans.filter((p) => !p.metadata?.archived);
+  const archived = plans.filter((p) => p.metadata?.archived);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="ml-1 max-w-[10rem] sm:max-w-[14rem]" aria-label="Switch plan">
+          <FolderOpen className="h-4 w-4 mr-1.5 shrink-0" />
+          <span className="truncate">{current ? getPlanName(current) : "Plans"}</span>
+          <ChevronDown className="h-3.5 w-3.5 ml-1 shrink-0 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Your plans</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuGroup className="max-h-64 overflow-y-auto">
+          {active.map((p) => (
+            <DropdownMenuItem key={p.id} onClick={() => onSelectPlan?.(p.id)}>
+              <Check className={cn("h-4 w-4 mr-2", p.id === currentPlanId ? "opacity-100" : "opacity-0")} />
+              <span className="truncate">{getPlanName(p)}</span>
+              <span className="ml-auto pl-2 text-[10px] text-muted-foreground shrink-0">
+                {p.metadata?.weekendOf ? formatWeekendShort(p.metadata.weekendOf) : THEME_LABELS[p.theme]}
+              </span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuGroup>
+          <DropdownMenuItem onClick={() => onNewPlan?.()}>
+            <FilePlus2 className="h-4 w-4 mr-2" />
+            New plan…
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!current} onClick={() => onRenamePlan?.()}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename…
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!current} onClick={() => onDuplicatePlan?.()}>
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!current} onClick={() => current && onArchivePlan?.(current.id, true)}>
+            <Archive className="h-4 w-4 mr-2" />
+            Archive
+          </DropdownMenuItem>
+        </DropdownMenuGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuGroup>
+          <DropdownMenuItem disabled={!current} onClick={() => onSaveTemplate?.()}>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save as template…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onOpenTemplates?.()}>
+            <Shapes className="h-4 w-4 mr-2" />
+            Templates…
+          </DropdownMenuItem>
+        </DropdownMenuGroup>
+        {archived.length > 0 && (
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <ArchiveRestore className="h-4 w-4 mr-2" />
+              Archived ({archived.length})
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-56">
+              {archived.map((p) => (
+                <DropdownMenuItem key={p.id} onClick={() => onArchivePlan?.(p.id, false)}>
+                  <span className="truncate">{getPlanName(p)}</span>
+                  <span className="ml-auto pl-2 text-[10px] text-muted-foreground shrink-0">Restore</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 function tabTriggerClass(active: boolean) {
   return cn(
     "rounded-full px-4 py-2 data-[state=active]:shadow-sm",
@@ -0,0 +1,89 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { CalendarDays, CalendarRange, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { WeekendPlan } from "@/lib/persistence";
+import { formatWeekend, weekendDayDate, weekendOf } from "@/lib/weekends";
+
+export interface WeekendPickerProps {
+  weekend: string | null; // weekend of the open plan; null while it is undated
+  plans: WeekendPlan[];
+  // `move` asks to re-date the open plan instead of opening the picked weekend's plan
+  onSelectWeekend?: (weekend: string, move: boolean) => void;
+  onOpenOverview?: () => void;
+}
+
+export default function WeekendPicker({ weekend, plans, onSelectWeekend, onOpenOverview }: WeekendPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [move, setMove] = useState(false);
+
+  const planned = useMemo(
+    () =>
+      plans
+        .filter((p) => !p.metadata?.archived && p.metadata?.weekendOf)
+        .flatMap((p) => [weekendDayDate(p.metadata!.weekendOf!, "saturday"), weekendDayDate(p.metadata!.weekendOf!, "sunday")]),
+    [plans]
+  );
+
+  const pick = (date: Date) => {
+    const next = weekendOf(date);
+    setOpen(false);
+    setMove(false);
+    if (next !== weekend) onSelectWeekend?.(next, move);
+  };
+
+  const selected = weekend ? { from: weekendDayDate(weekend, "saturday"), to: weekendDayDate(weekend, "sunday") } : undefined;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="max-w-[12rem] sm:max-w-none" aria-label="Pick a weekend">
+          <CalendarDays className="h-4 w-4 mr-1.5 shrink-0" />
+          <span className="truncate">{weekend ? formatWeekend(weekend) : "Pick a weekend"}</span>
+          <ChevronDown className="h-3.5 w-3.5 ml-1 shrink-0 opacity-60" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-auto p-0">
+        <Calendar
+          mode="range"
+          selected={selected}
+          defaultMonth={selected?.from}
+          onSelect={(_range, day) => pick(day)}
+          modifiers={{ planned }}
+          modifiersClassNames={{
+            planned: "[&>button]:underline [&>button]:decoration-primary [&>button]:decoration-2 [&>button]:underline-offset-4",
+          }}
+        />
+        {weekend && (
+          <div className="flex items-center gap-2 border-t px-3 py-2">
+            <Checkbox id="weekend-move" checked={move} onCheckedChange={(v) => setMove(v === true)} />
+            <Label htmlFor="weekend-move" className="text-xs font-normal">
+              Move this plan to the weekend I pick
+            </Label>
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2 border-t p-2">
+          <Button variant="ghost" size="sm" onClick={() => pick(new Date())}>
+            This weekend
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setOpen(false);
+              onOpenOverview?.();
+            }}
+          >
+            <CalendarRange className="h-4 w-4 mr-1.5" />
+            All weekends
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
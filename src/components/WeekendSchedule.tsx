@@ -2,19 +2,43 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
-import { CalendarDays, CalendarPlus2, CalendarX2, ChartGantt, Clock6, Calendar } from "lucide-react";
+import { CalendarClock, CalendarDays, CalendarPlus2, CalendarX2, Car, ChartGantt, Clock6, Calendar, Link2, Lock, LockOpen, MapPin, Repeat, TriangleAlert, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-
-type DayKey = "saturday" | "sunday";
+import { busyAt, describeBusy, type BusyBlock } from "@/lib/busy";
+import type { CollabPresence } from "@/lib/collab";
+import { canDependOn, dependencyConflicts, dependencyLinks, removeWithDependencies } from "@/lib/dependencies";
+import { checkOverlaps, layoutLanes } from "@/lib/overlap";
+import { describeRecurrence, presetRule, rulePreset, type RecurrencePreset, type SeriesChange } from "@/lib/recurrence";
+import { nudgeActivity, resizeActivity, type ResizeEdge } from "@/lib/resize";
+import { formatHour, formatTime, formatTimeRange, timelineHours, toMinutes, toTimeString, type DayHours, type TimeFormat } from "@/lib/time";
+import { describeShortfall, parseCoordinates, transitBlocks, travelShortfalls, type TravelOptions } from "@/lib/travel";
+import { capitalize, createActivityId } from "@/lib/utils";
+import { DEFAULT_DAY_RANGE, formatWeekend, formatWeekendDay, weekendDays, type DayRange, type ScheduleDay, type WeekendDay } from "@/lib/weekends";
+
+type DayKey = WeekendDay;
 
 type Mood = "chill" | "energetic" | "social" | "focus";
 
+type Overlap = "allow" | "exclusive";
+
+type Difficulty = "easy" | "medium" | "hard";
+
+type Location = { name: string; lat?: number; lng?: number };
+
+type Dependency = { activityId: string; sameDay?: boolean; minGapMins?: number };
+
+type Recurrence = { frequency: "weekly" | "monthly"; interval?: number; weekOfMonth?: number; since: string; until?: string; exceptions?: string[] };
+
+type SeriesScope = "this" | "future";
+
 type Category = "outdoor" | "food" | "fitness" | "culture" | "home" | "other";
 
 export interface WeekendActivity {
@@ -26,18 +50,52 @@ export interface WeekendActivity {
   durationMins: number; // minutes, >= 15
   mood?: Mood;
   notes?: string;
+  overlap?: Overlap;
+  difficulty?: Difficulty;
+  location?: Location;
+  travelMins?: number; // to get here from the activity before; estimated when missing
+  locked?: boolean; // can't be moved, resized, edited or removed until unlocked
+  dependsOn?: Dependency[]; // activities that have to come first
+  recurrence?: Recurrence; // repeats on other weekends
+  seriesId?: string; // the routine this is an occurrence of
 }
 
 interface WeekendScheduleProps {
   className?: string;
   initialActivities?: WeekendActivity[];
   onChange?: (activities: WeekendActivity[]) => void;
-  startHour?: number; // default 5
-  endHour?: number; // default 23
+  hours?: DayHours; // planning hours; default 05:00–23:00
+  timeFormat?: TimeFormat; // default 24h
+  dense?: boolean; // compact mode: shorter tracks and cards
+  allowOverlaps?: boolean; // overlap lanes: overlaps are warnings unless an activity is exclusive
+  travel?: TravelOptions; // travel and buffer time kept between consecutive activities
+  // Activities merged in from collaborators; adopted without remounting so drags in progress survive
+  syncedActivities?: WeekendActivity[];
+  collaborators?: CollabPresence[];
+  onPresenceChange?: (presence: SchedulePresence) => void;
+  weekendOf?: string; // calendar weekend the plan is for; columns show its dates
+  dayRange?: DayRange; // defaults to Saturday and Sunday
+  onSeriesChange?: (change: SeriesChange) => void; // an edit or removal that reaches a recurring routine
+  busy?: BusyBlock[]; // events from imported calendars; shown read-only, and nothing can go over them
 }
 
-const HOURS_FALLBACK_START = 5;
-const HOURS_FALLBACK_END = 23;
+export type SchedulePresence = Pick<CollabPresence, "day" | "minutes" | "dragging">;
+
+const NO_PRESENCE: SchedulePresence = { day: undefined, minutes: undefined, dragging: undefined };
+
+// An activity while one of its edges is being dragged
+interface ResizePreview {
+  id: string;
+  edge: ResizeEdge;
+  draft: WeekendActivity;
+  conflict: false | "overlap" | "travel" | "order";
+}
+
+const NO_TRAVEL: TravelOptions = {};
+
+const NO_BUSY: BusyBlock[] = [];
+
+const HOURS_FALLBACK: DayHours = { startMins: 5 * 60, endMins: 23 * 60 };
 const MIN_SLOT_MINUTES = 15;
 
 const categoryPalette: Record<Category, string> = {
@@ -69,54 +127,67 @@ function cn(...args: Array<string | false | null | undefined>) {
   return args.filter(Boolean).join(" ");
 }
 
-function toMinutes(time: string): number {
-  const [h, m] = time.split(":").map((n) => parseInt(n, 10));
-  return h * 60 + (m || 0);
-}
-
-function toTimeString(total: number): string {
-  const h = Math.floor(total / 60);
-  const m = total % 60;
-  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
-}
-
 function clamp(val: number, min: number, max: number) {
   return Math.min(Math.max(val, min), max);
 }
 
+function createSeriesId() {
+  return `series_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
 function roundToStep(minutes: number, step: number) {
   return Math.round(minutes / step) * step;
 }
 
-function hasConflict(activities: WeekendActivity[], candidate: WeekendActivity, excludeId?: string) {
-  const dayActs = activities.filter((a) => a.day === candidate.day && a.id !== excludeId);
-  const cStart = toMinutes(candidate.start);
-  const cEnd = cStart + candidate.durationMins;
-  
-  // Debug logging
-  console.log('Checking conflict for:', candidate.title, 'at', candidate.start, 'duration:', candidate.durationMins);
-  console.log('Existing activities on', candidate.day, ':', dayActs.map(a => `${a.title} (${a.start}-${toTimeString(toMinutes(a.start) + a.durationMins)})`));
-  
-  const hasOverlap = dayActs.some((a) => {
-    const aStart = toMinutes(a.start);
-    const aEnd = aStart + a.durationMins;
-    const overlaps = cStart < aEnd && aStart < cEnd;
-    if (overlaps) {
-      console.log('Conflict detected with:', a.title, '(', a.start, '-', toTimeString(aEnd), ')');
-    }
-    return overlaps;
+// Blocking overlaps only; with overlap lanes on most overlaps are allowed and just flagged. Busy time always blocks.
+function hasConflict(activities: WeekendActivity[], candidate: WeekendActivity, excludeId?: string, allowOverlaps = false, busy: BusyBlock[] = []) {
+  const { blocking } = checkOverlaps(activities, candidate, { allowOverlaps, excludeId });
+  return blocking.length > 0 || !!busyAt(busy, candidate);
+}
+
+// Why a placement is blocked; busy time is named since it isn't one of the plan's activities
+function conflictDescription(busy: BusyBlock[], candidate: WeekendActivity, fallback: string, timeFormat: TimeFormat) {
+  const committed = busyAt(busy, candidate);
+  return committed ? `You're busy then: ${describeBusy(committed, timeFormat)}.` : fallback;
+}
+
+// Why a placement leaves too little time to get to or from its neighbours; null when it doesn't
+function travelConflict(activities: WeekendActivity[], candidate: WeekendActivity, excludeId: string | undefined, travel: TravelOptions) {
+  const [shortfall] = travelShortfalls(activities, candidate, { ...travel, excludeId });
+  return shortfall ? describeShortfall(candidate, shortfall) : null;
+}
+
+// Why a placement breaks an ordering rule between activities; null when it doesn't
+function orderConflict(activities: WeekendActivity[], candidate: WeekendActivity) {
+  const [violation] = dependencyConflicts(activities, candidate);
+  return violation ? violation.message : null;
+}
+
+// Let the user know a placement they were allowed to make overlaps something
+function warnOverlaps(activities: WeekendActivity[], candidate: WeekendActivity, allowOverlaps: boolean) {
+  const { warnings } = checkOverlaps(activities, candidate, { allowOverlaps });
+  if (warnings.length === 0) return;
+  toast.warning("Overlapping activities", {
+    description: `${candidate.title} overlaps ${warnings.map((a) => a.title).join(", ")}. They're shown side by side.`,
   });
-  
-  console.log('Has conflict:', hasOverlap);
-  return hasOverlap;
 }
 
 export default function WeekendSchedule({
   className,
   initialActivities,
   onChange,
-  startHour = HOURS_FALLBACK_START,
-  endHour = HOURS_FALLBACK_END,
+  hours = HOURS_FALLBACK,
+  timeFormat = "24h",
+  dense = false,
+  allowOverlaps = false,
+  travel = NO_TRAVEL,
+  syncedActivities,
+  collaborators = [],
+  onPresenceChange,
+  weekendOf,
+  dayRange = DEFAULT_DAY_RANGE,
+  onSeriesChange,
+  busy = NO_BUSY,
 }: WeekendScheduleProps) {
   const [activities, setActivities] = useState<WeekendActivity[]>(() => initialActivities || []);
   const [dayTab, setDayTab] = useState<DayKey>("saturday");
@@ -125,20 +196,56 @@ export default function WeekendSchedule({
   const [hoverMinutes, setHoverMinutes] = useState<number | null>(null);
   const [editOpen, setEditOpen] = useState(false);
   const [editDraft, setEditDraft] = useState<WeekendActivity | null>(null);
+  // For occurrences of a routine: whether an edit is for this weekend or the series from here on
+  const [editScope, setEditScope] = useState<SeriesScope>("this");
+  const [resizing, setResizing] = useState<ResizePreview | null>(null);
 
-  const saturdayRef = useRef<HTMLDivElement | null>(null);
-  const sundayRef = useRef<HTMLDivElement | null>(null);
+  const presenceRef = useRef<SchedulePresence>(NO_PRESENCE);
 
-  const hours = useMemo(() => {
+  // The track covers the planning hours, widened for activities that fall outside them
+  const { startHour, endHour } = useMemo(() => timelineHours(hours, activities), [hours, activities]);
+  const hourMarks = useMemo(() => {
     const list: number[] = [];
     for (let h = startHour; h <= endHour; h++) list.push(h);
     return list;
   }, [startHour, endHour]);
 
+  // Columns follow the day range; days outside it stay while they have activities
+  const days = useMemo(
+    () => weekendDays(dayRange, { weekend: weekendOf, activities }),
+    [dayRange, weekendOf, activities]
+  );
+  const earliestStart = useCallback(
+    (day: DayKey) => Math.max(hours.startMins, days.find((d) => d.day === day)?.earliestMins ?? 0),
+    [days, hours]
+  );
+
+  // Keep the mobile tab on a day that is still shown
+  useEffect(() => {
+    if (!days.some((d) => d.day === dayTab)) setDayTab(days.some((d) => d.day === "saturday") ? "saturday" : days[0].day);
+  }, [days, dayTab]);
+
   useEffect(() => {
     if (onChange) onChange(activities);
   }, [activities, onChange]);
 
+  // Adopt merges that arrive after mount; on a remount initialActivities is already newer
+  const syncedRef = useRef(syncedActivities);
+  useEffect(() => {
+    if (!syncedActivities || syncedActivities === syncedRef.current) return;
+    syncedRef.current = syncedActivities;
+    setActivities(syncedActivities);
+  }, [syncedActivities]);
+
+  // Only report when the pointer lands on a new slot; dragover fires continuously
+  const reportPresence = (presence: SchedulePresence) => {
+    if (!onPresenceChange) return;
+    const prev = presenceRef.current;
+    if (prev.day === presence.day && prev.minutes === presence.minutes && prev.dragging?.activityId === presence.dragging?.activityId) return;
+    presenceRef.current = presence;
+    onPresenceChange(presence);
+  };
+
   // Keep refs for potential future use; calculations rely on event targets.
   useEffect(() => {
     // no-op, retained to avoid unused ref linting in some setups
@@ -175,6 +282,14 @@ export default function WeekendSchedule({
     const container = e.currentTarget as HTMLElement;
     const mins = getMinutesFromElement(e.clientY, container);
     setHoverMinutes(mins);
+
+    // External payloads can't be read until drop, so only moves show a ghost
+    const dragged = draggingId ? activities.find((a) => a.id === draggingId) : undefined;
+    reportPresence({
+      day,
+      minutes: mins ?? undefined,
+      dragging: dragged ? { activityId: dragged.id, title: dragged.title, durationMins: dragged.durationMins } : undefined,
+    });
   };
 
   const handleDragLeave = () => {
@@ -182,12 +297,18 @@ export default function WeekendSchedule({
     setHoverMinutes(null);
   };
 
+  const handleCardDragEnd = () => {
+    setDraggingId(null);
+    reportPresence(NO_PRESENCE);
+  };
+
   const handleDrop = (e: React.DragEvent, day: DayKey) => {
     e.preventDefault();
     const container = e.currentTarget as HTMLElement;
     const mins = getMinutesFromElement(e.clientY, container);
     setHoverDay(null);
     setHoverMinutes(null);
+    reportPresence(NO_PRESENCE);
     if (mins == null) return;
 
     const internalId = e.dataTransfer.getData("text/activity-id");
@@ -198,13 +319,28 @@ export default function WeekendSchedule({
       setActivities((prev) => {
         const found = prev.find((a) => a.id === internalId);
         if (!found) return prev;
+        if (found.locked) {
+          toast.error("Activity is locked", { description: `Unlock ${found.title} to move it.` });
+          return prev;
+        }
         const duration = found.durationMins;
-        const startStr = toTimeString(clamp(mins, startHour * 60, endHour * 60 - duration));
+        const startStr = toTimeString(clamp(mins, earliestStart(day), hours.endMins - duration));
         const updated: WeekendActivity = { ...found, day, start: startStr };
-        if (hasConflict(prev, updated, internalId)) {
-          toast.error("Scheduling conflict", { description: "This overlaps with another activity." });
+        if (hasConflict(prev, updated, internalId, allowOverlaps, busy)) {
+          toast.error("Scheduling conflict", { description: conflictDescription(busy, updated, "This overlaps with another activity.", timeFormat) });
+          return prev;
+        }
+        const tooClose = travelConflict(prev, updated, internalId, travel);
+        if (tooClose) {
+          toast.error("Not enough travel time", { description: tooClose });
+          return prev;
+        }
+        const outOfOrder = orderConflict(prev, updated);
+        if (outOfOrder) {
+          toast.error("Out of order", { description: outOfOrder });
           return prev;
         }
+        warnOverlaps(prev, updated, allowOverlaps);
         return prev.map((a) => (a.id === internalId ? updated : a));
       });
       setDraggingId(null);
@@ -220,9 +356,9 @@ export default function WeekendSchedule({
           return;
         }
         const duration = Math.max(MIN_SLOT_MINUTES, roundToStep(payload.durationMins, MIN_SLOT_MINUTES));
-        const startStr = toTimeString(clamp(mins, startHour * 60, endHour * 60 - duration));
+        const startStr = toTimeString(clamp(mins, earliestStart(day), hours.endMins - duration));
         const newAct: WeekendActivity = {
-          id: `act_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          id: createActivityId(),
           title: payload.title,
           category: payload.category,
           durationMins: duration,
@@ -232,10 +368,16 @@ export default function WeekendSchedule({
           notes: payload.notes || "",
         };
         setActivities((prev) => {
-          if (hasConflict(prev, newAct)) {
-            toast.error("Scheduling conflict", { description: "This overlaps with another activity." });
+          if (hasConflict(prev, newAct, undefined, allowOverlaps, busy)) {
+            toast.error("Scheduling conflict", { description: conflictDescription(busy, newAct, "This overlaps with another activity.", timeFormat) });
+            return prev;
+          }
+          const tooClose = travelConflict(prev, newAct, undefined, travel);
+          if (tooClose) {
+            toast.error("Not enough travel time", { description: tooClose });
             return prev;
           }
+          warnOverlaps(prev, newAct, allowOverlaps);
           toast.success("Added to schedule", { description: `${newAct.title} scheduled on ${capitalize(day)}.` });
           return [...prev, newAct];
         });
@@ -247,6 +389,7 @@ export default function WeekendSchedule({
 
   const openEdit = (activity: WeekendActivity) => {
     setEditDraft({ ...activity });
+    setEditScope("this");
     setEditOpen(true);
   };
 
@@ -258,43 +401,179 @@ export default function WeekendSchedule({
       durationMins: Math.max(MIN_SLOT_MINUTES, roundToStep(editDraft.durationMins, MIN_SLOT_MINUTES)),
       start: normalizeTime(editDraft.start),
     };
+    if (toMinutes(cleaned.start) < earliestStart(cleaned.day)) {
+      toast.error("Too early", { description: `${capitalize(cleaned.day)} plans start at ${formatTime(earliestStart(cleaned.day), timeFormat)}.` });
+      return;
+    }
+    if (toMinutes(cleaned.start) + cleaned.durationMins > hours.endMins) {
+      toast.error("Too late", { description: `Plans end by ${formatTime(hours.endMins, timeFormat)}. Change your hours in Settings.` });
+      return;
+    }
+    // Checked against what's on screen, so the routine is told about the change exactly once
+    const original = activities.find((a) => a.id === cleaned.id);
+    if (original?.locked && cleaned.locked && JSON.stringify(original) !== JSON.stringify({ ...original, ...cleaned })) {
+      toast.error("Activity is locked", { description: `Unlock ${original.title} to change it.` });
+      return;
+    }
+    if (hasConflict(activities, cleaned, cleaned.id, allowOverlaps, busy)) {
+      toast.error("Scheduling conflict", { description: conflictDescription(busy, cleaned, "Adjusted time overlaps another activity.", timeFormat) });
+      return;
+    }
+    const tooClose = travelConflict(activities, cleaned, cleaned.id, travel);
+    if (tooClose) {
+      toast.error("Not enough travel time", { description: tooClose });
+      return;
+    }
+    const outOfOrder = orderConflict(activities, cleaned);
+    if (outOfOrder) {
+      toast.error("Out of order", { description: outOfOrder });
+      return;
+    }
+    warnOverlaps(activities, cleaned, allowOverlaps);
+
+    // Repeating: a new routine, or for an occurrence, this weekend alone or the series from here on
+    let saved = cleaned;
+    let series: SeriesChange | null = null;
+    if (original?.seriesId) {
+      const ruleChanged = JSON.stringify(original.recurrence) !== JSON.stringify(cleaned.recurrence);
+      if (ruleChanged || (editScope === "future" && JSON.stringify(original) !== JSON.stringify(cleaned))) {
+        saved = { ...cleaned, seriesId: cleaned.recurrence ? createSeriesId() : undefined };
+        series = { kind: "future", seriesId: original.seriesId, activity: saved };
+      }
+    } else if (cleaned.recurrence) {
+      saved = { ...cleaned, seriesId: createSeriesId() };
+      series = { kind: "start", activity: saved };
+    }
+
+    setActivities((prev) => prev.map((a) => (a.id === saved.id ? saved : a)));
+    if (series) onSeriesChange?.(series);
+    setEditOpen(false);
+  };
+
+  // Resizing: the preview follows the pointer and commits on release if nothing overlaps
+  const resizeBounds = (day: DayKey) => ({ earliestMins: earliestStart(day), latestMins: hours.endMins, stepMins: MIN_SLOT_MINUTES });
+
+  const startResize = (id: string, edge: ResizeEdge) => {
+    const found = activities.find((a) => a.id === id);
+    if (found && !found.locked) setResizing({ id, edge, draft: found, conflict: false });
+  };
+
+  const moveResize = (clientY: number, el: HTMLElement | null) => {
+    const mins = getMinutesFromElement(clientY, el);
+    if (!resizing || mins == null) return;
+    const found = activities.find((a) => a.id === resizing.id);
+    if (!found) return;
+    const draft = resizeActivity(found, resizing.edge, mins, resizeBounds(found.day));
+    if (draft.start === resizing.draft.start && draft.durationMins === resizing.draft.durationMins) return;
+    const conflict = hasConflict(activities, draft, draft.id, allowOverlaps, busy)
+      ? "overlap"
+      : travelConflict(activities, draft, draft.id, travel)
+        ? "travel"
+        : orderConflict(activities, draft)
+          ? "order"
+          : false;
+    setResizing({ ...resizing, draft, conflict });
+  };
+
+  const endResize = (commit: boolean) => {
+    if (!resizing) return;
+    setResizing(null);
+    if (!commit) return;
+    if (resizing.conflict === "overlap") {
+      toast.error("Scheduling conflict", { description: conflictDescription(busy, resizing.draft, "Resized time overlaps another activity.", timeFormat) });
+      return;
+    }
+    if (resizing.conflict === "travel") {
+      toast.error("Not enough travel time", { description: travelConflict(activities, resizing.draft, resizing.id, travel) ?? undefined });
+      return;
+    }
+    if (resizing.conflict === "order") {
+      toast.error("Out of order", { description: orderConflict(activities, resizing.draft) ?? undefined });
+      return;
+    }
+    warnOverlaps(activities, resizing.draft, allowOverlaps);
+    setActivities((prev) => prev.map((a) => (a.id === resizing.id ? { ...a, start: resizing.draft.start, durationMins: resizing.draft.durationMins } : a)));
+  };
+
+  // Shift+Arrow on a handle moves that edge one slot
+  const nudgeResize = (id: string, edge: ResizeEdge, steps: number) => {
     setActivities((prev) => {
-      if (hasConflict(prev, cleaned, cleaned.id)) {
-        toast.error("Scheduling conflict", { description: "Adjusted time overlaps another activity." });
+      const found = prev.find((a) => a.id === id);
+      if (!found || found.locked) return prev;
+      const updated = nudgeActivity(found, edge, steps, resizeBounds(found.day));
+      if (updated.start === found.start && updated.durationMins === found.durationMins) return prev;
+      if (hasConflict(prev, updated, id, allowOverlaps, busy)) {
+        toast.error("Scheduling conflict", { description: conflictDescription(busy, updated, "Resized time overlaps another activity.", timeFormat) });
+        return prev;
+      }
+      const tooClose = travelConflict(prev, updated, id, travel);
+      if (tooClose) {
+        toast.error("Not enough travel time", { description: tooClose });
+        return prev;
+      }
+      const outOfOrder = orderConflict(prev, updated);
+      if (outOfOrder) {
+        toast.error("Out of order", { description: outOfOrder });
         return prev;
       }
-      return prev.map((a) => (a.id === cleaned.id ? cleaned : a));
+      warnOverlaps(prev, updated, allowOverlaps);
+      return prev.map((a) => (a.id === id ? updated : a));
     });
-    setEditOpen(false);
   };
 
   const removeActivity = (id: string) => {
-    setActivities((prev) => prev.filter((a) => a.id !== id));
-    toast.message("Removed activity");
+    const found = activities.find((a) => a.id === id);
+    if (found?.locked) {
+      toast.error("Activity is locked", { description: `Unlock ${found.title} to remove it.` });
+      return;
+    }
+    // Rules that pointed at it go too
+    setActivities((prev) => removeWithDependencies(prev, id));
+    if (found?.seriesId) {
+      onSeriesChange?.({ kind: "skip", seriesId: found.seriesId });
+      toast.message("Removed for this weekend", { description: `${found.title} still repeats on other weekends.` });
+    } else {
+      toast.message("Removed activity");
+    }
+  };
+
+  const toggleLock = (id: string) => {
+    const found = activities.find((a) => a.id === id);
+    if (!found) return;
+    setActivities((prev) => prev.map((a) => (a.id === id ? { ...a, locked: !found.locked || undefined } : a)));
+    toast.message(found.locked ? `Unlocked ${found.title}` : `Locked ${found.title}`);
   };
 
   const actsByDay = useMemo(() => {
-    const map: Record<DayKey, WeekendActivity[]> = { saturday: [], sunday: [] };
+    const map: Record<DayKey, WeekendActivity[]> = { friday: [], saturday: [], sunday: [], monday: [] };
     for (const a of activities) map[a.day].push(a);
-    map.saturday.sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
-    map.sunday.sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+    for (const list of Object.values(map)) list.sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
     return map;
   }, [activities]);
 
+  const busyByDay = useMemo(() => {
+    const map: Record<DayKey, BusyBlock[]> = { friday: [], saturday: [], sunday: [], monday: [] };
+    for (const b of busy) map[b.day].push(b);
+    return map;
+  }, [busy]);
+
+  const dayLabel = (day: DayKey) => (weekendOf ? formatWeekendDay(weekendOf, day) : capitalize(day));
+  const weekendRange = weekendOf ? formatWeekend(weekendOf, { first: days[0].day, last: days[days.length - 1].day }) : "";
+
   const exportText = () => {
     console.log("Export text clicked");
     
     try {
       const lines: string[] = [];
       lines.push("Weekendly Schedule");
+      if (weekendOf) lines.push(weekendRange);
       lines.push("==================");
       lines.push("");
       
-      (["saturday", "sunday"] as DayKey[]).forEach((day) => {
-        lines.push(`${capitalize(day)}:`);
+      days.forEach(({ day, holiday }) => {
+        lines.push(`${dayLabel(day)}${holiday ? ` (${holiday})` : ""}:`);
         actsByDay[day].forEach((a) => {
-          const end = toTimeString(toMinutes(a.start) + a.durationMins);
-          lines.push(`- ${a.start}–${end} • ${a.title} [${a.category}]${a.mood ? ` (${a.mood})` : ""}`);
+          lines.push(`- ${formatTimeRange(a.start, a.durationMins, timeFormat)} • ${a.title} [${a.category}]${a.mood ? ` (${a.mood})` : ""}`);
           if (a.notes) lines.push(`  Notes: ${a.notes}`);
         });
         if (actsByDay[day].length === 0) lines.push("- (no activities)");
@@ -342,11 +621,11 @@ export default function WeekendSchedule({
 
   const exportImage = () => {
     // Create a high-quality export that matches the original UI
-    const w = 1400;
+    const w = 200 + days.length * 600;
     const h = 800;
     const pad = 40;
     const colGap = 40;
-    const colWidth = (w - pad * 2 - colGap) / 2;
+    const colWidth = (w - pad * 2 - colGap * (days.length - 1)) / days.length;
     const headerH = 80;
     const axisW = 80;
     const trackH = h - pad * 2 - headerH;
@@ -367,11 +646,16 @@ export default function WeekendSchedule({
     ctx.textAlign = "left";
     ctx.textBaseline = "middle";
     ctx.fillText("Weekendly Schedule", pad + 20, pad + 40);
+    if (weekendOf) {
+      ctx.fillStyle = "#6b7280";
+      ctx.font = "500 18px Inter, system-ui, sans-serif";
+      ctx.textAlign = "right";
+      ctx.fillText(weekendRange, w - pad - 20, pad + 40);
+    }
 
-    const days: DayKey[] = ["saturday", "sunday"];
     const totalMins = (endHour - startHour) * 60;
 
-    days.forEach((day, i) => {
+    days.forEach(({ day, holiday }, i) => {
       const x0 = pad + 20 + i * (colWidth + colGap);
       const y0 = pad + 80;
 
@@ -379,7 +663,7 @@ export default function WeekendSchedule({
       ctx.fillStyle = "#374151";
       ctx.font = "700 20px Inter, system-ui, sans-serif";
       ctx.textAlign = "left";
-      ctx.fillText(capitalize(day), x0, y0 - 10);
+      ctx.fillText(holiday ? `${dayLabel(day)} · ${holiday}` : dayLabel(day), x0, y0 - 10);
 
       // Timeline container
       ctx.fillStyle = "#f9fafb";
@@ -405,7 +689,7 @@ export default function WeekendSchedule({
         ctx.fillStyle = "#6b7280";
         ctx.font = "500 12px Inter, system-ui, sans-serif";
         ctx.textAlign = "left";
-        ctx.fillText(`${String(hIdx).padStart(2, "0")}:00`, x0 + 12, y + 3);
+        ctx.fillText(formatHour(hIdx, timeFormat), x0 + 12, y + 3);
       }
 
       // Activities
@@ -451,7 +735,7 @@ export default function WeekendSchedule({
         ctx.fillText(a.title, rectX + 16, rectY + 36);
 
         // Time display - blue badge
-        const timeText = `${a.start}–${toTimeString(e)}`;
+        const timeText = formatTimeRange(a.start, a.durationMins, timeFormat);
         const timeW = ctx.measureText(timeText).width + 16;
         const timeH = 20;
         const timeX = rectX + 16;
@@ -495,6 +779,41 @@ export default function WeekendSchedule({
     });
   };
 
+  const timelineProps = ({ day, holiday }: ScheduleDay) => ({
+    label: dayLabel(day),
+    dayKey: day,
+    holiday,
+    availableFrom: earliestStart(day),
+    availableTo: hours.endMins,
+    hours: hourMarks,
+    startHour,
+    endHour,
+    timeFormat,
+    dense,
+    activities: actsByDay[day],
+    allActivities: activities,
+    busy: busyByDay[day],
+    onDragOver: handleDragOver,
+    onDragLeave: handleDragLeave,
+    onDrop: handleDrop,
+    draggingId,
+    hoverDay,
+    hoverMinutes,
+    onCardDragStart: setDraggingId,
+    onCardDragEnd: handleCardDragEnd,
+    resizing: resizing?.draft.day === day ? resizing : null,
+    allowOverlaps,
+    travel,
+    onResizeStart: startResize,
+    onResizeMove: moveResize,
+    onResizeEnd: endResize,
+    onResizeNudge: nudgeResize,
+    collaborators,
+    onEdit: openEdit,
+    onRemove: removeActivity,
+    onToggleLock: toggleLock,
+  });
+
   // Mobile swipe between days
   const touchStartX = useRef<number | null>(null);
   const onTouchStart = (e: React.TouchEvent) => {
@@ -507,7 +826,10 @@ export default function WeekendSchedule({
     if (sx == null || ex == null) return;
     const dx = ex - sx;
     if (Math.abs(dx) > 40) {
-      setDayTab((d) => (dx < 0 ? (d === "saturday" ? "sunday" : "sunday") : d === "sunday" ? "saturday" : "saturday"));
+      setDayTab((d) => {
+        const i = days.findIndex((x) => x.day === d);
+        return days[clamp(i + (dx < 0 ? 1 : -1), 0, days.length - 1)].day;
+      });
     }
   };
 
@@ -520,14 +842,16 @@ export default function WeekendSchedule({
       )}
       aria-label="Weekend schedule"
     >
-      <div className="flex items-center justify-between gap-4 mb-6">
+      <div className={cn("flex items-center justify-between gap-4", dense ? "mb-3" : "mb-6")}>
         <div className="flex items-center gap-3 min-w-0">
           <div className="flex items-center justify-center w-10 h-10 rounded-xl bg-primary/10 text-primary">
             <ChartGantt className="size-5" aria-hidden="true" />
           </div>
           <div>
             <h2 className="text-xl font-semibold font-heading text-foreground">Weekend Schedule</h2>
-            <p className="text-sm text-muted-foreground">Plan your Saturday and Sunday activities</p>
+            <p className="text-sm text-muted-foreground">
+              {weekendOf ? weekendRange : `Plan your ${days.map((d) => capitalize(d.day)).join(", ").replace(/, ([^,]*)$/, " and $1")} activities`}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-2">
@@ -542,110 +866,45 @@ export default function WeekendSchedule({
         </div>
       </div>
 
-      <div className="mb-6 p-4 rounded-lg bg-muted/30 border border-muted-foreground/20">
-        <p className="text-sm text-muted-foreground text-center">
-          <span className="font-medium text-foreground">💡 Tip:</span> Drag activities from the browser to schedule them, or rearrange existing ones. Click any activity to edit details.
-        </p>
-      </div>
+      {!dense && (
+        <div className="mb-6 p-4 rounded-lg bg-muted/30 border border-muted-foreground/20">
+          <p className="text-sm text-muted-foreground text-center">
+            <span className="font-medium text-foreground">💡 Tip:</span> Drag activities from the browser to schedule them, or rearrange existing ones. Drag a block's top or bottom edge (or press Shift+↑/↓ on it) to resize. Click any activity to edit details.
+          </p>
+        </div>
+      )}
 
-      {/* Desktop two-column timelines; Mobile uses Tabs */}
-      <div className="hidden md:grid grid-cols-2 gap-4">
-        <Timeline
-          label="Saturday"
-          dayKey="saturday"
-          refEl={saturdayRef}
-          hours={hours}
-          startHour={startHour}
-          endHour={endHour}
-          activities={actsByDay.saturday}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
-          draggingId={draggingId}
-          hoverDay={hoverDay}
-          hoverMinutes={hoverMinutes}
-          onCardDragStart={setDraggingId}
-          onCardDragEnd={() => setDraggingId(null)}
-          onEdit={openEdit}
-          onRemove={removeActivity}
-        />
-        <Timeline
-          label="Sunday"
-          dayKey="sunday"
-          refEl={sundayRef}
-          hours={hours}
-          startHour={startHour}
-          endHour={endHour}
-          activities={actsByDay.sunday}
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
-          draggingId={draggingId}
-          hoverDay={hoverDay}
-          hoverMinutes={hoverMinutes}
-          onCardDragStart={setDraggingId}
-          onCardDragEnd={() => setDraggingId(null)}
-          onEdit={openEdit}
-          onRemove={removeActivity}
-        />
+      {/* Desktop: one timeline per day; Mobile uses Tabs */}
+      <div className={cn("hidden md:grid", dense ? "gap-2" : "gap-4")} style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}>
+        {days.map((d) => (
+          <Timeline key={d.day} {...timelineProps(d)} />
+        ))}
       </div>
 
       <div className="md:hidden" onTouchStart={onTouchStart} onTouchEnd={onTouchEnd}>
         <Tabs value={dayTab} onValueChange={(v) => setDayTab(v as DayKey)} className="w-full">
-          <TabsList className="grid grid-cols-2 w-full">
-            <TabsTrigger value="saturday">Saturday</TabsTrigger>
-            <TabsTrigger value="sunday">Sunday</TabsTrigger>
+          <TabsList className="grid w-full" style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}>
+            {days.map((d) => (
+              <TabsTrigger key={d.day} value={d.day}>{capitalize(d.day)}</TabsTrigger>
+            ))}
           </TabsList>
-          <TabsContent value="saturday" className="mt-3">
-            <Timeline
-              label="Saturday"
-              dayKey="saturday"
-              refEl={saturdayRef}
-              hours={hours}
-              startHour={startHour}
-              endHour={endHour}
-              activities={actsByDay.saturday}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-              draggingId={draggingId}
-              hoverDay={hoverDay}
-              hoverMinutes={hoverMinutes}
-              onCardDragStart={setDraggingId}
-              onCardDragEnd={() => setDraggingId(null)}
-              onEdit={openEdit}
-              onRemove={removeActivity}
-              compact
-            />
-          </TabsContent>
-          <TabsContent value="sunday" className="mt-3">
-            <Timeline
-              label="Sunday"
-              dayKey="sunday"
-              refEl={sundayRef}
-              hours={hours}
-              startHour={startHour}
-              endHour={endHour}
-              activities={actsByDay.sunday}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-              draggingId={draggingId}
-              hoverDay={hoverDay}
-              hoverMinutes={hoverMinutes}
-              onCardDragStart={setDraggingId}
-              onCardDragEnd={() => setDraggingId(null)}
-              onEdit={openEdit}
-              onRemove={removeActivity}
-              compact
-            />
-          </TabsContent>
+          {days.map((d) => (
+            <TabsContent key={d.day} value={d.day} className="mt-3">
+              <Timeline {...timelineProps(d)} compact />
+            </TabsContent>
+          ))}
         </Tabs>
       </div>
 
       <EditDialog
         open={editOpen}
         activity={editDraft}
+        activities={activities}
+        days={days}
+        timeFormat={timeFormat}
+        weekendOf={weekendOf}
+        scope={editScope}
+        onScopeChange={setEditScope}
         onOpenChange={setEditOpen}
         onChange={setEditDraft}
         onSave={saveEdit}
@@ -661,11 +920,17 @@ export default function WeekendSchedule({
 function Timeline(props: {
   label: string;
   dayKey: DayKey;
-  refEl: React.MutableRefObject<HTMLDivElement | null>;
+  holiday?: string;
+  availableFrom: number; // the track is shaded outside these minutes, e.g. Friday before the evening
+  availableTo: number;
   hours: number[];
   startHour: number;
   endHour: number;
+  timeFormat: TimeFormat;
+  dense: boolean;
   activities: WeekendActivity[];
+  allActivities: WeekendActivity[]; // every day's, for dependencies that cross days
+  busy: BusyBlock[];
   draggingId: string | null;
   hoverDay: DayKey | null;
   hoverMinutes: number | null;
@@ -674,18 +939,33 @@ function Timeline(props: {
   onDrop: (e: React.DragEvent, day: DayKey) => void;
   onCardDragStart: (id: string) => void;
   onCardDragEnd: () => void;
+  resizing: ResizePreview | null;
+  allowOverlaps: boolean;
+  travel: TravelOptions;
+  onResizeStart: (id: string, edge: ResizeEdge) => void;
+  onResizeMove: (clientY: number, el: HTMLElement | null) => void;
+  onResizeEnd: (commit: boolean) => void;
+  onResizeNudge: (id: string, edge: ResizeEdge, steps: number) => void;
   onEdit: (a: WeekendActivity) => void;
   onRemove: (id: string) => void;
+  onToggleLock: (id: string) => void;
+  collaborators: CollabPresence[];
   compact?: boolean;
 }) {
   const {
     label,
     dayKey,
-    refEl,
+    holiday,
+    availableFrom,
+    availableTo,
     hours,
     startHour,
     endHour,
+    timeFormat,
+    dense,
     activities,
+    allActivities,
+    busy,
     draggingId,
     hoverDay,
     hoverMinutes,
@@ -694,23 +974,106 @@ function Timeline(props: {
     onDrop,
     onCardDragStart,
     onCardDragEnd,
+    resizing,
+    allowOverlaps,
+    travel,
+    onResizeStart,
+    onResizeMove,
+    onResizeEnd,
+    onResizeNudge,
     onEdit,
     onRemove,
+    onToggleLock,
+    collaborators,
     compact,
   } = props;
 
   const totalMinutes = (endHour - startHour) * 60;
 
+  // The block being resized shows its draft times, and lanes follow it
+  const shown = useMemo(
+    () => (resizing ? activities.map((a) => (a.id === resizing.id ? resizing.draft : a)) : activities),
+    [activities, resizing]
+  );
+  const lanes = useMemo(() => layoutLanes(shown), [shown]);
+  const transit = useMemo(() => transitBlocks(shown, dayKey, travel), [shown, dayKey, travel]);
+  const links = useMemo(
+    () => dependencyLinks(resizing ? allActivities.map((a) => (a.id === resizing.id ? resizing.draft : a)) : allActivities, dayKey),
+    [allActivities, resizing, dayKey]
+  );
+
+  // Pointer events cover mouse and touch; the captured pointer keeps reporting outside the handle
+  const resizeHandle = (a: WeekendActivity, edge: ResizeEdge) => {
+    const value = edge === "start" ? toMinutes(a.start) : toMinutes(a.start) + a.durationMins;
+    return (
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={`${edge === "start" ? "Start" : "End"} of ${a.title}`}
+        aria-orientation="vertical"
+        aria-valuemin={startHour * 60}
+        aria-valuemax={endHour * 60}
+        aria-valuenow={value}
+        aria-valuetext={formatTime(value, timeFormat)}
+        draggable
+        onDragStart={(e) => {
+          // Keep the card's own drag from starting
+          e.preventDefault();
+          e.stopPropagation();
+        }}
+        onClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => {
+          if (e.button !== 0) return;
+          e.stopPropagation();
+          e.currentTarget.setPointerCapture(e.pointerId);
+          onResizeStart(a.id, edge);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) onResizeMove(e.clientY, e.currentTarget.closest<HTMLElement>('[role="list"]'));
+        }}
+        onPointerUp={(e) => {
+          if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+          e.currentTarget.releasePointerCapture(e.pointerId);
+          onResizeEnd(true);
+        }}
+        onPointerCancel={() => onResizeEnd(false)}
+        onKeyDown={(e) => {
+          if (!e.shiftKey || (e.key !== "ArrowUp" && e.key !== "ArrowDown")) return;
+          e.preventDefault();
+          e.stopPropagation();
+          onResizeNudge(a.id, edge, e.key === "ArrowDown" ? 1 : -1);
+        }}
+        className={cn(
+          "absolute inset-x-6 z-20 flex h-3 items-center justify-center cursor-ns-resize touch-none",
+          edge === "start" ? "top-0" : "bottom-0",
+          "opacity-0 group-hover:opacity-100 pointer-coarse:opacity-100 focus-visible:opacity-100 focus-visible:outline-none",
+          "[&:focus-visible>span]:bg-primary"
+        )}
+      >
+        <span className="h-1 w-10 rounded-full bg-muted-foreground/40" aria-hidden="true" />
+      </div>
+    );
+  };
+
+  const peersHere = collaborators.filter((p) => p.day === dayKey && p.minutes != null);
+
   return (
     <div className="w-full max-w-full">
-      <div className="flex items-center justify-between mb-4 p-3 rounded-lg bg-gradient-to-r from-muted/30 to-muted/10 border border-muted-foreground/10">
+      <div
+        className={cn(
+          "flex items-center justify-between rounded-lg bg-gradient-to-r from-muted/30 to-muted/10 border border-muted-foreground/10",
+          dense ? "mb-2 p-2" : "mb-4 p-3"
+        )}
+      >
         <div className="flex items-center gap-3">
           <div className="flex items-center justify-center w-8 h-8 rounded-full bg-primary/10 text-primary">
             <Clock6 className="size-4" aria-hidden="true" />
           </div>
           <div>
             <h3 className="text-lg font-semibold font-heading text-foreground">{label}</h3>
-            <p className="text-xs text-muted-foreground">Available {startHour}:00–{endHour}:00</p>
+            <p className="text-xs text-muted-foreground">
+              {holiday ? `${holiday} · ` : ""}Available {formatTime(availableFrom, timeFormat)}–{formatTime(availableTo, timeFormat)}
+            </p>
           </div>
         </div>
         <div className="text-right">
@@ -720,9 +1083,6 @@ function Timeline(props: {
       </div>
 
       <div
-        ref={(el) => {
-          refEl.current = el;
-        }}
         role="list"
         aria-label={`${label} timeline`}
         className={cn(
@@ -757,13 +1117,29 @@ function Timeline(props: {
                   className="absolute -translate-y-1/2 left-2 text-xs font-medium text-muted-foreground select-none"
                   style={{ top: `${topPct}%` }}
                 >
-                  {String(h).padStart(2, "0")}:00
+                  {formatHour(h, timeFormat)}
                 </div>
               );
             })}
           </div>
         </div>
 
+        {/* Hours outside the day, e.g. Friday before the evening */}
+        {availableFrom > startHour * 60 && (
+          <div
+            className="absolute left-16 right-0 top-0 pointer-events-none bg-muted/60 bg-[repeating-linear-gradient(135deg,transparent_0_6px,rgba(0,0,0,0.04)_6px_12px)] border-b border-dashed border-muted-foreground/30"
+            style={{ height: `calc(${((availableFrom - startHour * 60) / totalMinutes) * 100}% + 8px)` }}
+            aria-hidden="true"
+          />
+        )}
+        {availableTo < endHour * 60 && (
+          <div
+            className="absolute left-16 right-0 bottom-0 pointer-events-none bg-muted/60 bg-[repeating-linear-gradient(135deg,transparent_0_6px,rgba(0,0,0,0.04)_6px_12px)] border-t border-dashed border-muted-foreground/30"
+            style={{ height: `calc(${((endHour * 60 - availableTo) / totalMinutes) * 100}% + 8px)` }}
+            aria-hidden="true"
+          />
+        )}
+
         {/* Drop overlay */}
         <div
           className={cn(
@@ -784,33 +1160,165 @@ function Timeline(props: {
           )}
         </div>
 
+        {/* Collaborators' pointers and drag ghosts */}
+        {peersHere.length > 0 && (
+          <div className="absolute inset-0 pointer-events-none z-40" aria-hidden="true">
+            {peersHere.map((p) => {
+              const top = `calc(${((p.minutes! - startHour * 60) / totalMinutes) * 100}% + 8px)`;
+              if (p.dragging) {
+                return (
+                  <div
+                    key={p.replica}
+                    className="absolute left-20 right-4 rounded-xl border-2 border-dashed bg-background/60 px-3 py-1 transition-all duration-150"
+                    style={{
+                      top,
+                      height: `${(p.dragging.durationMins / totalMinutes) * 100}%`,
+                      borderColor: p.color,
+                    }}
+                  >
+                    <span className="text-xs font-semibold" style={{ color: p.color }}>
+                      {p.name}: {p.dragging.title}
+                    </span>
+                  </div>
+                );
+              }
+              return (
+                <div
+                  key={p.replica}
+                  className="absolute left-16 right-2 h-[2px] transition-all duration-150"
+                  style={{ top, backgroundColor: p.color }}
+                >
+                  <span
+                    className="absolute right-0 -top-5 rounded px-1.5 py-0.5 text-[10px] font-semibold text-white"
+                    style={{ backgroundColor: p.color }}
+                  >
+                    {p.name}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Activity track area with padding left for axis */}
-        <div className="relative pl-16 pr-2 py-2 min-h-[440px] sm:min-h-[560px]">
-          {activities.length === 0 && (
+        <div className={cn("relative pl-16 pr-2 py-2", dense ? "min-h-[320px] sm:min-h-[400px]" : "min-h-[440px] sm:min-h-[560px]")}>
+          {activities.length === 0 && busy.length === 0 && (
             <EmptyHint />
           )}
 
-          {activities.map((a) => {
+          {/* Busy time from imported calendars: read-only and cut to the planning hours */}
+          {busy.map((b) => {
+            const from = Math.max(toMinutes(b.start), startHour * 60);
+            const to = Math.min(toMinutes(b.start) + b.durationMins, endHour * 60);
+            if (to <= from) return null;
+            const text = describeBusy(b, timeFormat);
+            return (
+              <div
+                key={b.id}
+                className="absolute left-16 right-2 z-0 rounded-lg border border-muted-foreground/30 bg-muted/60 bg-[repeating-linear-gradient(45deg,transparent_0_8px,rgba(0,0,0,0.05)_8px_16px)] pointer-events-none overflow-hidden px-2 py-1"
+                style={{
+                  top: `calc(${((from - startHour * 60) / totalMinutes) * 100}% + 8px)`,
+                  height: `${((to - from) / totalMinutes) * 100}%`,
+                }}
+                title={`Busy: ${text}`}
+                aria-label={`Busy: ${text}`}
+                role="note"
+              >
+                <span className="flex items-center gap-1 text-[11px] font-medium text-muted-foreground">
+                  <CalendarClock className="size-3 shrink-0" aria-hidden="true" />
+                  <span className="truncate">{text}</span>
+                </span>
+              </div>
+            );
+          })}
+
+          {/* Travel and buffer time, hatched, leading into the activity it gets you to */}
+          {transit.map((t) => {
+            const short = t.gapMins < t.neededMins;
+            return (
+              <div
+                key={t.id}
+                className={cn(
+                  "absolute left-20 right-4 z-0 rounded-md border border-dashed pointer-events-none overflow-hidden flex items-center justify-center",
+                  short
+                    ? "border-destructive/60 bg-destructive/5 bg-[repeating-linear-gradient(135deg,transparent_0_6px,rgba(220,38,38,0.15)_6px_12px)]"
+                    : "border-muted-foreground/30 bg-[repeating-linear-gradient(135deg,transparent_0_6px,rgba(0,0,0,0.06)_6px_12px)]"
+                )}
+                style={{
+                  top: `calc(${((t.start - startHour * 60) / totalMinutes) * 100}% + 8px)`,
+                  height: `${(t.neededMins / totalMinutes) * 100}%`,
+                }}
+                title={t.label}
+              >
+                {t.neededMins >= 20 && (
+                  <span className={cn("flex items-center gap-1 rounded bg-background/80 px-1.5 text-[10px] font-medium", short ? "text-destructive" : "text-muted-foreground")}>
+                    <Car className="size-3" aria-hidden="true" />
+                    {t.label}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Ordering rules: a bracket in the right margin from the end of one activity to the start of the next */}
+          {links.map((l, i) => {
+            const from = l.fromMins ?? l.toMins;
+            const top = Math.min(from, l.toMins);
+            return (
+              <div
+                key={l.id}
+                className={cn(
+                  "absolute z-20 w-2.5",
+                  l.fromMins == null ? "-translate-y-full" : "rounded-r-md border-y-2 border-r-2 border-dashed",
+                  l.broken ? "border-destructive text-destructive" : "border-primary/50 text-primary"
+                )}
+                style={{
+                  right: `${2 + (i % 3) * 4}px`,
+                  top: `calc(${((top - startHour * 60) / totalMinutes) * 100}% + 8px)`,
+                  height: l.fromMins == null ? undefined : `max(${(Math.abs(l.toMins - from) / totalMinutes) * 100}%, 6px)`,
+                }}
+                title={l.label}
+                aria-hidden="true"
+              >
+                {/* From another day: just a marker where this one starts */}
+                {l.fromMins == null && <Link2 className="size-2.5" />}
+              </div>
+            );
+          })}
+
+          {shown.map((a, index) => {
+            const stored = activities[index];
+            const preview = resizing?.id === a.id ? resizing : null;
+            const lane = lanes.get(a.id);
+            const sideBySide = lane != null && lane.lanes > 1;
+            const overlapping = sideBySide ? checkOverlaps(shown, a, { allowOverlaps }).warnings : [];
+            const arrival = transit.find((t) => t.toId === a.id && t.gapMins < t.neededMins);
+            const after = links.filter((l) => l.thenId === a.id);
+            const outOfOrder = after.find((l) => l.broken);
             const s = toMinutes(a.start);
-            const e = s + a.durationMins;
             const topPct = ((s - startHour * 60) / totalMinutes) * 100;
             const heightPct = (a.durationMins / totalMinutes) * 100;
             const isDragging = draggingId === a.id;
-            const showDetails = a.durationMins >= 90;
-            const isTight = a.durationMins < 50;
-            const isVeryTight = a.durationMins < 30;
+            const showDetails = !dense && a.durationMins >= 90;
+            const isTight = dense || a.durationMins < 50;
+            const isVeryTight = dense || a.durationMins < 30;
 
             return (
               <div
                 key={a.id}
                 role="listitem"
-                aria-label={`${a.title}, ${a.start}, ${a.durationMins} minutes`}
+                aria-label={`${a.title}, ${formatTime(a.start, timeFormat)}, ${a.durationMins} minutes${a.locked ? ", locked" : ""}${a.recurrence ? `, repeats ${describeRecurrence(a.recurrence, a.day).toLowerCase()}` : ""}${after.map((l) => `, ${l.label}`).join("")}`}
                 className={cn(
-                  "absolute left-20 right-4 rounded-xl shadow-lg border-2 bg-gradient-to-br from-card to-card/95 backdrop-blur-sm overflow-hidden",
-                  "transition-all duration-300 ease-out cursor-pointer group",
-                  "hover:shadow-xl hover:scale-[1.02] hover:border-primary/30",
-                  categoryBorderPalette[a.category],
-                  isDragging ? "opacity-60 scale-[0.98] shadow-2xl z-50" : "z-10",
+                  "absolute rounded-xl shadow-lg border-2 bg-gradient-to-br from-card to-card/95 backdrop-blur-sm overflow-hidden",
+                  "cursor-pointer group",
+                  preview ? "shadow-2xl" : "transition-all duration-300 ease-out hover:shadow-xl hover:scale-[1.02] hover:border-primary/30",
+                  !sideBySide && "left-20 right-4",
+                  preview?.conflict
+                    ? "border-destructive ring-2 ring-destructive/40"
+                    : overlapping.length > 0
+                      ? "border-amber-400 ring-2 ring-amber-300/50"
+                      : categoryBorderPalette[a.category],
+                  isDragging ? "opacity-60 scale-[0.98] shadow-2xl z-50" : preview ? "z-50" : "z-10",
                   // Add subtle category-based gradient overlay
                   a.category === "outdoor" && "before:absolute before:inset-0 before:rounded-xl before:bg-gradient-to-br before:from-emerald-500/10 before:to-transparent before:pointer-events-none",
                   a.category === "food" && "before:absolute before:inset-0 before:rounded-xl before:bg-gradient-to-br before:from-amber-500/10 before:to-transparent before:pointer-events-none",
@@ -820,18 +1328,24 @@ function Timeline(props: {
                   a.category === "other" && "before:absolute before:inset-0 before:rounded-xl before:bg-gradient-to-br before:from-gray-500/10 before:to-transparent before:pointer-events-none"
                 )}
                 style={{
+                  // Side-by-side lanes split the space between the axis (5rem) and the right edge (1rem)
+                  ...(sideBySide
+                    ? { left: `calc(5rem + (100% - 6rem) * ${lane.lane / lane.lanes})`, width: `calc((100% - 6rem) / ${lane.lanes} - 4px)` }
+                    : {}),
                   top: `calc(${topPct}% + 8px)`,
                   height: `calc(${Math.max(heightPct, (MIN_SLOT_MINUTES / totalMinutes) * 100)}% - 16px)`,
-                  minHeight: '90px',
+                  minHeight: dense ? '52px' : '90px',
                 }}
-                draggable
+                draggable={!a.locked}
                 onDragStart={(e) => {
                   e.dataTransfer.setData("text/activity-id", a.id);
                   onCardDragStart(a.id);
                 }}
                 onDragEnd={onCardDragEnd}
-                onClick={() => onEdit(a)}
+                onClick={() => onEdit(stored)}
               >
+                {!a.locked && resizeHandle(a, "start")}
+                {!a.locked && resizeHandle(a, "end")}
                 <div className={cn("flex items-start justify-between gap-2 min-w-0", isVeryTight ? "mb-1 p-3" : isTight ? "mb-1.5 p-3" : "mb-2 p-4")}>
                   <div className="min-w-0 flex-1">
                     <div className={cn("flex items-center gap-2 min-w-0", isVeryTight ? "mb-0.5" : "mb-1")}>
@@ -851,25 +1365,71 @@ function Timeline(props: {
                     </h4>
                     <div className="flex items-center gap-1.5 text-xs text-foreground mb-1">
                       <span className="font-mono bg-blue-100 text-blue-900 border border-blue-200 rounded px-2 py-0.5 font-semibold shadow-sm">
-                        {a.start}–{toTimeString(e)}
+                        {formatTimeRange(a.start, a.durationMins, timeFormat)}
                       </span>
                       <span className="text-muted-foreground">•</span>
                       <span className="font-semibold text-foreground">{a.durationMins}m</span>
+                      {a.recurrence && (
+                        <span className="text-muted-foreground" title={describeRecurrence(a.recurrence, a.day)}>
+                          <Repeat className="size-3" aria-hidden="true" />
+                        </span>
+                      )}
                     </div>
+                    {preview?.conflict ? (
+                      <p className="text-[11px] font-medium text-destructive" role="status">
+                        {preview.conflict === "travel" ? "Not enough time to travel" : preview.conflict === "order" ? "Breaks an ordering rule" : "Overlaps another activity"}
+                      </p>
+                    ) : outOfOrder ? (
+                      <p className="flex items-center gap-1 text-[11px] font-medium text-destructive" title={outOfOrder.label}>
+                        <Link2 className="size-3 shrink-0" aria-hidden="true" />
+                        <span className="truncate">Out of order: {outOfOrder.label}</span>
+                      </p>
+                    ) : arrival ? (
+                      <p className="flex items-center gap-1 text-[11px] font-medium text-destructive" title={arrival.label}>
+                        <Car className="size-3 shrink-0" aria-hidden="true" />
+                        <span className="truncate">{Math.max(0, arrival.gapMins)} of {arrival.neededMins} min to get here</span>
+                      </p>
+                    ) : overlapping.length > 0 && (
+                      <p className="flex items-center gap-1 text-[11px] font-medium text-amber-700 dark:text-amber-400" title={`Overlaps ${overlapping.map((o) => o.title).join(", ")}`}>
+                        <TriangleAlert className="size-3 shrink-0" aria-hidden="true" />
+                        <span className="truncate">Overlaps {overlapping.map((o) => o.title).join(", ")}</span>
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-0.5">
+                    <button
+                      type="button"
+                      onClick={(ev) => {
+                        ev.stopPropagation();
+                        onToggleLock(a.id);
+                      }}
+                      className={cn(
+                        "inline-flex items-center justify-center rounded-md hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring/40 transition-all duration-200",
+                        a.locked ? "text-foreground" : "text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+                        isVeryTight ? "size-5" : "size-6"
+                      )}
+                      aria-label={a.locked ? `Unlock ${a.title}` : `Lock ${a.title}`}
+                      aria-pressed={!!a.locked}
+                      title={a.locked ? "Locked: click to unlock" : "Lock in place"}
+                    >
+                      {a.locked ? <Lock className={cn(isVeryTight ? "size-3" : "size-3.5")} /> : <LockOpen className={cn(isVeryTight ? "size-3" : "size-3.5")} />}
+                    </button>
+                    {!a.locked && (
+                      <button
+                        type="button"
+                        onClick={(ev) => {
+                          ev.stopPropagation();
+                          onRemove(a.id);
+                        }}
+                        className={cn("inline-flex items-center justify-center rounded-md text-destructive hover:bg-destructive/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-destructive/20 opacity-0 group-hover:opacity-100 transition-all duration-200", isVeryTight ? "size-5" : "size-6")}
+                        aria-label={`Remove ${a.title}`}
+                      >
+                        <CalendarX2 className={cn(isVeryTight ? "size-3" : "size-3.5")} />
+                      </button>
+                    )}
                   </div>
-                  <button
-                    type="button"
-                    onClick={(ev) => {
-                      ev.stopPropagation();
-                      onRemove(a.id);
-                    }}
-                    className={cn("shrink-0 inline-flex items-center justify-center rounded-md text-destructive hover:bg-destructive/10 focus:outline-none focus-visible:ring-2 focus-visible:ring-destructive/20 opacity-0 group-hover:opacity-100 transition-all duration-200", isVeryTight ? "size-5" : "size-6")}
-                    aria-label={`Remove ${a.title}`}
-                  >
-                    <CalendarX2 className={cn(isVeryTight ? "size-3" : "size-3.5")} />
-                  </button>
                 </div>
-                {showDetails && (a.mood || a.notes) && (
+                {showDetails && (a.mood || a.notes || a.location) && (
                   <div className={cn("pt-1.5 border-t border-muted-foreground/10", isTight ? "mt-1" : "mt-2")}>
                     {showDetails && a.mood && (
                       <div className="mb-1">
@@ -883,6 +1443,12 @@ function Timeline(props: {
                         </span>
                       </div>
                     )}
+                    {showDetails && a.location && (
+                      <p className="flex items-center gap-1 text-[10px] text-muted-foreground truncate mb-0.5">
+                        <MapPin className="size-3 shrink-0" aria-hidden="true" />
+                        {a.location.name}
+                      </p>
+                    )}
                     {showDetails && a.notes && (
                       <p className="text-[10px] text-muted-foreground line-clamp-1 break-words leading-tight">
                         {a.notes}
@@ -920,6 +1486,12 @@ function EmptyHint() {
 function EditDialog({
   open,
   activity,
+  activities,
+  days,
+  timeFormat,
+  weekendOf,
+  scope,
+  onScopeChange,
   onOpenChange,
   onChange,
   onSave,
@@ -927,6 +1499,12 @@ function EditDialog({
 }: {
   open: boolean;
   activity: WeekendActivity | null;
+  activities: WeekendActivity[];
+  days: ScheduleDay[];
+  timeFormat: TimeFormat;
+  weekendOf?: string;
+  scope: SeriesScope;
+  onScopeChange: (scope: SeriesScope) => void;
   onOpenChange: (v: boolean) => void;
   onChange: (a: WeekendActivity | null) => void;
   onSave: () => void;
@@ -947,109 +1525,161 @@ function EditDialog({
               onSave();
             }}
           >
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-              <div className="space-y-1.5">
-                <Label htmlFor="title">Title</Label>
-                <Input
-                  id="title"
-                  value={activity.title}
-                  onChange={(e) => onChange({ ...activity, title: e.target.value })}
-                  placeholder="Activity title"
-                />
+            <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="locked" className="flex items-center gap-1.5">
+                  {activity.locked ? <Lock className="size-3.5" aria-hidden="true" /> : <LockOpen className="size-3.5" aria-hidden="true" />}
+                  Locked
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {activity.locked ? "Unlock to move, change or remove it." : "Keep it fixed when the plan is reshuffled or cleared."}
+                </p>
+              </div>
+              <Switch id="locked" checked={!!activity.locked} onCheckedChange={(checked) => onChange({ ...activity, locked: checked || undefined })} />
+            </div>
+            <fieldset disabled={!!activity.locked} className="space-y-4 disabled:opacity-60">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="title">Title</Label>
+                  <Input
+                    id="title"
+                    value={activity.title}
+                    onChange={(e) => onChange({ ...activity, title: e.target.value })}
+                    placeholder="Activity title"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="category">Category</Label>
+                  <Select
+                    value={activity.category}
+                    onValueChange={(v) => onChange({ ...activity, category: v as Category })}
+                  >
+                    <SelectTrigger id="category" aria-label="Category">
+                      <SelectValue placeholder="Choose a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="outdoor">Outdoor</SelectItem>
+                      <SelectItem value="food">Food</SelectItem>
+                      <SelectItem value="fitness">Fitness</SelectItem>
+                      <SelectItem value="culture">Culture</SelectItem>
+                      <SelectItem value="home">Home</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="start">Start time</Label>
+                  <Input
+                    id="start"
+                    type="time"
+                    step={MIN_SLOT_MINUTES * 60}
+                    value={activity.start}
+                    onChange={(e) => onChange({ ...activity, start: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="duration">Duration (mins)</Label>
+                  <Input
+                    id="duration"
+                    type="number"
+                    min={MIN_SLOT_MINUTES}
+                    step={MIN_SLOT_MINUTES}
+                    value={activity.durationMins}
+                    onChange={(e) =>
+                      onChange({
+                        ...activity,
+                        durationMins: parseInt(e.target.value || "0", 10),
+                      })
+                    }
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="day">Day</Label>
+                  <Select
+                    value={activity.day}
+                    onValueChange={(v) => onChange({ ...activity, day: v as DayKey })}
+                  >
+                    <SelectTrigger id="day" aria-label="Day">
+                      <SelectValue placeholder="Select a day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {days.map((d) => (
+                        <SelectItem key={d.day} value={d.day}>{capitalize(d.day)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="mood">Mood</Label>
+                  <Select
+                    value={activity.mood || "chill"}
+                    onValueChange={(v) => onChange({ ...activity, mood: v as Mood })}
+                  >
+                    <SelectTrigger id="mood" aria-label="Mood">
+                      <SelectValue placeholder="Select mood" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="chill">Chill</SelectItem>
+                      <SelectItem value="energetic">Energetic</SelectItem>
+                      <SelectItem value="social">Social</SelectItem>
+                      <SelectItem value="focus">Focus</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
+              <LocationFields key={activity.id} activity={activity} onChange={onChange} />
+              <DependencyFields activity={activity} activities={activities} timeFormat={timeFormat} onChange={onChange} />
+              <RecurrenceFields activity={activity} weekendOf={weekendOf} scope={scope} onScopeChange={onScopeChange} onChange={onChange} />
               <div className="space-y-1.5">
-                <Label htmlFor="category">Category</Label>
+                <Label htmlFor="difficulty">Difficulty</Label>
                 <Select
-                  value={activity.category}
-                  onValueChange={(v) => onChange({ ...activity, category: v as Category })}
+                  value={activity.difficulty ?? "unset"}
+                  onValueChange={(v) => onChange({ ...activity, difficulty: v === "unset" ? undefined : (v as Difficulty) })}
                 >
-                  <SelectTrigger id="category" aria-label="Category">
-                    <SelectValue placeholder="Choose a category" />
+                  <SelectTrigger id="difficulty" aria-label="Difficulty">
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="outdoor">Outdoor</SelectItem>
-                    <SelectItem value="food">Food</SelectItem>
-                    <SelectItem value="fitness">Fitness</SelectItem>
-                    <SelectItem value="culture">Culture</SelectItem>
-                    <SelectItem value="home">Home</SelectItem>
-                    <SelectItem value="other">Other</SelectItem>
+                    <SelectItem value="unset">Not set</SelectItem>
+                    <SelectItem value="easy">Easy</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="hard">Hard</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               <div className="space-y-1.5">
-                <Label htmlFor="start">Start time</Label>
-                <Input
-                  id="start"
-                  type="time"
-                  step={MIN_SLOT_MINUTES * 60}
-                  value={activity.start}
-                  onChange={(e) => onChange({ ...activity, start: e.target.value })}
-                />
-              </div>
-              <div className="space-y-1.5">
-                <Label htmlFor="duration">Duration (mins)</Label>
-                <Input
-                  id="duration"
-                  type="number"
-                  min={MIN_SLOT_MINUTES}
-                  step={MIN_SLOT_MINUTES}
-                  value={activity.durationMins}
-                  onChange={(e) =>
-                    onChange({
-                      ...activity,
-                      durationMins: parseInt(e.target.value || "0", 10),
-                    })
-                  }
-                />
-              </div>
-              <div className="space-y-1.5">
-                <Label htmlFor="day">Day</Label>
+                <Label htmlFor="overlap">Overlaps</Label>
                 <Select
-                  value={activity.day}
-                  onValueChange={(v) => onChange({ ...activity, day: v as DayKey })}
+                  value={activity.overlap ?? "default"}
+                  onValueChange={(v) => onChange({ ...activity, overlap: v === "default" ? undefined : (v as Overlap) })}
                 >
-                  <SelectTrigger id="day" aria-label="Day">
-                    <SelectValue placeholder="Select a day" />
+                  <SelectTrigger id="overlap" aria-label="Overlaps">
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="saturday">Saturday</SelectItem>
-                    <SelectItem value="sunday">Sunday</SelectItem>
+                    <SelectItem value="default">Follow settings</SelectItem>
+                    <SelectItem value="allow">Can overlap (runs alongside other activities)</SelectItem>
+                    <SelectItem value="exclusive">Exclusive (never shares time)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               <div className="space-y-1.5">
-                <Label htmlFor="mood">Mood</Label>
-                <Select
-                  value={activity.mood || "chill"}
-                  onValueChange={(v) => onChange({ ...activity, mood: v as Mood })}
-                >
-                  <SelectTrigger id="mood" aria-label="Mood">
-                    <SelectValue placeholder="Select mood" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="chill">Chill</SelectItem>
-                    <SelectItem value="energetic">Energetic</SelectItem>
-                    <SelectItem value="social">Social</SelectItem>
-                    <SelectItem value="focus">Focus</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  value={activity.notes || ""}
+                  onChange={(e) => onChange({ ...activity, notes: e.target.value })}
+                  placeholder="Add details, location, reminders..."
+                  className="min-h-24"
+                />
               </div>
-            </div>
-            <div className="space-y-1.5">
-              <Label htmlFor="notes">Notes</Label>
-              <Textarea
-                id="notes"
-                value={activity.notes || ""}
-                onChange={(e) => onChange({ ...activity, notes: e.target.value })}
-                placeholder="Add details, location, reminders..."
-                className="min-h-24"
-              />
-            </div>
+            </fieldset>
             <DialogFooter className="gap-2 sm:gap-3">
               <Button
                 type="button"
                 variant="ghost"
                 onClick={onDelete}
+                disabled={!!activity.locked}
                 className="text-[color:var(--destructive)] hover:bg-[color:var(--destructive)]/10"
               >
                 <CalendarX2 className="mr-2 size-4" />
@@ -1066,6 +1696,222 @@ function EditDialog({
   );
 }
 
+const TRAVEL_OPTIONS = [0, 5, 10, 15, 20, 30, 45, 60, 90];
+
+// Where the activity is and how long it takes to get there; coordinates are typed as "lat, lng"
+function LocationFields({ activity, onChange }: { activity: WeekendActivity; onChange: (a: WeekendActivity) => void }) {
+  const [coords, setCoords] = useState(() =>
+    activity.location?.lat != null && activity.location.lng != null ? `${activity.location.lat}, ${activity.location.lng}` : ""
+  );
+  const invalid = coords.trim() !== "" && !parseCoordinates(coords);
+
+  const setLocation = (name: string, text: string) => {
+    const point = parseCoordinates(text);
+    const location = name.trim() ? { name, ...(point ?? {}) } : undefined;
+    onChange({ ...activity, location });
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="location">Location</Label>
+          <Input
+            id="location"
+            value={activity.location?.name ?? ""}
+            onChange={(e) => setLocation(e.target.value, coords)}
+            placeholder="e.g. City Park"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="coordinates">Coordinates</Label>
+          <Input
+            id="coordinates"
+            value={coords}
+            onChange={(e) => {
+              setCoords(e.target.value);
+              setLocation(activity.location?.name ?? "", e.target.value);
+            }}
+            placeholder="48.8584, 2.2945"
+            disabled={!activity.location}
+            aria-invalid={invalid}
+            aria-describedby="coordinates-hint"
+          />
+          <p id="coordinates-hint" className={cn("text-[11px]", invalid ? "text-destructive" : "text-muted-foreground")}>
+            {invalid ? "Enter latitude, longitude" : "Optional; used to estimate travel"}
+          </p>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="travel">Travel to get here</Label>
+        <Select
+          value={activity.travelMins == null ? "auto" : String(activity.travelMins)}
+          onValueChange={(v) => onChange({ ...activity, travelMins: v === "auto" ? undefined : Number(v) })}
+        >
+          <SelectTrigger id="travel" aria-label="Travel to get here">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Estimate from locations</SelectItem>
+            {TRAVEL_OPTIONS.map((mins) => (
+              <SelectItem key={mins} value={String(mins)}>{mins === 0 ? "None" : `${mins} minutes`}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </>
+  );
+}
+
+// How the activity repeats and, for an occurrence of a routine, how far an edit reaches
+function RecurrenceFields({
+  activity,
+  weekendOf,
+  scope,
+  onScopeChange,
+  onChange,
+}: {
+  activity: WeekendActivity;
+  weekendOf?: string;
+  scope: SeriesScope;
+  onScopeChange: (scope: SeriesScope) => void;
+  onChange: (a: WeekendActivity) => void;
+}) {
+  const preset = activity.recurrence ? rulePreset(activity.recurrence) ?? "custom" : "none";
+
+  const setPreset = (value: string) => {
+    if (value === "custom" || !weekendOf) return;
+    onChange({ ...activity, recurrence: value === "none" ? undefined : presetRule(value as RecurrencePreset, weekendOf) });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor="repeats" className="flex items-center gap-1.5">
+        <Repeat className="size-3.5" aria-hidden="true" />
+        Repeats
+      </Label>
+      <Select value={preset} onValueChange={setPreset} disabled={!weekendOf}>
+        <SelectTrigger id="repeats" aria-label="Repeats">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="weekly">Every weekend</SelectItem>
+          <SelectItem value="biweekly">Every other weekend</SelectItem>
+          <SelectItem value="monthly-first">First {capitalize(activity.day)} of the month</SelectItem>
+          <SelectItem value="monthly-last">Last {capitalize(activity.day)} of the month</SelectItem>
+          {preset === "custom" && <SelectItem value="custom">{describeRecurrence(activity.recurrence!, activity.day)}</SelectItem>}
+        </SelectContent>
+      </Select>
+      {!weekendOf && <p className="text-[11px] text-muted-foreground">Pick a weekend for this plan to repeat activities on later ones.</p>}
+      {activity.seriesId && (
+        <div className="space-y-1.5 rounded-lg border p-3">
+          <p className="text-xs font-medium">Save changes to</p>
+          <RadioGroup value={scope} onValueChange={(v) => onScopeChange(v as SeriesScope)} aria-label="Save changes to">
+            <label className="flex items-center gap-2 text-sm">
+              <RadioGroupItem value="this" />
+              This weekend only
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <RadioGroupItem value="future" />
+              This and later weekends
+            </label>
+          </RadioGroup>
+          <p className="text-[11px] text-muted-foreground">Changing how it repeats always applies to later weekends.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Activities this one has to come after, each optionally on the same day and with a minimum gap
+function DependencyFields({
+  activity,
+  activities,
+  timeFormat,
+  onChange,
+}: {
+  activity: WeekendActivity;
+  activities: WeekendActivity[];
+  timeFormat: TimeFormat;
+  onChange: (a: WeekendActivity) => void;
+}) {
+  const dependsOn = activity.dependsOn ?? [];
+  // Anything not already a rule that wouldn't make a loop
+  const options = activities.filter(
+    (a) => !dependsOn.some((d) => d.activityId === a.id) && canDependOn(activities, activity.id, a.id)
+  );
+
+  const setDependsOn = (next: Dependency[]) => onChange({ ...activity, dependsOn: next.length > 0 ? next : undefined });
+  const update = (index: number, patch: Partial<Dependency>) => setDependsOn(dependsOn.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor="depends-on" className="flex items-center gap-1.5">
+        <Link2 className="size-3.5" aria-hidden="true" />
+        Comes after
+      </Label>
+      {dependsOn.length > 0 && (
+        <ul className="space-y-2">
+          {dependsOn.map((d, index) => {
+            const title = activities.find((a) => a.id === d.activityId)?.title ?? "Removed activity";
+            return (
+              <li key={d.activityId} className="flex flex-wrap items-center gap-x-3 gap-y-2 rounded-lg border p-2">
+                <span className="min-w-0 flex-1 truncate text-sm font-medium">{title}</span>
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <Switch checked={!!d.sameDay} onCheckedChange={(checked) => update(index, { sameDay: checked || undefined })} aria-label={`Same day as ${title}`} />
+                  Same day
+                </label>
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <Input
+                    type="number"
+                    min={0}
+                    step={MIN_SLOT_MINUTES}
+                    value={d.minGapMins ?? 0}
+                    onChange={(e) => {
+                      const mins = parseInt(e.target.value || "0", 10);
+                      update(index, { minGapMins: mins > 0 ? mins : undefined });
+                    }}
+                    className="h-8 w-20"
+                    aria-label={`Minutes between ${title} and this activity`}
+                  />
+                  min gap
+                </label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  onClick={() => setDependsOn(dependsOn.filter((_, i) => i !== index))}
+                  aria-label={`Remove the rule for ${title}`}
+                >
+                  <X className="size-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {options.length > 0 ? (
+        <Select value="" onValueChange={(id) => setDependsOn([...dependsOn, { activityId: id }])}>
+          <SelectTrigger id="depends-on" aria-label="Add an activity this comes after">
+            <SelectValue placeholder="Add an activity that has to come first" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((a) => (
+              <SelectItem key={a.id} value={a.id}>
+                {a.title} · {capitalize(a.day)} {formatTime(a.start, timeFormat)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        dependsOn.length === 0 && <p className="text-xs text-muted-foreground">Add more activities to set an order between them.</p>
+      )}
+    </div>
+  );
+}
+
 /* Utils for export canvas */
 function getCssVar(name: string): string | null {
   if (typeof window === "undefined") return null;
@@ -1187,7 +2033,3 @@ function normalizeTime(val: string) {
   const [h, m] = val.split(":").map(Number);
   return `${String(clamp(h, 0, 23)).padStart(2, "0")}:${String(clamp(m, 0, 59)).padStart(2, "0")}`;
 }
-
-function capitalize(s: string) {
-  return s.charAt(0).toUpperCase() + s.slice(1);
-}
@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { CalendarRange, Check, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { getPlanName, type WeekendPlan } from "@/lib/persistence";
+import { formatWeekend, groupPlansByWeekend, weekendOf, type WeekendGroup } from "@/lib/weekends";
+
+export interface WeekendsOverviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plans: WeekendPlan[]; // archived plans are left out
+  currentPlanId: string | null;
+  onSelectPlan: (id: string) => void;
+  onPlanWeekend: (weekend: string) => void;
+}
+
+// Coming weekends always listed, planned or not
+const WEEKENDS_AHEAD = 6;
+
+export default function WeekendsOverview({ open, onOpenChange, plans, currentPlanId, onSelectPlan, onPlanWeekend }: WeekendsOverviewProps) {
+  const overview = useMemo(
+    () => groupPlansByWeekend(plans.filter((p) => !p.metadata?.archived), { ahead: WEEKENDS_AHEAD }),
+    // Recomputed on open so "this weekend" stays current
+    [plans, open]
+  );
+  const thisWeekend = weekendOf();
+
+  const choose = (run: () => void) => {
+    run();
+    onOpenChange(false);
+  };
+
+  const renderGroup = ({ weekend, plans: weekendPlans }: WeekendGroup) => (
+    <li key={weekend} className="rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{formatWeekend(weekend)}</span>
+        {weekend === thisWeekend && (
+          <span className="rounded-full bg-primary/10 px-2 py-0.5 text-[10px] font-medium text-primary">This weekend</span>
+        )}
+      </div>
+      {weekendPlans.length === 0 ? (
+        <Button variant="ghost" size="sm" className="mt-1 -ml-2 text-muted-foreground" onClick={() => choose(() => onPlanWeekend(weekend))}>
+          <Plus className="h-4 w-4 mr-1.5" />
+          Plan this weekend
+        </Button>
+      ) : (
+        <ul className="mt-1 space-y-0.5">
+          {weekendPlans.map((plan) => (
+            <PlanRow key={plan.id} plan={plan} current={plan.id === currentPlanId} onOpen={() => choose(() => onSelectPlan(plan.id))} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarRange className="size-4" aria-hidden="true" />
+            Weekends
+          </DialogTitle>
+          <DialogDescription>Every weekend keeps its own plan. Pick one to open it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-5 pr-1">
+          <section>
+            <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Upcoming</h3>
+            <ul className="space-y-2">{overview.upcoming.map(renderGroup)}</ul>
+          </section>
+
+          {overview.past.length > 0 && (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">Past</h3>
+              <ul className="space-y-2">{overview.past.map(renderGroup)}</ul>
+            </section>
+          )}
+
+          {overview.undated.length > 0 && (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">No date</h3>
+              <ul className="space-y-0.5 rounded-lg border p-3">
+                {overview.undated.map((plan) => (
+                  <PlanRow key={plan.id} plan={plan} current={plan.id === currentPlanId} onOpen={() => choose(() => onSelectPlan(plan.id))} />
+                ))}
+              </ul>
+            </section>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PlanRow({ plan, current, onOpen }: { plan: WeekendPlan; current: boolean; onOpen: () => void }) {
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={onOpen}
+        className={cn(
+          "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted",
+          "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        )}
+      >
+        <Check className={cn("h-4 w-4 shrink-0", current ? "opacity-100" : "opacity-0")} />
+        <span className="truncate">{getPlanName(plan)}</span>
+        <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+          {plan.activities.length} {plan.activities.length === 1 ? "activity" : "activities"}
+        </span>
+      </button>
+    </li>
+  );
+}
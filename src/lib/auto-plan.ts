@@ -0,0 +1,296 @@
+/**
+ * Auto-plan for Weekendly
+ * Schedules the activities in the tray around what is already planned, as a small
+ * constraint search that returns a few ranked alternatives
+ */
+
+import { activitiesOverlap } from './overlap';
+import type { WeekendActivity } from './persistence';
+import { DEFAULT_DAY_HOURS, toMinutes, toTimeString, type DayHours } from './time';
+import { neededMinsBetween, type TravelOptions } from './travel';
+import { createActivityId } from './utils';
+import type { ScheduleDay, WeekendDay } from './weekends';
+
+export type Difficulty = NonNullable<WeekendActivity['difficulty']>;
+
+export type Meal = 'breakfast' | 'brunch' | 'lunch' | 'dinner';
+
+// How each alternative orders the places it tries
+export type AutoPlanStrategy = 'balanced' | 'early' | 'relaxed';
+
+// An activity waiting in the tray, with the constraints it has to meet
+export interface PlanItem {
+  id: string;
+  title: string;
+  category: WeekendActivity['category'];
+  durationMins: number;
+  mood?: WeekendActivity['mood'];
+  notes?: string;
+  location?: WeekendActivity['location'];
+  difficulty?: Difficulty; // hard activities are followed by a rest gap
+  meal?: Meal; // has to fit inside the meal's window
+  days?: WeekendDay[]; // days it may go on; any shown day when missing
+  fixed?: { day: WeekendDay; start: string }; // booked: this exact time or not at all
+  earliestMins?: number; // starts no earlier than this
+  latestMins?: number; // ends no later than this
+}
+
+export interface AutoPlanOptions {
+  days: ScheduleDay[];
+  hours?: DayHours;
+  mealWindows?: Record<Meal, [number, number]>;
+  restAfterHardMins?: number;
+  maxEnergeticMinsPerDay?: number; // minutes of energetic activities a day may hold
+  stepMins?: number;
+  alternatives?: number;
+  nodeLimit?: number; // search budget per alternative
+  travel?: TravelOptions; // time kept free to get between activities
+  busy?: Pick<WeekendActivity, 'id' | 'day' | 'start' | 'durationMins'>[]; // taken by other calendars
+}
+
+export interface AutoPlan {
+  strategy: AutoPlanStrategy;
+  label: string;
+  activities: WeekendActivity[]; // what was scheduled, plus the placed items
+  placed: WeekendActivity[];
+  unplaced: PlanItem[];
+  score: number; // lower is better
+}
+
+export const DEFAULT_MEAL_WINDOWS: Record<Meal, [number, number]> = {
+  breakfast: [7 * 60, 10 * 60 + 30],
+  brunch: [10 * 60, 13 * 60],
+  lunch: [11 * 60 + 30, 14 * 60 + 30],
+  dinner: [17 * 60 + 30, 21 * 60 + 30],
+};
+
+export const STRATEGY_LABELS: Record<AutoPlanStrategy, string> = {
+  balanced: 'Balanced',
+  early: 'Early starts',
+  relaxed: 'Slow mornings',
+};
+
+const STRATEGIES: AutoPlanStrategy[] = ['balanced', 'early', 'relaxed'];
+
+// Where a relaxed plan would rather not start anything before
+const RELAXED_FROM_MINS = 11 * 60;
+
+interface Slot {
+  id: string;
+  day: WeekendDay;
+  start: number;
+  end: number;
+  hard: boolean;
+  energetic: boolean;
+  location?: WeekendActivity['location'];
+  travelMins?: number;
+  item?: PlanItem; // missing for activities that were already scheduled
+}
+
+interface Search {
+  best: Slot[] | null;
+  bestUnplaced: PlanItem[];
+  nodes: number;
+}
+
+/**
+ * Meal an activity is probably for, from its title
+ */
+export function guessMeal(title: string): Meal | undefined {
+  const lower = title.toLowerCase();
+  if (lower.includes('brunch')) return 'brunch';
+  if (lower.includes('breakfast')) return 'breakfast';
+  if (lower.includes('lunch') || lower.includes('picnic')) return 'lunch';
+  if (lower.includes('dinner') || lower.includes('supper')) return 'dinner';
+  return undefined;
+}
+
+/**
+ * Place `items` around the `scheduled` activities, which stay where they are.
+ * Each alternative is conflict-free; items that fit nowhere are listed as unplaced.
+ */
+export function autoPlan(items: PlanItem[], scheduled: WeekendActivity[], options: AutoPlanOptions): AutoPlan[] {
+  const { alternatives = 3 } = options;
+  const pinned: Slot[] = scheduled.map(a => ({
+    id: a.id,
+    day: a.day,
+    start: toMinutes(a.start),
+    end: toMinutes(a.start) + a.durationMins,
+    hard: a.difficulty === 'hard',
+    energetic: a.mood === 'energetic',
+    location: a.location,
+    travelMins: a.travelMins,
+  }));
+  for (const b of options.busy ?? []) {
+    pinned.push({ id: b.id, day: b.day, start: toMinutes(b.start), end: toMinutes(b.start) + b.durationMins, hard: false, energetic: false });
+  }
+  // Most constrained first: booked times, then meals and narrow windows, then longer activities
+  const ordered = [...items].sort((a, b) =>
+    Number(!!b.fixed) - Number(!!a.fixed) ||
+    Number(!!b.meal) - Number(!!a.meal) ||
+    windowSize(a, options) - windowSize(b, options) ||
+    b.durationMins - a.durationMins
+  );
+
+  const plans: AutoPlan[] = [];
+  const seen = new Set<string>();
+  for (const strategy of STRATEGIES) {
+    const search: Search = { best: null, bestUnplaced: items, nodes: 0 };
+    place(ordered, 0, pinned, [], strategy, options, search);
+    const slots = search.best ?? pinned;
+    const signature = slots.filter(s => s.item).map(s => `${s.item!.id}@${s.day}${s.start}`).sort().join('|');
+    if (seen.has(signature)) continue;
+    seen.add(signature);
+    plans.push(toPlan(strategy, slots, search.bestUnplaced, scheduled, options));
+  }
+  return plans.sort((a, b) => a.score - b.score).slice(0, alternatives);
+}
+
+// Depth-first over the items; returns true once every item is placed or the budget is spent
+function place(
+  items: PlanItem[],
+  index: number,
+  slots: Slot[],
+  unplaced: PlanItem[],
+  strategy: AutoPlanStrategy,
+  options: AutoPlanOptions,
+  search: Search
+): boolean {
+  if (search.nodes++ > (options.nodeLimit ?? 5000)) return true;
+  if (search.best && unplaced.length >= search.bestUnplaced.length) return false;
+  if (index === items.length) {
+    search.best = slots;
+    search.bestUnplaced = unplaced;
+    return unplaced.length === 0;
+  }
+  const item = items[index];
+  for (const slot of candidates(item, slots, strategy, options)) {
+    if (place(items, index + 1, [...slots, slot], unplaced, strategy, options, search)) return true;
+  }
+  // Nowhere left for it: carry on without it
+  return place(items, index + 1, slots, [...unplaced, item], strategy, options, search);
+}
+
+function candidates(item: PlanItem, slots: Slot[], strategy: AutoPlanStrategy, options: AutoPlanOptions): Slot[] {
+  const { days, hours = DEFAULT_DAY_HOURS, mealWindows = DEFAULT_MEAL_WINDOWS, stepMins = 15 } = options;
+  const hard = item.difficulty === 'hard';
+  const energetic = item.mood === 'energetic';
+  const make = (day: WeekendDay, start: number): Slot => ({
+    id: item.id, day, start, end: start + item.durationMins, hard, energetic, location: item.location, item,
+  });
+
+  if (item.fixed) {
+    const slot = make(item.fixed.day, toMinutes(item.fixed.start));
+    return days.some(d => d.day === slot.day) && fits(slot, slots, options) ? [slot] : [];
+  }
+
+  const result: Slot[] = [];
+  for (const { day, earliestMins = 0 } of days) {
+    if (item.days && !item.days.includes(day)) continue;
+    const meal = item.meal ? mealWindows[item.meal] : null;
+    const from = Math.max(hours.startMins, earliestMins, item.earliestMins ?? 0, meal?.[0] ?? 0);
+    const to = Math.min(hours.endMins, item.latestMins ?? Infinity, meal?.[1] ?? Infinity) - item.durationMins;
+    for (let start = Math.ceil(from / stepMins) * stepMins; start <= to; start += stepMins) {
+      const slot = make(day, start);
+      if (fits(slot, slots, options)) result.push(slot);
+    }
+  }
+
+  const load = (day: WeekendDay) => slots.reduce((sum, s) => sum + (s.day === day ? s.end - s.start : 0), 0);
+  const dayOrder = (day: WeekendDay) => days.findIndex(d => d.day === day);
+  const compare: Record<AutoPlanStrategy, (a: Slot, b: Slot) => number> = {
+    balanced: (a, b) => load(a.day) - load(b.day) || dayOrder(a.day) - dayOrder(b.day) || a.start - b.start,
+    early: (a, b) => dayOrder(a.day) - dayOrder(b.day) || a.start - b.start,
+    relaxed: (a, b) =>
+      load(a.day) - load(b.day) || dayOrder(a.day) - dayOrder(b.day) || relaxedRank(a.start) - relaxedRank(b.start),
+  };
+  return result.sort(compare[strategy]);
+}
+
+function fits(slot: Slot, slots: Slot[], { restAfterHardMins = 60, maxEnergeticMinsPerDay = Infinity, travel }: AutoPlanOptions): boolean {
+  let energetic = slot.energetic ? slot.end - slot.start : 0;
+  let before: Slot | undefined;
+  let after: Slot | undefined;
+  for (const other of slots) {
+    if (other.day !== slot.day) continue;
+    if (slot.start < other.end && other.start < slot.end) return false;
+    // Rest after a hard activity, whichever of the two comes first
+    if (other.hard && slot.start >= other.end && slot.start < other.end + restAfterHardMins) return false;
+    if (slot.hard && other.start >= slot.end && other.start < slot.end + restAfterHardMins) return false;
+    if (other.energetic) energetic += other.end - other.start;
+    if (other.end <= slot.start && (!before || other.end > before.end)) before = other;
+    if (other.start >= slot.end && (!after || other.start < after.start)) after = other;
+  }
+  // Time to get here from the activity before, and on to the one after
+  if (travel && before && slot.start - before.end < neededMinsBetween(asTravelled(before), asTravelled(slot), travel)) return false;
+  if (travel && after && after.start - slot.end < neededMinsBetween(asTravelled(slot), asTravelled(after), travel)) return false;
+  return !slot.energetic || energetic <= maxEnergeticMinsPerDay;
+}
+
+function asTravelled(slot: Slot) {
+  return {
+    id: slot.id,
+    title: slot.item?.title ?? slot.id,
+    day: slot.day,
+    start: toTimeString(slot.start),
+    durationMins: slot.end - slot.start,
+    location: slot.location,
+    travelMins: slot.travelMins,
+  };
+}
+
+function toPlan(
+  strategy: AutoPlanStrategy,
+  slots: Slot[],
+  unplaced: PlanItem[],
+  scheduled: WeekendActivity[],
+  options: AutoPlanOptions
+): AutoPlan {
+  const placed: WeekendActivity[] = slots
+    .filter(s => s.item)
+    .map(({ item, day, start }) => ({
+      id: createActivityId(),
+      title: item!.title,
+      category: item!.category,
+      day,
+      start: toTimeString(start),
+      durationMins: item!.durationMins,
+      ...(item!.mood ? { mood: item!.mood } : {}),
+      ...(item!.notes ? { notes: item!.notes } : {}),
+      ...(item!.location ? { location: item!.location } : {}),
+      ...(item!.difficulty ? { difficulty: item!.difficulty } : {}),
+    }));
+  const activities = [...scheduled, ...placed];
+  return { strategy, label: STRATEGY_LABELS[strategy], activities, placed, unplaced, score: scorePlan(activities, unplaced, options) };
+}
+
+/**
+ * Lower is better: every unplaced item outweighs the rest, then uneven days,
+ * back-to-back activities and late finishes
+ */
+export function scorePlan(activities: WeekendActivity[], unplaced: PlanItem[], { days }: Pick<AutoPlanOptions, 'days'>): number {
+  const loads = days.map(({ day }) => activities.filter(a => a.day === day).reduce((sum, a) => sum + a.durationMins, 0));
+  const imbalance = loads.length ? (Math.max(...loads) - Math.min(...loads)) / 60 : 0;
+  let tight = 0;
+  for (const { day } of days) {
+    const dayActs = activities.filter(a => a.day === day).sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+    for (let i = 1; i < dayActs.length; i++) {
+      const gap = toMinutes(dayActs[i].start) - (toMinutes(dayActs[i - 1].start) + dayActs[i - 1].durationMins);
+      if (gap < 15 && !activitiesOverlap(dayActs[i], dayActs[i - 1])) tight++;
+    }
+  }
+  const late = activities.filter(a => toMinutes(a.start) + a.durationMins > 21 * 60).length;
+  return Math.round((unplaced.length * 100 + imbalance + tight * 0.5 + late * 0.5) * 100) / 100;
+}
+
+function windowSize(item: PlanItem, { hours = DEFAULT_DAY_HOURS, mealWindows = DEFAULT_MEAL_WINDOWS }: AutoPlanOptions): number {
+  const meal = item.meal ? mealWindows[item.meal] : null;
+  const from = Math.max(hours.startMins, item.earliestMins ?? 0, meal?.[0] ?? 0);
+  const to = Math.min(hours.endMins, item.latestMins ?? Infinity, meal?.[1] ?? Infinity);
+  return to - from - item.durationMins;
+}
+
+// Starts from late morning on come first, then earlier ones counting back
+function relaxedRank(start: number): number {
+  return start >= RELAXED_FROM_MINS ? start - RELAXED_FROM_MINS : 24 * 60 + (RELAXED_FROM_MINS - start);
+}
@@ -0,0 +1,122 @@
+/**
+ * Busy time for Weekendly
+ * Calendars imported from .ics files, and their events on a weekend as read-only
+ * busy blocks that plans are fitted around
+ */
+
+import { toIsoDate } from './dates';
+import { addMinutes, eventOccurrences, localTimeZone, parseCalendar, toInstant, zoneOffsetMins, type IcsEvent } from './ical';
+import { activitiesOverlap } from './overlap';
+import type { WeekendActivity } from './persistence';
+import { formatTimeRange, toTimeString, type TimeFormat } from './time';
+import { WEEKEND_DAYS, weekendDayDate, type WeekendDay } from './weekends';
+
+export interface BusyCalendar {
+  id: string;
+  name: string;
+  importedAt: string; // ISO timestamp
+  events: IcsEvent[];
+}
+
+// Part of an imported event on one day of the weekend
+export interface BusyBlock {
+  id: string;
+  calendarId: string;
+  title: string;
+  day: WeekendDay;
+  start: string; // HH:MM in the planner's zone
+  durationMins: number; // cut at midnight; longer events get a block on each day
+  allDay: boolean;
+}
+
+export interface CalendarImport {
+  calendars: BusyCalendar[];
+  calendar: BusyCalendar;
+  replaced: boolean; // an earlier import of the same calendar was swapped for it
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Add an .ics file to the imported calendars. A calendar with the same name
+ * replaces the earlier import, so re-importing updates it. Throws IcsParseError
+ * for files that aren't calendars.
+ */
+export function importBusyCalendar(calendars: BusyCalendar[], text: string, fileName: string, now: Date = new Date()): CalendarImport {
+  const parsed = parseCalendar(text);
+  const name = parsed.name?.trim() || fileName.replace(/\.ics$/i, '').trim() || 'Calendar';
+  const existing = calendars.find(c => c.name === name);
+  const calendar: BusyCalendar = { id: existing?.id ?? createCalendarId(), name, importedAt: now.toISOString(), events: parsed.events };
+  return {
+    calendars: existing ? calendars.map(c => (c === existing ? calendar : c)) : [...calendars, calendar],
+    calendar,
+    replaced: !!existing,
+  };
+}
+
+/**
+ * The imported events on `days` of `weekend`, in `timeZone`. Recurring events
+ * are expanded, and their changed occurrences take the place of the originals.
+ */
+export function busyBlocks(calendars: BusyCalendar[], weekend: string, days: WeekendDay[], timeZone: string = localTimeZone()): BusyBlock[] {
+  const windows = days.map(day => {
+    const midnight = { date: toIsoDate(weekendDayDate(weekend, day)), time: '00:00', timeZone };
+    return { day, from: toInstant(midnight), to: toInstant(addMinutes(midnight, 24 * 60)) };
+  });
+  if (windows.length === 0) return [];
+  const from = new Date(Math.min(...windows.map(w => w.from.getTime())));
+  const to = new Date(Math.max(...windows.map(w => w.to.getTime())));
+
+  const blocks: BusyBlock[] = [];
+  for (const calendar of calendars) {
+    for (const event of withOverrides(calendar.events)) {
+      for (const occurrence of eventOccurrences(event, from, to, timeZone)) {
+        for (const window of windows) {
+          const start = Math.max(occurrence.start.getTime(), window.from.getTime());
+          const end = Math.min(occurrence.end.getTime(), window.to.getTime());
+          if (end <= start) continue;
+          const startMins = wallMins(new Date(start), timeZone);
+          blocks.push({
+            id: `${calendar.id}:${event.uid}:${occurrence.start.getTime()}:${window.day}`,
+            calendarId: calendar.id,
+            title: event.summary || 'Busy',
+            day: window.day,
+            start: toTimeString(startMins),
+            durationMins: Math.min(Math.round((end - start) / MINUTE_MS), 24 * 60 - startMins),
+            allDay: occurrence.allDay,
+          });
+        }
+      }
+    }
+  }
+  return blocks.sort((a, b) => WEEKEND_DAYS.indexOf(a.day) - WEEKEND_DAYS.indexOf(b.day) || a.start.localeCompare(b.start));
+}
+
+// The busy block a placement would overlap, if any
+export function busyAt(busy: BusyBlock[], candidate: Pick<WeekendActivity, 'id' | 'day' | 'start' | 'durationMins'>): BusyBlock | undefined {
+  return busy.find(b => activitiesOverlap(b, candidate));
+}
+
+// "Dentist, 3:00 – 4:30 PM" or "Family day, all day"
+export function describeBusy(block: BusyBlock, format: TimeFormat): string {
+  return `${block.title}, ${block.allDay ? 'all day' : formatTimeRange(block.start, block.durationMins, format)}`;
+}
+
+// Changed occurrences are excluded from their series and kept as events of their own
+function withOverrides(events: IcsEvent[]): IcsEvent[] {
+  const overrides = events.filter(e => e.recurrenceId);
+  return events.map(event => {
+    if (event.recurrenceId || !event.rrule) return event;
+    const changed = overrides.filter(o => o.uid === event.uid).map(o => o.recurrenceId!);
+    return changed.length ? { ...event, exdates: [...(event.exdates ?? []), ...changed] } : event;
+  });
+}
+
+function wallMins(at: Date, timeZone: string): number {
+  const wall = new Date(at.getTime() + zoneOffsetMins(timeZone, at) * MINUTE_MS);
+  return wall.getUTCHours() * 60 + wall.getUTCMinutes();
+}
+
+function createCalendarId(): string {
+  return `cal_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,337 @@
+/**
+ * CalDAV sync for Weekendly
+ * Publishes a weekend plan's activities as events in a CalDAV calendar collection
+ * and pulls back edits and deletions made in other calendar apps
+ */
+
+import { toIsoDate } from './dates';
+import { inZone, localTimeZone, parseCalendar, planToCalendar, serializeCalendar, toInstant, type IcsEvent } from './ical';
+import { PersistenceError, type SyncRecord, type WeekendActivity } from './persistence';
+import { WEEKEND_DAYS, weekendDayDate } from './weekends';
+
+// An event resource in the collection
+export interface CalDavResource {
+  href: string; // absolute URL
+  etag: string;
+  data: string; // the iCalendar document
+}
+
+export interface CalDavClient {
+  // The resources that still exist; hrefs missing from the result were deleted
+  multiget(hrefs: string[]): Promise<CalDavResource[]>;
+  // Create (no etag) or replace the version with `etag`; resolves to the new ETag
+  put(href: string, data: string, etag?: string): Promise<string>;
+  remove(href: string, etag: string): Promise<void>;
+}
+
+export interface CalDavCredentials {
+  username?: string;
+  password?: string; // an app password, where the server offers them
+}
+
+// An activity's event as it was last synced
+export interface LinkedEvent {
+  href: string;
+  etag: string;
+  fingerprint: string; // the event written from the activity, to spot local edits
+}
+
+// A plan's connection to a calendar collection, kept in the `sync` store. The
+// password is never part of it; the app asks for it again each session.
+export interface CalendarLink extends SyncRecord {
+  planId: string;
+  collectionUrl: string;
+  username?: string;
+  timeZone: string;
+  events: Record<string, LinkedEvent>; // by activity id
+  lastSync?: string;
+}
+
+export interface CalendarSyncOptions {
+  reminderMins?: number;
+  now?: Date;
+}
+
+export interface CalendarSyncReport {
+  published: number; // events created or updated in the calendar
+  deleted: number; // events removed from the calendar
+  pulled: string[]; // activity ids changed by edits in the calendar
+  removed: string[]; // activity ids deleted, or moved off the weekend, in the calendar
+  conflicts: number; // activities edited on both sides; the calendar's edit won
+}
+
+export interface CalendarSyncResult {
+  activities: WeekendActivity[];
+  link: CalendarLink;
+  report: CalendarSyncReport;
+}
+
+export const CALENDAR_LINK_PREFIX = 'caldav:';
+
+const DAV_NS = 'DAV:';
+const CALDAV_NS = 'urn:ietf:params:xml:ns:caldav';
+const MINUTE_MS = 60 * 1000;
+
+const CATEGORIES: WeekendActivity['category'][] = ['outdoor', 'food', 'fitness', 'culture', 'home', 'other'];
+const MOODS: NonNullable<WeekendActivity['mood']>[] = ['chill', 'energetic', 'social', 'focus'];
+
+/**
+ * Talks to a CalDAV server (Radicale, Nextcloud, iCloud, Fastmail, ...) with
+ * calendar-multiget reports and conditional PUT and DELETE. The server has to
+ * allow cross-origin requests from the app.
+ */
+export class HttpCalDavClient implements CalDavClient {
+  private authorization?: string;
+
+  constructor(
+    private collectionUrl: string,
+    credentials: CalDavCredentials = {},
+    private fetcher: typeof fetch = (input, init) => fetch(input, init),
+  ) {
+    if (credentials.username) {
+      this.authorization = `Basic ${base64(`${credentials.username}:${credentials.password ?? ''}`)}`;
+    }
+  }
+
+  async multiget(hrefs: string[]): Promise<CalDavResource[]> {
+    if (hrefs.length === 0) return [];
+    const body = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      `<c:calendar-multiget xmlns:d="${DAV_NS}" xmlns:c="${CALDAV_NS}">`,
+      '<d:prop><d:getetag/><c:calendar-data/></d:prop>',
+      ...hrefs.map(href => `<d:href>${escapeXml(new URL(href).pathname)}</d:href>`),
+      '</c:calendar-multiget>',
+    ].join('\n');
+    const response = await this.request('REPORT', this.collectionUrl, {
+      body,
+      headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+    });
+
+    const doc = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    return Array.from(doc.getElementsByTagNameNS(DAV_NS, 'response')).flatMap(node => {
+      const href = childText(node, DAV_NS, 'href');
+      const etag = childText(node, DAV_NS, 'getetag');
+      const data = childText(node, CALDAV_NS, 'calendar-data');
+      // Deleted resources come back as a 404 without properties
+      return href && etag && data ? [{ href: resolveHref(href, this.collectionUrl), etag, data }] : [];
+    });
+  }
+
+  async put(href: string, data: string, etag?: string): Promise<string> {
+    const response = await this.request('PUT', href, {
+      body: data,
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' }) },
+    });
+    // Servers that rewrite the event leave out the ETag; ask for it
+    return response.headers.get('ETag') ?? (await this.multiget([href]))[0]?.etag ?? '';
+  }
+
+  async remove(href: string, etag: string): Promise<void> {
+    // Already gone is as good as deleted
+    await this.request('DELETE', href, { headers: { 'If-Match': etag } }, [404]);
+  }
+
+  private async request(method: string, url: string, init: { body?: string; headers: Record<string, string> }, allowed: number[] = []): Promise<Response> {
+    const headers = this.authorization ? { ...init.headers, Authorization: this.authorization } : init.headers;
+    let response: Response;
+    try {
+      response = await this.fetcher(url, { method, body: init.body, headers });
+    } catch (error) {
+      throw new PersistenceError('Calendar server unreachable', 'NETWORK', error);
+    }
+    if (response.status === 412) {
+      throw new PersistenceError('Event was changed in the calendar', 'CONFLICT');
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new PersistenceError('Calendar sign-in failed', 'UNAUTHORIZED');
+    }
+    if (!response.ok && !allowed.includes(response.status)) {
+      throw new PersistenceError(`Calendar request failed (${response.status})`, 'NETWORK');
+    }
+    return response;
+  }
+}
+
+// A new, not yet synced connection between a plan and a collection; only the username is kept
+export function linkCalendar(planId: string, collectionUrl: string, { username }: CalDavCredentials = {}, timeZone: string = localTimeZone()): CalendarLink {
+  const url = new URL(collectionUrl.trim());
+  if (!url.pathname.endsWith('/')) url.pathname += '/';
+  return {
+    key: `${CALENDAR_LINK_PREFIX}${planId}`,
+    planId,
+    collectionUrl: url.toString(),
+    ...(username ? { username } : {}),
+    timeZone,
+    events: {},
+  };
+}
+
+// Links saved by older versions kept the password too; this drops it
+export function withoutPassword(link: CalendarLink & { password?: string }): CalendarLink {
+  const stored = { ...link };
+  delete stored.password;
+  return stored;
+}
+
+/**
+ * Two-way sync of a dated plan with its calendar. Activities map to events by
+ * UID, and ETags tell which side changed since the last sync: one-sided edits
+ * and deletions carry over, an edit on both sides goes the calendar's way, and
+ * an edit beats a deletion. Locked activities always keep their local version.
+ */
+export async function syncCalendar(
+  client: CalDavClient,
+  activities: WeekendActivity[],
+  weekend: string,
+  link: CalendarLink,
+  options: CalendarSyncOptions = {},
+): Promise<CalendarSyncResult> {
+  const { reminderMins, now = new Date() } = options;
+  const report: CalendarSyncReport = { published: 0, deleted: 0, pulled: [], removed: [], conflicts: 0 };
+  const events: Record<string, LinkedEvent> = {};
+  let result = [...activities];
+
+  const toEvent = (activity: WeekendActivity): IcsEvent =>
+    planToCalendar([{ ...activity, seriesId: undefined, recurrence: undefined }], weekend, { timeZone: link.timeZone, reminderMins }).events[0];
+
+  // Take the calendar's version of an activity, or drop the activity when the event left the weekend
+  const pull = (id: string, resource: CalDavResource, base: WeekendActivity | undefined) => {
+    const event = readEvent(resource.data);
+    const pulled = event && fromEvent(event, id, weekend, link.timeZone, base);
+    result = result.filter(a => a.id !== id);
+    if (!pulled) {
+      if (base) report.removed.push(id);
+      return;
+    }
+    result.push(pulled);
+    events[id] = { href: resource.href, etag: resource.etag, fingerprint: JSON.stringify(toEvent(pulled)) };
+    report.pulled.push(id);
+  };
+
+  const publish = async (activity: WeekendActivity, href: string, etag?: string) => {
+    const event = toEvent(activity);
+    try {
+      const newEtag = await client.put(href, serializeCalendar({ events: [event] }, now), etag);
+      events[activity.id] = { href, etag: newEtag, fingerprint: JSON.stringify(event) };
+      report.published += 1;
+    } catch (error) {
+      if (!(error instanceof PersistenceError) || error.code !== 'CONFLICT') throw error;
+      // Changed in the calendar since we looked, or published from another device
+      const [current] = await client.multiget([href]);
+      if (current) {
+        pull(activity.id, current, activity);
+        report.conflicts += 1;
+      } else if (etag) {
+        // Deleted in the calendar meanwhile; an edit beats a deletion
+        await publish(activity, href);
+      } else {
+        throw error;
+      }
+    }
+  };
+
+  const linked = Object.entries(link.events);
+  const remote = new Map((await client.multiget(linked.map(([, e]) => e.href))).map(r => [r.href, r]));
+
+  for (const [id, last] of linked) {
+    const local = result.find(a => a.id === id);
+    const current = remote.get(last.href);
+    const localChanged = !!local && JSON.stringify(toEvent(local)) !== last.fingerprint;
+
+    if (!current) {
+      if (local && (localChanged || local.locked)) {
+        await publish(local, last.href);
+      } else if (local) {
+        result = result.filter(a => a.id !== id);
+        report.removed.push(id);
+      }
+      continue;
+    }
+
+    const remoteChanged = current.etag !== last.etag;
+    if (!local) {
+      if (remoteChanged) pull(id, current, undefined);
+      else {
+        await client.remove(last.href, last.etag);
+        report.deleted += 1;
+      }
+    } else if (remoteChanged && !local.locked) {
+      pull(id, current, local);
+      if (localChanged) report.conflicts += 1;
+    } else if (localChanged || remoteChanged) {
+      await publish(local, last.href, current.etag);
+    } else {
+      events[id] = last;
+    }
+  }
+
+  for (const activity of result.filter(a => !link.events[a.id])) {
+    await publish(activity, resolveHref(`${encodeURIComponent(toEvent(activity).uid)}.ics`, link.collectionUrl));
+  }
+
+  return {
+    activities: result,
+    link: { ...link, events, lastSync: now.toISOString() },
+    report,
+  };
+}
+
+function readEvent(data: string): IcsEvent | null {
+  try {
+    return parseCalendar(data).events.find(e => !e.recurrenceId) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// An event back as an activity; null when it no longer takes place at a time on the weekend
+function fromEvent(event: IcsEvent, id: string, weekend: string, timeZone: string, base?: WeekendActivity): WeekendActivity | null {
+  if (event.start.time === undefined) return null;
+  const start = toInstant(event.start, timeZone);
+  const wall = inZone(start, timeZone);
+  const day = WEEKEND_DAYS.find(d => toIsoDate(weekendDayDate(weekend, d)) === wall.date);
+  if (!day) return null;
+
+  const tags = event.categories?.map(c => c.toLowerCase());
+  const activity: WeekendActivity = {
+    ...base,
+    id,
+    title: event.summary || base?.title || 'Untitled',
+    category: CATEGORIES.find(c => tags?.includes(c)) ?? base?.category ?? 'other',
+    day,
+    start: wall.time!,
+    durationMins: Math.max(15, Math.round((toInstant(event.end, timeZone).getTime() - start.getTime()) / MINUTE_MS)),
+  };
+  const mood = tags ? MOODS.find(m => tags.includes(m)) : base?.mood;
+  if (mood) activity.mood = mood;
+  else delete activity.mood;
+  if (event.description) activity.notes = event.description;
+  else delete activity.notes;
+  if (event.location) {
+    const kept = base?.location?.name === event.location ? base.location : { name: event.location };
+    activity.location = event.geo ? { name: event.location, lat: event.geo.lat, lng: event.geo.lng } : kept;
+  } else {
+    delete activity.location;
+  }
+  return activity;
+}
+
+// Hrefs compare equal however the server escapes them
+function resolveHref(href: string, base: string): string {
+  const url = new URL(href, base);
+  url.pathname = url.pathname.split('/').map(segment => encodeURIComponent(decodeURIComponent(segment))).join('/');
+  return url.toString();
+}
+
+function childText(node: Element, namespace: string, name: string): string | undefined {
+  return node.getElementsByTagNameNS(namespace, name)[0]?.textContent?.trim() || undefined;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function base64(text: string): string {
+  const bytes = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return btoa(bytes);
+}
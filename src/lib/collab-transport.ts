@@ -0,0 +1,102 @@
+/**
+ * Transports for collaborative editing
+ * A transport delivers messages to the other members of a room, never back to the sender
+ */
+
+import type { CollabOp, CollabPresence } from './collab';
+
+export type CollabMessage =
+  | { kind: 'hello'; from: string } // a new member asking for the current state
+  | { kind: 'ops'; from: string; ops: CollabOp[] }
+  | { kind: 'presence'; from: string; presence: CollabPresence | null }; // null: member left
+
+export type CollabMessageListener = (message: CollabMessage) => void;
+
+export interface CollabTransport {
+  send(message: CollabMessage): void;
+  subscribe(listener: CollabMessageListener): () => void;
+  close(): void;
+}
+
+export const DEFAULT_RELAY_URL = process.env.NEXT_PUBLIC_COLLAB_RELAY_URL || 'ws://localhost:4455';
+
+/**
+ * Connects to a relay such as scripts/collab-relay.mjs. Messages sent before the
+ * socket opens are queued.
+ */
+export class WebSocketTransport implements CollabTransport {
+  private socket: WebSocket;
+  private queue: string[] = [];
+  private listeners = new Set<CollabMessageListener>();
+
+  constructor(room: string, url = DEFAULT_RELAY_URL) {
+    const endpoint = new URL(url);
+    endpoint.searchParams.set('room', room);
+    this.socket = new WebSocket(endpoint.toString());
+
+    this.socket.onopen = () => {
+      this.queue.forEach(data => this.socket.send(data));
+      this.queue = [];
+    };
+    this.socket.onmessage = (event: MessageEvent) => {
+      try {
+        const message = JSON.parse(String(event.data)) as CollabMessage;
+        this.listeners.forEach(listener => listener(message));
+      } catch (error) {
+        console.warn('Ignoring malformed collaboration message:', error);
+      }
+    };
+    this.socket.onerror = () => {
+      console.warn(`Collaboration relay unreachable at ${url}`);
+    };
+  }
+
+  send(message: CollabMessage): void {
+    const data = JSON.stringify(message);
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(data);
+    else if (this.socket.readyState === WebSocket.CONNECTING) this.queue.push(data);
+  }
+
+  subscribe(listener: CollabMessageListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  close(): void {
+    this.listeners.clear();
+    this.socket.close();
+  }
+}
+
+/**
+ * In-process rooms, for tests and for running several sessions in one page
+ */
+export class MemoryCollabHub {
+  private rooms = new Map<string, Set<CollabMessageListener>>();
+
+  connect(room: string): CollabTransport {
+    const members = this.rooms.get(room) ?? new Set<CollabMessageListener>();
+    this.rooms.set(room, members);
+    const own = new Set<CollabMessageListener>();
+    const deliver: CollabMessageListener = (message) => own.forEach(listener => listener(message));
+    members.add(deliver);
+
+    return {
+      send: (message) => {
+        // Round-trip through JSON and deliver asynchronously, like a socket would
+        const copy = JSON.stringify(message);
+        members.forEach(member => {
+          if (member !== deliver) queueMicrotask(() => member(JSON.parse(copy)));
+        });
+      },
+      subscribe: (listener) => {
+        own.add(listener);
+        return () => own.delete(listener);
+      },
+      close: () => {
+        own.clear();
+        members.delete(deliver);
+      },
+    };
+  }
+}
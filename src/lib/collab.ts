@@ -0,0 +1,302 @@
+/**
+ * Collaborative plan editing for Weekendly
+ * A small state-based CRDT over a plan's activities plus a session that syncs it
+ * through a CollabTransport
+ *
+ * Every activity field is a last-writer-wins register ordered by Lamport stamps, so
+ * concurrent moves and edits to different fields both survive and edits to the same
+ * field settle on the same value everywhere. Removal wins over concurrent edits, but
+ * adding an activity again after removing it brings it back: adding sets its `id`,
+ * and only fields set after the removal count.
+ */
+
+import type { CollabMessage, CollabTransport } from './collab-transport';
+import type { WeekendActivity } from './persistence';
+
+export interface Stamp {
+  clock: number;
+  replica: string;
+}
+
+export type CollabOp =
+  | { type: 'set'; activityId: string; field: string; value: unknown; stamp: Stamp }
+  | { type: 'remove'; activityId: string; stamp: Stamp };
+
+// What a collaborator is pointing at or dragging on the schedule
+export interface CollabPresence {
+  replica: string;
+  name: string;
+  color: string;
+  day?: WeekendActivity['day'];
+  minutes?: number; // minutes since midnight under the pointer
+  dragging?: { activityId?: string; title: string; durationMins: number };
+}
+
+interface Register {
+  value: unknown;
+  stamp: Stamp;
+}
+
+interface ActivityEntry {
+  fields: Record<string, Register>; // `id` is set when the activity is added, and orders the list
+  removed?: Stamp;
+}
+
+const PEER_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  return a.clock - b.clock || (a.replica < b.replica ? -1 : a.replica > b.replica ? 1 : 0);
+}
+
+export function createReplicaId(): string {
+  return `rep_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createRoomId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function colorForReplica(replica: string): string {
+  let hash = 0;
+  for (let i = 0; i < replica.length; i++) hash = (hash * 31 + replica.charCodeAt(i)) >>> 0;
+  return PEER_COLORS[hash % PEER_COLORS.length];
+}
+
+// The registers set since the activity was last removed (all of them if it never was)
+function liveFields(entry: ActivityEntry): Record<string, Register> {
+  const removed = entry.removed;
+  if (!removed) return entry.fields;
+  return Object.fromEntries(Object.entries(entry.fields).filter(([, register]) => compareStamps(register.stamp, removed) > 0));
+}
+
+export class PlanDoc {
+  private clock = 0;
+  private entries = new Map<string, ActivityEntry>();
+
+  constructor(readonly replica: string) {}
+
+  /**
+   * Apply a remote (or replayed) op. Ops are idempotent and commutative.
+   * Returns whether the visible activities may have changed.
+   */
+  apply(op: CollabOp): boolean {
+    this.clock = Math.max(this.clock, op.stamp.clock);
+
+    let entry = this.entries.get(op.activityId);
+    if (!entry) {
+      entry = { fields: {} };
+      this.entries.set(op.activityId, entry);
+    }
+
+    if (op.type === 'remove') {
+      if (entry.removed && compareStamps(entry.removed, op.stamp) >= 0) return false;
+      entry.removed = op.stamp;
+      return true;
+    }
+
+    const current = entry.fields[op.field];
+    if (current && compareStamps(current.stamp, op.stamp) >= 0) return false;
+    entry.fields[op.field] = { value: op.value, stamp: op.stamp };
+    return !entry.removed || compareStamps(op.stamp, entry.removed) > 0;
+  }
+
+  applyAll(ops: CollabOp[]): boolean {
+    let changed = false;
+    for (const op of ops) {
+      if (this.apply(op)) changed = true;
+    }
+    return changed;
+  }
+
+  /**
+   * Record the local edits that turn the current activities into `next`
+   */
+  update(next: WeekendActivity[]): CollabOp[] {
+    const ops: CollabOp[] = [];
+    const current = new Map(this.toActivities().map(a => [a.id, a]));
+    const nextIds = new Set(next.map(a => a.id));
+
+    for (const activity of next) {
+      const before = current.get(activity.id) as Record<string, unknown> | undefined;
+      const after = activity as unknown as Record<string, unknown>;
+      // A new (or re-added) activity sets its id too, marking it as added
+      const fields = new Set([...Object.keys(after), ...Object.keys(before ?? {})]);
+      for (const field of fields) {
+        if (before && JSON.stringify(before[field]) === JSON.stringify(after[field])) continue;
+        ops.push({ type: 'set', activityId: activity.id, field, value: after[field], stamp: this.tick() });
+      }
+    }
+    for (const id of current.keys()) {
+      if (!nextIds.has(id)) ops.push({ type: 'remove', activityId: id, stamp: this.tick() });
+    }
+
+    this.applyAll(ops);
+    return ops;
+  }
+
+  toActivities(): WeekendActivity[] {
+    return Array.from(this.entries.entries())
+      .map(([id, entry]) => [id, liveFields(entry)] as const)
+      .filter(([, fields]) => 'id' in fields && 'title' in fields)
+      .sort(([, a], [, b]) => compareStamps(a.id.stamp, b.id.stamp))
+      .map(([id, fields]) => {
+        const activity: Record<string, unknown> = { id };
+        for (const [field, register] of Object.entries(fields)) {
+          if (register.value !== undefined) activity[field] = register.value;
+        }
+        return activity as unknown as WeekendActivity;
+      });
+  }
+
+  /**
+   * Every op needed to rebuild this document, for members who join later
+   */
+  snapshot(): CollabOp[] {
+    const ops: CollabOp[] = [];
+    for (const [activityId, entry] of this.entries) {
+      for (const [field, register] of Object.entries(entry.fields)) {
+        ops.push({ type: 'set', activityId, field, value: register.value, stamp: register.stamp });
+      }
+      if (entry.removed) ops.push({ type: 'remove', activityId, stamp: entry.removed });
+    }
+    return ops;
+  }
+
+  private tick(): Stamp {
+    this.clock += 1;
+    return { clock: this.clock, replica: this.replica };
+  }
+}
+
+export interface CollabSessionOptions {
+  transport: CollabTransport;
+  name: string;
+  replica?: string;
+  // The plan to share, or null to adopt the room's plan when joining
+  initial: WeekendActivity[] | null;
+  // Used when joining a room nobody else is in
+  fallback?: () => WeekendActivity[];
+  joinTimeoutMs?: number;
+}
+
+export class CollabSession {
+  readonly replica: string;
+  readonly color: string;
+  private doc: PlanDoc;
+  private ready = false;
+  private joinTimer: ReturnType<typeof setTimeout> | null = null;
+  private presence: CollabPresence;
+  private peers = new Map<string, CollabPresence>();
+  private changeListeners = new Set<(activities: WeekendActivity[]) => void>();
+  private peerListeners = new Set<(peers: CollabPresence[]) => void>();
+  private unsubscribe: () => void;
+
+  constructor(private options: CollabSessionOptions) {
+    this.replica = options.replica ?? createReplicaId();
+    this.color = colorForReplica(this.replica);
+    this.doc = new PlanDoc(this.replica);
+    this.presence = { replica: this.replica, name: options.name, color: this.color };
+    this.unsubscribe = options.transport.subscribe(message => this.receive(message));
+
+    if (options.initial) {
+      this.doc.update(options.initial);
+      this.ready = true;
+      this.send({ kind: 'ops', from: this.replica, ops: this.doc.snapshot() });
+    } else {
+      this.joinTimer = setTimeout(() => this.seed(options.fallback?.() ?? []), options.joinTimeoutMs ?? 2000);
+    }
+    this.send({ kind: 'hello', from: this.replica });
+    this.send({ kind: 'presence', from: this.replica, presence: this.presence });
+  }
+
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  getActivities(): WeekendActivity[] {
+    return this.doc.toActivities();
+  }
+
+  getPeers(): CollabPresence[] {
+    return Array.from(this.peers.values());
+  }
+
+  /**
+   * Share local edits. Ignored until the room's plan has been received.
+   */
+  update(activities: WeekendActivity[]): void {
+    if (!this.ready) return;
+    const ops = this.doc.update(activities);
+    if (ops.length > 0) this.send({ kind: 'ops', from: this.replica, ops });
+  }
+
+  setPresence(update: Partial<Omit<CollabPresence, 'replica' | 'color'>>): void {
+    this.presence = { ...this.presence, ...update };
+    this.send({ kind: 'presence', from: this.replica, presence: this.presence });
+  }
+
+  onChange(listener: (activities: WeekendActivity[]) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  onPeersChange(listener: (peers: CollabPresence[]) => void): () => void {
+    this.peerListeners.add(listener);
+    return () => this.peerListeners.delete(listener);
+  }
+
+  leave(): void {
+    if (this.joinTimer) clearTimeout(this.joinTimer);
+    this.send({ kind: 'presence', from: this.replica, presence: null });
+    this.unsubscribe();
+    this.options.transport.close();
+    this.changeListeners.clear();
+    this.peerListeners.clear();
+  }
+
+  private seed(activities: WeekendActivity[]): void {
+    this.joinTimer = null;
+    if (this.ready) return;
+    this.ready = true;
+    const ops = this.doc.update(activities);
+    if (ops.length > 0) this.send({ kind: 'ops', from: this.replica, ops });
+    this.emitChange();
+  }
+
+  private receive(message: CollabMessage): void {
+    if (message.from === this.replica) return;
+
+    switch (message.kind) {
+      case 'hello':
+        if (this.ready) this.send({ kind: 'ops', from: this.replica, ops: this.doc.snapshot() });
+        this.send({ kind: 'presence', from: this.replica, presence: this.presence });
+        break;
+      case 'ops': {
+        const changed = this.doc.applyAll(message.ops);
+        if (!this.ready) {
+          if (this.joinTimer) clearTimeout(this.joinTimer);
+          this.joinTimer = null;
+          this.ready = true;
+          this.emitChange();
+        } else if (changed) {
+          this.emitChange();
+        }
+        break;
+      }
+      case 'presence':
+        if (message.presence) this.peers.set(message.from, message.presence);
+        else this.peers.delete(message.from);
+        this.peerListeners.forEach(listener => listener(this.getPeers()));
+        break;
+    }
+  }
+
+  private emitChange(): void {
+    const activities = this.doc.toActivities();
+    this.changeListeners.forEach(listener => listener(activities));
+  }
+
+  private send(message: CollabMessage): void {
+    this.options.transport.send(message);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Cross-tab change notifications for Weekendly
+ * BroadcastChannel where available, falling back to localStorage `storage` events
+ */
+
+import type { WeekendPlan } from './persistence';
+
+export interface PlanChange {
+  type: 'saved' | 'deleted';
+  planId: string;
+  theme: WeekendPlan['theme'];
+  version: number;
+  source: string; // id of the tab that made the change
+}
+
+export type PlanChangeListener = (change: PlanChange) => void;
+
+export interface PlanChangeChannel {
+  post(change: PlanChange): void;
+  subscribe(listener: PlanChangeListener): () => void;
+  close(): void;
+}
+
+/**
+ * Open a channel shared by every tab using the same database
+ */
+export function createPlanChangeChannel(name: string): PlanChangeChannel | null {
+  if (typeof window === 'undefined') return null;
+  if (typeof BroadcastChannel !== 'undefined') return broadcastChannel(name);
+  if (window.localStorage) return storageEventChannel(name);
+  return null;
+}
+
+function broadcastChannel(name: string): PlanChangeChannel {
+  const channel = new BroadcastChannel(name);
+  const listeners = new Set<PlanChangeListener>();
+
+  channel.onmessage = (event: MessageEvent<PlanChange>) => {
+    if (isPlanChange(event.data)) listeners.forEach(listener => listener(event.data));
+  };
+
+  return {
+    post: (change) => channel.postMessage(change),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => {
+      listeners.clear();
+      channel.close();
+    },
+  };
+}
+
+// `storage` events only fire in the other tabs, which is exactly what we want
+function storageEventChannel(name: string): PlanChangeChannel {
+  const key = `weekendly.broadcast.${name}`;
+  const listeners = new Set<PlanChangeListener>();
+
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== key || !event.newValue) return;
+    try {
+      const { change } = JSON.parse(event.newValue);
+      if (isPlanChange(change)) listeners.forEach(listener => listener(change));
+    } catch (error) {
+      console.warn('Ignoring malformed cross-tab message:', error);
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  return {
+    post: (change) => {
+      try {
+        // The nonce makes repeated identical messages still count as a change
+        window.localStorage.setItem(key, JSON.stringify({ change, nonce: Math.random() }));
+      } catch (error) {
+        console.warn('Failed to broadcast plan change:', error);
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close: () => {
+      listeners.clear();
+      window.removeEventListener('storage', onStorage);
+    },
+  };
+}
+
+function isPlanChange(value: unknown): value is PlanChange {
+  const change = value as PlanChange | null;
+  return !!change
+    && (change.type === 'saved' || change.type === 'deleted')
+    && typeof change.planId === 'string'
+    && typeof change.version === 'number'
+    && typeof change.source === 'string';
+}
@@ -0,0 +1,13 @@
+/**
+ * Calendar dates for Weekendly
+ * ISO dates (YYYY-MM-DD) in local time, shared by weekends and public holidays
+ */
+
+export function parseIsoDate(iso: string): Date {
+  const [y, m, d] = iso.split('-').map(n => parseInt(n, 10));
+  return new Date(y, m - 1, d);
+}
+
+export function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,155 @@
+/**
+ * Activity dependencies for Weekendly
+ * Ordering rules between activities (one comes first, optionally on the same day
+ * and with a minimum gap), the moves that break them, and links for the timeline
+ */
+
+import type { WeekendActivity } from './persistence';
+import { toMinutes } from './time';
+import { capitalize } from './utils';
+import { WEEKEND_DAYS, type WeekendDay } from './weekends';
+
+type Ordered = Pick<WeekendActivity, 'id' | 'title' | 'day' | 'start' | 'durationMins' | 'dependsOn'>;
+
+export type DependencyRule = 'precede' | 'same-day' | 'min-gap';
+
+export interface DependencyViolation<T extends Ordered = Ordered> {
+  rule: DependencyRule;
+  first: T; // the activity that has to come first
+  then: T; // the one that depends on it
+  message: string;
+}
+
+// One dependency as drawn on the later activity's day
+export interface DependencyLink {
+  id: string;
+  firstId: string;
+  thenId: string;
+  day: WeekendDay;
+  fromMins: number | null; // when the first activity ends; null when it's on another day
+  toMins: number; // when the later one starts
+  broken: boolean;
+  label: string;
+}
+
+const DAY_MINS = 24 * 60;
+
+/**
+ * Every broken rule in the plan, at most one per dependency: a different day
+ * first, then the order, then the gap. Dependencies on missing activities are ignored.
+ */
+export function dependencyViolations<T extends Ordered>(activities: T[]): DependencyViolation<T>[] {
+  const byId = new Map(activities.map(a => [a.id, a]));
+  const violations: DependencyViolation<T>[] = [];
+  for (const then of activities) {
+    for (const dependency of then.dependsOn ?? []) {
+      const first = byId.get(dependency.activityId);
+      if (!first || first === then) continue;
+      const gapMins = absoluteStart(then) - absoluteEnd(first);
+      if (dependency.sameDay && first.day !== then.day) {
+        violations.push({ rule: 'same-day', first, then, message: `${then.title} has to be on the same day as ${first.title}.` });
+      } else if (gapMins < 0) {
+        violations.push({ rule: 'precede', first, then, message: `${first.title} has to finish before ${then.title} starts.` });
+      } else if (dependency.minGapMins && gapMins < dependency.minGapMins) {
+        violations.push({
+          rule: 'min-gap',
+          first,
+          then,
+          message: `${then.title} has to start at least ${dependency.minGapMins} min after ${first.title} ends, but there ${gapMins === 1 ? 'is' : 'are'} only ${gapMins} min.`,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+// Rules `after` breaks that `before` didn't; rules broken already don't block further changes
+export function newViolations<T extends Ordered>(before: T[], after: T[]): DependencyViolation<T>[] {
+  const existing = new Set(dependencyViolations(before).map(violationKey));
+  return dependencyViolations(after).filter(v => !existing.has(violationKey(v)));
+}
+
+/**
+ * Rules broken by putting `candidate` where it is, in place of the activity with
+ * its id or as a new one
+ */
+export function dependencyConflicts<T extends Ordered>(activities: T[], candidate: T): DependencyViolation<T>[] {
+  const placed = activities.some(a => a.id === candidate.id)
+    ? activities.map(a => (a.id === candidate.id ? candidate : a))
+    : [...activities, candidate];
+  return newViolations(activities, placed);
+}
+
+// Links for the dependencies of activities on `day`
+export function dependencyLinks(activities: Ordered[], day: WeekendDay): DependencyLink[] {
+  const byId = new Map(activities.map(a => [a.id, a]));
+  const broken = new Set(dependencyViolations(activities).map(v => `${v.first.id}->${v.then.id}`));
+  const links: DependencyLink[] = [];
+  for (const then of activities.filter(a => a.day === day)) {
+    for (const dependency of then.dependsOn ?? []) {
+      const first = byId.get(dependency.activityId);
+      if (!first || first === then) continue;
+      const id = `${first.id}->${then.id}`;
+      const sameDay = first.day === day;
+      const details = [
+        sameDay ? '' : ` on ${capitalize(first.day)}`,
+        dependency.sameDay ? ', same day' : '',
+        dependency.minGapMins ? `, ${dependency.minGapMins} min gap` : '',
+      ].join('');
+      links.push({
+        id,
+        firstId: first.id,
+        thenId: then.id,
+        day,
+        fromMins: sameDay ? toMinutes(first.start) + first.durationMins : null,
+        toMins: toMinutes(then.start),
+        broken: broken.has(id),
+        label: `After ${first.title}${details}`,
+      });
+    }
+  }
+  return links;
+}
+
+/**
+ * Whether `activityId` may depend on `otherId`: not itself, and not something
+ * that already depends on it, directly or through others
+ */
+export function canDependOn(activities: Ordered[], activityId: string, otherId: string): boolean {
+  if (activityId === otherId) return false;
+  const byId = new Map(activities.map(a => [a.id, a]));
+  const seen = new Set<string>();
+  const stack = [otherId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === activityId) return false;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    for (const dependency of byId.get(id)?.dependsOn ?? []) stack.push(dependency.activityId);
+  }
+  return true;
+}
+
+// Remove an activity along with the rules that pointed at it
+export function removeWithDependencies<T extends Ordered>(activities: T[], id: string): T[] {
+  return activities
+    .filter(a => a.id !== id)
+    .map(a => {
+      if (!a.dependsOn?.some(d => d.activityId === id)) return a;
+      const dependsOn = a.dependsOn.filter(d => d.activityId !== id);
+      return { ...a, dependsOn: dependsOn.length > 0 ? dependsOn : undefined };
+    });
+}
+
+// Minutes from the start of Friday, so order holds across days
+function absoluteStart(a: Ordered): number {
+  return WEEKEND_DAYS.indexOf(a.day) * DAY_MINS + toMinutes(a.start);
+}
+
+function absoluteEnd(a: Ordered): number {
+  return absoluteStart(a) + a.durationMins;
+}
+
+function violationKey(v: DependencyViolation): string {
+  return `${v.rule}:${v.first.id}->${v.then.id}`;
+}
@@ -0,0 +1,332 @@
+/**
+ * Energy balance for Weekendly
+ * How demanding each stretch of the weekend is, from activity moods and difficulty,
+ * with the problems that stand out and swaps or rest blocks that fix them
+ */
+
+import { newViolations } from './dependencies';
+import { activitiesOverlap } from './overlap';
+import type { WeekendActivity } from './persistence';
+import { DEFAULT_DAY_HOURS, timelineHours, toMinutes, toTimeString, type DayHours } from './time';
+import { capitalize } from './utils';
+import type { ScheduleDay, WeekendDay } from './weekends';
+
+type Mood = NonNullable<WeekendActivity['mood']>;
+type Difficulty = NonNullable<WeekendActivity['difficulty']>;
+
+export type EnergyIssueKind = 'back-to-back' | 'no-downtime' | 'unbalanced';
+
+export type EnergySuggestion =
+  | { kind: 'swap'; a: string; b: string; description: string } // trade the places of two activities
+  | { kind: 'rest'; day: WeekendDay; start: string; durationMins: number; description: string }; // later activities move along
+
+export interface EnergyIssue {
+  kind: EnergyIssueKind;
+  day: WeekendDay;
+  message: string;
+  activityIds: string[];
+  suggestion?: EnergySuggestion;
+}
+
+export interface EnergyPoint {
+  mins: number;
+  energy: number; // 0 when nothing is on
+}
+
+export interface EnergyOptions {
+  hours?: DayHours;
+  stepMins?: number; // curve resolution; default 30
+}
+
+// Scale from 0 (free time) to 4 (hard and energetic)
+export const MAX_ENERGY = 4;
+
+export const MOOD_ENERGY: Record<Mood, number> = { chill: 1, focus: 2, social: 2, energetic: 3 };
+
+const DIFFICULTY_ENERGY: Record<Difficulty, number> = { easy: 0, medium: 0.5, hard: 1 };
+
+// An activity with no mood counts as middling
+const UNKNOWN_MOOD_ENERGY = 1.5;
+
+// Activities at or above this level are demanding
+const DEMANDING_ENERGY = 3;
+
+// Gaps shorter than this don't count as a break between activities
+const MIN_BREAK_MINS = 30;
+
+// Demanding activities in a row, breaks aside, that make a run worth flagging
+const MAX_RUN = 3;
+
+// A day needs a chill activity or a free stretch this long
+const DOWNTIME_MINS = 60;
+
+const REST_MINS = 30;
+
+// Difference in energy load (level × hours) between days that counts as lopsided
+const UNBALANCED_LOAD = 3;
+
+const COUNT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six'];
+
+export function activityEnergy(activity: Pick<WeekendActivity, 'mood' | 'difficulty'>): number {
+  const mood = activity.mood ? MOOD_ENERGY[activity.mood] : UNKNOWN_MOOD_ENERGY;
+  return mood + (activity.difficulty ? DIFFICULTY_ENERGY[activity.difficulty] : 0);
+}
+
+export function isDemanding(activity: Pick<WeekendActivity, 'mood' | 'difficulty'>): boolean {
+  return activityEnergy(activity) >= DEMANDING_ENERGY;
+}
+
+// Energy level times hours, summed over the day
+export function dayLoad(activities: WeekendActivity[], day: WeekendDay): number {
+  return activities
+    .filter(a => a.day === day)
+    .reduce((sum, a) => sum + activityEnergy(a) * (a.durationMins / 60), 0);
+}
+
+/**
+ * Energy through one day in `stepMins` steps across the timeline's hours. Where
+ * activities overlap, the most demanding one sets the level.
+ */
+export function energyCurve(activities: WeekendActivity[], day: WeekendDay, { hours = DEFAULT_DAY_HOURS, stepMins = 30 }: EnergyOptions = {}): EnergyPoint[] {
+  const dayActs = activities.filter(a => a.day === day);
+  const { startHour, endHour } = timelineHours(hours, dayActs);
+  const points: EnergyPoint[] = [];
+  for (let mins = startHour * 60; mins <= endHour * 60; mins += stepMins) {
+    const energy = dayActs.reduce((max, a) => {
+      const start = toMinutes(a.start);
+      return mins < start + a.durationMins && start < mins + stepMins ? Math.max(max, activityEnergy(a)) : max;
+    }, 0);
+    points.push({ mins, energy });
+  }
+  return points;
+}
+
+/**
+ * Problems with how the weekend's energy is spread, most local first: runs of
+ * demanding activities, days without downtime, then days far more tiring than others
+ */
+export function analyzeEnergy(activities: WeekendActivity[], days: ScheduleDay[], { hours = DEFAULT_DAY_HOURS }: EnergyOptions = {}): EnergyIssue[] {
+  const issues: EnergyIssue[] = [];
+
+  for (const { day } of days) {
+    const dayActs = sortedDay(activities, day);
+    for (const run of demandingRuns(dayActs)) {
+      issues.push({
+        kind: 'back-to-back',
+        day,
+        message: `${capitalize(countWord(run.length))} demanding activities back to back on ${capitalize(day)}`,
+        activityIds: run.map(a => a.id),
+        suggestion: breakUpRun(activities, run, hours),
+      });
+    }
+
+    if (dayActs.length >= 3 && !hasDowntime(dayActs)) {
+      const after = dayActs[Math.floor(dayActs.length / 2) - 1];
+      issues.push({
+        kind: 'no-downtime',
+        day,
+        message: `No downtime on ${capitalize(day)}`,
+        activityIds: dayActs.map(a => a.id),
+        suggestion: restAfter(activities, after, hours),
+      });
+    }
+  }
+
+  const loads = days.map(({ day }) => ({ day, load: dayLoad(activities, day) }));
+  if (loads.length > 1) {
+    const heavy = loads.reduce((a, b) => (b.load > a.load ? b : a));
+    const light = loads.reduce((a, b) => (b.load < a.load ? b : a));
+    if (heavy.load - light.load >= UNBALANCED_LOAD) {
+      issues.push({
+        kind: 'unbalanced',
+        day: heavy.day,
+        message: `${capitalize(heavy.day)} is much more tiring than ${capitalize(light.day)}`,
+        activityIds: activities.filter(a => a.day === heavy.day && isDemanding(a)).map(a => a.id),
+        suggestion: rebalance(activities, heavy.day, light.day),
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function applySuggestion(activities: WeekendActivity[], suggestion: EnergySuggestion): WeekendActivity[] {
+  if (suggestion.kind === 'swap') return swapActivities(activities, suggestion.a, suggestion.b);
+  return insertRest(activities, suggestion.day, toMinutes(suggestion.start), suggestion.durationMins);
+}
+
+/**
+ * Trade the places of two activities. On the same day the stretch between them is
+ * kept, just reordered; across days each takes the other's day and start.
+ */
+export function swapActivities(activities: WeekendActivity[], aId: string, bId: string): WeekendActivity[] {
+  const a = activities.find(x => x.id === aId);
+  const b = activities.find(x => x.id === bId);
+  if (!a || !b) return activities;
+
+  if (a.day !== b.day) {
+    return activities.map(x =>
+      x.id === a.id ? { ...x, day: b.day, start: b.start } : x.id === b.id ? { ...x, day: a.day, start: a.start } : x
+    );
+  }
+
+  const [first, second] = toMinutes(a.start) <= toMinutes(b.start) ? [a, b] : [b, a];
+  const firstStart = toMinutes(first.start);
+  const firstEnd = firstStart + first.durationMins;
+  const secondStart = toMinutes(second.start);
+  const shift = second.durationMins - first.durationMins;
+  return activities.map(x => {
+    if (x.id === first.id) return { ...x, start: toTimeString(secondStart + second.durationMins - first.durationMins) };
+    if (x.id === second.id) return { ...x, start: first.start };
+    const start = toMinutes(x.start);
+    const between = x.day === first.day && start >= firstEnd && start + x.durationMins <= secondStart;
+    return between ? { ...x, start: toTimeString(start + shift) } : x;
+  });
+}
+
+/**
+ * A chill rest block at `startMins`; activities on the day from there on move
+ * later just enough to make room, and those with time to spare stay put
+ */
+export function insertRest(activities: WeekendActivity[], day: WeekendDay, startMins: number, durationMins = REST_MINS): WeekendActivity[] {
+  // Each later activity moves only as far as the one before it now needs
+  const starts = new Map<string, number>();
+  let cursor = startMins + durationMins;
+  for (const a of sortedDay(activities, day).filter(a => toMinutes(a.start) >= startMins)) {
+    const start = Math.max(toMinutes(a.start), cursor);
+    starts.set(a.id, start);
+    cursor = start + a.durationMins;
+  }
+  const rest: WeekendActivity = {
+    id: `rest_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    title: 'Rest',
+    category: 'home',
+    day,
+    start: toTimeString(startMins),
+    durationMins,
+    mood: 'chill',
+    difficulty: 'easy',
+  };
+  const moved = activities.map(a => {
+    const start = starts.get(a.id);
+    return start !== undefined && start !== toMinutes(a.start) ? { ...a, start: toTimeString(start) } : a;
+  });
+  return [...moved, rest];
+}
+
+function sortedDay(activities: WeekendActivity[], day: WeekendDay): WeekendActivity[] {
+  return activities.filter(a => a.day === day).sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+}
+
+// Runs of at least MAX_RUN demanding activities with no real break between them
+function demandingRuns(dayActs: WeekendActivity[]): WeekendActivity[][] {
+  const runs: WeekendActivity[][] = [];
+  let run: WeekendActivity[] = [];
+  let runEnd = -Infinity;
+  for (const a of dayActs) {
+    const start = toMinutes(a.start);
+    if (!isDemanding(a)) {
+      if (start < runEnd) continue; // alongside the run, not a break from it
+      if (run.length >= MAX_RUN) runs.push(run);
+      run = [];
+      continue;
+    }
+    if (run.length && start - runEnd >= MIN_BREAK_MINS) {
+      if (run.length >= MAX_RUN) runs.push(run);
+      run = [];
+    }
+    run.push(a);
+    runEnd = Math.max(run.length > 1 ? runEnd : -Infinity, start + a.durationMins);
+  }
+  if (run.length >= MAX_RUN) runs.push(run);
+  return runs;
+}
+
+function hasDowntime(dayActs: WeekendActivity[]): boolean {
+  if (dayActs.some(a => a.mood === 'chill')) return true;
+  let end = toMinutes(dayActs[0].start) + dayActs[0].durationMins;
+  for (const a of dayActs.slice(1)) {
+    const start = toMinutes(a.start);
+    if (start - end >= DOWNTIME_MINS) return true;
+    end = Math.max(end, start + a.durationMins);
+  }
+  return false;
+}
+
+// Swap a calmer activity into the run if one on the same day can take its place, else rest partway through
+function breakUpRun(activities: WeekendActivity[], run: WeekendActivity[], hours: DayHours): EnergySuggestion | undefined {
+  const day = run[0].day;
+  const calmer = sortedDay(activities, day).filter(a => !isDemanding(a));
+  for (const inRun of run.slice(1, -1)) {
+    for (const calm of calmer) {
+      const swapped = swapActivities(activities, inRun.id, calm.id);
+      if (!keepsRules(activities, swapped)) continue;
+      if (demandingRuns(sortedDay(swapped, day)).length < demandingRuns(sortedDay(activities, day)).length && !addsOverlap(activities, swapped)) {
+        return { kind: 'swap', a: inRun.id, b: calm.id, description: `Swap ${inRun.title} with ${calm.title}` };
+      }
+    }
+  }
+  return restAfter(activities, run[Math.floor(run.length / 2) - 1] ?? run[0], hours);
+}
+
+// A rest block right after `after`, as long as the day still ends within the planning hours
+function restAfter(activities: WeekendActivity[], after: WeekendActivity, hours: DayHours): EnergySuggestion | undefined {
+  const start = toMinutes(after.start) + after.durationMins;
+  const rested = insertRest(activities, after.day, start);
+  if (!keepsRules(activities, rested)) return undefined;
+  const lastEnd = rested.filter(a => a.day === after.day).reduce((max, a) => Math.max(max, toMinutes(a.start) + a.durationMins), 0);
+  const before = activities.filter(a => a.day === after.day).reduce((max, a) => Math.max(max, toMinutes(a.start) + a.durationMins), 0);
+  if (lastEnd > Math.max(hours.endMins, before)) return undefined;
+  return {
+    kind: 'rest',
+    day: after.day,
+    start: toTimeString(start),
+    durationMins: REST_MINS,
+    description: `Add ${REST_MINS} minutes of rest after ${after.title}`,
+  };
+}
+
+// The cross-day swap of a demanding and a calmer activity that evens out the two days most
+function rebalance(activities: WeekendActivity[], heavyDay: WeekendDay, lightDay: WeekendDay): EnergySuggestion | undefined {
+  const gap = (list: WeekendActivity[]) => Math.abs(dayLoad(list, heavyDay) - dayLoad(list, lightDay));
+  let best: { a: WeekendActivity; b: WeekendActivity; gap: number } | null = null;
+  for (const a of activities.filter(x => x.day === heavyDay && isDemanding(x))) {
+    for (const b of activities.filter(x => x.day === lightDay && !isDemanding(x))) {
+      const swapped = swapActivities(activities, a.id, b.id);
+      if (addsOverlap(activities, swapped) || !keepsRules(activities, swapped)) continue;
+      const after = gap(swapped);
+      if (after < gap(activities) && (!best || after < best.gap)) best = { a, b, gap: after };
+    }
+  }
+  return best
+    ? { kind: 'swap', a: best.a.id, b: best.b.id, description: `Move ${best.a.title} to ${capitalize(lightDay)} and ${best.b.title} to ${capitalize(heavyDay)}` }
+    : undefined;
+}
+
+// No suggestion may move a locked activity or break an ordering rule
+function keepsRules(before: WeekendActivity[], after: WeekendActivity[]): boolean {
+  const movesLocked = before.some(a => {
+    if (!a.locked) return false;
+    const moved = after.find(x => x.id === a.id);
+    return !!moved && (moved.day !== a.day || moved.start !== a.start);
+  });
+  return !movesLocked && newViolations(before, after).length === 0;
+}
+
+function addsOverlap(before: WeekendActivity[], after: WeekendActivity[]): boolean {
+  return countOverlaps(after) > countOverlaps(before);
+}
+
+function countOverlaps(activities: WeekendActivity[]): number {
+  let count = 0;
+  for (let i = 0; i < activities.length; i++) {
+    for (let j = i + 1; j < activities.length; j++) {
+      if (activitiesOverlap(activities[i], activities[j])) count++;
+    }
+  }
+  return count;
+}
+
+function countWord(n: number): string {
+  return COUNT_WORDS[n] ?? String(n);
+}
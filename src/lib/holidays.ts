@@ -0,0 +1,122 @@
+/**
+ * Public holidays for Weekendly
+ * Observed public holidays per region, used to turn a weekend into a long weekend
+ */
+
+import { toIsoDate } from './dates';
+
+export type HolidayRegion = 'none' | 'us' | 'gb';
+
+export interface Holiday {
+  date: string; // ISO date the holiday is observed on
+  name: string;
+}
+
+export const HOLIDAY_REGION_NAMES: Record<HolidayRegion, string> = {
+  none: 'None',
+  us: 'United States',
+  gb: 'England & Wales',
+};
+
+const cache = new Map<string, Holiday[]>();
+
+/**
+ * Observed public holidays of a year, in date order
+ */
+export function publicHolidays(year: number, region: HolidayRegion): Holiday[] {
+  const key = `${region}:${year}`;
+  let holidays = cache.get(key);
+  if (!holidays) {
+    holidays = (region === 'us' ? usHolidays(year) : region === 'gb' ? gbHolidays(year) : [])
+      .sort((a, b) => a.date.localeCompare(b.date));
+    cache.set(key, holidays);
+  }
+  return holidays;
+}
+
+export function holidayOn(date: Date, region: HolidayRegion): Holiday | null {
+  const iso = toIsoDate(date);
+  return publicHolidays(date.getFullYear(), region).find(h => h.date === iso) ?? null;
+}
+
+// US federal holidays; one falling on a Saturday is observed the Friday before, on a Sunday the Monday after
+function usHolidays(year: number): Holiday[] {
+  const observed = (month: number, day: number, name: string): Holiday => {
+    const date = new Date(year, month, day);
+    if (date.getDay() === 6) date.setDate(day - 1);
+    if (date.getDay() === 0) date.setDate(day + 1);
+    return { date: toIsoDate(date), name };
+  };
+  return [
+    observed(0, 1, "New Year's Day"),
+    { date: toIsoDate(nthWeekday(year, 0, 1, 3)), name: 'Martin Luther King Jr. Day' },
+    { date: toIsoDate(nthWeekday(year, 1, 1, 3)), name: "Washington's Birthday" },
+    { date: toIsoDate(lastWeekday(year, 4, 1)), name: 'Memorial Day' },
+    observed(5, 19, 'Juneteenth'),
+    observed(6, 4, 'Independence Day'),
+    { date: toIsoDate(nthWeekday(year, 8, 1, 1)), name: 'Labor Day' },
+    { date: toIsoDate(nthWeekday(year, 9, 1, 2)), name: 'Columbus Day' },
+    observed(10, 11, 'Veterans Day'),
+    { date: toIsoDate(nthWeekday(year, 10, 4, 4)), name: 'Thanksgiving Day' },
+    observed(11, 25, 'Christmas Day'),
+  ];
+}
+
+// Bank holidays in England and Wales; ones falling on a weekend move to the next free weekday
+function gbHolidays(year: number): Holiday[] {
+  const easter = easterSunday(year);
+  const goodFriday = new Date(easter);
+  goodFriday.setDate(easter.getDate() - 2);
+  const easterMonday = new Date(easter);
+  easterMonday.setDate(easter.getDate() + 1);
+
+  const taken = new Set<string>();
+  const substitute = (month: number, day: number, name: string): Holiday => {
+    const date = new Date(year, month, day);
+    while (date.getDay() === 0 || date.getDay() === 6 || taken.has(toIsoDate(date))) date.setDate(date.getDate() + 1);
+    taken.add(toIsoDate(date));
+    return { date: toIsoDate(date), name };
+  };
+  return [
+    substitute(0, 1, "New Year's Day"),
+    { date: toIsoDate(goodFriday), name: 'Good Friday' },
+    { date: toIsoDate(easterMonday), name: 'Easter Monday' },
+    { date: toIsoDate(nthWeekday(year, 4, 1, 1)), name: 'Early May bank holiday' },
+    { date: toIsoDate(lastWeekday(year, 4, 1)), name: 'Spring bank holiday' },
+    { date: toIsoDate(lastWeekday(year, 7, 1)), name: 'Summer bank holiday' },
+    substitute(11, 25, 'Christmas Day'),
+    substitute(11, 26, 'Boxing Day'),
+  ];
+}
+
+// nth (1-based) given weekday of a month
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const date = new Date(year, month, 1);
+  date.setDate(1 + ((weekday - date.getDay() + 7) % 7) + (n - 1) * 7);
+  return date;
+}
+
+function lastWeekday(year: number, month: number, weekday: number): Date {
+  const date = new Date(year, month + 1, 0);
+  date.setDate(date.getDate() - ((date.getDay() - weekday + 7) % 7));
+  return date;
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
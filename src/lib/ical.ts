@@ -0,0 +1,709 @@
+/**
+ * iCalendar for Weekendly
+ * RFC 5545 calendars: serializing with TZID times, a generated VTIMEZONE, line
+ * folding, escaping and reminders, parsing them back, expanding recurring
+ * events, and weekend plans as events
+ */
+
+import { toIsoDate } from './dates';
+import type { WeekendActivity } from './persistence';
+import { firstOccurrence, toRRule, type Routine } from './recurrence';
+import { capitalize } from './utils';
+import { weekendDayDate } from './weekends';
+
+export const ICS_PRODUCT_ID = '-//Weekendly//Planner//EN';
+
+// A date and wall-clock time as a calendar writes it
+export interface IcsDateTime {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM; missing for all-day dates
+  timeZone?: string; // IANA name, or 'UTC'; floating when missing
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: IcsDateTime;
+  end: IcsDateTime;
+  description?: string;
+  location?: string;
+  geo?: { lat: number; lng: number };
+  categories?: string[];
+  rrule?: string; // e.g. "FREQ=WEEKLY;BYDAY=SA"
+  exdates?: IcsDateTime[];
+  recurrenceId?: IcsDateTime; // set on a changed occurrence of a recurring event with the same UID
+  alarmMins?: number; // a reminder this long before the start
+}
+
+// One time an event takes place
+export interface EventOccurrence {
+  start: Date;
+  end: Date;
+  allDay: boolean;
+}
+
+export interface IcsCalendar {
+  name?: string;
+  events: IcsEvent[];
+}
+
+// One content line, e.g. DTSTART;TZID=Europe/Berlin:20261024T080000
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+export interface PlanCalendarOptions {
+  timeZone: string;
+  reminderMins?: number; // 0 or missing for no reminders
+  routines?: Routine[]; // the stored rules, which have the latest end dates and skipped weekends
+  name?: string;
+}
+
+export class IcsParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'IcsParseError';
+    this.line = line;
+  }
+}
+
+// Content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// RRULE day codes by Date.getUTCDay()
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Recurrence periods walked before giving up on reaching a window
+const MAX_PERIODS = 100000;
+
+// The zone this browser plans in
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * One weekend plan as calendar events. Occurrences of a routine share the
+ * series' UID, so every weekend's export updates the same recurring event: the
+ * series as the routine has it, plus a RECURRENCE-ID override when this
+ * weekend's occurrence was changed. Other activities get a UID from their id
+ * and weekend, so re-exports update instead of duplicating.
+ */
+export function planToCalendar(activities: WeekendActivity[], weekend: string, options: PlanCalendarOptions): IcsCalendar {
+  const { timeZone, reminderMins, routines = [] } = options;
+  const at = (w: string, a: WeekendActivity): IcsDateTime => ({ date: toIsoDate(weekendDayDate(w, a.day)), time: a.start, timeZone });
+  const toEvent = (a: WeekendActivity, uid: string, start: IcsDateTime): IcsEvent => {
+    const event: IcsEvent = {
+      uid,
+      summary: a.title,
+      start,
+      end: addMinutes(start, a.durationMins),
+      categories: [capitalize(a.category), ...(a.mood ? [capitalize(a.mood)] : [])],
+    };
+    if (a.notes) event.description = a.notes;
+    if (a.location) {
+      event.location = a.location.name;
+      if (a.location.lat !== undefined && a.location.lng !== undefined) event.geo = { lat: a.location.lat, lng: a.location.lng };
+    }
+    if (reminderMins) event.alarmMins = reminderMins;
+    return event;
+  };
+
+  const events = activities.flatMap((a): IcsEvent[] => {
+    // The series this is an occurrence of; without its routine, the occurrence's own copy of it
+    const series: Routine | undefined = routines.find(r => r.id === a.seriesId)
+      ?? (a.recurrence ? { ...a, recurrence: a.recurrence } : undefined);
+    if (!series) return [toEvent(a, `${a.id}-${weekend}@weekendly`, at(weekend, a))];
+
+    const uid = `${a.seriesId ?? a.id}@weekendly`;
+    const { recurrence } = series;
+    const master: IcsEvent = {
+      ...toEvent(series, uid, at(firstOccurrence(recurrence, series.day), series)),
+      rrule: toRRule(recurrence, series.day),
+    };
+    if (recurrence.exceptions?.length) master.exdates = recurrence.exceptions.map(w => at(w, series));
+
+    // Changed this weekend only: override the one occurrence, named by when the series has it
+    const regular = at(weekend, series);
+    const own = toEvent(a, uid, at(weekend, a));
+    if (JSON.stringify(own) === JSON.stringify(toEvent(series, uid, regular))) return [master];
+    return [master, { ...own, recurrenceId: regular }];
+  });
+
+  return { name: options.name, events };
+}
+
+/**
+ * The calendar as an RFC 5545 document, with CRLF line endings and a VTIMEZONE
+ * for every zone its times use. `now` is the DTSTAMP.
+ */
+export function serializeCalendar(calendar: IcsCalendar, now: Date = new Date()): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${ICS_PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (calendar.name) lines.push(contentLine('X-WR-CALNAME', escapeText(calendar.name)));
+
+  for (const [timeZone, usage] of zoneYears(calendar.events)) {
+    lines.push(...timeZoneLines(timeZone, usage));
+  }
+
+  const stamp = formatUtc(now);
+  for (const event of calendar.events) {
+    lines.push('BEGIN:VEVENT', contentLine('UID', event.uid), `DTSTAMP:${stamp}`);
+    lines.push(dateTimeLine('DTSTART', event.start), dateTimeLine('DTEND', event.end));
+    if (event.recurrenceId) lines.push(dateTimeLine('RECURRENCE-ID', event.recurrenceId));
+    if (event.rrule) lines.push(contentLine('RRULE', event.rrule));
+    for (const exdate of event.exdates ?? []) lines.push(dateTimeLine('EXDATE', exdate));
+    lines.push(contentLine('SUMMARY', escapeText(event.summary)));
+    if (event.description) lines.push(contentLine('DESCRIPTION', escapeText(event.description)));
+    if (event.location) lines.push(contentLine('LOCATION', escapeText(event.location)));
+    if (event.geo) lines.push(`GEO:${event.geo.lat};${event.geo.lng}`);
+    if (event.categories?.length) lines.push(contentLine('CATEGORIES', event.categories.map(escapeText).join(',')));
+    if (event.alarmMins) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        contentLine('DESCRIPTION', escapeText(event.summary)),
+        `TRIGGER:-${formatDuration(event.alarmMins)}`,
+        'END:VALARM'
+      );
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse a document into its component tree, returning the VCALENDAR. Throws
+ * IcsParseError for lines that aren't properties and unbalanced BEGIN/END.
+ */
+export function parseIcs(text: string): IcsComponent {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const stack: IcsComponent[] = [];
+  let calendar: IcsComponent | null = null;
+
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    const lineNumber = index + 1;
+    const property = parseContentLine(line, lineNumber);
+    if (property.name === 'BEGIN') {
+      const component: IcsComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+      stack[stack.length - 1]?.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      const open = stack.pop();
+      if (!open || open.name !== property.value.toUpperCase()) {
+        throw new IcsParseError(`Unexpected END:${property.value}`, lineNumber);
+      }
+      if (stack.length === 0 && open.name === 'VCALENDAR') calendar ??= open;
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  if (stack.length > 0) throw new IcsParseError(`Missing END:${stack[stack.length - 1].name}`, lines.length);
+  if (!calendar) throw new IcsParseError('No VCALENDAR found', 1);
+  return calendar;
+}
+
+// The events of a document; ones without a readable start are left out
+export function parseCalendar(text: string): IcsCalendar {
+  const calendar = parseIcs(text);
+  const name = findProperty(calendar, 'X-WR-CALNAME');
+  const events = calendar.components
+    .filter(c => c.name === 'VEVENT')
+    .flatMap(component => {
+      const event = toEvent(component);
+      return event ? [event] : [];
+    });
+  return { ...(name ? { name: unescapeText(name.value) } : {}), events };
+}
+
+// Wall-clock arithmetic, so adding across a DST change keeps the written times
+export function addMinutes(dateTime: IcsDateTime, mins: number): IcsDateTime {
+  return fromWallMs(wallMs(dateTime) + mins * MINUTE_MS, dateTime);
+}
+
+// Minutes a zone is ahead of UTC at an instant
+export function zoneOffsetMins(timeZone: string, at: Date): number {
+  const parts = offsetFormatter(timeZone).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour') % 24, part('minute'), part('second'));
+  return Math.round((asUtc - Math.floor(at.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * The instant a written time stands for. Floating times and all-day dates are
+ * read in `floatingZone`; all-day dates start at its midnight.
+ */
+export function toInstant(dateTime: IcsDateTime, floatingZone: string = localTimeZone()): Date {
+  const wall = wallMs(dateTime);
+  if (dateTime.timeZone === 'UTC' && dateTime.time !== undefined) return new Date(wall);
+  const zone = dateTime.time === undefined ? floatingZone : dateTime.timeZone ?? floatingZone;
+  // The offset at the guess settles it, except for times skipped by a DST change
+  const guess = wall - zoneOffsetMins(zone, new Date(wall)) * MINUTE_MS;
+  return new Date(wall - zoneOffsetMins(zone, new Date(guess)) * MINUTE_MS);
+}
+
+// The wall-clock date and time an instant shows in a zone
+export function inZone(at: Date, timeZone: string): IcsDateTime {
+  return fromWallMs(at.getTime() + zoneOffsetMins(timeZone, at) * MINUTE_MS, { date: '', time: '00:00', timeZone });
+}
+
+/**
+ * The times an event takes place that overlap [from, to): its RRULE expanded
+ * (DAILY, WEEKLY, MONTHLY and YEARLY with INTERVAL, COUNT, UNTIL, BYDAY,
+ * BYMONTHDAY and BYMONTH) in the zone it was written in, less its EXDATEs
+ */
+export function eventOccurrences(event: IcsEvent, from: Date, to: Date, floatingZone: string = localTimeZone()): EventOccurrence[] {
+  const allDay = event.start.time === undefined;
+  const first = toInstant(event.start, floatingZone);
+  const durationMs = Math.max(0, toInstant(event.end, floatingZone).getTime() - first.getTime());
+  const occurrence = (start: Date): EventOccurrence => ({ start, end: new Date(start.getTime() + durationMs), allDay });
+  const overlaps = (o: EventOccurrence) => o.start < to && (o.end > from || (durationMs === 0 && o.start >= from));
+
+  const rule = event.rrule ? parseRule(event.rrule) : null;
+  if (!rule) return [occurrence(first)].filter(overlaps);
+
+  const excluded = new Set((event.exdates ?? []).map(d => toInstant(d, floatingZone).getTime()));
+  const until = rule.until && untilInstant(rule.until, event.start, floatingZone);
+  const startWall = wallMs(event.start);
+  const timeMs = startWall % DAY_MS;
+  const startDay = startWall - timeMs;
+  const result: EventOccurrence[] = [];
+  let counted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of periodDays(rule, startDay, period)) {
+      if (day < startDay || (rule.byMonth.length > 0 && !rule.byMonth.includes(new Date(day).getUTCMonth() + 1))) continue;
+      const start = toInstant(fromWallMs(day + timeMs, event.start), floatingZone);
+      if ((until && start > until) || (rule.count !== undefined && counted >= rule.count) || start >= to) return result;
+      counted++;
+      const o = occurrence(start);
+      if (!excluded.has(start.getTime()) && overlaps(o)) result.push(o);
+    }
+  }
+  return result;
+}
+
+interface ZoneUsage {
+  years: number[];
+  recurring: boolean; // used by a recurring event, which runs on past the last year
+}
+
+// Years each zone is used in; recurring events also need the year after
+function zoneYears(events: IcsEvent[]): Map<string, ZoneUsage> {
+  const zones = new Map<string, { years: Set<number>; recurring: boolean }>();
+  for (const event of events) {
+    for (const dateTime of [event.start, event.end, ...(event.exdates ?? [])]) {
+      if (!dateTime.timeZone || dateTime.timeZone === 'UTC' || dateTime.time === undefined) continue;
+      const year = Number(dateTime.date.slice(0, 4));
+      const zone = zones.get(dateTime.timeZone) ?? { years: new Set<number>(), recurring: false };
+      zone.years.add(year);
+      if (event.rrule) {
+        zone.years.add(year + 1);
+        zone.recurring = true;
+      }
+      zones.set(dateTime.timeZone, zone);
+    }
+  }
+  return new Map([...zones].map(([name, zone]) => [name, { years: [...zone.years].sort((a, b) => a - b), recurring: zone.recurring }]));
+}
+
+/**
+ * A VTIMEZONE built from the runtime's zone data: the offset from the start of
+ * the first year, then each change within the years. For recurring events the
+ * last year's changes repeat yearly, when the year before changed the same way.
+ * Calendars that know the TZID use their own rules; the rest get these.
+ */
+function timeZoneLines(timeZone: string, { years, recurring }: ZoneUsage): string[] {
+  const first = years[0];
+  const last = years[years.length - 1];
+  const baseline = zoneOffsetMins(timeZone, new Date(Date.UTC(first, 0, 1)));
+  const byYear = new Map(years.map(year => [year, zoneTransitions(timeZone, year)]));
+  const transitions = [...byYear.values()].flat();
+  const standardMins = Math.min(baseline, ...transitions.map(t => t.toMins));
+
+  const before = byYear.get(last - 1) ?? [];
+  const repeats = recurring && before.length === byYear.get(last)!.length && byYear.get(last)!.every((t, i) =>
+    t.fromMins === before[i].fromMins && t.toMins === before[i].toMins && yearlyRule(onset(t)) === yearlyRule(onset(before[i]))
+  );
+
+  const observance = (t: { at: Date; fromMins: number; toMins: number } | null, year: number) => {
+    const fromMins = t?.fromMins ?? baseline;
+    const toMins = t?.toMins ?? baseline;
+    const kind = toMins > standardMins ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${t ? formatLocal(onset(t)) : `${first}0101T000000`}`,
+      ...(t && repeats && year === last ? [`RRULE:${yearlyRule(onset(t))}`] : []),
+      `TZOFFSETFROM:${formatOffset(fromMins)}`,
+      `TZOFFSETTO:${formatOffset(toMins)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  return [
+    'BEGIN:VTIMEZONE',
+    contentLine('TZID', timeZone),
+    ...observance(null, first),
+    ...[...byYear].flatMap(([year, changes]) => changes.flatMap(t => observance(t, year))),
+    'END:VTIMEZONE',
+  ];
+}
+
+// The wall-clock time an offset change happens at, before the change, as a UTC date
+function onset(transition: { at: Date; fromMins: number }): Date {
+  return new Date(transition.at.getTime() + transition.fromMins * MINUTE_MS);
+}
+
+// "FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU" for a change on the last Sunday of March
+function yearlyRule(at: Date): string {
+  const day = at.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 0)).getUTCDate();
+  const nth = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `FREQ=YEARLY;BYMONTH=${at.getUTCMonth() + 1};BYDAY=${nth}${RRULE_WEEKDAYS[at.getUTCDay()]}`;
+}
+
+// Offset changes within a year, found day by day and then narrowed to the minute
+function zoneTransitions(timeZone: string, year: number): { at: Date; fromMins: number; toMins: number }[] {
+  const transitions: { at: Date; fromMins: number; toMins: number }[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = zoneOffsetMins(timeZone, new Date(Date.UTC(year, 0, 1)));
+  for (let day = Date.UTC(year, 0, 1) + DAY_MS; day <= end; day += DAY_MS) {
+    const offset = zoneOffsetMins(timeZone, new Date(day));
+    if (offset === previous) continue;
+    let low = day - DAY_MS;
+    let high = day;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (zoneOffsetMins(timeZone, new Date(middle)) === previous) low = middle;
+      else high = middle;
+    }
+    transitions.push({ at: new Date(high), fromMins: previous, toMins: offset });
+    previous = offset;
+  }
+  return transitions;
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function offsetFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function toEvent(component: IcsComponent): IcsEvent | null {
+  const startProperty = findProperty(component, 'DTSTART');
+  const start = startProperty && parseDateTime(startProperty);
+  if (!start) return null;
+  const endProperty = findProperty(component, 'DTEND');
+  const duration = findProperty(component, 'DURATION');
+  const end = (endProperty && parseDateTime(endProperty))
+    ?? addMinutes(start, duration ? parseDuration(duration.value) ?? 0 : start.time === undefined ? 24 * 60 : 0);
+
+  const text = (name: string) => {
+    const property = findProperty(component, name);
+    return property ? unescapeText(property.value) : undefined;
+  };
+
+  const event: IcsEvent = { uid: findProperty(component, 'UID')?.value ?? '', summary: text('SUMMARY') ?? '', start, end };
+  const description = text('DESCRIPTION');
+  if (description) event.description = description;
+  const location = text('LOCATION');
+  if (location) event.location = location;
+  const geo = findProperty(component, 'GEO')?.value.split(';').map(Number);
+  if (geo?.length === 2 && geo.every(Number.isFinite)) event.geo = { lat: geo[0], lng: geo[1] };
+  const categories = component.properties.filter(p => p.name === 'CATEGORIES').flatMap(p => splitText(p.value));
+  if (categories.length) event.categories = categories;
+  const rrule = findProperty(component, 'RRULE');
+  if (rrule) event.rrule = rrule.value;
+  const exdates = component.properties
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').flatMap(value => parseDateTime({ ...p, value }) ?? []));
+  if (exdates.length) event.exdates = exdates;
+  const recurrenceId = findProperty(component, 'RECURRENCE-ID');
+  const recurrenceStart = recurrenceId && parseDateTime(recurrenceId);
+  if (recurrenceStart) event.recurrenceId = recurrenceStart;
+
+  const trigger = component.components
+    .filter(c => c.name === 'VALARM')
+    .map(c => findProperty(c, 'TRIGGER'))
+    .find(p => p && p.params.VALUE !== 'DATE-TIME' && p.params.RELATED !== 'END');
+  const triggerMins = trigger ? parseDuration(trigger.value) : null;
+  if (triggerMins !== null && triggerMins < 0) event.alarmMins = -triggerMins;
+
+  return event;
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: string;
+  byDay: { nth?: number; weekday: number }[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+// null for frequencies finer than a day, which a weekend planner has no use for
+function parseRule(value: string): RecurrenceRule | null {
+  const parts = new Map(value.split(';').map(part => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=')] as const;
+  }));
+  const freq = parts.get('FREQ')?.toUpperCase();
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') return null;
+  const numbers = (key: string) => (parts.get(key) ?? '').split(',').filter(Boolean).map(Number).filter(Number.isFinite);
+  const byDay = (parts.get('BYDAY') ?? '').split(',').flatMap(code => {
+    const match = code.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match ? [{ nth: match[1] ? Number(match[1]) : undefined, weekday: RRULE_WEEKDAYS.indexOf(match[2]) }] : [];
+  });
+  const count = parts.get('COUNT');
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.get('INTERVAL')) || 1),
+    count: count ? Number(count) : undefined,
+    until: parts.get('UNTIL'),
+    byDay,
+    byMonthDay: numbers('BYMONTHDAY'),
+    byMonth: numbers('BYMONTH'),
+  };
+}
+
+// The last instant UNTIL allows; a date allows all of that day
+function untilInstant(value: string, start: IcsDateTime, floatingZone: string): Date | null {
+  const until = parseDateTime({ name: 'UNTIL', params: start.timeZone && start.timeZone !== 'UTC' ? { TZID: start.timeZone } : {}, value });
+  if (!until) return null;
+  if (until.time !== undefined) return toInstant(until, floatingZone);
+  return new Date(toInstant(addMinutes(until, 24 * 60), floatingZone).getTime() - 1);
+}
+
+// Midnights (as wall-clock ms) of the days one period of the rule may fall on, in order
+function periodDays(rule: RecurrenceRule, startDay: number, period: number): number[] {
+  const start = new Date(startDay);
+  switch (rule.freq) {
+    case 'DAILY':
+      return [startDay + period * rule.interval * DAY_MS];
+    case 'WEEKLY': {
+      const monday = startDay - ((start.getUTCDay() + 6) % 7) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+      const weekdays = rule.byDay.length ? rule.byDay.map(d => d.weekday) : [start.getUTCDay()];
+      return [...new Set(weekdays.map(w => monday + ((w + 6) % 7) * DAY_MS))].sort((a, b) => a - b);
+    }
+    case 'MONTHLY': {
+      const month = start.getUTCMonth() + period * rule.interval;
+      return monthDays(rule, start.getUTCFullYear() + Math.floor(month / 12), ((month % 12) + 12) % 12, start.getUTCDate());
+    }
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + period * rule.interval;
+      const months = rule.byMonth.length ? [...rule.byMonth].sort((a, b) => a - b).map(m => m - 1) : [start.getUTCMonth()];
+      return months.flatMap(month => monthDays(rule, year, month, start.getUTCDate()));
+    }
+  }
+}
+
+function monthDays(rule: RecurrenceRule, year: number, month: number, startDate: number): number[] {
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const day = (date: number) => Date.UTC(year, month, date);
+  let dates: number[];
+  if (rule.byMonthDay.length) {
+    dates = rule.byMonthDay.map(n => (n < 0 ? length + n + 1 : n));
+  } else if (rule.byDay.length) {
+    dates = rule.byDay.flatMap(({ nth, weekday }) => {
+      const matching: number[] = [];
+      for (let date = 1; date <= length; date++) if (new Date(day(date)).getUTCDay() === weekday) matching.push(date);
+      if (nth === undefined) return matching;
+      const picked = nth > 0 ? matching[nth - 1] : matching[matching.length + nth];
+      return picked === undefined ? [] : [picked];
+    });
+  } else {
+    dates = [startDate];
+  }
+  return [...new Set(dates.filter(d => d >= 1 && d <= length))].sort((a, b) => a - b).map(day);
+}
+
+// A written date and time as if it were UTC, for arithmetic on the wall clock
+function wallMs(dateTime: IcsDateTime): number {
+  const [y, mo, d] = dateTime.date.split('-').map(Number);
+  const [h, mi] = (dateTime.time ?? '00:00').split(':').map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi);
+}
+
+function fromWallMs(ms: number, like: IcsDateTime): IcsDateTime {
+  const iso = new Date(ms).toISOString();
+  return like.time === undefined ? { ...like, date: iso.slice(0, 10) } : { ...like, date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
+
+function findProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+function parseContentLine(line: string, lineNumber: number): IcsProperty {
+  // The value starts at the first colon outside a quoted parameter value
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) throw new IcsParseError(`Not a property: "${line.slice(0, 40)}"`, lineNumber);
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf('=');
+    if (equals <= 0) continue;
+    params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"(.*)"$/, '$1');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quoted = false;
+  let current = '';
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  return [...parts, current];
+}
+
+// A DATE or DATE-TIME value; null when it's neither
+function parseDateTime(property: IcsProperty): IcsDateTime | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, utc] = match;
+  const date = `${y}-${mo}-${d}`;
+  if (h === undefined) return { date };
+  const timeZone = utc ? 'UTC' : property.params.TZID;
+  return { date, time: `${h}:${mi}`, ...(timeZone ? { timeZone } : {}) };
+}
+
+// Signed minutes of a DURATION value, e.g. "-PT30M"; null when it isn't one
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks ?? 0) * 7 * 24 * 60 + Number(days ?? 0) * 24 * 60 + Number(hours ?? 0) * 60 + Number(minutes ?? 0) + Math.floor(Number(seconds ?? 0) / 60);
+  return sign === '-' ? -total : total;
+}
+
+function formatDuration(mins: number): string {
+  if (mins % (24 * 60) === 0) return `P${mins / (24 * 60)}D`;
+  if (mins % 60 === 0) return `PT${mins / 60}H`;
+  return `PT${mins}M`;
+}
+
+function dateTimeLine(name: string, dateTime: IcsDateTime): string {
+  const date = dateTime.date.replace(/-/g, '');
+  if (dateTime.time === undefined) return `${name};VALUE=DATE:${date}`;
+  const value = `${date}T${dateTime.time.replace(':', '')}00`;
+  if (dateTime.timeZone === 'UTC') return `${name}:${value}Z`;
+  return dateTime.timeZone ? contentLine(name, value, { TZID: dateTime.timeZone }) : `${name}:${value}`;
+}
+
+function contentLine(name: string, value: string, params: Record<string, string> = {}): string {
+  const paramText = Object.entries(params)
+    .map(([key, param]) => `;${key}=${/[;:,]/.test(param) ? `"${param}"` : param}`)
+    .join('');
+  return `${name}${paramText}:${value}`;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+// A list of TEXT values split on unescaped commas
+function splitText(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  return [...parts, current].map(unescapeText).filter(Boolean);
+}
+
+// Fold at 75 octets without splitting a character; continuation lines start with a space
+function foldLine(line: string): string {
+  let folded = '';
+  let current = '';
+  let octets = 0;
+  let limit = MAX_LINE_OCTETS;
+  for (const ch of line) {
+    const size = utf8Length(ch);
+    if (octets + size > limit) {
+      folded += `${current}\r\n `;
+      current = '';
+      octets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += ch;
+    octets += size;
+  }
+  return folded + current;
+}
+
+function utf8Length(ch: string): number {
+  const code = ch.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// An instant shifted by its offset, written as the wall time it shows
+function formatLocal(shifted: Date): string {
+  return formatUtc(shifted).replace(/Z$/, '');
+}
+
+function formatOffset(mins: number): string {
+  const abs = Math.abs(mins);
+  return `${mins < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+}
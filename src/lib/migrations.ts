@@ -0,0 +1,157 @@
+/**
+ * Schema migrations for Weekendly persistence
+ * Ordered, versioned steps applied to both IndexedDB and the localStorage fallback
+ */
+
+// Plans are migrated as loosely-typed records: by definition they may predate
+// the current WeekendPlan shape.
+export type StoredPlan = Record<string, any>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Structural changes, run inside IndexedDB's versionchange transaction
+  upgradeStores?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  // Data changes, applied to every stored plan (IndexedDB and localStorage)
+  migratePlan?: (plan: StoredPlan) => StoredPlan;
+  // Repopulate the IndexedDB activities store from the (migrated) plans
+  rebuildActivities?: boolean;
+}
+
+const LEGACY_THEMES = ['lazy', 'adventurous', 'family'];
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial stores: plans, activities, settings, sync',
+    upgradeStores: (db) => {
+      // Plans store
+      if (!db.objectStoreNames.contains('plans')) {
+        const plansStore = db.createObjectStore('plans', { keyPath: 'id' });
+        plansStore.createIndex('theme', 'theme', { unique: false });
+        plansStore.createIndex('createdAt', 'createdAt', { unique: false });
+        plansStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+
+      // Activities store (for analytics and cross-plan queries)
+      if (!db.objectStoreNames.contains('activities')) {
+        const activitiesStore = db.createObjectStore('activities', { keyPath: 'id' });
+        activitiesStore.createIndex('category', 'category', { unique: false });
+        activitiesStore.createIndex('day', 'day', { unique: false });
+        activitiesStore.createIndex('planId', 'planId', { unique: false });
+      }
+
+      // Settings store
+      if (!db.objectStoreNames.contains('settings')) {
+        db.createObjectStore('settings', { keyPath: 'key' });
+      }
+
+      // Sync metadata store
+      if (!db.objectStoreNames.contains('sync')) {
+        db.createObjectStore('sync', { keyPath: 'key' });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Normalize plan records: Date timestamps, numeric version, metadata object, activity defaults',
+    migratePlan: (plan) => {
+      const createdAt = toDate(plan.createdAt) ?? new Date();
+      const updatedAt = toDate(plan.updatedAt) ?? createdAt;
+      const activities = Array.isArray(plan.activities) ? plan.activities : [];
+
+      return {
+        ...plan,
+        theme: LEGACY_THEMES.includes(plan.theme) ? plan.theme : 'lazy',
+        createdAt,
+        updatedAt,
+        version: typeof plan.version === 'number' && plan.version > 0 ? plan.version : 1,
+        metadata: { isTemplate: false, ...(plan.metadata || {}) },
+        activities: activities.map((activity: Record<string, any>) => ({
+          ...activity,
+          day: activity.day === 'sunday' ? 'sunday' : 'saturday',
+          durationMins: Math.max(15, Number(activity.durationMins) || 60),
+          notes: activity.notes ?? '',
+        })),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Revision history store',
+    upgradeStores: (db) => {
+      if (!db.objectStoreNames.contains('revisions')) {
+        const revisionsStore = db.createObjectStore('revisions', { keyPath: 'id' });
+        revisionsStore.createIndex('planId', 'planId', { unique: false });
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Key the activities store by [planId, id] so plans may share activity ids',
+    upgradeStores: (db) => {
+      if (db.objectStoreNames.contains('activities')) {
+        db.deleteObjectStore('activities');
+      }
+      const activitiesStore = db.createObjectStore('activities', { keyPath: ['planId', 'id'] });
+      activitiesStore.createIndex('category', 'category', { unique: false });
+      activitiesStore.createIndex('day', 'day', { unique: false });
+      activitiesStore.createIndex('planId', 'planId', { unique: false });
+    },
+    rebuildActivities: true,
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Migrations that still need to run for data written at `fromVersion`
+ */
+export function pendingMigrations(fromVersion: number, toVersion = CURRENT_SCHEMA_VERSION): Migration[] {
+  return migrations
+    .filter(m => m.version > fromVersion && m.version <= toVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Bring a single plan record up to date, starting from its own schemaVersion
+ */
+export function migratePlanRecord(plan: StoredPlan, toVersion = CURRENT_SCHEMA_VERSION): StoredPlan {
+  const fromVersion = typeof plan.schemaVersion === 'number' ? plan.schemaVersion : 1;
+  let migrated = plan;
+  for (const migration of pendingMigrations(fromVersion, toVersion)) {
+    if (migration.migratePlan) {
+      migrated = migration.migratePlan(migrated);
+    }
+  }
+  return { ...migrated, schemaVersion: toVersion };
+}
+
+/**
+ * Legacy per-theme snapshots (`weekendly.plan.<theme>`) hold a bare activities
+ * array written by the page-level fallback. Wrap them in a plan record so they
+ * can go through the regular plan migrations.
+ */
+export function adoptLegacyThemeSnapshot(theme: string, raw: unknown): StoredPlan | null {
+  if (!LEGACY_THEMES.includes(theme) || !Array.isArray(raw)) return null;
+  const now = new Date();
+  return {
+    id: `plan_${now.getTime()}_${theme}`,
+    theme,
+    activities: raw,
+    createdAt: now,
+    updatedAt: now,
+    version: 1,
+    schemaVersion: 1,
+    metadata: { isTemplate: false, tags: ['legacy'] },
+  };
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+/**
+ * Overlapping activities for Weekendly
+ * Which overlaps a plan accepts, and side-by-side lanes for the ones it does
+ */
+
+import type { WeekendActivity } from './persistence';
+import { toMinutes } from './time';
+
+type Timed = Pick<WeekendActivity, 'id' | 'day' | 'start' | 'durationMins' | 'overlap'>;
+
+// How an overlap between two activities is treated
+export type OverlapVerdict = 'ok' | 'warn' | 'block';
+
+export interface OverlapCheck<T extends Timed = Timed> {
+  blocking: T[]; // the candidate can't go here
+  warnings: T[]; // allowed, but worth pointing out
+}
+
+export interface LanePosition {
+  lane: number;
+  lanes: number; // lanes in the candidate's group of overlapping activities
+}
+
+export function activitiesOverlap(a: Pick<Timed, 'day' | 'start' | 'durationMins'>, b: Pick<Timed, 'day' | 'start' | 'durationMins'>): boolean {
+  if (a.day !== b.day) return false;
+  const aStart = toMinutes(a.start);
+  const bStart = toMinutes(b.start);
+  return aStart < bStart + b.durationMins && bStart < aStart + a.durationMins;
+}
+
+/**
+ * Two activities that are both marked "can overlap" may always share time. With
+ * `allowOverlaps` on, any other pair may too, with a warning, unless one of
+ * them is exclusive.
+ */
+export function overlapVerdict(a: Timed, b: Timed, allowOverlaps: boolean): OverlapVerdict {
+  if (a.overlap === 'allow' && b.overlap === 'allow') return 'ok';
+  if (!allowOverlaps || a.overlap === 'exclusive' || b.overlap === 'exclusive') return 'block';
+  return 'warn';
+}
+
+export function checkOverlaps<T extends Timed>(
+  activities: T[],
+  candidate: Timed,
+  { allowOverlaps = false, excludeId }: { allowOverlaps?: boolean; excludeId?: string } = {}
+): OverlapCheck<T> {
+  const result: OverlapCheck<T> = { blocking: [], warnings: [] };
+  for (const other of activities) {
+    if (other.id === excludeId || other.id === candidate.id || !activitiesOverlap(other, candidate)) continue;
+    const verdict = overlapVerdict(candidate, other, allowOverlaps);
+    if (verdict === 'block') result.blocking.push(other);
+    else if (verdict === 'warn') result.warnings.push(other);
+  }
+  return result;
+}
+
+/**
+ * Calendar-style lanes for one day's activities: overlapping activities sit side
+ * by side, and each group of overlaps is as wide as the lanes it needs.
+ */
+export function layoutLanes(activities: Timed[]): Map<string, LanePosition> {
+  const sorted = [...activities].sort((a, b) => toMinutes(a.start) - toMinutes(b.start) || b.durationMins - a.durationMins);
+  const positions = new Map<string, LanePosition>();
+  let group: { id: string; lane: number }[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -1;
+
+  const closeGroup = () => {
+    for (const { id, lane } of group) positions.set(id, { lane, lanes: laneEnds.length });
+    group = [];
+    laneEnds = [];
+  };
+
+  for (const activity of sorted) {
+    const start = toMinutes(activity.start);
+    const end = start + activity.durationMins;
+    if (start >= groupEnd) closeGroup();
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = end;
+    group.push({ id: activity.id, lane });
+    groupEnd = Math.max(groupEnd, end);
+  }
+  closeGroup();
+  return positions;
+}
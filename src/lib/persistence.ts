@@ -4,6 +4,19 @@
  * Handles large datasets, offline sync, and data migration
  */
 
+import {
+  CURRENT_SCHEMA_VERSION,
+  adoptLegacyThemeSnapshot,
+  migratePlanRecord,
+  pendingMigrations,
+  type StoredPlan,
+} from './migrations';
+import type { BusyCalendar } from './busy';
+import { createPlanChangeChannel, type PlanChange, type PlanChangeChannel, type PlanChangeListener } from './cross-tab';
+import { parseImport, parseTemplatePack, planImport, TEMPLATE_PACK_FORMAT, type ImportIssue, type ImportMode, type ImportPreview, type TemplatePack } from './plan-import';
+import type { Routine } from './recurrence';
+import { diffActivities, revisionId, toRevision, type PlanDiff, type PlanRevision } from './revisions';
+
 export interface WeekendPlan {
   id: string;
   theme: 'lazy' | 'adventurous' | 'family';
@@ -11,38 +24,221 @@ export interface WeekendPlan {
   createdAt: Date;
   updatedAt: Date;
   version: number;
+  schemaVersion?: number;
   metadata?: {
+    name?: string; // shown in the plan library; unnamed plans go by their theme
     tags?: string[];
     notes?: string;
     isTemplate?: boolean;
+    archived?: boolean; // hidden from the plan switcher but kept, with its history
+    weekendOf?: string; // ISO date of the Saturday of the calendar weekend the plan is for
   };
 }
 
+// Where an activity happens; coordinates let travel time be estimated offline
+export interface ActivityLocation {
+  name: string;
+  lat?: number;
+  lng?: number;
+}
+
+// An ordering rule: the activity `activityId` has to come before the one that lists it
+export interface ActivityDependency {
+  activityId: string;
+  sameDay?: boolean; // both on the same day
+  minGapMins?: number; // at least this long between the first ending and the second starting
+}
+
+// How a routine repeats; weekends are the ISO date of their Saturday
+export interface ActivityRecurrence {
+  frequency: 'weekly' | 'monthly';
+  interval?: number; // weekly: every this many weekends; default 1
+  weekOfMonth?: number; // monthly: the 1st–4th of the activity's day in the month, or -1 for the last
+  since: string; // first weekend of the series
+  until?: string; // last weekend it may fall on
+  exceptions?: string[]; // weekends it's skipped
+}
+
 export interface WeekendActivity {
   id: string;
   title: string;
   category: 'outdoor' | 'food' | 'fitness' | 'culture' | 'home' | 'other';
-  day: 'saturday' | 'sunday';
+  day: 'friday' | 'saturday' | 'sunday' | 'monday';
   start: string;
   durationMins: number;
   mood?: 'chill' | 'energetic' | 'social' | 'focus';
   notes?: string;
+  overlap?: 'allow' | 'exclusive'; // may share time with other "allow" activities, or never shares it
+  difficulty?: 'easy' | 'medium' | 'hard';
+  location?: ActivityLocation;
+  travelMins?: number; // time to get here from the previous activity; estimated when missing
+  locked?: boolean; // fixed in place: not moved, edited or cleared until unlocked
+  dependsOn?: ActivityDependency[]; // activities that have to come first
+  recurrence?: ActivityRecurrence; // repeats on other weekends
+  seriesId?: string; // the routine this is an occurrence of
 }
 
 export interface PersistenceStats {
   totalPlans: number;
   totalActivities: number;
-  storageUsed: number;
+  storageUsed: number; // bytes of serialized plans and revisions
+  storageQuota?: number; // bytes available to the origin, from navigator.storage
+  storageEstimate?: number; // bytes the browser reports for the whole origin
+  persisted?: boolean;
   lastSync?: Date;
 }
 
-class PersistenceManager {
+export interface PlanStorageUsage {
+  planId: string;
+  theme: WeekendPlan['theme'];
+  isTemplate: boolean;
+  planBytes: number;
+  revisionBytes: number;
+  revisionCount: number;
+}
+
+export interface StorageEstimate {
+  usage?: number;
+  quota?: number;
+  persisted?: boolean;
+}
+
+// A record in the `sync` store (outbox entries, sync cursor)
+export interface SyncRecord {
+  key: string;
+  [field: string]: unknown;
+}
+
+export interface ConsistencyReport {
+  checkedPlans: number;
+  missing: number; // activities in a plan but absent from the index
+  orphaned: number; // indexed activities whose plan no longer lists them
+  stale: number; // indexed activities that differ from the plan's copy
+  consistent: boolean;
+  repaired: boolean;
+}
+
+export type PersistenceErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'NOT_FOUND'
+  | 'CONSTRAINT'
+  | 'QUOTA_EXCEEDED'
+  | 'TRANSACTION_ABORTED'
+  | 'INVALID_DATA'
+  | 'CONFLICT'
+  | 'NETWORK'
+  | 'UNAUTHORIZED'
+  | 'UNKNOWN';
+
+export class PersistenceError extends Error {
+  readonly code: PersistenceErrorCode;
+  readonly original?: unknown;
+
+  constructor(message: string, code: PersistenceErrorCode, original?: unknown) {
+    super(message);
+    this.name = 'PersistenceError';
+    this.code = code;
+    this.original = original;
+  }
+}
+
+export class PlanNotFoundError extends PersistenceError {
+  readonly planId: string;
+
+  constructor(planId: string) {
+    super('Plan not found', 'NOT_FOUND');
+    this.name = 'PlanNotFoundError';
+    this.planId = planId;
+  }
+}
+
+export class PlanConflictError extends PersistenceError {
+  readonly current: WeekendPlan;
+  readonly baseVersion: number;
+
+  constructor(current: WeekendPlan, baseVersion: number) {
+    super(`Plan was changed elsewhere (expected version ${baseVersion}, found ${current.version})`, 'CONFLICT');
+    this.name = 'PlanConflictError';
+    this.current = current;
+    this.baseVersion = baseVersion;
+  }
+}
+
+export class ImportValidationError extends PersistenceError {
+  readonly issues: ImportIssue[];
+
+  constructor(issues: ImportIssue[]) {
+    super(`Import data is invalid (${issues.length} ${issues.length === 1 ? 'problem' : 'problems'})`, 'INVALID_DATA');
+    this.name = 'ImportValidationError';
+    this.issues = issues;
+  }
+}
+
+// The updates to make to a stored plan, or null to keep it
+type PlanUpdate = (plan: WeekendPlan) => Partial<WeekendPlan> | null;
+
+// Plans the localStorage migration touched: stored plans, and ones adopted from per-theme snapshots
+interface LocalStorageMigration {
+  plans: WeekendPlan[];
+  adopted: WeekendPlan[];
+}
+
+export interface PersistenceManagerOptions {
+  localStorageOnly?: boolean; // skip IndexedDB even where the browser has it
+}
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  dryRun?: boolean; // only report what would change
+}
+
+export interface ImportResult extends ImportPreview {
+  dryRun: boolean;
+  planIds: string[]; // plans created or updated
+  settings: string[]; // setting keys written (or that would be)
+}
+
+export function toPersistenceError(error: unknown): PersistenceError {
+  if (error instanceof PersistenceError) return error;
+
+  const name = (error as { name?: string } | null)?.name;
+  const message = (error as { message?: string } | null)?.message || 'Storage operation failed';
+  switch (name) {
+    case 'ConstraintError':
+      return new PersistenceError(message, 'CONSTRAINT', error);
+    case 'QuotaExceededError':
+      return new PersistenceError(message, 'QUOTA_EXCEEDED', error);
+    case 'AbortError':
+      return new PersistenceError(message, 'TRANSACTION_ABORTED', error);
+    default:
+      return new PersistenceError(message, 'UNKNOWN', error);
+  }
+}
+
+const SCHEMA_VERSION_KEY = 'weekendly.schemaVersion';
+// localStorage only holds a few megabytes, so the fallback keeps a shorter history
+const LOCAL_STORAGE_REVISION_LIMIT = 20;
+// The share link passphrase and sync key stay out, so backups don't carry them
+const SETTING_KEYS = ['theme', 'colorScheme', 'autoSave', 'defaultDuration', 'timeFormat', 'notifications', 'startTime', 'endTime', 'allowOverlaps', 'bufferMins', 'defaultTravelMins', 'calendarReminderMins', 'shareLinkExpiryDays', 'weekendStart', 'weekendEnd', 'holidayRegion', 'showTutorial', 'compactMode', 'routines', 'busyCalendars'];
+
+export class PersistenceManager {
   private db: IDBDatabase | null = null;
-  private dbName = 'WeekendlyDB';
-  private dbVersion = 1;
+  private dbName: string;
+  private dbVersion = CURRENT_SCHEMA_VERSION;
   private isIndexedDBSupported = typeof window !== 'undefined' && 'indexedDB' in window;
+  private readonly tabId = `tab_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  private channel: PlanChangeChannel | null;
+  private localListeners = new Set<PlanChangeListener>();
+
+  constructor(dbName = 'WeekendlyDB', { localStorageOnly = false }: PersistenceManagerOptions = {}) {
+    this.dbName = dbName;
+    if (localStorageOnly) this.isIndexedDBSupported = false;
+    this.channel = createPlanChangeChannel(`weekendly.plans.${dbName}`);
+  }
 
   async init(): Promise<void> {
+    const fromLocalStorage = this.migrateLocalStorage();
+
     if (!this.isIndexedDBSupported) {
       console.warn('IndexedDB not supported, falling back to localStorage');
       return;
@@ -59,37 +255,18 @@ class PersistenceManager {
       request.onsuccess = () => {
         this.db = request.result;
         console.log('IndexedDB initialized successfully');
-        resolve();
+        // Repair any drift left behind by writes from before they were transactional
+        this.checkActivitiesIndex({ repair: true })
+          .catch(error => console.warn('Activities index check failed:', error))
+          .then(() => this.copyPlansToIndexedDB(fromLocalStorage))
+          .catch(error => console.warn('Failed to move localStorage plans into IndexedDB:', error))
+          .then(() => resolve());
       };
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Plans store
-        if (!db.objectStoreNames.contains('plans')) {
-          const plansStore = db.createObjectStore('plans', { keyPath: 'id' });
-          plansStore.createIndex('theme', 'theme', { unique: false });
-          plansStore.createIndex('createdAt', 'createdAt', { unique: false });
-          plansStore.createIndex('updatedAt', 'updatedAt', { unique: false });
-        }
-
-        // Activities store (for analytics and cross-plan queries)
-        if (!db.objectStoreNames.contains('activities')) {
-          const activitiesStore = db.createObjectStore('activities', { keyPath: 'id' });
-          activitiesStore.createIndex('category', 'category', { unique: false });
-          activitiesStore.createIndex('day', 'day', { unique: false });
-          activitiesStore.createIndex('planId', 'planId', { unique: false });
-        }
-
-        // Settings store
-        if (!db.objectStoreNames.contains('settings')) {
-          db.createObjectStore('settings', { keyPath: 'key' });
-        }
-
-        // Sync metadata store
-        if (!db.objectStoreNames.contains('sync')) {
-          db.createObjectStore('sync', { keyPath: 'key' });
-        }
+        const transaction = (event.target as IDBOpenDBRequest).transaction!;
+        this.runMigrations(db, transaction, event.oldVersion);
       };
     });
   }
@@ -105,21 +282,33 @@ class PersistenceManager {
       createdAt: now,
       updatedAt: now,
       version: 1,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
     };
 
     if (this.db) {
-      return this.savePlanToIndexedDB(fullPlan);
+      await this.savePlanToIndexedDB(fullPlan);
     } else {
-      return this.savePlanToLocalStorage(fullPlan);
+      await this.savePlanToLocalStorage(fullPlan);
     }
+    this.notifyChange('saved', fullPlan);
+    return id;
   }
 
   async updatePlan(id: string, updates: Partial<WeekendPlan>): Promise<void> {
-    if (this.db) {
-      await this.updatePlanInIndexedDB(id, updates);
-    } else {
-      await this.updatePlanInLocalStorage(id, updates);
-    }
+    await this.commitPlanUpdate(id, () => updates);
+  }
+
+  /**
+   * Read, change and write a plan in one step, so nothing can land in between.
+   * `change` sees the stored plan and returns the updates, or null to leave it
+   * as it is; it may throw to cancel the write. Resolves with the plan as stored.
+   */
+  private async commitPlanUpdate(id: string, change: PlanUpdate): Promise<WeekendPlan> {
+    const { plan, changed } = this.db
+      ? await this.updatePlanInIndexedDB(id, change)
+      : await this.updatePlanInLocalStorage(id, change);
+    if (changed) this.notifyChange('saved', plan);
+    return plan;
   }
 
   async getPlan(id: string): Promise<WeekendPlan | null> {
@@ -138,36 +327,330 @@ class PersistenceManager {
     }
   }
 
+  /**
+   * Store a plan exactly as given, keeping its id and version (used when applying remote changes)
+   */
+  async putPlan(plan: WeekendPlan): Promise<void> {
+    const record: WeekendPlan = { ...plan, schemaVersion: CURRENT_SCHEMA_VERSION };
+    if (this.db) {
+      await this.putPlanToIndexedDB(record);
+    } else {
+      await this.savePlanToLocalStorage(record);
+    }
+    this.notifyChange('saved', record);
+  }
+
   async deletePlan(id: string): Promise<void> {
+    const plan = await this.getPlan(id);
     if (this.db) {
       await this.deletePlanFromIndexedDB(id);
     } else {
       await this.deletePlanFromLocalStorage(id);
     }
+    if (plan) this.notifyChange('deleted', plan);
+  }
+
+  // Plan library
+  /**
+   * Non-template plans, most recently updated first
+   */
+  async listPlans({ includeArchived = false }: { includeArchived?: boolean } = {}): Promise<WeekendPlan[]> {
+    const plans = await this.getAllPlans();
+    return plans
+      .filter(p => !p.metadata?.isTemplate && (includeArchived || !p.metadata?.archived))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  async createPlan(
+    theme: WeekendPlan['theme'],
+    { name, activities = [], weekendOf }: { name?: string; activities?: WeekendActivity[]; weekendOf?: string } = {}
+  ): Promise<WeekendPlan> {
+    const id = await this.savePlan({
+      theme,
+      activities,
+      metadata: { isTemplate: false, ...(name ? { name } : {}), ...(weekendOf ? { weekendOf } : {}) },
+    });
+    return (await this.getPlan(id))!;
+  }
+
+  async renamePlan(id: string, name: string): Promise<WeekendPlan> {
+    return this.updateMetadata(id, { name: name.trim() || undefined });
+  }
+
+  async duplicatePlan(id: string, name?: string): Promise<WeekendPlan> {
+    const source = await this.getPlan(id);
+    if (!source) throw new PlanNotFoundError(id);
+    return this.createPlan(source.theme, {
+      name: name ?? `${getPlanName(source)} (copy)`,
+      activities: source.activities,
+      weekendOf: source.metadata?.weekendOf,
+    });
+  }
+
+  async archivePlan(id: string, archived = true): Promise<WeekendPlan> {
+    return this.updateMetadata(id, { archived: archived || undefined });
+  }
+
+  /**
+   * Bind a plan to a calendar weekend, given as the date of its Saturday, or pass null to unbind it
+   */
+  async setPlanWeekend(id: string, weekendOf: string | null): Promise<WeekendPlan> {
+    return this.updateMetadata(id, { weekendOf: weekendOf ?? undefined });
+  }
+
+  /**
+   * The most recently updated plan for a weekend, preferring one with the given theme
+   */
+  async findWeekendPlan(weekendOf: string, theme?: WeekendPlan['theme']): Promise<WeekendPlan | null> {
+    const plans = (await this.listPlans()).filter(p => p.metadata?.weekendOf === weekendOf);
+    return plans.find(p => p.theme === theme) ?? plans[0] ?? null;
+  }
+
+  /**
+   * Save a plan's activities and resolve with the stored version.
+   * Pass the version the caller last loaded as `baseVersion` to reject with
+   * PlanConflictError instead of overwriting changes made in another tab.
+   */
+  async savePlanActivities(id: string, activities: WeekendActivity[], { baseVersion }: { baseVersion?: number } = {}): Promise<number> {
+    const stored = await this.commitPlanUpdate(id, (existingPlan) => {
+      // Re-saving identical activities would only add an empty revision
+      if (JSON.stringify(existingPlan.activities) === JSON.stringify(activities)) return null;
+      if (baseVersion !== undefined && existingPlan.version !== baseVersion) {
+        throw new PlanConflictError(existingPlan, baseVersion);
+      }
+      return { activities };
+    });
+    return stored.version;
+  }
+
+  private async updateMetadata(id: string, changes: NonNullable<WeekendPlan['metadata']>): Promise<WeekendPlan> {
+    return this.commitPlanUpdate(id, (plan) => ({ metadata: { ...plan.metadata, ...changes } }));
+  }
+
+  // Templates
+  /**
+   * Template plans, by name
+   */
+  async listTemplates(): Promise<WeekendPlan[]> {
+    const plans = await this.getAllPlans();
+    return plans
+      .filter(p => p.metadata?.isTemplate)
+      .sort((a, b) => getPlanName(a).localeCompare(getPlanName(b)));
+  }
+
+  async createTemplate(
+    theme: WeekendPlan['theme'],
+    { name, activities, description }: { name: string; activities: WeekendActivity[]; description?: string }
+  ): Promise<WeekendPlan> {
+    const id = await this.savePlan({
+      theme,
+      activities,
+      metadata: { isTemplate: true, name, ...(description ? { notes: description } : {}) },
+    });
+    return (await this.getPlan(id))!;
+  }
+
+  /**
+   * Copy a plan's current activities into a new template
+   */
+  async saveAsTemplate(planId: string, name: string, description?: string): Promise<WeekendPlan> {
+    const plan = await this.getPlan(planId);
+    if (!plan) throw new PlanNotFoundError(planId);
+    return this.createTemplate(plan.theme, { name, activities: plan.activities, description });
+  }
+
+  /**
+   * Shareable pack of the given templates, or of all of them
+   */
+  async exportTemplatePack(ids?: string[]): Promise<TemplatePack> {
+    const templates = (await this.listTemplates()).filter(t => !ids || ids.includes(t.id));
+    return {
+      format: TEMPLATE_PACK_FORMAT,
+      version: 1,
+      templates: templates.map(t => ({
+        name: getPlanName(t),
+        theme: t.theme,
+        ...(t.metadata?.notes ? { description: t.metadata.notes } : {}),
+        activities: t.activities,
+      })),
+    };
+  }
+
+  /**
+   * Validate a template pack and add its templates.
+   * Rejects with ImportValidationError before anything is written.
+   */
+  async importTemplatePack(data: unknown): Promise<WeekendPlan[]> {
+    const parsed = parseTemplatePack(data);
+    if (!parsed.ok) throw new ImportValidationError(parsed.issues);
+
+    const created: WeekendPlan[] = [];
+    for (const template of parsed.pack.templates) {
+      created.push(await this.createTemplate(template.theme, template));
+    }
+    return created;
   }
 
   // Theme-based plan management (backward compatibility)
-  async saveThemePlan(theme: string, activities: WeekendActivity[]): Promise<void> {
+  /**
+   * Save the activities of a theme's plan and resolve with the stored version.
+   * See savePlanActivities for `baseVersion`.
+   */
+  async saveThemePlan(theme: string, activities: WeekendActivity[], { baseVersion }: { baseVersion?: number } = {}): Promise<number> {
     const existingPlan = await this.getThemePlan(theme);
     
     if (existingPlan) {
-      await this.updatePlan(existingPlan.id, {
-        activities,
-        updatedAt: new Date(),
-        version: existingPlan.version + 1,
-      });
+      return this.savePlanActivities(existingPlan.id, activities, { baseVersion });
     } else {
       await this.savePlan({
         theme: theme as any,
         activities,
         metadata: { isTemplate: false },
       });
+      return 1;
     }
   }
 
+  /**
+   * The theme's most recently updated plan that isn't archived
+   */
   async getThemePlan(theme: string): Promise<WeekendPlan | null> {
-    const plans = await this.getAllPlans();
-    return plans.find(p => p.theme === theme && !p.metadata?.isTemplate) || null;
+    const plans = await this.listPlans();
+    return plans.find(p => p.theme === theme) || null;
+  }
+
+  // Cross-tab synchronization
+  /**
+   * Listen for plans saved or deleted by other tabs. Returns an unsubscribe function.
+   */
+  onRemoteChange(listener: PlanChangeListener): () => void {
+    if (!this.channel) return () => {};
+    return this.channel.subscribe(change => {
+      if (change.source !== this.tabId) listener(change);
+    });
+  }
+
+  /**
+   * Listen for plans saved or deleted by this tab. Returns an unsubscribe function.
+   */
+  onLocalChange(listener: PlanChangeListener): () => void {
+    this.localListeners.add(listener);
+    return () => this.localListeners.delete(listener);
+  }
+
+  private notifyChange(type: PlanChange['type'], plan: WeekendPlan): void {
+    const change: PlanChange = { type, planId: plan.id, theme: plan.theme, version: plan.version, source: this.tabId };
+    this.channel?.post(change);
+    this.localListeners.forEach(listener => listener(change));
+  }
+
+  // Revision history
+  async getRevisions(planId: string): Promise<PlanRevision[]> {
+    const revisions = await this.getStoredRevisions(planId);
+
+    // Plans saved before revision history existed have no snapshot of their current version yet
+    const plan = await this.getPlan(planId);
+    if (plan && !revisions.some(r => r.version === plan.version)) {
+      revisions.push(toRevision(plan));
+    }
+
+    return revisions
+      .map(r => ({ ...r, savedAt: new Date(r.savedAt) }))
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async getRevision(planId: string, version: number): Promise<PlanRevision | null> {
+    const revisions = await this.getRevisions(planId);
+    return revisions.find(r => r.version === version) || null;
+  }
+
+  /**
+   * Diff two versions of a plan; `toVersion` defaults to the current version
+   */
+  async diffRevisions(planId: string, fromVersion: number, toVersion?: number): Promise<PlanDiff> {
+    const revisions = await this.getRevisions(planId);
+    const from = revisions.find(r => r.version === fromVersion);
+    const to = toVersion === undefined ? revisions[0] : revisions.find(r => r.version === toVersion);
+    if (!from || !to) {
+      throw new PersistenceError('Revision not found', 'NOT_FOUND');
+    }
+    return diffActivities(from.activities, to.activities);
+  }
+
+  /**
+   * Restore an earlier version's activities. The restore is saved as a new
+   * version, so it can itself be undone from the history. Name, weekend and
+   * archived state stay as they are now; the history only previews activities.
+   */
+  async restoreRevision(planId: string, version: number): Promise<WeekendPlan> {
+    const revision = await this.getRevision(planId, version);
+    if (!revision) {
+      throw new PersistenceError('Revision not found', 'NOT_FOUND');
+    }
+
+    return this.commitPlanUpdate(planId, () => ({ activities: revision.activities }));
+  }
+
+  // Activities index consistency
+  async checkActivitiesIndex(options: { repair?: boolean } = {}): Promise<ConsistencyReport> {
+    // The localStorage fallback keeps activities only inside plans, so it cannot drift
+    if (!this.db) {
+      const plans = await this.getAllPlansFromLocalStorage();
+      return { checkedPlans: plans.length, missing: 0, orphaned: 0, stale: 0, consistent: true, repaired: false };
+    }
+
+    const { plans, indexed } = await this.withTransaction(['plans', 'activities'], 'readonly', (transaction) => {
+      const snapshot = { plans: [] as WeekendPlan[], indexed: [] as Array<WeekendActivity & { planId: string }> };
+      const plansRequest = transaction.objectStore('plans').getAll();
+      const activitiesRequest = transaction.objectStore('activities').getAll();
+      plansRequest.onsuccess = () => { snapshot.plans = plansRequest.result || []; };
+      activitiesRequest.onsuccess = () => { snapshot.indexed = activitiesRequest.result || []; };
+      return snapshot;
+    });
+
+    const expected = new Map<string, string>();
+    for (const plan of plans) {
+      for (const activity of plan.activities) {
+        expected.set(JSON.stringify([plan.id, activity.id]), JSON.stringify({ ...activity, planId: plan.id }));
+      }
+    }
+
+    let orphaned = 0;
+    let stale = 0;
+    const seen = new Set<string>();
+    for (const record of indexed) {
+      const key = JSON.stringify([record.planId, record.id]);
+      seen.add(key);
+      const plansCopy = expected.get(key);
+      if (plansCopy === undefined) orphaned++;
+      else if (plansCopy !== JSON.stringify(record)) stale++;
+    }
+    const missing = [...expected.keys()].filter(key => !seen.has(key)).length;
+    const consistent = missing === 0 && orphaned === 0 && stale === 0;
+
+    if (!consistent && options.repair) {
+      await this.rebuildActivitiesIndex();
+    }
+
+    return { checkedPlans: plans.length, missing, orphaned, stale, consistent, repaired: !consistent && !!options.repair };
+  }
+
+  /**
+   * Rebuild the activities store from the plans store, which is the source of truth
+   */
+  async rebuildActivitiesIndex(): Promise<void> {
+    if (!this.db) return;
+
+    await this.withTransaction(['plans', 'activities'], 'readwrite', (transaction) => {
+      const activitiesStore = transaction.objectStore('activities');
+      activitiesStore.clear();
+      const plansRequest = transaction.objectStore('plans').getAll();
+      plansRequest.onsuccess = () => {
+        for (const plan of plansRequest.result as WeekendPlan[]) {
+          this.writeActivities(transaction, plan.id, plan.activities);
+        }
+      };
+    });
   }
 
   // Settings management
@@ -188,23 +671,195 @@ class PersistenceManager {
     }
   }
 
-  // Analytics and stats
-  async getStats(): Promise<PersistenceStats> {
+  // Routines: recurring activities, kept with the settings so backups carry them
+  async getRoutines(): Promise<Routine[]> {
+    return (await this.getSettings('routines')) ?? [];
+  }
+
+  async saveRoutines(routines: Routine[]): Promise<void> {
+    await this.saveSettings('routines', routines);
+  }
+
+  // Calendars imported as busy time, with the settings like routines
+  async getBusyCalendars(): Promise<BusyCalendar[]> {
+    return (await this.getSettings('busyCalendars')) ?? [];
+  }
+
+  async saveBusyCalendars(calendars: BusyCalendar[]): Promise<void> {
+    await this.saveSettings('busyCalendars', calendars);
+  }
+
+  // Sync metadata (outbox entries and cursors) in the `sync` store
+  async getSyncRecord<T extends SyncRecord>(key: string): Promise<T | null> {
     if (this.db) {
-      return this.getStatsFromIndexedDB();
+      return this.getSyncRecordFromIndexedDB(key) as Promise<T | null>;
     } else {
-      return this.getStatsFromLocalStorage();
+      const value = window.localStorage.getItem(`weekendly.sync.${key}`);
+      return value ? JSON.parse(value) : null;
     }
   }
 
+  async getSyncRecords<T extends SyncRecord>(prefix = ''): Promise<T[]> {
+    if (this.db) {
+      return this.getSyncRecordsFromIndexedDB(prefix) as Promise<T[]>;
+    }
+
+    const records: T[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key?.startsWith(`weekendly.sync.${prefix}`)) {
+        records.push(JSON.parse(window.localStorage.getItem(key)!));
+      }
+    }
+    return records;
+  }
+
+  async saveSyncRecord(record: SyncRecord): Promise<void> {
+    if (this.db) {
+      await this.withTransaction(['sync'], 'readwrite', (transaction) => {
+        transaction.objectStore('sync').put(record);
+      });
+    } else {
+      window.localStorage.setItem(`weekendly.sync.${record.key}`, JSON.stringify(record));
+    }
+  }
+
+  async deleteSyncRecord(key: string): Promise<void> {
+    if (this.db) {
+      await this.withTransaction(['sync'], 'readwrite', (transaction) => {
+        transaction.objectStore('sync').delete(key);
+      });
+    } else {
+      window.localStorage.removeItem(`weekendly.sync.${key}`);
+    }
+  }
+
+  // Analytics and stats
+  async getStats(): Promise<PersistenceStats> {
+    const counts = this.db
+      ? await this.getStatsFromIndexedDB()
+      : await this.getStatsFromLocalStorage();
+    const usage = await this.getStorageUsage();
+    const estimate = await this.estimateStorage();
+    const syncState = await this.getSyncRecord<SyncRecord & { lastSync?: string }>('state');
+
+    return {
+      ...counts,
+      lastSync: syncState?.lastSync ? new Date(syncState.lastSync) : undefined,
+      storageUsed: usage.reduce((sum, u) => sum + u.planBytes + u.revisionBytes, 0),
+      storageQuota: estimate.quota,
+      storageEstimate: estimate.usage,
+      persisted: estimate.persisted,
+    };
+  }
+
+  // Storage usage and quota management
+  async getStorageUsage(): Promise<PlanStorageUsage[]> {
+    const plans = await this.getAllPlans();
+    const usage: PlanStorageUsage[] = [];
+
+    for (const plan of plans) {
+      const revisions = await this.getStoredRevisions(plan.id);
+      usage.push({
+        planId: plan.id,
+        theme: plan.theme,
+        isTemplate: !!plan.metadata?.isTemplate,
+        planBytes: byteSize(plan),
+        revisionBytes: revisions.reduce((sum, r) => sum + byteSize(r), 0),
+        revisionCount: revisions.length,
+      });
+    }
+
+    return usage.sort((a, b) => (b.planBytes + b.revisionBytes) - (a.planBytes + a.revisionBytes));
+  }
+
+  async estimateStorage(): Promise<StorageEstimate> {
+    const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+    if (!storage?.estimate) return {};
+
+    try {
+      const { usage, quota } = await storage.estimate();
+      const persisted = storage.persisted ? await storage.persisted() : undefined;
+      return { usage, quota, persisted };
+    } catch (error) {
+      console.warn('Storage estimate unavailable:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Ask the browser not to evict our data under storage pressure
+   */
+  async requestPersistentStorage(): Promise<boolean> {
+    const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+    if (!storage?.persist) return false;
+
+    try {
+      if (storage.persisted && await storage.persisted()) return true;
+      return await storage.persist();
+    } catch (error) {
+      console.warn('Persistent storage request failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Drop all but the newest `keepLatest` revisions of every plan.
+   * Resolves with the number of bytes freed.
+   */
+  async pruneRevisions(keepLatest = 10): Promise<number> {
+    const plans = await this.getAllPlans();
+    let freed = 0;
+
+    for (const plan of plans) {
+      const revisions = (await this.getStoredRevisions(plan.id)).sort((a, b) => b.version - a.version);
+      const stale = revisions.slice(Math.max(1, keepLatest)).filter(r => r.version !== plan.version);
+      if (stale.length === 0) continue;
+
+      freed += stale.reduce((sum, r) => sum + byteSize(r), 0);
+      if (this.db) {
+        await this.withTransaction(['revisions'], 'readwrite', (transaction) => {
+          const store = transaction.objectStore('revisions');
+          stale.forEach(r => store.delete(r.id));
+        });
+      } else {
+        const staleIds = new Set(stale.map(r => r.id));
+        const kept = revisions.filter(r => !staleIds.has(r.id));
+        window.localStorage.setItem(`weekendly.revisions.${plan.id}`, JSON.stringify(kept));
+      }
+    }
+
+    return freed;
+  }
+
+  /**
+   * Delete every template plan (and its history). Resolves with the number of bytes freed.
+   */
+  async pruneTemplates(): Promise<number> {
+    const usage = await this.getStorageUsage();
+    let freed = 0;
+
+    for (const entry of usage.filter(u => u.isTemplate)) {
+      await this.deletePlan(entry.planId);
+      freed += entry.planBytes + entry.revisionBytes;
+    }
+
+    return freed;
+  }
+
+  private async getStoredRevisions(planId: string): Promise<PlanRevision[]> {
+    return this.db
+      ? this.getRevisionsFromIndexedDB(planId)
+      : this.getRevisionsFromLocalStorage(planId);
+  }
+
   // Export/Import
   async exportAllData(): Promise<{ plans: WeekendPlan[]; settings: Record<string, any> }> {
     const plans = await this.getAllPlans();
     const settings: Record<string, any> = {};
     
     // Export common settings
-    const settingKeys = ['theme', 'colorScheme', 'autoSave', 'defaultDuration', 'timeFormat', 'notifications', 'startTime', 'endTime', 'weekendStart', 'showTutorial', 'compactMode'];
-    for (const key of settingKeys) {
+    for (const key of SETTING_KEYS) {
       const value = await this.getSettings(key);
       if (value !== null) {
         settings[key] = value;
@@ -214,119 +869,268 @@ class PersistenceManager {
     return { plans, settings };
   }
 
-  async importData(data: { plans: WeekendPlan[]; settings: Record<string, any> }): Promise<void> {
-    // Import plans
-    for (const plan of data.plans) {
-      await this.savePlan(plan);
+  /**
+   * Validate and import exported JSON (a full backup or a single plan).
+   * Rejects with ImportValidationError before anything is written.
+   */
+  async importData(data: unknown, { mode = 'merge', dryRun = false }: ImportOptions = {}): Promise<ImportResult> {
+    const parsed = parseImport(data);
+    if (!parsed.ok) {
+      throw new ImportValidationError(parsed.issues);
+    }
+
+    const preview = planImport(await this.getAllPlans(), parsed.bundle, mode);
+    // Settings belong to this device; importing plans as new copies leaves them alone
+    const settings = mode === 'new' ? [] : Object.keys(parsed.bundle.settings).filter(key => SETTING_KEYS.includes(key));
+    const result: ImportResult = { ...preview, dryRun, planIds: [], settings };
+    if (dryRun) return result;
+
+    for (const step of preview.steps) {
+      if (step.action === 'create') {
+        result.planIds.push(await this.savePlan({ theme: step.theme, activities: step.activities, metadata: step.metadata }));
+      } else if (step.action === 'update' && step.targetPlanId) {
+        const plan = await this.getPlan(step.targetPlanId);
+        if (!plan) throw new PlanNotFoundError(step.targetPlanId);
+        await this.updatePlan(plan.id, { activities: step.activities, updatedAt: new Date(), version: plan.version + 1 });
+        result.planIds.push(plan.id);
+      }
     }
 
-    // Import settings
-    for (const [key, value] of Object.entries(data.settings)) {
-      await this.saveSettings(key, value);
+    for (const key of settings) {
+      await this.saveSettings(key, parsed.bundle.settings[key]);
+    }
+
+    return result;
+  }
+
+  // Schema migrations
+  private runMigrations(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+    const steps = pendingMigrations(oldVersion, this.dbVersion);
+    steps.forEach(step => step.upgradeStores?.(db, transaction));
+
+    // A brand new database has no data to migrate
+    if (oldVersion === 0 || !steps.some(step => step.migratePlan || step.rebuildActivities)) return;
+
+    const plansStore = transaction.objectStore('plans');
+    const activitiesStore = transaction.objectStore('activities');
+    const cursorRequest = plansStore.openCursor();
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+
+      const migrated = migratePlanRecord({ schemaVersion: oldVersion, ...cursor.value }, this.dbVersion);
+      cursor.update(migrated);
+      // Keep the activities index in step with the migrated plan
+      migrated.activities.forEach((activity: WeekendActivity) => {
+        activitiesStore.put({ ...activity, planId: migrated.id });
+      });
+      cursor.continue();
+    };
+  }
+
+  /**
+   * Bring localStorage plans up to the current schema and adopt the pre-plan
+   * per-theme snapshots. Returns what it migrated, for IndexedDB to take over.
+   */
+  private migrateLocalStorage(): LocalStorageMigration {
+    const result: LocalStorageMigration = { plans: [], adopted: [] };
+    if (typeof window === 'undefined' || !window.localStorage) return result;
+
+    try {
+      const storedVersion = parseInt(window.localStorage.getItem(SCHEMA_VERSION_KEY) || '1', 10) || 1;
+      if (storedVersion >= CURRENT_SCHEMA_VERSION) return result;
+
+      const keys: string[] = [];
+      for (let i = 0; i < window.localStorage.length; i++) {
+        const key = window.localStorage.key(i);
+        if (key?.startsWith('weekendly.plan.')) keys.push(key);
+      }
+
+      const migratedThemes = new Set<string>();
+      for (const key of keys.filter(k => k.startsWith('weekendly.plan.plan_'))) {
+        const data = window.localStorage.getItem(key);
+        if (!data) continue;
+        try {
+          const migrated = migratePlanRecord({ schemaVersion: storedVersion, ...JSON.parse(data) });
+          window.localStorage.setItem(key, JSON.stringify(migrated));
+          result.plans.push(migrated as WeekendPlan);
+          if (!migrated.metadata?.isTemplate) migratedThemes.add(migrated.theme);
+        } catch (error) {
+          console.warn(`Failed to migrate ${key}:`, error);
+        }
+      }
+
+      // Adopt the pre-plan per-theme snapshots, unless that theme already has a plan
+      for (const key of keys.filter(k => !k.startsWith('weekendly.plan.plan_'))) {
+        const theme = key.slice('weekendly.plan.'.length);
+        if (migratedThemes.has(theme)) continue;
+        try {
+          const adopted: StoredPlan | null = adoptLegacyThemeSnapshot(theme, JSON.parse(window.localStorage.getItem(key) || 'null'));
+          if (!adopted) continue;
+          const migrated = migratePlanRecord(adopted);
+          window.localStorage.setItem(`weekendly.plan.${migrated.id}`, JSON.stringify(migrated));
+          result.adopted.push(migrated as WeekendPlan);
+          migratedThemes.add(theme);
+        } catch (error) {
+          console.warn(`Failed to adopt legacy plan ${key}:`, error);
+        }
+      }
+
+      window.localStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+    } catch (error) {
+      console.warn('localStorage migration failed:', error);
+    }
+    return result;
+  }
+
+  /**
+   * Store the plans the localStorage migration found in IndexedDB, which the app
+   * reads from once it's available. Plans already there win, and an adopted
+   * theme snapshot only lands if that theme has no plan yet.
+   */
+  private async copyPlansToIndexedDB({ plans, adopted }: LocalStorageMigration): Promise<void> {
+    if (plans.length === 0 && adopted.length === 0) return;
+    const existing = await this.getAllPlansFromIndexedDB();
+    const ids = new Set(existing.map(p => p.id));
+    const themes = new Set(existing.filter(p => !p.metadata?.isTemplate).map(p => p.theme));
+    for (const plan of plans) {
+      if (!ids.has(plan.id)) await this.putPlanToIndexedDB(plan);
+    }
+    for (const plan of adopted) {
+      if (!themes.has(plan.theme) && !ids.has(plan.id)) await this.putPlanToIndexedDB(plan);
     }
   }
 
   // IndexedDB implementations
-  private async savePlanToIndexedDB(plan: WeekendPlan): Promise<string> {
+
+  /**
+   * Run `work` inside a single transaction. Resolves once the transaction has
+   * committed; any failed request, thrown error or `fail()` call aborts every
+   * write made in it and rejects with a PersistenceError.
+   */
+  private withTransaction<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction, fail: (error: PersistenceError) => void) => T
+  ): Promise<T> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
         return;
       }
 
-      const transaction = this.db.transaction(['plans', 'activities'], 'readwrite');
-      const plansStore = transaction.objectStore('plans');
-      const activitiesStore = transaction.objectStore('activities');
+      const transaction = this.db.transaction(storeNames, mode);
+      let failure: PersistenceError | null = null;
+      let result: T;
 
-      const request = plansStore.add(plan);
-      
-      request.onsuccess = () => {
-        // Also save activities separately for analytics
-        plan.activities.forEach(activity => {
-          activitiesStore.add({
-            ...activity,
-            planId: plan.id,
-          });
-        });
-        resolve(plan.id);
+      const fail = (error: PersistenceError) => {
+        failure = failure ?? error;
+        try {
+          transaction.abort();
+        } catch {
+          // Already finished or aborting
+        }
       };
 
-      request.onerror = () => {
-        reject(request.error);
+      transaction.oncomplete = () => resolve(result);
+      transaction.onabort = () => {
+        reject(failure ?? toPersistenceError(transaction.error ?? new DOMException('Transaction aborted', 'AbortError')));
       };
+
+      try {
+        result = work(transaction, fail);
+      } catch (error) {
+        fail(toPersistenceError(error));
+      }
     });
   }
 
-  private async updatePlanInIndexedDB(id: string, updates: Partial<WeekendPlan>): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+  private writeActivities(transaction: IDBTransaction, planId: string, activities: WeekendActivity[]): void {
+    const activitiesStore = transaction.objectStore('activities');
+    activities.forEach(activity => {
+      activitiesStore.put({
+        ...activity,
+        planId,
+      });
+    });
+  }
 
-      const transaction = this.db.transaction(['plans', 'activities'], 'readwrite');
-      const plansStore = transaction.objectStore('plans');
-      const activitiesStore = transaction.objectStore('activities');
+  // All index records of one plan: keys are [planId, activityId]
+  private planActivitiesRange(planId: string): IDBKeyRange {
+    return IDBKeyRange.bound([planId], [planId, []]);
+  }
 
+  private async putPlanToIndexedDB(plan: WeekendPlan): Promise<void> {
+    return this.withTransaction(['plans', 'activities', 'revisions'], 'readwrite', (transaction) => {
+      transaction.objectStore('plans').put(plan);
+      transaction.objectStore('activities').delete(this.planActivitiesRange(plan.id));
+      this.writeActivities(transaction, plan.id, plan.activities);
+      transaction.objectStore('revisions').put(toRevision(plan));
+    });
+  }
+
+  private async savePlanToIndexedDB(plan: WeekendPlan): Promise<string> {
+    return this.withTransaction(['plans', 'activities', 'revisions'], 'readwrite', (transaction) => {
+      transaction.objectStore('plans').add(plan);
+      // Also save activities separately for analytics
+      this.writeActivities(transaction, plan.id, plan.activities);
+      transaction.objectStore('revisions').put(toRevision(plan));
+      return plan.id;
+    });
+  }
+
+  private async updatePlanInIndexedDB(id: string, change: PlanUpdate): Promise<{ plan: WeekendPlan; changed: boolean }> {
+    const result = { plan: null as unknown as WeekendPlan, changed: false };
+    return this.withTransaction(['plans', 'activities', 'revisions'], 'readwrite', (transaction, fail) => {
+      const plansStore = transaction.objectStore('plans');
       const getRequest = plansStore.get(id);
-      
+
       getRequest.onsuccess = () => {
-        const existingPlan = getRequest.result;
+        const existingPlan: WeekendPlan | undefined = getRequest.result;
         if (!existingPlan) {
-          reject(new Error('Plan not found'));
+          fail(new PlanNotFoundError(id));
           return;
         }
 
-        const updatedPlan = {
+        let updates: Partial<WeekendPlan> | null;
+        try {
+          updates = change(existingPlan);
+        } catch (error) {
+          fail(toPersistenceError(error));
+          return;
+        }
+        if (!updates) {
+          result.plan = existingPlan;
+          return;
+        }
+
+        const updatedPlan: WeekendPlan = {
           ...existingPlan,
           ...updates,
           updatedAt: new Date(),
           version: existingPlan.version + 1,
         };
+        result.plan = updatedPlan;
+        result.changed = true;
 
-        const putRequest = plansStore.put(updatedPlan);
-        
-        putRequest.onsuccess = () => {
-          // Update activities if they changed
-          if (updates.activities) {
-            // Remove old activities
-            const deleteRequest = activitiesStore.index('planId').openCursor(IDBKeyRange.only(id));
-            deleteRequest.onsuccess = (event) => {
-              const cursor = (event.target as IDBRequest).result;
-              if (cursor) {
-                cursor.delete();
-                cursor.continue();
-              } else {
-                // Add new activities
-                updates.activities!.forEach(activity => {
-                  activitiesStore.add({
-                    ...activity,
-                    planId: id,
-                  });
-                });
-                resolve();
-              }
-            };
-          } else {
-            resolve();
-          }
-        };
+        plansStore.put(updatedPlan);
+        transaction.objectStore('revisions').put(toRevision(updatedPlan));
 
-        putRequest.onerror = () => {
-          reject(putRequest.error);
-        };
-      };
-
-      getRequest.onerror = () => {
-        reject(getRequest.error);
+        // Update activities if they changed
+        if (updates.activities) {
+          transaction.objectStore('activities').delete(this.planActivitiesRange(id));
+          this.writeActivities(transaction, id, updates.activities);
+        }
       };
+      return result;
     });
   }
 
   private async getPlanFromIndexedDB(id: string): Promise<WeekendPlan | null> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
         return;
       }
 
@@ -347,7 +1151,7 @@ class PersistenceManager {
   private async getAllPlansFromIndexedDB(): Promise<WeekendPlan[]> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
         return;
       }
 
@@ -366,35 +1170,39 @@ class PersistenceManager {
   }
 
   private async deletePlanFromIndexedDB(id: string): Promise<void> {
+    return this.withTransaction(['plans', 'activities', 'revisions'], 'readwrite', (transaction) => {
+      transaction.objectStore('plans').delete(id);
+      transaction.objectStore('activities').delete(this.planActivitiesRange(id));
+
+      // Delete associated revisions
+      const revisionsRequest = transaction.objectStore('revisions').index('planId').openCursor(IDBKeyRange.only(id));
+      revisionsRequest.onsuccess = () => {
+        const cursor = revisionsRequest.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    });
+  }
+
+  private async getRevisionsFromIndexedDB(planId: string): Promise<PlanRevision[]> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
         return;
       }
 
-      const transaction = this.db.transaction(['plans', 'activities'], 'readwrite');
-      const plansStore = transaction.objectStore('plans');
-      const activitiesStore = transaction.objectStore('activities');
+      const transaction = this.db.transaction(['revisions'], 'readonly');
+      const store = transaction.objectStore('revisions');
+      const request = store.index('planId').getAll(IDBKeyRange.only(planId));
 
-      // Delete plan
-      const deletePlanRequest = plansStore.delete(id);
-      
-      deletePlanRequest.onsuccess = () => {
-        // Delete associated activities
-        const deleteActivitiesRequest = activitiesStore.index('planId').openCursor(IDBKeyRange.only(id));
-        deleteActivitiesRequest.onsuccess = (event) => {
-          const cursor = (event.target as IDBRequest).result;
-          if (cursor) {
-            cursor.delete();
-            cursor.continue();
-          } else {
-            resolve();
-          }
-        };
+      request.onsuccess = () => {
+        resolve(request.result || []);
       };
 
-      deletePlanRequest.onerror = () => {
-        reject(deletePlanRequest.error);
+      request.onerror = () => {
+        reject(request.error);
       };
     });
   }
@@ -402,7 +1210,7 @@ class PersistenceManager {
   private async saveSettingsToIndexedDB(key: string, value: any): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
         return;
       }
 
@@ -418,7 +1226,7 @@ class PersistenceManager {
   private async getSettingsFromIndexedDB(key: string): Promise<any> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
         return;
       }
 
@@ -436,10 +1244,38 @@ class PersistenceManager {
     });
   }
 
-  private async getStatsFromIndexedDB(): Promise<PersistenceStats> {
+  private async getSyncRecordFromIndexedDB(key: string): Promise<SyncRecord | null> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
+        return;
+      }
+
+      const request = this.db.transaction(['sync'], 'readonly').objectStore('sync').get(key);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async getSyncRecordsFromIndexedDB(prefix: string): Promise<SyncRecord[]> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
+        return;
+      }
+
+      // Every key starting with the prefix sorts between prefix and prefix + U+FFFF
+      const range = prefix ? IDBKeyRange.bound(prefix, `${prefix}\uffff`) : undefined;
+      const request = this.db.transaction(['sync'], 'readonly').objectStore('sync').getAll(range);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async getStatsFromIndexedDB(): Promise<Omit<PersistenceStats, 'storageUsed'>> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new PersistenceError('Database not initialized', 'NOT_INITIALIZED'));
         return;
       }
 
@@ -463,8 +1299,6 @@ class PersistenceManager {
         resolve({
           totalPlans,
           totalActivities,
-          storageUsed: 0, // Would need to calculate actual storage usage
-          lastSync: new Date(),
         });
       }).catch(reject);
     });
@@ -474,21 +1308,55 @@ class PersistenceManager {
   private async savePlanToLocalStorage(plan: WeekendPlan): Promise<string> {
     try {
       window.localStorage.setItem(`weekendly.plan.${plan.id}`, JSON.stringify(plan));
+      this.saveRevisionToLocalStorage(plan);
       return plan.id;
     } catch (error) {
-      throw new Error('Failed to save plan to localStorage');
+      throw new PersistenceError('Failed to save plan to localStorage', toPersistenceError(error).code, error);
     }
   }
 
-  private async updatePlanInLocalStorage(id: string, updates: Partial<WeekendPlan>): Promise<void> {
+  // Reads and writes without awaiting in between, so no other save can interleave
+  private async updatePlanInLocalStorage(id: string, change: PlanUpdate): Promise<{ plan: WeekendPlan; changed: boolean }> {
     const existing = window.localStorage.getItem(`weekendly.plan.${id}`);
     if (!existing) {
-      throw new Error('Plan not found');
+      throw new PlanNotFoundError(id);
+    }
+
+    const plan: WeekendPlan = JSON.parse(existing);
+    const updates = change(plan);
+    if (!updates) return { plan, changed: false };
+
+    const updatedPlan: WeekendPlan = { ...plan, ...updates, updatedAt: new Date(), version: plan.version + 1 };
+    try {
+      window.localStorage.setItem(`weekendly.plan.${id}`, JSON.stringify(updatedPlan));
+      this.saveRevisionToLocalStorage(updatedPlan);
+    } catch (error) {
+      throw new PersistenceError('Failed to update plan in localStorage', toPersistenceError(error).code, error);
     }
+    return { plan: updatedPlan, changed: true };
+  }
 
-    const plan = JSON.parse(existing);
-    const updatedPlan = { ...plan, ...updates, updatedAt: new Date().toISOString() };
-    window.localStorage.setItem(`weekendly.plan.${id}`, JSON.stringify(updatedPlan));
+  private saveRevisionToLocalStorage(plan: WeekendPlan): void {
+    const revisions = this.getRevisionsFromLocalStorage(plan.id)
+      .filter(r => r.id !== revisionId(plan.id, plan.version));
+    revisions.push(toRevision(plan));
+    const kept = revisions
+      .sort((a, b) => a.version - b.version)
+      .slice(-LOCAL_STORAGE_REVISION_LIMIT);
+    window.localStorage.setItem(`weekendly.revisions.${plan.id}`, JSON.stringify(kept));
+  }
+
+  private getRevisionsFromLocalStorage(planId: string): PlanRevision[] {
+    const data = window.localStorage.getItem(`weekendly.revisions.${planId}`);
+    if (!data) return [];
+
+    try {
+      const parsed = JSON.parse(data);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn('Failed to parse revision data from localStorage:', error);
+      return [];
+    }
   }
 
   private async getPlanFromLocalStorage(id: string): Promise<WeekendPlan | null> {
@@ -524,25 +1392,64 @@ class PersistenceManager {
 
   private async deletePlanFromLocalStorage(id: string): Promise<void> {
     window.localStorage.removeItem(`weekendly.plan.${id}`);
+    window.localStorage.removeItem(`weekendly.revisions.${id}`);
   }
 
-  private async getStatsFromLocalStorage(): Promise<PersistenceStats> {
+  private async getStatsFromLocalStorage(): Promise<Omit<PersistenceStats, 'storageUsed'>> {
     const plans = await this.getAllPlansFromLocalStorage();
     const totalActivities = plans.reduce((sum, plan) => sum + plan.activities.length, 0);
     
     return {
       totalPlans: plans.length,
       totalActivities,
-      storageUsed: 0, // Would need to calculate actual storage usage
-      lastSync: new Date(),
     };
   }
 }
 
+// Size of a value as UTF-8 encoded JSON
+function byteSize(value: unknown): number {
+  const json = JSON.stringify(value) ?? '';
+  let bytes = 0;
+  for (let i = 0; i < json.length; i++) {
+    const code = json.charCodeAt(i);
+    if (code < 0x80) bytes += 1;
+    else if (code < 0x800) bytes += 2;
+    else if (code >= 0xd800 && code <= 0xdbff) {
+      // Surrogate pair: one 4-byte code point
+      bytes += 4;
+      i++;
+    } else bytes += 3;
+  }
+  return bytes;
+}
+
+const THEME_NAMES: Record<WeekendPlan['theme'], string> = {
+  lazy: 'Lazy weekend',
+  adventurous: 'Adventurous weekend',
+  family: 'Family weekend',
+};
+
+export function getPlanName(plan: Pick<WeekendPlan, 'theme' | 'metadata'>): string {
+  return plan.metadata?.name || THEME_NAMES[plan.theme] || 'Untitled plan';
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
 // Singleton instance
 export const persistenceManager = new PersistenceManager();
 
-// Initialize on module load
-if (typeof window !== 'undefined') {
-  persistenceManager.init().catch(console.error);
-}
+// Initialize on module load. Await this before creating plans so they don't land in
+// the localStorage fallback while IndexedDB is still opening.
+export const persistenceReady: Promise<void> = typeof window !== 'undefined'
+  ? persistenceManager.init().catch(console.error)
+  : Promise.resolve();
@@ -0,0 +1,285 @@
+/**
+ * Plan import for Weekendly
+ * Runtime schema for exported data and template packs, and the merge / replace /
+ * import-as-new planner
+ */
+
+import { z } from 'zod';
+import type { WeekendActivity, WeekendPlan } from './persistence';
+import { diffActivities, type ActivityChange, type PlanDiff } from './revisions';
+import { WEEKEND_DATE_PATTERN } from './weekends';
+
+const themeSchema = z.enum(['lazy', 'adventurous', 'family']);
+
+const activitySchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  category: z.enum(['outdoor', 'food', 'fitness', 'culture', 'home', 'other']),
+  day: z.enum(['friday', 'saturday', 'sunday', 'monday']),
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a 24-hour HH:MM time'),
+  durationMins: z.number().int().min(15).max(24 * 60),
+  mood: z.enum(['chill', 'energetic', 'social', 'focus']).optional(),
+  notes: z.string().optional(),
+  overlap: z.enum(['allow', 'exclusive']).optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']).optional(),
+  location: z.object({
+    name: z.string().min(1),
+    lat: z.number().min(-90).max(90).optional(),
+    lng: z.number().min(-180).max(180).optional(),
+  }).optional(),
+  travelMins: z.number().int().min(0).max(12 * 60).optional(),
+  locked: z.boolean().optional(),
+  dependsOn: z.array(z.object({
+    activityId: z.string().min(1),
+    sameDay: z.boolean().optional(),
+    minGapMins: z.number().int().min(0).max(3 * 24 * 60).optional(),
+  })).optional(),
+  recurrence: z.object({
+    frequency: z.enum(['weekly', 'monthly']),
+    interval: z.number().int().min(1).max(52).optional(),
+    weekOfMonth: z.union([z.literal(-1), z.number().int().min(1).max(4)]).optional(),
+    since: z.string().regex(WEEKEND_DATE_PATTERN, 'Expected a YYYY-MM-DD date'),
+    until: z.string().regex(WEEKEND_DATE_PATTERN, 'Expected a YYYY-MM-DD date').optional(),
+    exceptions: z.array(z.string().regex(WEEKEND_DATE_PATTERN, 'Expected a YYYY-MM-DD date')).optional(),
+  }).optional(),
+  seriesId: z.string().min(1).optional(),
+});
+
+const activitiesSchema = z.array(activitySchema).superRefine((activities, ctx) => {
+  const seen = new Set<string>();
+  activities.forEach((activity, index) => {
+    if (seen.has(activity.id)) {
+      ctx.addIssue({ code: 'custom', path: [index, 'id'], message: `Duplicate activity id "${activity.id}"` });
+    }
+    seen.add(activity.id);
+  });
+  activities.forEach((activity, index) => {
+    activity.dependsOn?.forEach((dependency, i) => {
+      const path = [index, 'dependsOn', i, 'activityId'];
+      if (dependency.activityId === activity.id) {
+        ctx.addIssue({ code: 'custom', path, message: 'An activity cannot depend on itself' });
+      } else if (!seen.has(dependency.activityId)) {
+        ctx.addIssue({ code: 'custom', path, message: `Unknown activity "${dependency.activityId}" in dependency` });
+      }
+    });
+  });
+});
+
+const planSchema = z.object({
+  id: z.string().min(1).optional(),
+  theme: themeSchema,
+  activities: activitiesSchema,
+  createdAt: z.coerce.date().optional(),
+  updatedAt: z.coerce.date().optional(),
+  version: z.number().int().positive().optional(),
+  metadata: z
+    .object({
+      name: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+      notes: z.string().optional(),
+      isTemplate: z.boolean().optional(),
+      archived: z.boolean().optional(),
+      weekendOf: z.string().regex(WEEKEND_DATE_PATTERN, 'Expected a YYYY-MM-DD date').optional(),
+    })
+    .optional(),
+});
+
+// Full backup, as written by PersistenceManager.exportAllData
+const backupSchema = z.object({
+  plans: z.array(planSchema),
+  settings: z.record(z.string(), z.unknown()).default({}),
+});
+
+// Single plan, as written by the page's JSON export
+const singlePlanSchema = z.object({
+  theme: themeSchema,
+  activities: activitiesSchema,
+});
+
+// Plan carried by a share link, once decoded; fields outside the schema are dropped
+const sharedPlanSchema = singlePlanSchema.extend({
+  weekendOf: z.string().regex(WEEKEND_DATE_PATTERN, 'Expected a YYYY-MM-DD date').optional(),
+  name: z.string().optional(),
+});
+
+// Shareable templates, as written by PersistenceManager.exportTemplatePack
+export const TEMPLATE_PACK_FORMAT = 'weekendly.template-pack';
+
+const templatePackSchema = z.object({
+  format: z.literal(TEMPLATE_PACK_FORMAT),
+  version: z.literal(1),
+  templates: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        theme: themeSchema,
+        description: z.string().optional(),
+        activities: activitiesSchema,
+      })
+    )
+    .min(1, 'A pack needs at least one template'),
+});
+
+export type ImportMode = 'merge' | 'replace' | 'new';
+
+export type TemplatePack = z.infer<typeof templatePackSchema>;
+
+export type TemplatePackParseResult =
+  | { ok: true; pack: TemplatePack }
+  | { ok: false; issues: ImportIssue[] };
+
+export type ImportedPlan = z.infer<typeof planSchema>;
+
+export type SharedPlanParseResult =
+  | { ok: true; plan: z.infer<typeof sharedPlanSchema> }
+  | { ok: false; issues: ImportIssue[] };
+
+export interface ImportBundle {
+  plans: ImportedPlan[];
+  settings: Record<string, unknown>;
+}
+
+export interface ImportIssue {
+  path: string; // e.g. plans[0].activities[2].start
+  message: string;
+}
+
+export type ImportParseResult =
+  | { ok: true; bundle: ImportBundle }
+  | { ok: false; issues: ImportIssue[] };
+
+export interface PlanImportStep {
+  action: 'create' | 'update' | 'unchanged';
+  theme: WeekendPlan['theme'];
+  targetPlanId?: string; // existing plan that will be updated
+  activities: WeekendActivity[]; // activities the plan ends up with
+  metadata?: WeekendPlan['metadata'];
+  diff: PlanDiff; // against the existing plan, or everything added for new plans
+  conflicts: ActivityChange[]; // local edits that the import disagrees with
+}
+
+export interface ImportPreview {
+  mode: ImportMode;
+  steps: PlanImportStep[];
+}
+
+/**
+ * Validate unknown JSON against either export format
+ */
+export function parseImport(raw: unknown): ImportParseResult {
+  const isBackup = typeof raw === 'object' && raw !== null && 'plans' in raw;
+
+  if (isBackup) {
+    const result = backupSchema.safeParse(raw);
+    return result.success
+      ? { ok: true, bundle: result.data }
+      : { ok: false, issues: toIssues(result.error) };
+  }
+
+  const result = singlePlanSchema.safeParse(raw);
+  return result.success
+    ? { ok: true, bundle: { plans: [result.data], settings: {} } }
+    : { ok: false, issues: toIssues(result.error) };
+}
+
+export function parseTemplatePack(raw: unknown): TemplatePackParseResult {
+  const result = templatePackSchema.safeParse(raw);
+  return result.success
+    ? { ok: true, pack: result.data }
+    : { ok: false, issues: toIssues(result.error) };
+}
+
+// Share links come from a URL, so they get the same checks as imported files
+export function parseSharedPlan(raw: unknown): SharedPlanParseResult {
+  const result = sharedPlanSchema.safeParse(raw);
+  return result.success
+    ? { ok: true, plan: result.data }
+    : { ok: false, issues: toIssues(result.error) };
+}
+
+/**
+ * Work out what importing `bundle` would do to `existing`, without writing anything.
+ *
+ * - merge: adds new activities and takes imported edits, but keeps local edits
+ *   that conflict unless the import is known to be newer
+ * - replace: the imported activities overwrite the matching plan
+ * - new: every imported plan is saved as a new plan
+ */
+export function planImport(existing: WeekendPlan[], bundle: ImportBundle, mode: ImportMode): ImportPreview {
+  const steps = bundle.plans.map((incoming): PlanImportStep => {
+    const target = mode === 'new' ? undefined : findTarget(existing, incoming);
+
+    if (!target) {
+      return {
+        action: 'create',
+        theme: incoming.theme,
+        activities: incoming.activities,
+        metadata: { isTemplate: false, ...incoming.metadata },
+        diff: diffActivities([], incoming.activities),
+        conflicts: [],
+      };
+    }
+
+    const incomingIsNewer = !!incoming.updatedAt && incoming.updatedAt.getTime() >= new Date(target.updatedAt).getTime();
+    const overlap = diffActivities(target.activities, incoming.activities).changed;
+    const conflicts = incomingIsNewer ? [] : overlap;
+
+    let activities: WeekendActivity[];
+    if (mode === 'replace') {
+      activities = incoming.activities;
+    } else {
+      const conflicting = new Set(conflicts.map(c => c.after.id));
+      const incomingById = new Map(incoming.activities.map(a => [a.id, a]));
+      const localIds = new Set(target.activities.map(a => a.id));
+      activities = [
+        ...target.activities.map(a => (conflicting.has(a.id) ? a : incomingById.get(a.id) ?? a)),
+        ...incoming.activities.filter(a => !localIds.has(a.id)),
+      ];
+    }
+
+    const diff = diffActivities(target.activities, activities);
+    const unchanged = diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+    return {
+      action: unchanged ? 'unchanged' : 'update',
+      theme: target.theme,
+      targetPlanId: target.id,
+      activities,
+      metadata: target.metadata,
+      diff,
+      conflicts,
+    };
+  });
+
+  return { mode, steps };
+}
+
+function findTarget(existing: WeekendPlan[], incoming: ImportedPlan): WeekendPlan | undefined {
+  if (incoming.id) {
+    const byId = existing.find(p => p.id === incoming.id);
+    if (byId) return byId;
+  }
+  if (incoming.metadata?.isTemplate) return undefined;
+  // Named plans only match a plan of the same name; unnamed ones match the theme's unnamed plan.
+  // Plans for a calendar weekend only match a plan for the same weekend.
+  return existing.find(p =>
+    p.theme === incoming.theme &&
+    !p.metadata?.isTemplate &&
+    !p.metadata?.archived &&
+    p.metadata?.name === incoming.metadata?.name &&
+    p.metadata?.weekendOf === incoming.metadata?.weekendOf
+  );
+}
+
+function toIssues(error: z.ZodError): ImportIssue[] {
+  return error.issues.map(issue => ({
+    path: formatPath(issue.path) || '(root)',
+    message: issue.message,
+  }));
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((acc, key) => {
+    if (typeof key === 'number') return `${acc}[${key}]`;
+    return acc ? `${acc}.${String(key)}` : String(key);
+  }, '');
+}
@@ -0,0 +1,186 @@
+/**
+ * Recurring activities for Weekendly
+ * Routines that repeat weekly or monthly, the weekends they fall on, their
+ * occurrences in dated weekend plans, and RRULEs for calendar export
+ */
+
+import { parseIsoDate } from './dates';
+import { activitiesOverlap } from './overlap';
+import type { ActivityRecurrence, WeekendActivity } from './persistence';
+import { capitalize, createActivityId } from './utils';
+import { addWeekends, weekendDayDate, type WeekendDay } from './weekends';
+
+// The activity a recurring series repeats; its id is the series id
+export type Routine = WeekendActivity & { recurrence: ActivityRecurrence };
+
+// The rules the edit dialog offers
+export type RecurrencePreset = 'weekly' | 'biweekly' | 'monthly-first' | 'monthly-last';
+
+// How an edit to an occurrence reaches its routine
+export type SeriesChange =
+  | { kind: 'start'; activity: WeekendActivity } // the activity started repeating
+  | { kind: 'future'; seriesId: string; activity: WeekendActivity } // from this weekend on; no `recurrence` ends the series
+  | { kind: 'skip'; seriesId: string }; // this weekend's occurrence was removed
+
+export interface Expansion {
+  added: WeekendActivity[];
+  skipped: Routine[]; // due this weekend, but something already takes their time
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const RRULE_DAYS: Record<WeekendDay, string> = { friday: 'FR', saturday: 'SA', sunday: 'SU', monday: 'MO' };
+
+const ORDINALS = ['First', 'Second', 'Third', 'Fourth'];
+
+export function presetRule(preset: RecurrencePreset, since: string): ActivityRecurrence {
+  switch (preset) {
+    case 'weekly': return { frequency: 'weekly', since };
+    case 'biweekly': return { frequency: 'weekly', interval: 2, since };
+    case 'monthly-first': return { frequency: 'monthly', weekOfMonth: 1, since };
+    case 'monthly-last': return { frequency: 'monthly', weekOfMonth: -1, since };
+  }
+}
+
+// The preset a rule matches; null for rules made some other way, e.g. imported
+export function rulePreset(rule: ActivityRecurrence): RecurrencePreset | null {
+  if (rule.frequency === 'weekly') return (rule.interval ?? 1) === 1 ? 'weekly' : rule.interval === 2 ? 'biweekly' : null;
+  return rule.weekOfMonth === 1 ? 'monthly-first' : rule.weekOfMonth === -1 ? 'monthly-last' : null;
+}
+
+// "Every other weekend", "First Saturday of the month"
+export function describeRecurrence(rule: ActivityRecurrence, day: WeekendDay): string {
+  const dayName = capitalize(day);
+  if (rule.frequency === 'weekly') {
+    const interval = rule.interval ?? 1;
+    return interval === 1 ? 'Every weekend' : interval === 2 ? 'Every other weekend' : `Every ${interval} weekends`;
+  }
+  const nth = rule.weekOfMonth ?? 1;
+  return `${nth === -1 ? 'Last' : ORDINALS[nth - 1] ?? `${nth}th`} ${dayName} of the month`;
+}
+
+/**
+ * Whether a routine on `day` falls on `weekend`: within the series, not an
+ * exception, and on the rule's weeks
+ */
+export function occursOn(rule: ActivityRecurrence, day: WeekendDay, weekend: string): boolean {
+  if (weekend < rule.since || (rule.until && weekend > rule.until) || rule.exceptions?.includes(weekend)) return false;
+  if (rule.frequency === 'weekly') {
+    const weeks = Math.round((parseIsoDate(weekend).getTime() - parseIsoDate(rule.since).getTime()) / WEEK_MS);
+    return weeks % (rule.interval ?? 1) === 0;
+  }
+  const date = weekendDayDate(weekend, day);
+  if (rule.weekOfMonth === -1) {
+    const weekLater = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7);
+    return weekLater.getMonth() !== date.getMonth();
+  }
+  return Math.ceil(date.getDate() / 7) === (rule.weekOfMonth ?? 1);
+}
+
+/**
+ * The first weekend a rule falls on, from `since`. Skipped weekends still count;
+ * calendars list those as exceptions to the series.
+ */
+export function firstOccurrence(rule: ActivityRecurrence, day: WeekendDay): string {
+  const unskipped = { ...rule, exceptions: undefined };
+  // Monthly rules fall in every month, so this is never more than a few weekends on
+  for (let weekend = rule.since, i = 0; i < 6; weekend = addWeekends(weekend, 1), i++) {
+    if (occursOn(unskipped, day, weekend)) return weekend;
+  }
+  return rule.since;
+}
+
+/**
+ * Occurrences of the routines due on `weekend` that the plan doesn't have yet.
+ * A routine is only added once per plan, so occurrences removed or edited there
+ * stay that way. `busy` is time other calendars already take.
+ */
+export function expandRoutines(
+  routines: Routine[],
+  weekend: string,
+  activities: WeekendActivity[],
+  busy: Pick<WeekendActivity, 'id' | 'day' | 'start' | 'durationMins'>[] = []
+): Expansion {
+  const result: Expansion = { added: [], skipped: [] };
+  for (const routine of routines) {
+    if (!occursOn(routine.recurrence, routine.day, weekend) || activities.some(a => a.seriesId === routine.id)) continue;
+    const occurrence = toOccurrence(routine);
+    const taken = [...activities, ...result.added].some(a => activitiesOverlap(a, occurrence) && !(a.overlap === 'allow' && occurrence.overlap === 'allow'));
+    if (taken || busy.some(b => activitiesOverlap(b, occurrence))) {
+      result.skipped.push(routine);
+    } else {
+      result.added.push(occurrence);
+    }
+  }
+  return result;
+}
+
+/**
+ * Routines after a change made on `weekend`. Changes from here on end the old
+ * series the weekend before and start the new one from this weekend.
+ */
+export function applySeriesChange(routines: Routine[], change: SeriesChange, weekend: string): Routine[] {
+  if (change.kind === 'start') {
+    const routine = toRoutine(change.activity, weekend);
+    return routine ? [...routines, routine] : routines;
+  }
+
+  if (change.kind === 'skip') {
+    return routines.map(r => {
+      if (r.id !== change.seriesId) return r;
+      const exceptions = [...new Set([...(r.recurrence.exceptions ?? []), weekend])].sort();
+      return { ...r, recurrence: { ...r.recurrence, exceptions } };
+    });
+  }
+
+  const ended = routines.flatMap(r => {
+    if (r.id !== change.seriesId) return [r];
+    // A series that only starts now is replaced outright
+    if (r.recurrence.since >= weekend) return [];
+    const until = addWeekends(weekend, -1);
+    const exceptions = r.recurrence.exceptions?.filter(w => w <= until);
+    return [{ ...r, recurrence: { ...r.recurrence, until, exceptions: exceptions?.length ? exceptions : undefined } }];
+  });
+  const next = toRoutine(change.activity, weekend);
+  return next ? [...ended, next] : ended;
+}
+
+/**
+ * A later weekend's activities once series `seriesId` has become `routine`: the
+ * old occurrence goes, and the new routine's takes its place if it's due then
+ */
+export function retargetSeries(activities: WeekendActivity[], weekend: string, seriesId: string, routine?: Routine): WeekendActivity[] {
+  const old = activities.find(a => a.seriesId === seriesId);
+  const rest = activities.filter(a => a.seriesId !== seriesId);
+  if (!routine || !occursOn(routine.recurrence, routine.day, weekend)) return rest;
+  return [...rest, { ...toOccurrence(routine), ...(old ? { id: old.id } : {}) }];
+}
+
+/**
+ * The rule as an iCalendar RRULE value, e.g. "FREQ=MONTHLY;BYDAY=1SA". `UNTIL`
+ * is the end of the activity's day on the last weekend, in UTC.
+ */
+export function toRRule(rule: ActivityRecurrence, day: WeekendDay): string {
+  const parts = rule.frequency === 'weekly'
+    ? ['FREQ=WEEKLY', ...((rule.interval ?? 1) > 1 ? [`INTERVAL=${rule.interval}`] : []), `BYDAY=${RRULE_DAYS[day]}`]
+    : ['FREQ=MONTHLY', `BYDAY=${rule.weekOfMonth ?? 1}${RRULE_DAYS[day]}`];
+  if (rule.until) {
+    const end = weekendDayDate(rule.until, day);
+    end.setHours(23, 59, 59);
+    parts.push(`UNTIL=${end.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  }
+  return parts.join(';');
+}
+
+function toRoutine(activity: WeekendActivity, weekend: string): Routine | null {
+  if (!activity.recurrence || !activity.seriesId) return null;
+  const routine: Routine = { ...activity, id: activity.seriesId, recurrence: { ...activity.recurrence, since: weekend } };
+  delete routine.seriesId;
+  // Rules on other activities' ids mean nothing on other weekends
+  delete routine.dependsOn;
+  return routine;
+}
+
+function toOccurrence(routine: Routine): WeekendActivity {
+  return { ...routine, id: createActivityId(), seriesId: routine.id };
+}
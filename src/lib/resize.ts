@@ -0,0 +1,52 @@
+/**
+ * Resizing activity blocks for Weekendly
+ * Moves one edge of an activity on the timeline, snapped to the slot size
+ */
+
+import type { WeekendActivity } from './persistence';
+import { toMinutes, toTimeString } from './time';
+
+// The start edge changes when an activity begins, the end edge how long it lasts
+export type ResizeEdge = 'start' | 'end';
+
+export interface ResizeBounds {
+  earliestMins: number; // the start edge stops here
+  latestMins: number; // and the end edge here
+  stepMins?: number; // snap size and shortest duration; default 15
+}
+
+/**
+ * `activity` with `edge` moved to `minutes`, snapped to the step. The other edge
+ * stays put. An activity already outside the bounds can keep its times.
+ */
+export function resizeActivity<T extends Pick<WeekendActivity, 'start' | 'durationMins'>>(
+  activity: T,
+  edge: ResizeEdge,
+  minutes: number,
+  { earliestMins, latestMins, stepMins = 15 }: ResizeBounds
+): T {
+  const start = toMinutes(activity.start);
+  const end = start + activity.durationMins;
+  const snapped = Math.round(minutes / stepMins) * stepMins;
+
+  if (edge === 'end') {
+    const nextEnd = Math.min(Math.max(snapped, start + stepMins), Math.max(latestMins, end));
+    return { ...activity, durationMins: nextEnd - start };
+  }
+  const nextStart = Math.max(Math.min(snapped, end - stepMins), Math.min(earliestMins, start));
+  return { ...activity, start: toTimeString(nextStart), durationMins: end - nextStart };
+}
+
+/**
+ * Move an edge by whole steps, e.g. one step per Shift+Arrow press
+ */
+export function nudgeActivity<T extends Pick<WeekendActivity, 'start' | 'durationMins'>>(
+  activity: T,
+  edge: ResizeEdge,
+  steps: number,
+  bounds: ResizeBounds
+): T {
+  const start = toMinutes(activity.start);
+  const from = edge === 'start' ? start : start + activity.durationMins;
+  return resizeActivity(activity, edge, from + steps * (bounds.stepMins ?? 15), bounds);
+}
@@ -0,0 +1,89 @@
+/**
+ * Plan revision history
+ * Every saved version of a plan is kept as an immutable snapshot so it can be
+ * listed, compared and restored after a reload.
+ */
+
+import type { WeekendActivity, WeekendPlan } from './persistence';
+
+export interface PlanRevision {
+  id: string; // `${planId}@${version}`
+  planId: string;
+  version: number;
+  savedAt: Date;
+  theme: WeekendPlan['theme'];
+  activities: WeekendActivity[];
+  metadata?: WeekendPlan['metadata'];
+}
+
+export interface ActivityChange {
+  before: WeekendActivity;
+  after: WeekendActivity;
+  fields: (keyof WeekendActivity)[];
+}
+
+export interface PlanDiff {
+  added: WeekendActivity[];
+  removed: WeekendActivity[];
+  changed: ActivityChange[];
+}
+
+const COMPARED_FIELDS: (keyof WeekendActivity)[] = ['title', 'category', 'day', 'start', 'durationMins', 'mood', 'notes', 'overlap', 'difficulty', 'location', 'travelMins', 'locked', 'dependsOn', 'recurrence'];
+
+export function revisionId(planId: string, version: number): string {
+  return `${planId}@${version}`;
+}
+
+export function toRevision(plan: WeekendPlan): PlanRevision {
+  return {
+    id: revisionId(plan.id, plan.version),
+    planId: plan.id,
+    version: plan.version,
+    savedAt: new Date(plan.updatedAt),
+    theme: plan.theme,
+    activities: plan.activities.map(a => ({ ...a })),
+    metadata: plan.metadata,
+  };
+}
+
+/**
+ * Compare two activity lists by activity id
+ */
+export function diffActivities(before: WeekendActivity[], after: WeekendActivity[]): PlanDiff {
+  const beforeById = new Map(before.map(a => [a.id, a]));
+  const afterById = new Map(after.map(a => [a.id, a]));
+
+  const added = after.filter(a => !beforeById.has(a.id));
+  const removed = before.filter(a => !afterById.has(a.id));
+  const changed: ActivityChange[] = [];
+
+  for (const next of after) {
+    const prev = beforeById.get(next.id);
+    if (!prev) continue;
+    const fields = COMPARED_FIELDS.filter(field => !sameValue(prev[field], next[field]));
+    if (fields.length > 0) {
+      changed.push({ before: prev, after: next, fields });
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+// Locations are objects, so compare them by content
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  return (a ?? '') === (b ?? '');
+}
+
+export function isEmptyDiff(diff: PlanDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+export function summarizeDiff(diff: PlanDiff): string {
+  if (isEmptyDiff(diff)) return 'No changes';
+  const parts: string[] = [];
+  if (diff.added.length) parts.push(`+${diff.added.length} added`);
+  if (diff.removed.length) parts.push(`−${diff.removed.length} removed`);
+  if (diff.changed.length) parts.push(`~${diff.changed.length} changed`);
+  return parts.join(' • ');
+}
@@ -0,0 +1,329 @@
+/**
+ * Share links for Weekendly
+ * Plans packed into the `#plan=` hash: a compact binary encoding, compressed,
+ * behind a format version byte, with an optional expiry and HMAC signature
+ */
+
+import type { WeekendActivity, WeekendPlan } from './persistence';
+import { parseSharedPlan } from './plan-import';
+import { toMinutes, toTimeString } from './time';
+
+// What a link carries
+export interface SharedPlan {
+  theme: WeekendPlan['theme'];
+  activities: WeekendActivity[];
+  weekendOf?: string;
+  name?: string;
+}
+
+export interface ShareLinkOptions {
+  secret?: string; // passphrase shared with recipients; signs the link when set
+  expiresAt?: Date;
+}
+
+export interface DecodeShareLinkOptions {
+  secret?: string;
+  now?: Date;
+}
+
+export interface DecodedShareLink {
+  plan: SharedPlan;
+  version: number; // 0 for links from before the binary format
+  // valid: signed with our passphrase; unchecked: signed, but we have no passphrase to check it
+  signature: 'valid' | 'unchecked' | 'none';
+  expiresAt?: Date;
+}
+
+export type ShareLinkErrorCode = 'MALFORMED' | 'UNSUPPORTED_VERSION' | 'EXPIRED' | 'BAD_SIGNATURE';
+
+export class ShareLinkError extends Error {
+  readonly code: ShareLinkErrorCode;
+
+  constructor(message: string, code: ShareLinkErrorCode) {
+    super(message);
+    this.name = 'ShareLinkError';
+    this.code = code;
+  }
+}
+
+export const SHARE_LINK_VERSION = 1;
+
+// Header flags
+const SIGNED = 1;
+const EXPIRES = 2;
+
+const SIGNATURE_BYTES = 32; // HMAC-SHA256
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+// Enum values are written as their index, so these lists only ever grow at the end
+const THEMES: WeekendPlan['theme'][] = ['lazy', 'adventurous', 'family'];
+const CATEGORIES: WeekendActivity['category'][] = ['outdoor', 'food', 'fitness', 'culture', 'home', 'other'];
+const DAYS: WeekendActivity['day'][] = ['friday', 'saturday', 'sunday', 'monday'];
+const MOODS: NonNullable<WeekendActivity['mood']>[] = ['chill', 'energetic', 'social', 'focus'];
+
+// Fields with a binary form; everything else travels as JSON alongside them
+const CORE_FIELDS = ['id', 'title', 'category', 'day', 'start', 'durationMins', 'mood', 'notes'];
+
+/**
+ * The `#plan=` value for a plan. Layout: version byte, flags byte, expiry in
+ * seconds (when set), the deflated body, then an HMAC of everything before it
+ * (when signed). URL-safe base64 without padding.
+ */
+export async function encodeShareLink(plan: SharedPlan, options: ShareLinkOptions = {}): Promise<string> {
+  const header = [SHARE_LINK_VERSION, (options.secret ? SIGNED : 0) | (options.expiresAt ? EXPIRES : 0)];
+  if (options.expiresAt) {
+    const seconds = Math.floor(options.expiresAt.getTime() / 1000);
+    header.push(seconds >>> 24, (seconds >>> 16) & 0xff, (seconds >>> 8) & 0xff, seconds & 0xff);
+  }
+  const unsigned = concat([Uint8Array.from(header), await transform(writePlan(plan), new CompressionStream('deflate-raw'))]);
+  const bytes = options.secret ? concat([unsigned, await sign(options.secret, unsigned)]) : unsigned;
+  return toBase64Url(bytes);
+}
+
+/**
+ * Read a `#plan=` value, including the plain base64 JSON of older links.
+ * Throws ShareLinkError for damaged, expired or tampered links.
+ */
+export async function decodeShareLink(token: string, options: DecodeShareLinkOptions = {}): Promise<DecodedShareLink> {
+  let bytes: Bytes;
+  try {
+    bytes = fromBase64Url(token.trim());
+  } catch {
+    throw new ShareLinkError('This share link is damaged', 'MALFORMED');
+  }
+  if (bytes[0] === 0x7b) return decodeLegacy(bytes);
+  if (bytes.length < 2) throw new ShareLinkError('This share link is damaged', 'MALFORMED');
+  if (bytes[0] !== SHARE_LINK_VERSION) {
+    throw new ShareLinkError('This share link comes from a newer version of Weekendly', 'UNSUPPORTED_VERSION');
+  }
+
+  const flags = bytes[1];
+  let offset = 2;
+  let expiresAt: Date | undefined;
+  if (flags & EXPIRES) {
+    if (bytes.length < offset + 4) throw new ShareLinkError('This share link is damaged', 'MALFORMED');
+    const seconds = ((bytes[2] << 24) >>> 0) + (bytes[3] << 16) + (bytes[4] << 8) + bytes[5];
+    expiresAt = new Date(seconds * 1000);
+    offset += 4;
+  }
+
+  let end = bytes.length;
+  let signature: DecodedShareLink['signature'] = 'none';
+  if (flags & SIGNED) {
+    end -= SIGNATURE_BYTES;
+    if (end < offset) throw new ShareLinkError('This share link is damaged', 'MALFORMED');
+    if (options.secret) {
+      if (!(await verify(options.secret, bytes.subarray(0, end), bytes.subarray(end)))) {
+        throw new ShareLinkError('This share link was changed after it was shared, or signed with another passphrase', 'BAD_SIGNATURE');
+      }
+      signature = 'valid';
+    } else {
+      signature = 'unchecked';
+    }
+  }
+  if (expiresAt && expiresAt.getTime() <= (options.now ?? new Date()).getTime()) {
+    throw new ShareLinkError('This share link has expired', 'EXPIRED');
+  }
+
+  let plan: SharedPlan;
+  try {
+    plan = readPlan(await transform(bytes.slice(offset, end), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new ShareLinkError('This share link is damaged', 'MALFORMED');
+  }
+  return { plan: validated(plan), version: SHARE_LINK_VERSION, signature, expiresAt };
+}
+
+// Links from before versioning: base64 of the plan's JSON, Latin-1 only
+function decodeLegacy(bytes: Bytes): DecodedShareLink {
+  try {
+    const data = JSON.parse(Array.from(bytes, b => String.fromCharCode(b)).join('')) as Partial<SharedPlan>;
+    if (!Array.isArray(data.activities)) throw new Error('No activities');
+    const theme = THEMES.includes(data.theme!) ? data.theme! : 'lazy';
+    const plan: SharedPlan = { theme, activities: data.activities };
+    if (typeof data.weekendOf === 'string') plan.weekendOf = data.weekendOf;
+    return { plan: validated(plan), version: 0, signature: 'none' };
+  } catch (error) {
+    if (error instanceof ShareLinkError) throw error;
+    throw new ShareLinkError('This share link is damaged', 'MALFORMED');
+  }
+}
+
+// Decoded plans go through the import schema before anyone sees them
+function validated(plan: SharedPlan): SharedPlan {
+  const result = parseSharedPlan(plan);
+  if (!result.ok) {
+    const [issue] = result.issues;
+    throw new ShareLinkError(`This share link has invalid data (${issue.path}: ${issue.message})`, 'MALFORMED');
+  }
+  return result.plan;
+}
+
+function writePlan(plan: SharedPlan): Bytes {
+  const out = new ByteWriter();
+  out.uint(THEMES.indexOf(plan.theme));
+  out.string(plan.weekendOf ?? '');
+  out.string(plan.name ?? '');
+  out.uint(plan.activities.length);
+  for (const activity of plan.activities) {
+    out.string(activity.id);
+    out.string(activity.title);
+    out.uint(CATEGORIES.indexOf(activity.category));
+    out.uint(DAYS.indexOf(activity.day));
+    out.uint(toMinutes(activity.start));
+    out.uint(activity.durationMins);
+    out.uint(activity.mood ? MOODS.indexOf(activity.mood) + 1 : 0);
+    out.string(activity.notes ?? '');
+    const rest = Object.fromEntries(Object.entries(activity).filter(([key, value]) => !CORE_FIELDS.includes(key) && value !== undefined));
+    out.string(Object.keys(rest).length > 0 ? JSON.stringify(rest) : '');
+  }
+  return out.bytes();
+}
+
+function readPlan(bytes: Bytes): SharedPlan {
+  const input = new ByteReader(bytes);
+  const plan: SharedPlan = { theme: pick(THEMES, input.uint()), activities: [] };
+  const weekendOf = input.string();
+  const name = input.string();
+  if (weekendOf) plan.weekendOf = weekendOf;
+  if (name) plan.name = name;
+
+  const count = input.uint();
+  for (let i = 0; i < count; i++) {
+    const id = input.string();
+    const title = input.string();
+    const category = pick(CATEGORIES, input.uint());
+    const day = pick(DAYS, input.uint());
+    const startMins = input.uint();
+    const durationMins = input.uint();
+    const mood = input.uint();
+    const notes = input.string();
+    const rest = input.string();
+    const activity: WeekendActivity = {
+      ...(rest ? (JSON.parse(rest) as Partial<WeekendActivity>) : {}),
+      id,
+      title,
+      category,
+      day,
+      start: toTimeString(startMins),
+      durationMins,
+    };
+    if (mood) activity.mood = pick(MOODS, mood - 1);
+    if (notes) activity.notes = notes;
+    plan.activities.push(activity);
+  }
+  if (!input.done) throw new RangeError('Trailing bytes');
+  return plan;
+}
+
+function pick<T>(values: T[], index: number): T {
+  if (index >= values.length) throw new RangeError(`Unknown value ${index}`);
+  return values[index];
+}
+
+// Unsigned LEB128 integers and length-prefixed UTF-8 strings
+class ByteWriter {
+  private parts: number[] = [];
+
+  uint(value: number): void {
+    let rest = Math.max(0, Math.floor(value));
+    while (rest >= 0x80) {
+      this.parts.push((rest % 0x80) | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.parts.push(rest);
+  }
+
+  string(value: string): void {
+    const utf8 = new TextEncoder().encode(value);
+    this.uint(utf8.length);
+    for (const byte of utf8) this.parts.push(byte);
+  }
+
+  bytes(): Bytes {
+    return Uint8Array.from(this.parts);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private data: Bytes) {}
+
+  get done(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  uint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.next();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  string(): string {
+    const length = this.uint();
+    if (this.offset + length > this.data.length) throw new RangeError('String past the end');
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(this.data.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return text;
+  }
+
+  private next(): number {
+    if (this.offset >= this.data.length) throw new RangeError('Unexpected end of data');
+    return this.data[this.offset++];
+  }
+}
+
+async function transform(bytes: Bytes, stream: CompressionStream | DecompressionStream): Promise<Bytes> {
+  const writer = stream.writable.getWriter();
+  // Errors surface on the readable side
+  writer.write(bytes).catch(() => undefined);
+  writer.close().catch(() => undefined);
+  const reader = stream.readable.getReader();
+  const chunks: Bytes[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return concat(chunks);
+    chunks.push(value);
+  }
+}
+
+function hmacKey(secret: string, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [usage]);
+}
+
+async function sign(secret: string, data: Bytes): Promise<Bytes> {
+  return new Uint8Array(await crypto.subtle.sign('HMAC', await hmacKey(secret, 'sign'), data));
+}
+
+async function verify(secret: string, data: Bytes, signature: Bytes): Promise<boolean> {
+  return crypto.subtle.verify('HMAC', await hmacKey(secret, 'verify'), signature, data);
+}
+
+function concat(chunks: Bytes[]): Bytes {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+function toBase64Url(bytes: Bytes): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Also reads the padded standard alphabet of older links
+function fromBase64Url(text: string): Bytes {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
@@ -0,0 +1,147 @@
+/**
+ * Reference sync backend for Weekendly
+ * Version-checked plan storage behind the /api/sync route, persisted to a JSON file
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { StoredPlan } from './migrations';
+
+export type SyncMutation =
+  | { type: 'upsert'; plan: StoredPlan & { id: string; version: number } }
+  | { type: 'delete'; planId: string; version: number };
+
+// Server-side copy of a plan, or a tombstone once it is deleted
+export interface RemoteRecord {
+  planId: string;
+  version: number;
+  seq: number; // position in the change feed
+  deleted: boolean;
+  plan?: StoredPlan;
+}
+
+export interface SyncBackendState {
+  seq: number;
+  records: Record<string, RemoteRecord>;
+}
+
+export interface PushResponse {
+  accepted: string[]; // plan ids
+  conflicts: RemoteRecord[]; // the server's copy of every rejected plan
+  cursor: number;
+}
+
+export interface PullResponse {
+  changes: RemoteRecord[];
+  cursor: number;
+}
+
+// Sync keys are generated by the app; anything this short was typed or guessed
+const MIN_SYNC_KEY_LENGTH = 16;
+
+/**
+ * The sync space of a request, from its `Authorization: Bearer <sync key>`
+ * header, or null without a usable key. Devices sharing a key share a space.
+ * Spaces are named by a hash of the key, so the key never reaches the disk.
+ */
+export function syncSpaceOf(authorization: string | null): string | null {
+  const key = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!key || key.length < MIN_SYNC_KEY_LENGTH) return null;
+  return createHash('sha256').update(key).digest('hex').slice(0, 32);
+}
+
+export function emptySyncState(): SyncBackendState {
+  return { seq: 0, records: {} };
+}
+
+export function isSyncMutation(value: unknown): value is SyncMutation {
+  const m = value as Record<string, any> | null;
+  if (!m || typeof m !== 'object') return false;
+  if (m.type === 'upsert') {
+    return !!m.plan && typeof m.plan.id === 'string' && typeof m.plan.version === 'number';
+  }
+  return m.type === 'delete' && typeof m.planId === 'string' && typeof m.version === 'number';
+}
+
+/**
+ * Apply pushed mutations. The higher version wins; on a tie the server's copy is kept
+ * and returned as a conflict.
+ */
+export function applyPush(state: SyncBackendState, mutations: SyncMutation[]): PushResponse {
+  const accepted: string[] = [];
+  const conflicts: RemoteRecord[] = [];
+
+  for (const mutation of mutations) {
+    const planId = mutation.type === 'upsert' ? mutation.plan.id : mutation.planId;
+    const version = mutation.type === 'upsert' ? mutation.plan.version : mutation.version;
+    const existing = state.records[planId];
+
+    // Deleting is allowed from the version the client last saw
+    if (existing && (mutation.type === 'delete' ? version < existing.version : version <= existing.version)) {
+      conflicts.push(existing);
+      continue;
+    }
+
+    state.seq += 1;
+    state.records[planId] = mutation.type === 'upsert'
+      ? { planId, version, seq: state.seq, deleted: false, plan: mutation.plan }
+      : { planId, version, seq: state.seq, deleted: true };
+    accepted.push(planId);
+  }
+
+  return { accepted, conflicts, cursor: state.seq };
+}
+
+export function changesSince(state: SyncBackendState, since: number): PullResponse {
+  const changes = Object.values(state.records)
+    .filter(record => record.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  return { changes, cursor: state.seq };
+}
+
+/**
+ * File-backed store for the route handler. Requests are serialized so concurrent
+ * pushes never interleave their read-modify-write cycles.
+ */
+export class FileSyncStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  push(mutations: SyncMutation[]): Promise<PushResponse> {
+    return this.exclusive(async () => {
+      const state = await this.load();
+      const response = applyPush(state, mutations);
+      if (response.accepted.length > 0) await this.save(state);
+      return response;
+    });
+  }
+
+  pull(since: number): Promise<PullResponse> {
+    return this.exclusive(async () => changesSince(await this.load(), since));
+  }
+
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(work, work);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<SyncBackendState> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptySyncState();
+      throw error;
+    }
+  }
+
+  // Write to a temporary file first so a crash never leaves half a JSON document
+  private async save(state: SyncBackendState): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(state));
+    await fs.rename(tmp, this.filePath);
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Remote sync for Weekendly
+ * Local plan changes are queued in the `sync` store (the outbox) and pushed and
+ * pulled through a pluggable SyncAdapter whenever the app is online. Sync is
+ * off until the user sets a sync key; devices with the same key share plans.
+ */
+
+import type { PlanChange } from './cross-tab';
+import { PersistenceError, type PersistenceManager, type SyncRecord, type WeekendPlan } from './persistence';
+import type { PullResponse, PushResponse, RemoteRecord, SyncMutation } from './sync-server';
+
+export interface SyncAdapter {
+  push(mutations: SyncMutation[]): Promise<PushResponse>;
+  pull(since: number): Promise<PullResponse>;
+}
+
+export interface SyncReport {
+  pushed: number;
+  conflicts: number; // local changes replaced by the server's newer copy
+  pulled: WeekendPlan[]; // plans created or updated from the server
+  deleted: string[]; // plan ids removed because they were deleted remotely
+  pending: number; // changes still waiting in the outbox
+}
+
+export interface SyncEngineOptions {
+  debounceMs?: number;
+  space?: string; // the sync key; moving to another space starts the feed over and re-sends every plan
+  onSync?: (report: SyncReport) => void;
+}
+
+interface OutboxEntry extends SyncRecord {
+  planId: string;
+  type: 'upsert' | 'delete';
+  version: number;
+  queuedAt: string;
+}
+
+interface SyncState extends SyncRecord {
+  cursor: number;
+  lastSync?: string;
+  space?: string;
+}
+
+const OUTBOX_PREFIX = 'outbox:';
+
+/**
+ * A new random sync key, to copy to the other devices that should share plans
+ */
+export function createSyncKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * Forget the feed position and queued changes, so turning sync back on sends every plan again
+ */
+export async function leaveSync(persistence: PersistenceManager): Promise<void> {
+  await persistence.deleteSyncRecord('state');
+  for (const entry of await persistence.getSyncRecords(OUTBOX_PREFIX)) {
+    await persistence.deleteSyncRecord(entry.key);
+  }
+}
+
+/**
+ * Talks to the reference backend in src/app/api/sync/route.ts
+ */
+export class HttpSyncAdapter implements SyncAdapter {
+  constructor(private syncKey: string, private endpoint = '/api/sync') {}
+
+  push(mutations: SyncMutation[]): Promise<PushResponse> {
+    return this.request(this.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mutations }),
+    });
+  }
+
+  pull(since: number): Promise<PullResponse> {
+    return this.request(`${this.endpoint}?since=${since}`);
+  }
+
+  private async request<T>(url: string, init: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, headers: { ...init.headers, Authorization: `Bearer ${this.syncKey}` } });
+    } catch (error) {
+      throw new PersistenceError('Sync server unreachable', 'NETWORK', error);
+    }
+    if (response.status === 401) {
+      throw new PersistenceError('The sync server did not accept the sync key', 'NETWORK');
+    }
+    if (!response.ok) {
+      throw new PersistenceError(`Sync request failed (${response.status})`, 'NETWORK');
+    }
+    return response.json();
+  }
+}
+
+export class SyncEngine {
+  private running: Promise<SyncReport> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Versions the engine wrote itself, so applying them isn't queued as a local edit
+  private applied = new Map<string, number>();
+  // Outbox writes still in flight; a sync waits for them so it never misses a fresh edit
+  private recording = new Set<Promise<void>>();
+
+  constructor(
+    private persistence: PersistenceManager,
+    private adapter: SyncAdapter,
+    private options: SyncEngineOptions = {},
+  ) {}
+
+  /**
+   * Start queueing local changes. Returns a function that stops the engine.
+   */
+  start(): () => void {
+    const unsubscribe = this.persistence.onLocalChange(change => {
+      const pending: Promise<void> = this.record(change)
+        .catch(error => console.warn('Failed to queue change for sync:', error))
+        .finally(() => this.recording.delete(pending));
+      this.recording.add(pending);
+    });
+
+    return () => {
+      unsubscribe();
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+    };
+  }
+
+  async record(change: PlanChange): Promise<void> {
+    if (this.applied.get(change.planId) === change.version) {
+      this.applied.delete(change.planId);
+      return;
+    }
+
+    await this.queue(change.planId, change.type === 'deleted' ? 'delete' : 'upsert', change.version);
+  }
+
+  private async queue(planId: string, type: OutboxEntry['type'], version: number): Promise<void> {
+    const entry: OutboxEntry = {
+      key: `${OUTBOX_PREFIX}${planId}`,
+      planId,
+      type,
+      version,
+      queuedAt: new Date().toISOString(),
+    };
+    await this.persistence.saveSyncRecord(entry);
+    if (isOnline()) this.schedule();
+  }
+
+  async pendingCount(): Promise<number> {
+    await Promise.all(this.recording);
+    return (await this.persistence.getSyncRecords(OUTBOX_PREFIX)).length;
+  }
+
+  /**
+   * Push the outbox, then pull remote changes. Concurrent callers share one run.
+   */
+  sync(): Promise<SyncReport> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Let a run in progress finish so this one sees everything queued since
+      (this.running ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => this.sync())
+        .catch(error => console.warn('Background sync failed:', error));
+    }, this.options.debounceMs ?? 1000);
+  }
+
+  private async run(): Promise<SyncReport> {
+    const report: SyncReport = { pushed: 0, conflicts: 0, pulled: [], deleted: [], pending: 0 };
+    await Promise.all(this.recording);
+    if (!isOnline()) {
+      report.pending = await this.pendingCount();
+      return report;
+    }
+
+    const space = this.options.space ?? '';
+    let state = await this.persistence.getSyncRecord<SyncState>('state');
+    if (!state || (state.space ?? '') !== space) {
+      // New to this space: read its feed from the start and send it everything we have
+      state = { key: 'state', cursor: 0, space };
+      for (const plan of await this.persistence.getAllPlans()) {
+        await this.queue(plan.id, 'upsert', plan.version);
+      }
+    }
+
+    await this.push(report);
+
+    const { changes, cursor } = await this.adapter.pull(state.cursor);
+    for (const remote of changes) {
+      await this.applyRemote(remote, report);
+    }
+    await this.persistence.saveSyncRecord({ ...state, cursor, lastSync: new Date().toISOString() });
+
+    report.pending = await this.pendingCount();
+    this.options.onSync?.(report);
+    return report;
+  }
+
+  private async push(report: SyncReport): Promise<void> {
+    const outbox = await this.persistence.getSyncRecords<OutboxEntry>(OUTBOX_PREFIX);
+    if (outbox.length === 0) return;
+
+    const mutations: SyncMutation[] = [];
+    for (const entry of outbox) {
+      if (entry.type === 'delete') {
+        mutations.push({ type: 'delete', planId: entry.planId, version: entry.version });
+        continue;
+      }
+      // Send the plan as it is now; several queued edits collapse into one upsert
+      const plan = await this.persistence.getPlan(entry.planId);
+      if (plan) mutations.push({ type: 'upsert', plan });
+      else await this.persistence.deleteSyncRecord(entry.key);
+    }
+
+    const response = await this.adapter.push(mutations);
+    for (const planId of response.accepted) {
+      await this.settle(outbox.find(e => e.planId === planId));
+    }
+    for (const remote of response.conflicts) {
+      await this.settle(outbox.find(e => e.planId === remote.planId));
+      // The server's copy is at least as new as ours, so it wins even on a tie
+      await this.applyRemote(remote, report, true);
+      report.conflicts += 1;
+    }
+    report.pushed = response.accepted.length;
+  }
+
+  // Drop an outbox entry unless it was re-queued while the push was in flight
+  private async settle(entry: OutboxEntry | undefined): Promise<void> {
+    if (!entry) return;
+    const current = await this.persistence.getSyncRecord<OutboxEntry>(entry.key);
+    if (current?.queuedAt === entry.queuedAt) {
+      await this.persistence.deleteSyncRecord(entry.key);
+    }
+  }
+
+  private async applyRemote(remote: RemoteRecord, report: SyncReport, force = false): Promise<void> {
+    // Unpushed local edits are settled by the next push, not overwritten by the feed
+    if (await this.persistence.getSyncRecord(`${OUTBOX_PREFIX}${remote.planId}`)) return;
+
+    const local = await this.persistence.getPlan(remote.planId);
+    if (remote.deleted) {
+      if (!local) return;
+      this.applied.set(local.id, local.version);
+      await this.persistence.deletePlan(local.id);
+      report.deleted.push(local.id);
+      return;
+    }
+
+    if (!remote.plan || (local && !force && local.version >= remote.version)) return;
+    const plan: WeekendPlan = {
+      ...(remote.plan as WeekendPlan),
+      createdAt: new Date(remote.plan.createdAt),
+      updatedAt: new Date(remote.plan.updatedAt),
+    };
+    // Our copy lost at the same version or later. Store the winner as a newer version,
+    // so ours stays in History instead of being overwritten, and send that back.
+    const bumped = !!local && local.version >= remote.version;
+    if (bumped) plan.version = local.version + 1;
+    this.applied.set(plan.id, plan.version);
+    await this.persistence.putPlan(plan);
+    if (bumped) await this.queue(plan.id, 'upsert', plan.version);
+    report.pulled.push(plan);
+  }
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
@@ -0,0 +1,130 @@
+/**
+ * Plan templates for Weekendly
+ * Places a template's activities on a weekend that may already have things scheduled
+ */
+
+import { activitiesOverlap } from './overlap';
+import type { WeekendActivity } from './persistence';
+import { toMinutes, toTimeString } from './time';
+import { travelShortfalls, type TravelOptions } from './travel';
+import { createActivityId } from './utils';
+import { FRIDAY_EVENING_MINS, WEEKEND_DAYS } from './weekends';
+
+type Timed = Pick<WeekendActivity, 'day' | 'start' | 'durationMins'>;
+
+// How a template activity that overlaps something already scheduled is handled
+export type PlacementStrategy = 'shift' | 'skip' | 'replace';
+
+export interface PlacementOptions {
+  strategy?: PlacementStrategy;
+  dayStartMins?: number; // earliest start a shifted activity may take
+  dayEndMins?: number; // latest end a shifted activity may take
+  stepMins?: number;
+  travel?: TravelOptions; // also fit around travel and buffer time
+  busy?: Timed[]; // taken by other calendars; never replaced
+}
+
+export interface PlacementResult {
+  activities: WeekendActivity[]; // the weekend after placing the template
+  added: WeekendActivity[];
+  shifted: WeekendActivity[]; // added, but at a different time than the template had
+  skipped: WeekendActivity[]; // template activities that found no room
+  replaced: WeekendActivity[]; // scheduled activities removed to make room; never locked ones
+}
+
+/**
+ * Add a template's activities to `scheduled`. Template activities get fresh ids so
+ * the same template can be placed more than once, and are placed as one-offs rather
+ * than as occurrences of the routines they came from.
+ */
+export function placeTemplate(
+  scheduled: WeekendActivity[],
+  template: WeekendActivity[],
+  { strategy = 'shift', dayStartMins = 5 * 60, dayEndMins = 23 * 60, stepMins = 15, travel, busy = [] }: PlacementOptions = {}
+): PlacementResult {
+  const result: PlacementResult = { activities: [...scheduled], added: [], shifted: [], skipped: [], replaced: [] };
+  const ordered = [...template].sort((a, b) =>
+    WEEKEND_DAYS.indexOf(a.day) - WEEKEND_DAYS.indexOf(b.day) || toMinutes(a.start) - toMinutes(b.start)
+  );
+
+  // Dependencies follow the fresh ids; ones on activities outside the template are dropped
+  const ids = new Map(template.map(a => [a.id, createActivityId()]));
+  for (const source of ordered) {
+    const dependsOn = source.dependsOn
+      ?.filter(d => ids.has(d.activityId))
+      .map(d => ({ ...d, activityId: ids.get(d.activityId)! }));
+    const candidate: WeekendActivity = {
+      ...source,
+      id: ids.get(source.id)!,
+      dependsOn: dependsOn?.length ? dependsOn : undefined,
+      recurrence: undefined,
+      seriesId: undefined,
+    };
+    const overlapping = clashes(result.activities, candidate, travel);
+    const isBusy = busy.some(b => activitiesOverlap(b, candidate));
+
+    if (overlapping.length === 0 && !isBusy) {
+      result.activities.push(candidate);
+      result.added.push(candidate);
+      continue;
+    }
+
+    // Only true overlaps make way. Locked activities, busy time and neighbours that are
+    // merely short on travel time stay; the template activity is fitted around them instead.
+    const inTheWay = overlapping.filter(a => activitiesOverlap(a, candidate));
+    if (strategy === 'replace' && !isBusy && !inTheWay.some(a => a.locked)) {
+      const rest = result.activities.filter(a => !inTheWay.includes(a));
+      if (clashes(rest, candidate, travel).length === 0) {
+        result.activities = rest;
+        result.replaced.push(...inTheWay.filter(a => scheduled.includes(a)));
+        result.activities.push(candidate);
+        result.added.push(candidate);
+        continue;
+      }
+    }
+
+    const start = strategy !== 'skip'
+      ? findFreeStart(result.activities, candidate, dayStartMins, dayEndMins, stepMins, travel, busy)
+      : null;
+    if (start === null) {
+      result.skipped.push(source);
+      continue;
+    }
+    const moved = { ...candidate, start: toTimeString(start) };
+    result.activities.push(moved);
+    result.added.push(moved);
+    result.shifted.push(moved);
+  }
+
+  return result;
+}
+
+// Nearest start to the original one, trying later before earlier at each distance
+function findFreeStart(
+  activities: WeekendActivity[],
+  candidate: WeekendActivity,
+  dayStartMins: number,
+  dayEndMins: number,
+  stepMins: number,
+  travel?: TravelOptions,
+  busy: Timed[] = []
+): number | null {
+  const original = toMinutes(candidate.start);
+  const earliest = candidate.day === 'friday' ? Math.max(dayStartMins, FRIDAY_EVENING_MINS) : dayStartMins;
+  const latest = dayEndMins - candidate.durationMins;
+  for (let offset = stepMins; offset <= dayEndMins - dayStartMins; offset += stepMins) {
+    for (const start of [original + offset, original - offset]) {
+      if (start < earliest || start > latest) continue;
+      const moved = { ...candidate, start: toTimeString(start) };
+      if (clashes(activities, moved, travel).length === 0 && !busy.some(b => activitiesOverlap(b, moved))) return start;
+    }
+  }
+  return null;
+}
+
+// Activities `candidate` overlaps, plus those too close to travel between when travel counts
+function clashes(activities: WeekendActivity[], candidate: WeekendActivity, travel?: TravelOptions): WeekendActivity[] {
+  const overlapping = activities.filter(a => activitiesOverlap(a, candidate));
+  if (!travel) return overlapping;
+  return [...overlapping, ...travelShortfalls(activities, candidate, travel).map(s => s.other)];
+}
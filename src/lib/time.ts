@@ -0,0 +1,114 @@
+/**
+ * Time of day for Weekendly
+ * Planning hours from settings and clock labels in the user's 12h or 24h format
+ */
+
+import type { WeekendActivity } from './persistence';
+
+export type TimeFormat = '12h' | '24h';
+
+// The part of each day the schedule plans, in minutes from midnight
+export interface DayHours {
+  startMins: number;
+  endMins: number;
+}
+
+export const DEFAULT_DAY_HOURS: DayHours = { startMins: 9 * 60, endMins: 22 * 60 };
+
+// Shortest planning window the settings accept
+export const MIN_DAY_HOURS_MINS = 60;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Planning hours from the start and end time settings. An end of "00:00" means
+ * midnight; a window that is unparseable or shorter than an hour falls back to the default.
+ */
+export function dayHours(startTime: string, endTime: string): DayHours {
+  if (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) return DEFAULT_DAY_HOURS;
+  const startMins = toMinutes(startTime);
+  const endMins = toMinutes(endTime) || 24 * 60;
+  return endMins - startMins >= MIN_DAY_HOURS_MINS ? { startMins, endMins } : DEFAULT_DAY_HOURS;
+}
+
+// Whole hours the timeline shows, widened so every activity stays on the track
+export function timelineHours(
+  hours: DayHours,
+  activities: Pick<WeekendActivity, 'start' | 'durationMins'>[] = []
+): { startHour: number; endHour: number } {
+  let start = hours.startMins;
+  let end = hours.endMins;
+  for (const a of activities) {
+    const s = toMinutes(a.start);
+    start = Math.min(start, s);
+    end = Math.max(end, s + a.durationMins);
+  }
+  return { startHour: Math.floor(start / 60), endHour: Math.min(24, Math.ceil(end / 60)) };
+}
+
+export function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(n => parseInt(n, 10));
+  return h * 60 + (m || 0);
+}
+
+// "HH:MM" in 24h, the format activities are stored in
+export function toTimeString(total: number): string {
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * "9:30 AM" or "09:30". Takes a stored "HH:MM" time or minutes from midnight;
+ * 24:00 is shown as midnight.
+ */
+export function formatTime(time: string | number, format: TimeFormat): string {
+  const total = typeof time === 'number' ? time : toMinutes(time);
+  if (format === '24h') return toTimeString(total);
+  const h = Math.floor(total / 60) % 24;
+  const m = total % 60;
+  return `${h % 12 || 12}:${String(m).padStart(2, '0')} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+// Hour axis label: "9 AM" or "09:00"
+export function formatHour(hour: number, format: TimeFormat): string {
+  if (format === '24h') return `${String(hour).padStart(2, '0')}:00`;
+  const h = hour % 24;
+  return `${h % 12 || 12} ${h < 12 ? 'AM' : 'PM'}`;
+}
+
+// "9:30 – 11:00 AM" or "09:30–11:00"
+export function formatTimeRange(start: string, durationMins: number, format: TimeFormat): string {
+  const end = toMinutes(start) + durationMins;
+  if (format === '24h') return `${start}–${toTimeString(end)}`;
+  const from = formatTime(start, format);
+  const to = formatTime(end, format);
+  return from.slice(-2) === to.slice(-2) ? `${from.slice(0, -3)} – ${to}` : `${from} – ${to}`;
+}
+
+/**
+ * Start times offered for a day, every `stepMins` within the planning hours
+ */
+export function timeSlots(hours: DayHours, { earliestMins = 0, stepMins = 15 }: { earliestMins?: number; stepMins?: number } = {}): string[] {
+  const slots: string[] = [];
+  const first = Math.ceil(Math.max(hours.startMins, earliestMins) / stepMins) * stepMins;
+  for (let mins = first; mins < hours.endMins; mins += stepMins) slots.push(toTimeString(mins));
+  return slots;
+}
+
+/**
+ * Start for an activity added without a time: the next half hour after the day's
+ * last activity, else 10:00, kept within the planning hours.
+ */
+export function pickNextStartTime(
+  existing: Pick<WeekendActivity, 'day' | 'start' | 'durationMins'>[],
+  { day = 'saturday', hours = DEFAULT_DAY_HOURS, earliestMins = 0 }: { day?: WeekendActivity['day']; hours?: DayHours; earliestMins?: number } = {}
+): string {
+  const first = Math.max(hours.startMins, earliestMins);
+  const latest = hours.endMins - 30;
+  const dayActs = existing.filter(a => a.day === day);
+  const next = dayActs.length === 0
+    ? 10 * 60
+    : Math.ceil(dayActs.reduce((max, a) => Math.max(max, toMinutes(a.start) + a.durationMins), first) / 30) * 30;
+  return toTimeString(Math.max(first, Math.min(next, latest)));
+}
@@ -0,0 +1,217 @@
+/**
+ * Travel time for Weekendly
+ * Time needed between consecutive activities: getting from one place to the next,
+ * plus an optional buffer, from a pluggable estimator
+ */
+
+import type { ActivityLocation, WeekendActivity } from './persistence';
+import { toMinutes } from './time';
+
+type Travelled = Pick<WeekendActivity, 'id' | 'title' | 'day' | 'start' | 'durationMins' | 'location' | 'travelMins'>;
+
+/**
+ * Minutes to get from one place to another. Estimators are synchronous because
+ * conflicts are checked on every drag; one backed by a routing service should
+ * answer from a cache it fills ahead of time.
+ */
+export interface TravelEstimator {
+  estimateMins(from: ActivityLocation, to: ActivityLocation): number;
+}
+
+export interface DistanceEstimatorOptions {
+  speedKmh?: number; // door to door, traffic and transit included; default 25
+  overheadMins?: number; // parking, waiting, walking in; default 5
+  fallbackMins?: number; // different places without coordinates; default 15
+  roundToMins?: number; // default 5
+}
+
+export interface TravelOptions {
+  estimator?: TravelEstimator;
+  bufferMins?: number; // breathing room between any two activities, on top of travel
+}
+
+// Time between two consecutive activities, drawn as a hatched block before the later one
+export interface TransitBlock {
+  id: string;
+  day: WeekendActivity['day'];
+  fromId: string;
+  toId: string;
+  start: number; // minutes from midnight
+  travelMins: number;
+  bufferMins: number;
+  neededMins: number; // travel plus buffer
+  gapMins: number; // what the plan leaves
+  label: string;
+}
+
+export interface TravelShortfall<T extends Travelled = Travelled> {
+  other: T;
+  position: 'before' | 'after'; // where `other` sits relative to the candidate
+  neededMins: number;
+  gapMins: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Offline estimate from straight-line distance at an average speed. Places with
+ * the same name are the same place; different ones without coordinates take `fallbackMins`.
+ */
+export class DistanceEstimator implements TravelEstimator {
+  private speedKmh: number;
+  private overheadMins: number;
+  private fallbackMins: number;
+  private roundToMins: number;
+
+  constructor({ speedKmh = 25, overheadMins = 5, fallbackMins = 15, roundToMins = 5 }: DistanceEstimatorOptions = {}) {
+    this.speedKmh = speedKmh;
+    this.overheadMins = overheadMins;
+    this.fallbackMins = fallbackMins;
+    this.roundToMins = roundToMins;
+  }
+
+  estimateMins(from: ActivityLocation, to: ActivityLocation): number {
+    if (hasCoordinates(from) && hasCoordinates(to)) {
+      const km = distanceKm(from, to);
+      if (km < 0.1) return 0;
+      const mins = this.overheadMins + (km / this.speedKmh) * 60;
+      return Math.ceil(mins / this.roundToMins) * this.roundToMins;
+    }
+    return samePlace(from, to) ? 0 : this.fallbackMins;
+  }
+}
+
+export const defaultEstimator: TravelEstimator = new DistanceEstimator();
+
+// Great-circle distance
+export function distanceKm(a: { lat?: number; lng?: number }, b: { lat?: number; lng?: number }): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat! - a.lat!);
+  const dLng = rad(b.lng! - a.lng!);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat!)) * Math.cos(rad(b.lat!)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * "48.8584, 2.2945" into coordinates; null when it isn't a valid pair
+ */
+export function parseCoordinates(text: string): { lat: number; lng: number } | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[, ]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+}
+
+/**
+ * Travel from `from` to `to`: the later activity's own travel time if it has one,
+ * else the estimate between their locations. Nothing is known without both locations.
+ */
+export function travelMinsBetween(from: Travelled, to: Travelled, { estimator = defaultEstimator }: TravelOptions = {}): number {
+  if (to.travelMins != null) return to.travelMins;
+  if (!from.location || !to.location) return 0;
+  return estimator.estimateMins(from.location, to.location);
+}
+
+export function neededMinsBetween(from: Travelled, to: Travelled, options: TravelOptions = {}): number {
+  return travelMinsBetween(from, to, options) + (options.bufferMins ?? 0);
+}
+
+/**
+ * Travel and buffer blocks for one day, one before each activity that follows
+ * another. Overlapping activities are left to the overlap rules.
+ */
+export function transitBlocks(activities: Travelled[], day: WeekendActivity['day'], options: TravelOptions = {}): TransitBlock[] {
+  const dayActs = activities.filter(a => a.day === day).sort((a, b) => toMinutes(a.start) - toMinutes(b.start));
+  const blocks: TransitBlock[] = [];
+  for (let i = 1; i < dayActs.length; i++) {
+    const to = dayActs[i];
+    const earlier = dayActs.slice(0, i);
+    // Already there with whatever it overlaps
+    if (earlier.some(a => toMinutes(a.start) + a.durationMins > toMinutes(to.start))) continue;
+    const from = previousOf(earlier, to);
+    if (!from) continue;
+    const travelMins = travelMinsBetween(from, to, options);
+    const bufferMins = options.bufferMins ?? 0;
+    const neededMins = travelMins + bufferMins;
+    if (neededMins === 0) continue;
+    const toStart = toMinutes(to.start);
+    blocks.push({
+      id: `${from.id}->${to.id}`,
+      day,
+      fromId: from.id,
+      toId: to.id,
+      start: toStart - neededMins,
+      travelMins,
+      bufferMins,
+      neededMins,
+      gapMins: toStart - (toMinutes(from.start) + from.durationMins),
+      label: transitLabel(from, to, travelMins, bufferMins),
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Neighbours of `candidate` that leave it less than the travel and buffer time it
+ * needs: the activity just before it and the one just after, on the same day
+ */
+export function travelShortfalls<T extends Travelled>(
+  activities: T[],
+  candidate: Travelled,
+  { excludeId, ...options }: TravelOptions & { excludeId?: string } = {}
+): TravelShortfall<T>[] {
+  const start = toMinutes(candidate.start);
+  const end = start + candidate.durationMins;
+  const others = activities.filter(a => a.day === candidate.day && a.id !== excludeId && a.id !== candidate.id);
+  const before = others
+    .filter(a => toMinutes(a.start) + a.durationMins <= start)
+    .sort((a, b) => toMinutes(b.start) + b.durationMins - (toMinutes(a.start) + a.durationMins))[0];
+  const after = others.filter(a => toMinutes(a.start) >= end).sort((a, b) => toMinutes(a.start) - toMinutes(b.start))[0];
+
+  const result: TravelShortfall<T>[] = [];
+  if (before) {
+    const gapMins = start - (toMinutes(before.start) + before.durationMins);
+    const neededMins = neededMinsBetween(before, candidate, options);
+    if (gapMins < neededMins) result.push({ other: before, position: 'before', neededMins, gapMins });
+  }
+  if (after) {
+    const gapMins = toMinutes(after.start) - end;
+    const neededMins = neededMinsBetween(candidate, after, options);
+    if (gapMins < neededMins) result.push({ other: after, position: 'after', neededMins, gapMins });
+  }
+  return result;
+}
+
+/**
+ * Why `candidate` can't go where it is, for a toast
+ */
+export function describeShortfall(candidate: Travelled, shortfall: TravelShortfall): string {
+  const [from, to] = shortfall.position === 'before' ? [shortfall.other, candidate] : [candidate, shortfall.other];
+  const where = from.location && to.location && !samePlace(from.location, to.location)
+    ? `get from ${from.location.name} to ${to.location.name}`
+    : `get from ${from.title} to ${to.title}`;
+  return `It takes ${shortfall.neededMins} min to ${where}, but there ${shortfall.gapMins === 1 ? 'is' : 'are'} only ${Math.max(0, shortfall.gapMins)} min between them.`;
+}
+
+// The latest-ending activity among those that end by the time `to` starts
+function previousOf(earlier: Travelled[], to: Travelled): Travelled | undefined {
+  const toStart = toMinutes(to.start);
+  return earlier
+    .filter(a => toMinutes(a.start) + a.durationMins <= toStart)
+    .reduce<Travelled | undefined>((best, a) => (!best || toMinutes(a.start) + a.durationMins > toMinutes(best.start) + best.durationMins ? a : best), undefined);
+}
+
+function transitLabel(from: Travelled, to: Travelled, travelMins: number, bufferMins: number): string {
+  if (travelMins === 0) return `${bufferMins} min buffer`;
+  const where = to.location && from.location && !samePlace(from.location, to.location) ? ` to ${to.location.name}` : '';
+  return `${travelMins} min travel${where}${bufferMins ? ` + ${bufferMins} min buffer` : ''}`;
+}
+
+function hasCoordinates(location: ActivityLocation): boolean {
+  return typeof location.lat === 'number' && typeof location.lng === 'number';
+}
+
+function samePlace(a: ActivityLocation, b: ActivityLocation): boolean {
+  return a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+}
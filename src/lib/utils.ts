@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Ids for activities made in the app, e.g. act_1761300000000_k3j9x2
+export function createActivityId(): string {
+  return `act_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+// "saturday" → "Saturday"
+export function capitalize(s: string): string {
+  return s.charAt(0).toUpperCase() + s.slice(1)
+}
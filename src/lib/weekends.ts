@@ -0,0 +1,162 @@
+/**
+ * Calendar weekends for Weekendly
+ * A plan is bound to a weekend by the ISO date (YYYY-MM-DD) of that weekend's Saturday
+ */
+
+import { parseIsoDate, toIsoDate } from './dates';
+import { holidayOn, type HolidayRegion } from './holidays';
+import type { WeekendActivity, WeekendPlan } from './persistence';
+
+export const WEEKEND_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export type WeekendDay = WeekendActivity['day'];
+
+// Every day a weekend can span, in order
+export const WEEKEND_DAYS: WeekendDay[] = ['friday', 'saturday', 'sunday', 'monday'];
+
+// Days from the weekend's Saturday
+const DAY_OFFSETS: Record<WeekendDay, number> = { friday: -1, saturday: 0, sunday: 1, monday: 2 };
+
+// A Friday only counts from the end of the working day
+export const FRIDAY_EVENING_MINS = 17 * 60;
+
+// Which days a weekend spans, from the user's settings
+export interface DayRange {
+  weekendStart: 'friday' | 'saturday';
+  weekendEnd: 'sunday' | 'monday';
+  holidayRegion: HolidayRegion; // a public-holiday Monday joins the weekend
+}
+
+export const DEFAULT_DAY_RANGE: DayRange = { weekendStart: 'saturday', weekendEnd: 'sunday', holidayRegion: 'none' };
+
+export interface ScheduleDay {
+  day: WeekendDay;
+  earliestMins?: number; // nothing starts before this, e.g. on Friday evening
+  holiday?: string; // name of the public holiday that adds the day
+}
+
+export interface WeekendGroup {
+  weekend: string;
+  plans: WeekendPlan[];
+}
+
+export interface WeekendOverview {
+  upcoming: WeekendGroup[]; // this weekend first, then later ones
+  past: WeekendGroup[]; // most recent first
+  undated: WeekendPlan[];
+}
+
+/**
+ * The weekend `date` falls in. Weekdays belong to the weekend that follows them.
+ */
+export function weekendOf(date: Date = new Date()): string {
+  const day = startOfDay(date);
+  const weekday = day.getDay(); // 0 Sun .. 6 Sat
+  day.setDate(day.getDate() + (weekday === 0 ? -1 : 6 - weekday));
+  return toIsoDate(day);
+}
+
+export function addWeekends(weekend: string, count: number): string {
+  const saturday = parseIsoDate(weekend);
+  saturday.setDate(saturday.getDate() + count * 7);
+  return toIsoDate(saturday);
+}
+
+/**
+ * Local midnight of one day of a weekend
+ */
+export function weekendDayDate(weekend: string, day: WeekendDay): Date {
+  const date = parseIsoDate(weekend);
+  date.setDate(date.getDate() + DAY_OFFSETS[day]);
+  return date;
+}
+
+// A weekend is past once its Sunday is over
+export function isPastWeekend(weekend: string, now: Date = new Date()): boolean {
+  return weekendDayDate(weekend, 'sunday') < startOfDay(now);
+}
+
+/**
+ * "Sat, Oct 24 – Sun, Oct 25", with the year when it isn't the current one.
+ * Pass `first` and `last` for weekends that span other days.
+ */
+export function formatWeekend(
+  weekend: string,
+  { now = new Date(), first = 'saturday', last = 'sunday' }: { now?: Date; first?: WeekendDay; last?: WeekendDay } = {}
+): string {
+  const start = weekendDayDate(weekend, first);
+  const end = weekendDayDate(weekend, last);
+  const options: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
+  const year = end.getFullYear() !== now.getFullYear() ? `, ${end.getFullYear()}` : '';
+  return `${start.toLocaleDateString(undefined, options)} – ${end.toLocaleDateString(undefined, options)}${year}`;
+}
+
+// "Oct 24", the weekend's Saturday
+export function formatWeekendShort(weekend: string): string {
+  return parseIsoDate(weekend).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+// "Saturday, Oct 24"
+export function formatWeekendDay(weekend: string, day: WeekendDay): string {
+  return weekendDayDate(weekend, day).toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' });
+}
+
+/**
+ * Days a weekend's schedule shows: the configured range, a public-holiday Monday
+ * when the weekend has a date, and any other day that already has activities
+ */
+export function weekendDays(
+  range: DayRange,
+  { weekend, activities = [] }: { weekend?: string | null; activities?: Pick<WeekendActivity, 'day'>[] } = {}
+): ScheduleDay[] {
+  const holidayMonday = weekend && range.holidayRegion !== 'none'
+    ? holidayOn(weekendDayDate(weekend, 'monday'), range.holidayRegion)
+    : null;
+  const included: Record<WeekendDay, boolean> = {
+    friday: range.weekendStart === 'friday',
+    saturday: true,
+    sunday: true,
+    monday: range.weekendEnd === 'monday' || !!holidayMonday,
+  };
+  return WEEKEND_DAYS
+    .filter(day => included[day] || activities.some(a => a.day === day))
+    .map(day => ({
+      day,
+      ...(day === 'friday' ? { earliestMins: FRIDAY_EVENING_MINS } : {}),
+      ...(day === 'monday' && holidayMonday ? { holiday: holidayMonday.name } : {}),
+    }));
+}
+
+/**
+ * Group plans by the weekend they are bound to. `ahead` adds the coming weekends
+ * that have nothing planned yet, so they can be planned from the overview.
+ */
+export function groupPlansByWeekend(
+  plans: WeekendPlan[],
+  { now = new Date(), ahead = 0 }: { now?: Date; ahead?: number } = {}
+): WeekendOverview {
+  const byWeekend = new Map<string, WeekendPlan[]>();
+  for (let i = 0; i < ahead; i++) byWeekend.set(addWeekends(weekendOf(now), i), []);
+  const undated: WeekendPlan[] = [];
+  for (const plan of plans) {
+    const weekend = plan.metadata?.weekendOf;
+    if (!weekend) {
+      undated.push(plan);
+      continue;
+    }
+    byWeekend.set(weekend, [...(byWeekend.get(weekend) ?? []), plan]);
+  }
+
+  const groups = [...byWeekend.entries()]
+    .map(([weekend, grouped]) => ({ weekend, plans: grouped }))
+    .sort((a, b) => a.weekend.localeCompare(b.weekend));
+  return {
+    upcoming: groups.filter(g => !isPastWeekend(g.weekend, now)),
+    past: groups.filter(g => isPastWeekend(g.weekend, now)).reverse(),
+    undated,
+  };
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}